@@ -0,0 +1,273 @@
+/**
+ * Contentful type generator
+ *
+ * Generates the entry skeletons and field union types in
+ * src/types/contentful.generated.ts from the content model checked in at
+ * contentful/content-model.json, then checks that the hand-written view types
+ * in src/types/contentful.ts only reference fields the model still has.
+ *
+ * Regenerate after changing the model:
+ *   npm run generate:types
+ * Verify the generated file is up to date without writing it:
+ *   npm run generate:types -- --check
+ *
+ * Refresh the model itself from the space with
+ * `contentful space export --skip-content --content-file contentful/content-model.json`.
+ *
+ * Exits with code 1 when the generated file is stale or a view type is broken.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import ts from "typescript";
+
+const ROOT = join(__dirname, "..");
+const MODEL_PATH = join(ROOT, "contentful/content-model.json");
+const OUTPUT_PATH = join(ROOT, "src/types/contentful.generated.ts");
+const VIEWS_PATH = join(ROOT, "src/types/contentful.ts");
+
+// =============================================================================
+// Content Model
+// =============================================================================
+
+interface FieldValidation {
+  in?: (string | number)[];
+  linkContentType?: string[];
+}
+
+interface FieldItems {
+  type: string;
+  linkType?: "Entry" | "Asset";
+  validations?: FieldValidation[];
+}
+
+interface ContentField extends FieldItems {
+  id: string;
+  name: string;
+  required: boolean;
+  disabled?: boolean;
+  omitted?: boolean;
+  items?: FieldItems;
+}
+
+interface ContentType {
+  sys: { id: string };
+  name: string;
+  fields: ContentField[];
+}
+
+// Type names that do not follow PascalCase of the content type id
+const TYPE_NAMES: Record<string, string> = {
+  faq: "FAQ",
+};
+
+// JSON object fields, typed by hand in src/types/contentful.ts
+const OBJECT_FIELD_TYPES: Record<string, string> = {
+  "navigation.items": "NavigationItem[]",
+};
+
+// View type properties computed in schemas.ts rather than read from a field
+const DERIVED_VIEW_FIELDS: Record<string, string[]> = {
+  siteSettings: ["tagline", "anniversaryActive", "phone", "email", "gpsLatitude", "gpsLongitude"],
+  page: ["parentSlug", "parentTitle"],
+  ageGroup: ["id"],
+};
+
+function pascalCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function typeName(contentType: ContentType): string {
+  return TYPE_NAMES[contentType.sys.id] ?? pascalCase(contentType.sys.id);
+}
+
+/** Name of the union generated for a field with an `in` validation, e.g. FAQCategory. */
+function unionName(contentType: ContentType, field: ContentField): string {
+  return field.id.startsWith(contentType.sys.id)
+    ? pascalCase(field.id)
+    : `${typeName(contentType)}${pascalCase(field.id)}`;
+}
+
+function allowedValues(validations: FieldValidation[] | undefined) {
+  return validations?.find((validation) => validation.in)?.in;
+}
+
+function activeFields(contentType: ContentType): ContentField[] {
+  return contentType.fields.filter((field) => !field.disabled && !field.omitted);
+}
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+function fieldType(
+  model: ContentType[],
+  contentType: ContentType,
+  field: FieldItems & { id: string },
+  unions: Map<string, string>
+): string {
+  switch (field.type) {
+    case "Symbol":
+    case "Text":
+    case "Date":
+      return unions.get(field.id) ?? "string";
+    case "Integer":
+    case "Number":
+      return unions.get(field.id) ?? "number";
+    case "Boolean":
+      return "boolean";
+    case "RichText":
+      return "Document";
+    case "Location":
+      return "{ lat: number; lon: number }";
+    case "Object":
+      return OBJECT_FIELD_TYPES[`${contentType.sys.id}.${field.id}`] ?? "Record<string, unknown>";
+    case "Link": {
+      if (field.linkType === "Asset") return "Asset";
+      const targets = field.validations?.find((validation) => validation.linkContentType)
+        ?.linkContentType;
+      const skeletons = (targets ?? [])
+        .map((id) => model.find((type) => type.sys.id === id))
+        .filter((type): type is ContentType => !!type)
+        .map((type) => `${typeName(type)}Skeleton`);
+      return `Entry<${skeletons.length ? skeletons.join(" | ") : "EntrySkeletonType"}>`;
+    }
+    case "Array": {
+      const items = (field as ContentField).items;
+      if (!items) return "unknown[]";
+      const itemType = fieldType(model, contentType, { ...items, id: field.id }, unions);
+      return itemType.includes(" ") ? `(${itemType})[]` : `${itemType}[]`;
+    }
+    default:
+      throw new Error(`${contentType.sys.id}.${field.id}: unsupported field type "${field.type}"`);
+  }
+}
+
+function generate(model: ContentType[]): string {
+  const usesObjectTypes = model.some((contentType) =>
+    contentType.fields.some((field) => `${contentType.sys.id}.${field.id}` in OBJECT_FIELD_TYPES)
+  );
+
+  const lines = [
+    "// This file is generated by scripts/generate-contentful-types.ts from",
+    "// contentful/content-model.json. Do not edit it by hand: update the model",
+    "// and run `npm run generate:types`.",
+    "",
+    'import type { Document } from "@contentful/rich-text-types";',
+    'import type { Asset, Entry, EntrySkeletonType } from "contentful";',
+    ...(usesObjectTypes ? ['import type { NavigationItem } from "./contentful";'] : []),
+  ];
+
+  for (const contentType of model) {
+    const name = typeName(contentType);
+    const fields = activeFields(contentType);
+    const unions = new Map<string, string>();
+
+    lines.push(
+      "",
+      "// =============================================================================",
+      `// ${contentType.name}`,
+      "// ============================================================================="
+    );
+
+    for (const field of fields) {
+      const values = allowedValues(field.validations) ?? allowedValues(field.items?.validations);
+      if (!values) continue;
+      const union = unionName(contentType, field);
+      unions.set(field.id, union);
+      lines.push("", `export type ${union} = ${values.map((value) => JSON.stringify(value)).join(" | ")};`);
+    }
+
+    lines.push(
+      "",
+      `export interface ${name}Skeleton extends EntrySkeletonType {`,
+      `  contentTypeId: "${contentType.sys.id}";`,
+      "  fields: {"
+    );
+    for (const field of fields) {
+      const optional = field.required ? "" : "?";
+      lines.push(`    ${field.id}${optional}: ${fieldType(model, contentType, field, unions)};`);
+    }
+    lines.push("  };", "}");
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+// =============================================================================
+// View Type Check
+// =============================================================================
+
+/**
+ * Find properties of the hand-written view types (e.g. `Service`) that are
+ * neither a field of the matching content type nor a known derived property.
+ */
+function checkViewTypes(model: ContentType[]): string[] {
+  const source = ts.createSourceFile(
+    VIEWS_PATH,
+    readFileSync(VIEWS_PATH, "utf8"),
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const contentTypesByName = new Map(model.map((contentType) => [typeName(contentType), contentType]));
+  const problems: string[] = [];
+
+  for (const statement of source.statements) {
+    if (!ts.isTypeAliasDeclaration(statement) || !ts.isTypeLiteralNode(statement.type)) continue;
+    const contentType = contentTypesByName.get(statement.name.text);
+    if (!contentType) continue;
+
+    const known = new Set([
+      ...activeFields(contentType).map((field) => field.id),
+      ...(DERIVED_VIEW_FIELDS[contentType.sys.id] ?? []),
+    ]);
+
+    for (const member of statement.type.members) {
+      if (!member.name || !ts.isIdentifier(member.name)) continue;
+      if (known.has(member.name.text)) continue;
+      const { line } = source.getLineAndCharacterOfPosition(member.getStart());
+      problems.push(
+        `src/types/contentful.ts:${line + 1}  ${statement.name.text}.${member.name.text} is not a field of "${contentType.sys.id}"`
+      );
+    }
+  }
+
+  return problems;
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+function main() {
+  const check = process.argv.includes("--check");
+  const model = (JSON.parse(readFileSync(MODEL_PATH, "utf8")) as { contentTypes: ContentType[] })
+    .contentTypes;
+
+  const output = generate(model);
+  let current = "";
+  try {
+    current = readFileSync(OUTPUT_PATH, "utf8");
+  } catch {
+    // Not generated yet
+  }
+
+  if (current === output) {
+    console.log(`✔ ${model.length} content types, src/types/contentful.generated.ts is up to date`);
+  } else if (check) {
+    console.error("✖ src/types/contentful.generated.ts is out of date, run `npm run generate:types`");
+    process.exitCode = 1;
+  } else {
+    writeFileSync(OUTPUT_PATH, output);
+    console.log(`✔ ${model.length} content types written to src/types/contentful.generated.ts`);
+  }
+
+  const problems = checkViewTypes(model);
+  if (problems.length) {
+    console.error(`\n✖ View types reference fields missing from the content model:`);
+    problems.forEach((problem) => console.error(`  ${problem}`));
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,90 @@
+/**
+ * Admin password hash generator
+ *
+ * Prints the ADMIN_PASSWORD_HASH value for a staff password, asked for
+ * without echoing it:
+ *   npm run admin:hash-password
+ *
+ * Or piped in, e.g. from a password manager:
+ *   pass show micii-campioni/admin | npm run --silent admin:hash-password
+ *
+ * The password is never taken as an argument, which would leave it in the
+ * shell history and the process list.
+ */
+
+import { hashPassword } from "../src/lib/admin/password";
+
+/** Read a line from the terminal without echoing it. */
+function promptHidden(question: string): Promise<string> {
+  const input = process.stdin;
+
+  return new Promise((resolve, reject) => {
+    let value = "";
+
+    const finish = (error?: Error) => {
+      input.off("data", onData);
+      input.setRawMode(false);
+      input.pause();
+      process.stderr.write("\n");
+      if (error) reject(error);
+      else resolve(value);
+    };
+
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n" || char === "\u0004") return finish();
+        if (char === "\u0003") return finish(new Error("Cancelled"));
+        value = char === "\u007f" || char === "\b" ? value.slice(0, -1) : value + char;
+      }
+    };
+
+    process.stderr.write(question);
+    input.setRawMode(true);
+    input.setEncoding("utf8");
+    input.on("data", onData);
+    input.resume();
+  });
+}
+
+/** Everything piped to stdin, without the trailing line break. */
+async function readStdin(): Promise<string> {
+  let text = "";
+  for await (const chunk of process.stdin) text += chunk;
+  return text.replace(/\r?\n$/, "");
+}
+
+async function readPassword(): Promise<string> {
+  if (!process.stdin.isTTY) return readStdin();
+
+  const password = await promptHidden("Password: ");
+  const confirmation = await promptHidden("Confirm password: ");
+  if (password !== confirmation) throw new Error("The passwords do not match");
+  return password;
+}
+
+async function main() {
+  if (process.argv[2]) {
+    console.error("Do not pass the password as an argument; run the script and type it instead.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let password: string;
+  try {
+    password = await readPassword();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!password) {
+    console.error("No password given");
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`ADMIN_PASSWORD_HASH=${await hashPassword(password)}`);
+}
+
+main();
@@ -0,0 +1,185 @@
+/**
+ * Content integrity linter
+ *
+ * Audits Contentful content against the assumptions queries.ts and the routes
+ * make about it, so broken entries are caught before they reach production.
+ *
+ * Live space (Delivery API, uses CONTENTFUL_* from .env.local):
+ *   npm run lint:content
+ * Exported JSON dump (`contentful space export`):
+ *   npm run lint:content -- --export ./contentful-export.json
+ *
+ * Exits with code 1 when any error is found.
+ */
+
+import { readFileSync } from "node:fs";
+import { loadEnvConfig } from "@next/env";
+import { createClient } from "contentful";
+import {
+  auditContent,
+  type AuditAsset,
+  type AuditEntry,
+  type AuditIssue,
+  type ContentSnapshot,
+} from "../src/lib/contentful/audit";
+
+// =============================================================================
+// Contentful Export
+// =============================================================================
+
+type Localized<T> = Record<string, T>;
+
+interface ExportFile {
+  locales?: { code: string; default?: boolean }[];
+  entries?: {
+    sys: {
+      id: string;
+      contentType: { sys: { id: string } };
+      publishedVersion?: number;
+      archivedVersion?: number;
+    };
+    fields: Record<string, Localized<unknown>>;
+  }[];
+  assets?: {
+    sys: { id: string; publishedVersion?: number; archivedVersion?: number };
+    fields: {
+      title?: Localized<string>;
+      description?: Localized<string>;
+      file?: Localized<{ contentType?: string }>;
+    };
+  }[];
+}
+
+function loadExport(path: string): ContentSnapshot {
+  const data = JSON.parse(readFileSync(path, "utf8")) as ExportFile;
+  const locale = data.locales?.find((l) => l.default)?.code ?? "en-US";
+  const isPublished = (sys: { publishedVersion?: number; archivedVersion?: number }) =>
+    !!sys.publishedVersion && !sys.archivedVersion;
+
+  const entries: AuditEntry[] = (data.entries ?? []).map((entry) => ({
+    id: entry.sys.id,
+    contentType: entry.sys.contentType.sys.id,
+    published: isPublished(entry.sys),
+    fields: Object.fromEntries(
+      Object.entries(entry.fields).map(([name, value]) => [name, value?.[locale]])
+    ),
+  }));
+
+  const assets: AuditAsset[] = (data.assets ?? []).map((asset) => ({
+    id: asset.sys.id,
+    published: isPublished(asset.sys),
+    title: asset.fields.title?.[locale],
+    description: asset.fields.description?.[locale],
+    mimeType: asset.fields.file?.[locale]?.contentType,
+  }));
+
+  return { entries, assets };
+}
+
+// =============================================================================
+// Live Space
+// =============================================================================
+
+const PAGE_SIZE = 1000;
+
+async function fetchAll<T>(
+  fetchPage: (skip: number) => Promise<{ items: T[]; total: number }>
+): Promise<T[]> {
+  const items: T[] = [];
+  let total = Infinity;
+  while (items.length < total) {
+    const page = await fetchPage(items.length);
+    items.push(...page.items);
+    total = page.total;
+    if (!page.items.length) break;
+  }
+  return items;
+}
+
+async function loadLiveSpace(): Promise<ContentSnapshot> {
+  const space = process.env.CONTENTFUL_SPACE_ID;
+  const accessToken = process.env.CONTENTFUL_ACCESS_TOKEN;
+  if (!space || !accessToken) {
+    throw new Error("CONTENTFUL_SPACE_ID and CONTENTFUL_ACCESS_TOKEN are required (or pass --export <file>)");
+  }
+
+  // Links stay unresolved so missing targets show up as dangling ids
+  const client = createClient({
+    space,
+    accessToken,
+    environment: process.env.CONTENTFUL_ENVIRONMENT || "master",
+  }).withoutLinkResolution;
+
+  const [rawEntries, rawAssets] = await Promise.all([
+    fetchAll((skip) => client.getEntries({ skip, limit: PAGE_SIZE, include: 0 })),
+    fetchAll((skip) => client.getAssets({ skip, limit: PAGE_SIZE })),
+  ]);
+
+  // The Delivery API only serves published content
+  return {
+    entries: rawEntries.map((entry) => ({
+      id: entry.sys.id,
+      contentType: entry.sys.contentType.sys.id,
+      published: true,
+      fields: entry.fields as Record<string, unknown>,
+    })),
+    assets: rawAssets.map((asset) => ({
+      id: asset.sys.id,
+      published: true,
+      title: asset.fields.title,
+      description: asset.fields.description,
+      mimeType: asset.fields.file?.contentType,
+    })),
+  };
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+function printReport(issues: AuditIssue[]): void {
+  const byType = new Map<string, AuditIssue[]>();
+  for (const issue of issues) {
+    byType.set(issue.contentType, [...(byType.get(issue.contentType) ?? []), issue]);
+  }
+
+  for (const [contentType, typeIssues] of [...byType].sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`\n${contentType}`);
+    for (const issue of typeIssues) {
+      const severity = issue.severity === "error" ? "error  " : "warning";
+      console.log(`  ${severity}  ${issue.label} (${issue.entryId}): ${issue.message}  [${issue.rule}]`);
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  const warnings = issues.length - errors;
+  console.log(`\n${issues.length ? "✖" : "✔"} ${errors} error(s), ${warnings} warning(s)`);
+}
+
+async function main() {
+  loadEnvConfig(process.cwd());
+
+  const args = process.argv.slice(2);
+  const exportIndex = args.indexOf("--export");
+  const exportPath = exportIndex >= 0 ? args[exportIndex + 1] : undefined;
+  if (exportIndex >= 0 && !exportPath) {
+    throw new Error("--export requires a path to a Contentful export JSON file");
+  }
+
+  const snapshot = exportPath ? loadExport(exportPath) : await loadLiveSpace();
+  console.log(
+    `Auditing ${snapshot.entries.length} entries and ${snapshot.assets.length} assets from ${exportPath ?? "the live space"}`
+  );
+
+  const issues = auditContent(snapshot);
+  printReport(issues);
+
+  if (issues.some((issue) => issue.severity === "error")) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -1,35 +1,45 @@
-import { notFound } from "next/navigation";
+import { draftMode } from "next/headers";
+import { notFound, permanentRedirect } from "next/navigation";
 import type { Metadata } from "next";
 import Image from "next/image";
-import { getPageBySlug, getAllPageSlugs } from "@/lib/contentful/queries";
+import { getPageBySlug, getAllPageRefs } from "@/lib/contentful/queries";
 import { RichText } from "@/lib/contentful/rich-text";
+import { pageUrl } from "@/lib/contentful/urls";
 import { PageLayout } from "@/components/layout/PageLayout";
 import { Section } from "@/components/ui/Section";
 import { Container } from "@/components/ui/Container";
 import { CTASection } from "@/components/sections/CTASection";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { languageAlternates } from "@/lib/i18n/routing";
 
 // =============================================================================
 // Metadata
 // =============================================================================
 
 interface Props {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ locale: string; slug: string }>;
 }
 
 export async function generateMetadata({ params }: Props): Promise<Metadata> {
-  const { slug } = await params;
-  const page = await getPageBySlug(slug);
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const page = await getPageBySlug(slug, preview, locale);
 
   if (!page) {
     return {
-      title: "Pagină negăsită",
+      title: getDictionary(locale).meta.pageNotFound,
     };
   }
 
   return {
     title: page.metaTitle || page.title,
     description: page.metaDescription,
-    alternates: { canonical: `/${slug}` },
+    alternates: {
+      canonical: pageUrl(page, locale),
+      languages: languageAlternates(pageUrl(page)),
+    },
     openGraph: {
       title: page.metaTitle || page.title,
       description: page.metaDescription,
@@ -48,8 +58,10 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
 }
 
 export async function generateStaticParams() {
-  const slugs = await getAllPageSlugs();
-  return slugs.map((slug) => ({ slug }));
+  const pages = await getAllPageRefs();
+  return pages
+    .filter((page) => pageUrl(page) === `/${page.slug}`)
+    .map((page) => ({ slug: page.slug }));
 }
 
 // =============================================================================
@@ -57,13 +69,21 @@ export async function generateStaticParams() {
 // =============================================================================
 
 export default async function GenericPage({ params }: Props) {
-  const { slug } = await params;
-  const page = await getPageBySlug(slug);
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const dictionary = getDictionary(locale);
+  const page = await getPageBySlug(slug, preview, locale);
 
   if (!page) {
     notFound();
   }
 
+  // Child pages live under their parent's route
+  if (pageUrl(page) !== `/${slug}`) {
+    permanentRedirect(pageUrl(page, locale));
+  }
+
   const hasSidebar = page.sidebarWidgets && page.sidebarWidgets.length > 0;
 
   if (hasSidebar) {
@@ -74,19 +94,21 @@ export default async function GenericPage({ params }: Props) {
           heroImage={page.heroImage}
           heroImageAlt={page.heroImageAlt}
           sidebarWidgets={page.sidebarWidgets}
+          locale={locale}
         >
           {page.content && (
             <div className="prose max-w-none">
-              <RichText content={page.content} />
+              <RichText content={page.content} locale={locale} />
             </div>
           )}
         </PageLayout>
 
         <CTASection
-          title="Ai întrebări?"
-          description="Suntem aici să te ajutăm. Contactează-ne pentru mai multe informații."
-          primaryButton={{ label: "Contactează-ne", href: "/contact" }}
+          title={dictionary.page.ctaTitle}
+          description={dictionary.page.ctaDescription}
+          primaryButton={{ label: dictionary.common.contactUs, href: "/contact" }}
           variant="default"
+          locale={locale}
         />
       </>
     );
@@ -122,7 +144,7 @@ export default async function GenericPage({ params }: Props) {
         <div className="mx-auto max-w-4xl">
           {page.content && (
             <div className="prose max-w-none">
-              <RichText content={page.content} />
+              <RichText content={page.content} locale={locale} />
             </div>
           )}
         </div>
@@ -130,10 +152,11 @@ export default async function GenericPage({ params }: Props) {
 
       {/* CTA Section */}
       <CTASection
-        title="Ai întrebări?"
-        description="Suntem aici să te ajutăm. Contactează-ne pentru mai multe informații."
-        primaryButton={{ label: "Contactează-ne", href: "/contact" }}
+        title={dictionary.page.ctaTitle}
+        description={dictionary.page.ctaDescription}
+        primaryButton={{ label: dictionary.common.contactUs, href: "/contact" }}
         variant="default"
+        locale={locale}
       />
     </>
   );
@@ -1,4 +1,5 @@
-import { notFound } from "next/navigation";
+import { draftMode } from "next/headers";
+import { notFound, permanentRedirect } from "next/navigation";
 import type { Metadata } from "next";
 import {
   getPageBySlug,
@@ -9,18 +10,22 @@ import {
 } from "@/lib/contentful/queries";
 import { PageLayout, type Breadcrumb } from "@/components/layout/PageLayout";
 import { RichText } from "@/lib/contentful/rich-text";
+import { pageBreadcrumbs, pageUrl } from "@/lib/contentful/urls";
 import { Markdown } from "@/lib/contentful/markdown";
 import { Card } from "@/components/ui/Card";
 import { Badge } from "@/components/ui/Badge";
 import { PartnersSection } from "@/components/content/PartnersStrip";
 import { CTASection } from "@/components/sections/CTASection";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { languageAlternates } from "@/lib/i18n/routing";
 
 // =============================================================================
 // Types
 // =============================================================================
 
 interface Props {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ locale: string; slug: string }>;
 }
 
 // =============================================================================
@@ -28,19 +33,24 @@ interface Props {
 // =============================================================================
 
 export async function generateMetadata({ params }: Props): Promise<Metadata> {
-  const { slug } = await params;
-  const page = await getPageBySlug(slug);
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const page = await getPageBySlug(slug, preview, locale);
 
   if (!page) {
     return {
-      title: "Pagină negăsită",
+      title: getDictionary(locale).meta.pageNotFound,
     };
   }
 
   return {
     title: page.metaTitle || page.title,
     description: page.metaDescription,
-    alternates: { canonical: `/asociatia/${slug}` },
+    alternates: {
+      canonical: pageUrl(page, locale),
+      languages: languageAlternates(pageUrl(page)),
+    },
     openGraph: {
       title: page.metaTitle || page.title,
       description: page.metaDescription,
@@ -63,18 +73,23 @@ export async function generateStaticParams() {
 // =============================================================================
 
 export default async function AsociatiaSubPage({ params }: Props) {
-  const { slug } = await params;
-  const page = await getPageBySlug(slug);
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const dictionary = getDictionary(locale);
+  const page = await getPageBySlug(slug, preview, locale);
 
   if (!page) {
     notFound();
   }
 
+  // Pages nested under another parent (or none) are served at their canonical URL
+  if (pageUrl(page) !== `/asociatia/${slug}`) {
+    permanentRedirect(pageUrl(page, locale));
+  }
+
   // Breadcrumbs
-  const breadcrumbs: Breadcrumb[] = [
-    { label: "Asociația", href: "/asociatia" },
-    { label: page.title, href: `/asociatia/${slug}` },
-  ];
+  const breadcrumbs: Breadcrumb[] = pageBreadcrumbs(page, locale);
 
   // Determine page type and fetch additional data
   const isProjectsPage = slug.includes("proiecte");
@@ -82,11 +97,13 @@ export default async function AsociatiaSubPage({ params }: Props) {
   const isSponsorsPage = slug.includes("sponsorizari");
 
   const [projects, conferences, partners] = await Promise.all([
-    isProjectsPage ? getProjects() : Promise.resolve([]),
-    isConferencesPage ? getConferences() : Promise.resolve([]),
-    isSponsorsPage ? getPartners() : Promise.resolve([]),
+    isProjectsPage ? getProjects(preview, locale) : Promise.resolve([]),
+    isConferencesPage ? getConferences(preview, locale) : Promise.resolve([]),
+    isSponsorsPage ? getPartners(preview, locale) : Promise.resolve([]),
   ]);
 
+  const t = dictionary.associationPage;
+
   return (
     <>
       <PageLayout
@@ -95,11 +112,12 @@ export default async function AsociatiaSubPage({ params }: Props) {
         heroImageAlt={page.heroImageAlt}
         breadcrumbs={breadcrumbs}
         sidebarWidgets={page.sidebarWidgets}
+        locale={locale}
       >
         {/* Main Content */}
         {page.content && (
           <div className="prose max-w-none">
-            <RichText content={page.content} />
+            <RichText content={page.content} locale={locale} />
           </div>
         )}
 
@@ -107,7 +125,7 @@ export default async function AsociatiaSubPage({ params }: Props) {
         {isProjectsPage && projects.length > 0 && (
           <div className="mt-12 space-y-8">
             <h2 className="font-heading text-2xl font-semibold text-sand-900">
-              Proiectele Noastre
+              {t.projects}
             </h2>
             {projects.map((project) => (
               <Card key={project.title} variant="default" padding="lg">
@@ -121,7 +139,7 @@ export default async function AsociatiaSubPage({ params }: Props) {
                     </div>
                     {project.objectives && (
                       <div className="mt-4">
-                        <h4 className="font-semibold text-sand-800">Obiective:</h4>
+                        <h4 className="font-semibold text-sand-800">{t.objectives}</h4>
                         <div className="text-sand-600">
                           <Markdown content={project.objectives} />
                         </div>
@@ -129,7 +147,7 @@ export default async function AsociatiaSubPage({ params }: Props) {
                     )}
                     {project.results && (
                       <div className="mt-4">
-                        <h4 className="font-semibold text-sand-800">Rezultate:</h4>
+                        <h4 className="font-semibold text-sand-800">{t.results}</h4>
                         <div className="text-sand-600">
                           <Markdown content={project.results} />
                         </div>
@@ -140,7 +158,7 @@ export default async function AsociatiaSubPage({ params }: Props) {
                     variant={project.status === "active" ? "lagoon" : "sand"}
                     className="flex-shrink-0"
                   >
-                    {project.status === "active" ? "Activ" : project.status === "completed" ? "Finalizat" : "Planificat"}
+                    {t.status[project.status]}
                   </Badge>
                 </div>
               </Card>
@@ -152,14 +170,14 @@ export default async function AsociatiaSubPage({ params }: Props) {
         {isConferencesPage && conferences.length > 0 && (
           <div className="mt-12">
             <h2 className="mb-6 font-heading text-2xl font-semibold text-sand-900">
-              Conferințe și Congrese
+              {t.conferences}
             </h2>
 
             {/* International Conferences */}
             {conferences.filter((c) => c.isInternational).length > 0 && (
               <div className="mb-8">
                 <h3 className="mb-4 font-heading text-lg font-semibold text-lagoon-700">
-                  Conferințe Internaționale
+                  {t.international}
                 </h3>
                 <div className="space-y-4">
                   {conferences
@@ -190,7 +208,7 @@ export default async function AsociatiaSubPage({ params }: Props) {
             {conferences.filter((c) => !c.isInternational).length > 0 && (
               <div>
                 <h3 className="mb-4 font-heading text-lg font-semibold text-coral-700">
-                  Conferințe Naționale
+                  {t.national}
                 </h3>
                 <div className="space-y-4">
                   {conferences
@@ -222,17 +240,18 @@ export default async function AsociatiaSubPage({ params }: Props) {
         {/* Sponsors Section */}
         {isSponsorsPage && partners.length > 0 && (
           <div className="mt-12">
-            <PartnersSection partners={partners} />
+            <PartnersSection partners={partners} locale={locale} />
           </div>
         )}
       </PageLayout>
 
       {/* CTA */}
       <CTASection
-        title="Vrei să ne susții?"
-        description="Contactează-ne pentru a afla cum poți contribui la misiunea noastră."
-        primaryButton={{ label: "Contactează-ne", href: "/contact" }}
+        title={t.childCtaTitle}
+        description={t.childCtaDescription}
+        primaryButton={{ label: dictionary.common.contactUs, href: "/contact" }}
         variant="default"
+        locale={locale}
       />
     </>
   );
@@ -1,3 +1,4 @@
+import { draftMode } from "next/headers";
 import type { Metadata } from "next";
 import Link from "next/link";
 import { ArrowRight, Heart, FolderKanban, Mic2, Handshake } from "lucide-react";
@@ -9,51 +10,45 @@ import { Badge } from "@/components/ui/Badge";
 import { RichText } from "@/lib/contentful/rich-text";
 import { Markdown } from "@/lib/contentful/markdown";
 import { CTASection } from "@/components/sections/CTASection";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { localeAlternates, localizePath } from "@/lib/i18n/routing";
 
-export const metadata: Metadata = {
-  title: "Asociația - Misiune și Proiecte Sociale",
-  description:
-    "Asociația Clubul Micii Campioni - organizație non-profit dedicată promovării educației acvatice în România. Descoperă misiunea și proiectele noastre sociale.",
-  alternates: { canonical: "/asociatia" },
-  openGraph: {
-    title: "Asociația - Misiune și Proiecte Sociale | Micii Campioni",
-    description:
-      "Asociația Clubul Micii Campioni - organizație non-profit dedicată promovării educației acvatice în România. Descoperă misiunea și proiectele noastre sociale.",
-  },
-};
+interface Props {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  const t = getDictionary(locale).associationPage;
+
+  return {
+    title: t.metaTitle,
+    description: t.metaDescription,
+    alternates: localeAlternates("/asociatia", locale),
+    openGraph: {
+      title: `${t.metaTitle} | Micii Campioni`,
+      description: t.metaDescription,
+    },
+  };
+}
 
 // Section navigation cards
 const sectionCards = [
-  {
-    slug: "misiune",
-    title: "Misiune",
-    description: "Scopul și valorile care ne ghidează activitatea asociației",
-    icon: Heart,
-  },
-  {
-    slug: "proiecte-si-programe",
-    title: "Proiecte și Programe",
-    description: "Inițiativele noastre pentru comunitate",
-    icon: FolderKanban,
-  },
-  {
-    slug: "conferinte-si-congrese",
-    title: "Conferințe și Congrese",
-    description: "Participările noastre la evenimente naționale și internaționale",
-    icon: Mic2,
-  },
-  {
-    slug: "sponsorizari",
-    title: "Sponsorizări",
-    description: "Partenerii care ne susțin misiunea",
-    icon: Handshake,
-  },
-];
+  { slug: "misiune", icon: Heart },
+  { slug: "proiecte-si-programe", icon: FolderKanban },
+  { slug: "conferinte-si-congrese", icon: Mic2 },
+  { slug: "sponsorizari", icon: Handshake },
+] as const;
 
-export default async function AsociatiaPage() {
+export default async function AsociatiaPage({ params }: Props) {
+  const locale = resolveLocale((await params).locale);
+  const dictionary = getDictionary(locale);
+  const t = dictionary.associationPage;
+  const { isEnabled: preview } = await draftMode();
   const [page, projects] = await Promise.all([
-    getPageBySlug("asociatia"),
-    getProjects(),
+    getPageBySlug("asociatia", preview, locale),
+    getProjects(preview, locale),
   ]);
 
   // Get active projects for preview
@@ -63,8 +58,8 @@ export default async function AsociatiaPage() {
     <>
       {/* Hero */}
       <SectionHero
-        title="Asociația"
-        subtitle="Promovăm educația acvatică în România și susținem accesul tuturor copiilor la beneficiile activităților acvatice."
+        title={t.title}
+        subtitle={t.subtitle}
         heroImage={page?.heroImage}
       />
 
@@ -73,7 +68,7 @@ export default async function AsociatiaPage() {
         <Section background="white" spacing="xl">
           <div className="mx-auto max-w-4xl">
             <div className="prose max-w-none">
-              <RichText content={page.content} />
+              <RichText content={page.content} locale={locale} />
             </div>
           </div>
         </Section>
@@ -83,7 +78,7 @@ export default async function AsociatiaPage() {
       <Section background="sand" spacing="xl">
         <div className="mb-8 text-center">
           <h2 className="font-heading text-3xl font-bold text-sand-900">
-            Activitatea Asociației
+            {t.sectionsTitle}
           </h2>
         </div>
 
@@ -91,7 +86,7 @@ export default async function AsociatiaPage() {
           {sectionCards.map((card) => (
             <Link
               key={card.slug}
-              href={`/asociatia/${card.slug}`}
+              href={localizePath(`/asociatia/${card.slug}`, locale)}
               className="group block"
             >
               <Card
@@ -103,11 +98,11 @@ export default async function AsociatiaPage() {
                   <card.icon className="h-6 w-6 text-coral-600 transition-colors group-hover:text-white" />
                 </div>
                 <h3 className="font-heading text-lg font-semibold text-sand-900">
-                  {card.title}
+                  {t.sections[card.slug].title}
                 </h3>
-                <p className="mt-2 text-sm text-sand-600">{card.description}</p>
+                <p className="mt-2 text-sm text-sand-600">{t.sections[card.slug].description}</p>
                 <span className="mt-4 inline-flex items-center text-sm font-medium text-coral-600 group-hover:text-coral-700">
-                  Citește mai mult
+                  {dictionary.common.readMore}
                   <ArrowRight className="ml-1 h-4 w-4 transition-transform group-hover:translate-x-1" />
                 </span>
               </Card>
@@ -121,10 +116,10 @@ export default async function AsociatiaPage() {
         <Section background="white" spacing="xl">
           <div className="mb-8 text-center">
             <h2 className="font-heading text-3xl font-bold text-sand-900">
-              Proiecte Active
+              {t.activeProjects}
             </h2>
             <p className="mt-2 text-lg text-sand-600">
-              Inițiativele în desfășurare
+              {t.activeProjectsSubtitle}
             </p>
           </div>
 
@@ -132,7 +127,7 @@ export default async function AsociatiaPage() {
             {activeProjects.map((project) => (
               <Card key={project.title} variant="default" padding="lg">
                 <Badge variant="lagoon" size="sm" className="mb-4">
-                  Activ
+                  {t.status.active}
                 </Badge>
                 <h3 className="font-heading text-xl font-semibold text-sand-900">
                   {project.title}
@@ -146,10 +141,10 @@ export default async function AsociatiaPage() {
 
           <div className="mt-8 text-center">
             <Link
-              href="/asociatia/proiecte-si-programe"
+              href={localizePath("/asociatia/proiecte-si-programe", locale)}
               className="inline-flex items-center font-medium text-lagoon-600 hover:text-lagoon-700"
             >
-              Vezi toate proiectele
+              {t.allProjects}
               <ArrowRight className="ml-1 h-4 w-4" />
             </Link>
           </div>
@@ -158,11 +153,12 @@ export default async function AsociatiaPage() {
 
       {/* CTA */}
       <CTASection
-        title="Vrei să susții misiunea noastră?"
-        description="Află cum poți contribui la promovarea educației acvatice în România."
-        primaryButton={{ label: "Contactează-ne", href: "/contact" }}
-        secondaryButton={{ label: "Sponsorizări", href: "/asociatia/sponsorizari" }}
+        title={t.ctaTitle}
+        description={t.ctaDescription}
+        primaryButton={{ label: dictionary.common.contactUs, href: "/contact" }}
+        secondaryButton={{ label: t.sponsorships, href: "/asociatia/sponsorizari" }}
         variant="gradient"
+        locale={locale}
       />
     </>
   );
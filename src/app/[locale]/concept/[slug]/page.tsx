@@ -1,17 +1,22 @@
-import { notFound } from "next/navigation";
+import { draftMode } from "next/headers";
+import { notFound, permanentRedirect } from "next/navigation";
 import type { Metadata } from "next";
 import { getPageBySlug, getPagesByParentSlug, getPartners } from "@/lib/contentful/queries";
 import { PageLayout, type Breadcrumb } from "@/components/layout/PageLayout";
 import { RichText } from "@/lib/contentful/rich-text";
+import { pageBreadcrumbs, pageUrl } from "@/lib/contentful/urls";
 import { PartnersSection } from "@/components/content/PartnersStrip";
 import { CTASection } from "@/components/sections/CTASection";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { languageAlternates } from "@/lib/i18n/routing";
 
 // =============================================================================
 // Types
 // =============================================================================
 
 interface Props {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ locale: string; slug: string }>;
 }
 
 // =============================================================================
@@ -19,19 +24,24 @@ interface Props {
 // =============================================================================
 
 export async function generateMetadata({ params }: Props): Promise<Metadata> {
-  const { slug } = await params;
-  const page = await getPageBySlug(slug);
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const page = await getPageBySlug(slug, preview, locale);
 
   if (!page) {
     return {
-      title: "Pagină negăsită",
+      title: getDictionary(locale).meta.pageNotFound,
     };
   }
 
   return {
     title: page.metaTitle || page.title,
     description: page.metaDescription,
-    alternates: { canonical: `/concept/${slug}` },
+    alternates: {
+      canonical: pageUrl(page, locale),
+      languages: languageAlternates(pageUrl(page)),
+    },
     openGraph: {
       title: page.metaTitle || page.title,
       description: page.metaDescription,
@@ -54,22 +64,27 @@ export async function generateStaticParams() {
 // =============================================================================
 
 export default async function ConceptSubPage({ params }: Props) {
-  const { slug } = await params;
-  const page = await getPageBySlug(slug);
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const dictionary = getDictionary(locale);
+  const page = await getPageBySlug(slug, preview, locale);
 
   if (!page) {
     notFound();
   }
 
+  // Pages nested under another parent (or none) are served at their canonical URL
+  if (pageUrl(page) !== `/concept/${slug}`) {
+    permanentRedirect(pageUrl(page, locale));
+  }
+
   // Breadcrumbs
-  const breadcrumbs: Breadcrumb[] = [
-    { label: "Concept", href: "/concept" },
-    { label: page.title, href: `/concept/${slug}` },
-  ];
+  const breadcrumbs: Breadcrumb[] = pageBreadcrumbs(page, locale);
 
   // Fetch partners for FAAEL page
   const isFAAELPage = slug.includes("faael");
-  const partners = isFAAELPage ? await getPartners() : [];
+  const partners = isFAAELPage ? await getPartners(preview, locale) : [];
 
   return (
     <>
@@ -79,28 +94,30 @@ export default async function ConceptSubPage({ params }: Props) {
         heroImageAlt={page.heroImageAlt}
         breadcrumbs={breadcrumbs}
         sidebarWidgets={page.sidebarWidgets}
+        locale={locale}
       >
         {/* Main Content */}
         {page.content && (
           <div className="prose max-w-none">
-            <RichText content={page.content} />
+            <RichText content={page.content} locale={locale} />
           </div>
         )}
 
         {/* Partners Section for FAAEL page */}
         {isFAAELPage && partners.length > 0 && (
           <div className="mt-12">
-            <PartnersSection partners={partners} />
+            <PartnersSection partners={partners} locale={locale} />
           </div>
         )}
       </PageLayout>
 
       {/* CTA */}
       <CTASection
-        title="Interesat de programele noastre?"
-        description="Descoperă cum putem ajuta copilul tău să devină un mic campion."
-        primaryButton={{ label: "Vezi Cursurile", href: "/servicii" }}
+        title={dictionary.conceptPage.childCtaTitle}
+        description={dictionary.conceptPage.childCtaDescription}
+        primaryButton={{ label: dictionary.common.viewCourses, href: "/servicii" }}
         variant="default"
+        locale={locale}
       />
     </>
   );
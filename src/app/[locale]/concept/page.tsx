@@ -1,3 +1,4 @@
+import { draftMode } from "next/headers";
 import type { Metadata } from "next";
 import Link from "next/link";
 import { ArrowRight, Globe, Target } from "lucide-react";
@@ -8,39 +9,43 @@ import { Card } from "@/components/ui/Card";
 import { RichText } from "@/lib/contentful/rich-text";
 import { PartnersStrip } from "@/components/content/PartnersStrip";
 import { CTASection } from "@/components/sections/CTASection";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { localeAlternates, localizePath } from "@/lib/i18n/routing";
 
-export const metadata: Metadata = {
-  title: "Conceptul și Metodologia Noastră",
-  description:
-    "Descoperă conceptul și metodologia Clubului Micii Campioni - educație acvatică bazată pe încredere, siguranță și bucurie. Partener FAAEL internațional.",
-  alternates: { canonical: "/concept" },
-  openGraph: {
-    title: "Conceptul și Metodologia Noastră | Micii Campioni",
-    description:
-      "Descoperă conceptul și metodologia Clubului Micii Campioni - educație acvatică bazată pe încredere, siguranță și bucurie. Partener FAAEL internațional.",
-  },
-};
+interface Props {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  const t = getDictionary(locale).conceptPage;
+
+  return {
+    title: t.metaTitle,
+    description: t.metaDescription,
+    alternates: localeAlternates("/concept", locale),
+    openGraph: {
+      title: `${t.metaTitle} | Micii Campioni`,
+      description: t.metaDescription,
+    },
+  };
+}
 
 // Section navigation cards
 const sectionCards = [
-  {
-    slug: "micii-campioni-si-faael",
-    title: "Micii Campioni și FAAEL",
-    description: "Parteneriatul nostru cu Federația Internațională de Activități Acvatice",
-    icon: Globe,
-  },
-  {
-    slug: "viziune-si-obiective",
-    title: "Viziune și Obiective",
-    description: "Misiunea și valorile care ne ghidează activitatea",
-    icon: Target,
-  },
-];
+  { slug: "micii-campioni-si-faael", icon: Globe },
+  { slug: "viziune-si-obiective", icon: Target },
+] as const;
 
-export default async function ConceptPage() {
+export default async function ConceptPage({ params }: Props) {
+  const locale = resolveLocale((await params).locale);
+  const dictionary = getDictionary(locale);
+  const t = dictionary.conceptPage;
+  const { isEnabled: preview } = await draftMode();
   const [page, partners] = await Promise.all([
-    getPageBySlug("concept"),
-    getPartners(),
+    getPageBySlug("concept", preview, locale),
+    getPartners(preview, locale),
   ]);
 
   // Filter for partner type endorsements (international orgs)
@@ -50,8 +55,8 @@ export default async function ConceptPage() {
     <>
       {/* Hero */}
       <SectionHero
-        title="Conceptul Nostru"
-        subtitle="Educație acvatică bazată pe încredere, siguranță și bucurie - fundamentele metodei noastre recunoscute internațional."
+        title={t.title}
+        subtitle={t.subtitle}
         heroImage={page?.heroImage}
       />
 
@@ -60,7 +65,7 @@ export default async function ConceptPage() {
         <Section background="white" spacing="xl">
           <div className="mx-auto max-w-4xl">
             <div className="prose max-w-none">
-              <RichText content={page.content} />
+              <RichText content={page.content} locale={locale} />
             </div>
           </div>
         </Section>
@@ -70,7 +75,7 @@ export default async function ConceptPage() {
       <Section background="sand" spacing="xl">
         <div className="mb-8 text-center">
           <h2 className="font-heading text-3xl font-bold text-sand-900">
-            Explorează Mai Mult
+            {t.sectionsTitle}
           </h2>
         </div>
 
@@ -78,7 +83,7 @@ export default async function ConceptPage() {
           {sectionCards.map((card) => (
             <Link
               key={card.slug}
-              href={`/concept/${card.slug}`}
+              href={localizePath(`/concept/${card.slug}`, locale)}
               className="group block"
             >
               <Card
@@ -90,11 +95,11 @@ export default async function ConceptPage() {
                   <card.icon className="h-6 w-6 text-lagoon-600 transition-colors group-hover:text-white" />
                 </div>
                 <h3 className="font-heading text-xl font-semibold text-sand-900">
-                  {card.title}
+                  {t.sections[card.slug].title}
                 </h3>
-                <p className="mt-2 text-sand-600">{card.description}</p>
+                <p className="mt-2 text-sand-600">{t.sections[card.slug].description}</p>
                 <span className="mt-4 inline-flex items-center text-sm font-medium text-lagoon-600 group-hover:text-lagoon-700">
-                  Citește mai mult
+                  {dictionary.common.readMore}
                   <ArrowRight className="ml-1 h-4 w-4 transition-transform group-hover:translate-x-1" />
                 </span>
               </Card>
@@ -105,16 +110,17 @@ export default async function ConceptPage() {
 
       {/* Partners */}
       {endorsements.length > 0 && (
-        <PartnersStrip partners={endorsements} title="Recunoaștere Internațională" />
+        <PartnersStrip partners={endorsements} title={t.recognition} locale={locale} />
       )}
 
       {/* CTA */}
       <CTASection
-        title="Descoperă Cursurile Noastre"
-        description="Aplică conceptul nostru în practică - explorează programele de educație acvatică."
-        primaryButton={{ label: "Vezi Cursurile", href: "/servicii" }}
-        secondaryButton={{ label: "Contactează-ne", href: "/contact" }}
+        title={t.ctaTitle}
+        description={t.ctaDescription}
+        primaryButton={{ label: dictionary.common.viewCourses, href: "/servicii" }}
+        secondaryButton={{ label: dictionary.common.contactUs, href: "/contact" }}
         variant="gradient"
+        locale={locale}
       />
     </>
   );
@@ -1,3 +1,4 @@
+import { draftMode } from "next/headers";
 import type { Metadata } from "next";
 import { Phone, Mail, MapPin, Clock } from "lucide-react";
 import { getSiteSettings, getPageBySlug } from "@/lib/contentful/queries";
@@ -6,6 +7,10 @@ import { Section } from "@/components/ui/Section";
 import { Card } from "@/components/ui/Card";
 import { ContactForm } from "@/components/forms/ContactForm";
 import { RichText } from "@/lib/contentful/rich-text";
+import { getServiceOptions } from "@/lib/leads/services";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { localeAlternates, localizePath } from "@/lib/i18n/routing";
 
 // =============================================================================
 // Helpers
@@ -26,20 +31,23 @@ function parseScheduleTimes(schedule: string): {
 // Metadata
 // =============================================================================
 
-const FALLBACK_TITLE = "Contact";
-const FALLBACK_DESCRIPTION =
-  "Contactează-ne pentru informații despre cursurile de înot, programări sau orice alte întrebări. Suntem aici să te ajutăm.";
+interface Props {
+  params: Promise<{ locale: string }>;
+}
 
-export async function generateMetadata(): Promise<Metadata> {
-  const page = await getPageBySlug("contact");
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  const dictionary = getDictionary(locale);
+  const { isEnabled: preview } = await draftMode();
+  const page = await getPageBySlug("contact", preview, locale);
 
   return {
-    title: page?.metaTitle || FALLBACK_TITLE,
-    description: page?.metaDescription || FALLBACK_DESCRIPTION,
-    alternates: { canonical: "/contact" },
+    title: page?.metaTitle || dictionary.common.contact,
+    description: page?.metaDescription || dictionary.contact.metaDescription,
+    alternates: localeAlternates("/contact", locale),
     openGraph: {
-      title: page?.metaTitle || `Contactează Micii Campioni`,
-      description: page?.metaDescription || FALLBACK_DESCRIPTION,
+      title: page?.metaTitle || dictionary.contact.ogTitle,
+      description: page?.metaDescription || dictionary.contact.metaDescription,
       images: page?.heroImage
         ? [{ url: page.heroImage.url, width: page.heroImage.width, height: page.heroImage.height, alt: page.heroImage.title }]
         : undefined,
@@ -51,21 +59,24 @@ export async function generateMetadata(): Promise<Metadata> {
 // Page
 // =============================================================================
 
-export default async function ContactPage() {
-  const [settings, page] = await Promise.all([
-    getSiteSettings(),
-    getPageBySlug("contact"),
+export default async function ContactPage({ params }: Props) {
+  const locale = resolveLocale((await params).locale);
+  const dictionary = getDictionary(locale);
+  const t = dictionary.contact;
+  const { isEnabled: preview } = await draftMode();
+  const [settings, page, serviceOptions] = await Promise.all([
+    getSiteSettings(preview, locale),
+    getPageBySlug("contact", preview, locale),
+    getServiceOptions(preview, locale),
   ]);
 
   const siteUrl =
     process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
 
   // Schedule values from Contentful with fallbacks
-  const scheduleWeekdays =
-    settings?.scheduleWeekdays || "Luni - Vineri: 9:00 - 20:00";
-  const scheduleSaturday =
-    settings?.scheduleSaturday || "Sâmbătă: 9:00 - 14:00";
-  const scheduleSunday = settings?.scheduleSunday || "Duminică: Închis";
+  const scheduleWeekdays = settings?.scheduleWeekdays || t.weekdays;
+  const scheduleSaturday = settings?.scheduleSaturday || t.saturday;
+  const scheduleSunday = settings?.scheduleSunday || t.sunday;
 
   // Build opening hours from dynamic schedule
   const openingHoursSpecification: object[] = [];
@@ -102,8 +113,7 @@ export default async function ContactPage() {
     "@type": "LocalBusiness",
     "@id": `${siteUrl}/#organization`,
     name: "Clubul Micii Campioni",
-    description:
-      "Primul club de educatie acvatica din Romania - cursuri de inot pentru bebelusi si copii.",
+    description: dictionary.meta.localBusinessDescription,
     url: siteUrl,
     telephone: settings?.phone,
     email: settings?.email,
@@ -134,8 +144,18 @@ export default async function ContactPage() {
     "@context": "https://schema.org",
     "@type": "BreadcrumbList",
     itemListElement: [
-      { "@type": "ListItem", position: 1, name: "Acasă", item: siteUrl },
-      { "@type": "ListItem", position: 2, name: "Contact", item: `${siteUrl}/contact` },
+      {
+        "@type": "ListItem",
+        position: 1,
+        name: dictionary.common.home,
+        item: `${siteUrl}${localizePath("/", locale)}`,
+      },
+      {
+        "@type": "ListItem",
+        position: 2,
+        name: dictionary.common.contact,
+        item: `${siteUrl}${localizePath("/contact", locale)}`,
+      },
     ],
   };
 
@@ -154,8 +174,8 @@ export default async function ContactPage() {
 
       {/* Hero Section */}
       <SectionHero
-        title={page?.title || "Contactează-ne"}
-        subtitle="Suntem aici să răspundem la toate întrebările tale. Completează formularul sau folosește una din metodele de contact de mai jos."
+        title={page?.title || t.title}
+        subtitle={t.subtitle}
         heroImage={page?.heroImage}
       />
 
@@ -164,7 +184,7 @@ export default async function ContactPage() {
         <Section background="white" spacing="lg">
           <div className="mx-auto max-w-4xl">
             <div className="prose max-w-none">
-              <RichText content={page.content} />
+              <RichText content={page.content} locale={locale} />
             </div>
           </div>
         </Section>
@@ -176,7 +196,7 @@ export default async function ContactPage() {
           {/* Contact Information */}
           <div className="space-y-6 lg:col-span-1">
             <h2 className="font-heading text-2xl font-semibold text-sand-900">
-              Informații Contact
+              {t.info}
             </h2>
 
             {/* Phone */}
@@ -190,7 +210,7 @@ export default async function ContactPage() {
                   <Phone className="h-6 w-6 text-lagoon-600" />
                 </div>
                 <div>
-                  <h3 className="font-semibold text-sand-900">Telefon</h3>
+                  <h3 className="font-semibold text-sand-900">{t.phone}</h3>
                   <a
                     href={`tel:${settings.phone}`}
                     className="text-lagoon-600 hover:text-lagoon-700"
@@ -212,7 +232,7 @@ export default async function ContactPage() {
                   <Mail className="h-6 w-6 text-lagoon-600" />
                 </div>
                 <div>
-                  <h3 className="font-semibold text-sand-900">Email</h3>
+                  <h3 className="font-semibold text-sand-900">{t.email}</h3>
                   <a
                     href={`mailto:${settings.email}`}
                     className="text-lagoon-600 hover:text-lagoon-700"
@@ -234,7 +254,7 @@ export default async function ContactPage() {
                   <MapPin className="h-6 w-6 text-lagoon-600" />
                 </div>
                 <div>
-                  <h3 className="font-semibold text-sand-900">Adresă</h3>
+                  <h3 className="font-semibold text-sand-900">{t.address}</h3>
                   <a
                     href={
                       settings.gpsLatitude && settings.gpsLongitude
@@ -261,7 +281,7 @@ export default async function ContactPage() {
                 <Clock className="h-6 w-6 text-lagoon-600" />
               </div>
               <div>
-                <h3 className="font-semibold text-sand-900">Program</h3>
+                <h3 className="font-semibold text-sand-900">{t.schedule}</h3>
                 <p className="text-sand-600">{scheduleWeekdays}</p>
                 <p className="text-sand-600">{scheduleSaturday}</p>
                 <p className="text-sand-600">{scheduleSunday}</p>
@@ -273,9 +293,9 @@ export default async function ContactPage() {
           <div className="lg:col-span-2">
             <Card variant="default" padding="lg">
               <h2 className="mb-6 font-heading text-2xl font-semibold text-sand-900">
-                Trimite-ne un mesaj
+                {t.formTitle}
               </h2>
-              <ContactForm />
+              <ContactForm serviceOptions={serviceOptions} />
             </Card>
           </div>
         </div>
@@ -293,7 +313,7 @@ export default async function ContactPage() {
               allowFullScreen
               loading="lazy"
               referrerPolicy="no-referrer-when-downgrade"
-              title="Locația Micii Campioni"
+              title={t.mapTitle}
             />
           </div>
         </Section>
@@ -1,4 +1,5 @@
-import { notFound } from "next/navigation";
+import { draftMode } from "next/headers";
+import { notFound, permanentRedirect } from "next/navigation";
 import type { Metadata } from "next";
 import {
   getPageBySlug,
@@ -10,17 +11,21 @@ import {
 } from "@/lib/contentful/queries";
 import { PageLayout, type Breadcrumb } from "@/components/layout/PageLayout";
 import { RichText } from "@/lib/contentful/rich-text";
+import { pageBreadcrumbs, pageUrl } from "@/lib/contentful/urls";
 import { Timeline } from "@/components/content/Timeline";
 import { TeamGrid } from "@/components/content/TeamGrid";
 import { ImageGallery } from "@/components/content/ImageGallery";
 import { CTASection } from "@/components/sections/CTASection";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { languageAlternates } from "@/lib/i18n/routing";
 
 // =============================================================================
 // Types
 // =============================================================================
 
 interface Props {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ locale: string; slug: string }>;
 }
 
 // =============================================================================
@@ -28,19 +33,24 @@ interface Props {
 // =============================================================================
 
 export async function generateMetadata({ params }: Props): Promise<Metadata> {
-  const { slug } = await params;
-  const page = await getPageBySlug(slug);
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const page = await getPageBySlug(slug, preview, locale);
 
   if (!page) {
     return {
-      title: "Pagină negăsită",
+      title: getDictionary(locale).meta.pageNotFound,
     };
   }
 
   return {
     title: page.metaTitle || page.title,
     description: page.metaDescription,
-    alternates: { canonical: `/despre-noi/${slug}` },
+    alternates: {
+      canonical: pageUrl(page, locale),
+      languages: languageAlternates(pageUrl(page)),
+    },
     openGraph: {
       title: page.metaTitle || page.title,
       description: page.metaDescription,
@@ -63,18 +73,23 @@ export async function generateStaticParams() {
 // =============================================================================
 
 export default async function DespreNoiSubPage({ params }: Props) {
-  const { slug } = await params;
-  const page = await getPageBySlug(slug);
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const dictionary = getDictionary(locale);
+  const page = await getPageBySlug(slug, preview, locale);
 
   if (!page) {
     notFound();
   }
 
+  // Pages nested under another parent (or none) are served at their canonical URL
+  if (pageUrl(page) !== `/despre-noi/${slug}`) {
+    permanentRedirect(pageUrl(page, locale));
+  }
+
   // Breadcrumbs
-  const breadcrumbs: Breadcrumb[] = [
-    { label: "Despre Noi", href: "/despre-noi" },
-    { label: page.title, href: `/despre-noi/${slug}` },
-  ];
+  const breadcrumbs: Breadcrumb[] = pageBreadcrumbs(page, locale);
 
   // Fetch additional data based on page type
   const isTeamPage = slug === "echipa" || slug === "echipa-micii-campioni";
@@ -83,10 +98,10 @@ export default async function DespreNoiSubPage({ params }: Props) {
   const isPressPage = slug === "press-info" || slug === "press";
 
   const [teamMembers, timelineEvents, certificates, pressClippings] = await Promise.all([
-    isTeamPage ? getTeamMembers() : Promise.resolve([]),
-    isHistoryPage ? getTimelineEvents() : Promise.resolve([]),
-    isCertificatesPage ? getCertificates() : Promise.resolve([]),
-    isPressPage ? getPressClippings() : Promise.resolve([]),
+    isTeamPage ? getTeamMembers(preview, locale) : Promise.resolve([]),
+    isHistoryPage ? getTimelineEvents(preview, locale) : Promise.resolve([]),
+    isCertificatesPage ? getCertificates(preview, locale) : Promise.resolve([]),
+    isPressPage ? getPressClippings(preview, locale) : Promise.resolve([]),
   ]);
 
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
@@ -132,11 +147,12 @@ export default async function DespreNoiSubPage({ params }: Props) {
         heroImageAlt={page.heroImageAlt}
         breadcrumbs={breadcrumbs}
         sidebarWidgets={page.sidebarWidgets}
+        locale={locale}
       >
         {/* Main Content */}
         {page.content && (
           <div className="prose max-w-none">
-            <RichText content={page.content} />
+            <RichText content={page.content} locale={locale} />
           </div>
         )}
 
@@ -158,7 +174,7 @@ export default async function DespreNoiSubPage({ params }: Props) {
         {isCertificatesPage && certificates.length > 0 && (
           <div className="mt-12">
             <h2 className="mb-6 font-heading text-2xl font-semibold text-sand-900">
-              Certificări și Distincții
+              {dictionary.aboutPage.certificates}
             </h2>
             <ImageGallery
               images={certificates.map((cert) => cert.image)}
@@ -171,7 +187,7 @@ export default async function DespreNoiSubPage({ params }: Props) {
         {isPressPage && pressClippings.length > 0 && (
           <div className="mt-12">
             <h2 className="mb-6 font-heading text-2xl font-semibold text-sand-900">
-              Apariții în Presă
+              {dictionary.aboutPage.press}
             </h2>
             <ImageGallery
               images={pressClippings.map((clip) => clip.image)}
@@ -183,10 +199,11 @@ export default async function DespreNoiSubPage({ params }: Props) {
 
       {/* CTA */}
       <CTASection
-        title="Ai întrebări?"
-        description="Suntem aici să te ajutăm. Contactează-ne pentru mai multe informații."
-        primaryButton={{ label: "Contactează-ne", href: "/contact" }}
+        title={dictionary.page.ctaTitle}
+        description={dictionary.page.ctaDescription}
+        primaryButton={{ label: dictionary.common.contactUs, href: "/contact" }}
         variant="default"
+        locale={locale}
       />
     </>
   );
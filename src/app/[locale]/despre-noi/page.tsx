@@ -1,3 +1,4 @@
+import { draftMode } from "next/headers";
 import type { Metadata } from "next";
 import Link from "next/link";
 import Image from "next/image";
@@ -15,67 +16,56 @@ import { RichText } from "@/lib/contentful/rich-text";
 import { CompactTimeline } from "@/components/content/Timeline";
 import { CompactTeamList } from "@/components/content/TeamGrid";
 import { CTASection } from "@/components/sections/CTASection";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { localeAlternates, localizePath } from "@/lib/i18n/routing";
 
-export const metadata: Metadata = {
-  title: "Despre Noi - Povestea și Echipa Noastră",
-  description:
-    "Descoperiți povestea Clubului Micii Campioni, primul club de educație acvatică din România, fondat în 2001 de Georgeta Sultana. Echipă dedicată, metodă unică.",
-  alternates: { canonical: "/despre-noi" },
-  openGraph: {
-    title: "Despre Noi - Povestea și Echipa Noastră | Micii Campioni",
-    description:
-      "Descoperiți povestea Clubului Micii Campioni, primul club de educație acvatică din România, fondat în 2001 de Georgeta Sultana. Echipă dedicată, metodă unică.",
-  },
-};
+interface Props {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  const t = getDictionary(locale).aboutPage;
+
+  return {
+    title: t.metaTitle,
+    description: t.metaDescription,
+    alternates: localeAlternates("/despre-noi", locale),
+    openGraph: {
+      title: `${t.metaTitle} | Micii Campioni`,
+      description: t.metaDescription,
+    },
+  };
+}
 
 // Section navigation cards
 const sectionCards = [
-  {
-    slug: "istoric",
-    title: "Istoric",
-    description: "Povestea Micii Campioni din 1981 până în prezent",
-    icon: History,
-  },
-  {
-    slug: "siguranta-si-securitate-pentru-copilul-tau",
-    title: "Siguranță și Securitate",
-    description: "Standardele noastre de siguranță pentru copilul tău",
-    icon: Shield,
-  },
-  {
-    slug: "echipa-micii-campioni",
-    title: "Echipa",
-    description: "Cunoaște instructorii și specialiștii noștri",
-    icon: Users,
-  },
-  {
-    slug: "press-info",
-    title: "Press Info",
-    description: "Articole și aparții media despre noi",
-    icon: Newspaper,
-  },
-  {
-    slug: "distinctii-si-certificari",
-    title: "Distincții și Certificări",
-    description: "Recunoașterea muncii noastre",
-    icon: Award,
-  },
-];
+  { slug: "istoric", icon: History },
+  { slug: "siguranta-si-securitate-pentru-copilul-tau", icon: Shield },
+  { slug: "echipa-micii-campioni", icon: Users },
+  { slug: "press-info", icon: Newspaper },
+  { slug: "distinctii-si-certificari", icon: Award },
+] as const;
 
-export default async function DespreNoiPage() {
+export default async function DespreNoiPage({ params }: Props) {
+  const locale = resolveLocale((await params).locale);
+  const dictionary = getDictionary(locale);
+  const t = dictionary.aboutPage;
+  const { isEnabled: preview } = await draftMode();
   const [page, childPages, teamMembers, timelineEvents] = await Promise.all([
-    getPageBySlug("despre-noi"),
-    getPagesByParentSlug("despre-noi"),
-    getTeamMembers(),
-    getTimelineEvents(),
+    getPageBySlug("despre-noi", preview, locale),
+    getPagesByParentSlug("despre-noi", preview, locale),
+    getTeamMembers(preview, locale),
+    getTimelineEvents(preview, locale),
   ]);
 
   return (
     <>
       {/* Hero */}
       <SectionHero
-        title="Despre Noi"
-        subtitle="Primul club de educație acvatică din România, dedicat dezvoltării armonioase a copiilor prin intermediul apei încă din 2001."
+        title={t.title}
+        subtitle={t.subtitle}
         heroImage={page?.heroImage}
       />
 
@@ -84,7 +74,7 @@ export default async function DespreNoiPage() {
         <Section background="white" spacing="xl">
           <div className="mx-auto max-w-4xl">
             <div className="prose max-w-none">
-              <RichText content={page.content} />
+              <RichText content={page.content} locale={locale} />
             </div>
           </div>
         </Section>
@@ -94,10 +84,10 @@ export default async function DespreNoiPage() {
       <Section background="sand" spacing="xl">
         <div className="mb-8 text-center">
           <h2 className="font-heading text-3xl font-bold text-sand-900">
-            Explorează Secțiunile
+            {t.sectionsTitle}
           </h2>
           <p className="mt-2 text-lg text-sand-600">
-            Află mai multe despre noi
+            {t.sectionsSubtitle}
           </p>
         </div>
 
@@ -105,7 +95,7 @@ export default async function DespreNoiPage() {
           {sectionCards.map((card) => (
             <Link
               key={card.slug}
-              href={`/despre-noi/${card.slug}`}
+              href={localizePath(`/despre-noi/${card.slug}`, locale)}
               className="group block"
             >
               <Card
@@ -117,11 +107,11 @@ export default async function DespreNoiPage() {
                   <card.icon className="h-6 w-6 text-lagoon-600 transition-colors group-hover:text-white" />
                 </div>
                 <h3 className="font-heading text-xl font-semibold text-sand-900">
-                  {card.title}
+                  {t.sections[card.slug].title}
                 </h3>
-                <p className="mt-2 text-sand-600">{card.description}</p>
+                <p className="mt-2 text-sand-600">{t.sections[card.slug].description}</p>
                 <span className="mt-4 inline-flex items-center text-sm font-medium text-lagoon-600 group-hover:text-lagoon-700">
-                  Citește mai mult
+                  {dictionary.common.readMore}
                   <ArrowRight className="ml-1 h-4 w-4 transition-transform group-hover:translate-x-1" />
                 </span>
               </Card>
@@ -137,14 +127,14 @@ export default async function DespreNoiPage() {
           {timelineEvents.length > 0 && (
             <div>
               <h2 className="mb-6 font-heading text-2xl font-semibold text-sand-900">
-                Repere Istorice
+                {t.milestones}
               </h2>
               <CompactTimeline events={timelineEvents} limit={4} />
               <Link
-                href="/despre-noi/istoric"
+                href={localizePath("/despre-noi/istoric", locale)}
                 className="mt-6 inline-flex items-center text-lagoon-600 hover:text-lagoon-700"
               >
-                Vezi istoricul complet
+                {t.fullHistory}
                 <ArrowRight className="ml-1 h-4 w-4" />
               </Link>
             </div>
@@ -154,14 +144,14 @@ export default async function DespreNoiPage() {
           {teamMembers.length > 0 && (
             <div>
               <h2 className="mb-6 font-heading text-2xl font-semibold text-sand-900">
-                Echipa Noastră
+                {t.team}
               </h2>
               <CompactTeamList members={teamMembers} limit={3} />
               <Link
-                href="/despre-noi/echipa-micii-campioni"
+                href={localizePath("/despre-noi/echipa-micii-campioni", locale)}
                 className="mt-6 inline-flex items-center text-lagoon-600 hover:text-lagoon-700"
               >
-                Cunoaște întreaga echipă
+                {t.fullTeam}
                 <ArrowRight className="ml-1 h-4 w-4" />
               </Link>
             </div>
@@ -171,10 +161,11 @@ export default async function DespreNoiPage() {
 
       {/* CTA */}
       <CTASection
-        title="Vrei să afli mai multe?"
-        description="Contactează-ne pentru a programa o vizită sau pentru orice întrebări."
-        primaryButton={{ label: "Contactează-ne", href: "/contact" }}
+        title={t.ctaTitle}
+        description={t.ctaDescription}
+        primaryButton={{ label: dictionary.common.contactUs, href: "/contact" }}
         variant="default"
+        locale={locale}
       />
     </>
   );
@@ -4,6 +4,8 @@ import { useEffect } from "react";
 import { AlertTriangle, RefreshCw, Home } from "lucide-react";
 import { Button } from "@/components/ui/Button";
 import { Container } from "@/components/ui/Container";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+import { localizePath } from "@/lib/i18n/routing";
 
 interface ErrorProps {
   error: Error & { digest?: string };
@@ -11,6 +13,9 @@ interface ErrorProps {
 }
 
 export default function Error({ error, reset }: ErrorProps) {
+  const { locale, dictionary } = useLocale();
+  const t = dictionary.error;
+
   useEffect(() => {
     // Log error to console in development
     console.error("Application error:", error);
@@ -25,22 +30,21 @@ export default function Error({ error, reset }: ErrorProps) {
           </div>
 
           <h1 className="mb-4 font-heading text-3xl font-bold text-sand-900">
-            Oops! Ceva nu a mers bine
+            {t.title}
           </h1>
 
           <p className="mb-8 text-lg text-sand-600">
-            Ne pare rău, a apărut o eroare neașteptată. Te rugăm să încerci din nou
-            sau să revii la pagina principală.
+            {t.description}
           </p>
 
           <div className="flex flex-col justify-center gap-4 sm:flex-row">
             <Button onClick={reset} variant="primary">
               <RefreshCw className="mr-2 h-4 w-4" />
-              Încearcă din nou
+              {t.retry}
             </Button>
-            <Button href="/" variant="outline">
+            <Button href={localizePath("/", locale)} variant="outline">
               <Home className="mr-2 h-4 w-4" />
-              Pagina principală
+              {t.home}
             </Button>
           </div>
 
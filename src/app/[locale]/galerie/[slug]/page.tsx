@@ -1,20 +1,26 @@
+import { draftMode } from "next/headers";
 import { notFound } from "next/navigation";
 import type { Metadata } from "next";
 import Link from "next/link";
 import { ArrowLeft, Calendar, Images } from "lucide-react";
 import { getGalleryBySlug, getAllGallerySlugs, getGalleries } from "@/lib/contentful/queries";
+import { absoluteUrl, galleryUrl } from "@/lib/contentful/urls";
 import { Section } from "@/components/ui/Section";
 import { Container } from "@/components/ui/Container";
 import { Badge } from "@/components/ui/Badge";
 import { ImageGallery, GalleryCard } from "@/components/content/ImageGallery";
 import { CTASection } from "@/components/sections/CTASection";
+import { localeInfo, resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { format } from "@/lib/i18n/format";
+import { languageAlternates, localizePath } from "@/lib/i18n/routing";
 
 // =============================================================================
 // Types
 // =============================================================================
 
 interface Props {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ locale: string; slug: string }>;
 }
 
 // =============================================================================
@@ -22,19 +28,25 @@ interface Props {
 // =============================================================================
 
 export async function generateMetadata({ params }: Props): Promise<Metadata> {
-  const { slug } = await params;
-  const gallery = await getGalleryBySlug(slug);
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const t = getDictionary(locale).gallery;
+  const gallery = await getGalleryBySlug(slug, preview, locale);
 
   if (!gallery) {
     return {
-      title: "Galerie negăsită",
+      title: t.notFound,
     };
   }
 
   return {
-    title: `${gallery.title} - Galerie Foto`,
-    description: gallery.description || `Galerie foto: ${gallery.title}`,
-    alternates: { canonical: `/galerie/${slug}` },
+    title: format(t.metaTitle, { title: gallery.title }),
+    description: gallery.description || format(t.metaDescription, { title: gallery.title }),
+    alternates: {
+      canonical: galleryUrl(slug, locale),
+      languages: languageAlternates(galleryUrl(slug)),
+    },
     openGraph: {
       title: gallery.title,
       description: gallery.description,
@@ -62,10 +74,14 @@ export async function generateStaticParams() {
 // =============================================================================
 
 export default async function GalleryDetailPage({ params }: Props) {
-  const { slug } = await params;
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const dictionary = getDictionary(locale);
+  const t = dictionary.gallery;
   const [gallery, allGalleries] = await Promise.all([
-    getGalleryBySlug(slug),
-    getGalleries(),
+    getGalleryBySlug(slug, preview, locale),
+    getGalleries(false, preview, locale),
   ]);
 
   if (!gallery) {
@@ -77,23 +93,36 @@ export default async function GalleryDetailPage({ params }: Props) {
 
   // Format date
   const formattedDate = gallery.date
-    ? new Date(gallery.date).toLocaleDateString("ro-RO", {
+    ? new Date(gallery.date).toLocaleDateString(localeInfo[locale].intl, {
         year: "numeric",
         month: "long",
         day: "numeric",
       })
     : null;
 
-  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
-
   // Breadcrumb structured data
   const breadcrumbJsonLd = {
     "@context": "https://schema.org",
     "@type": "BreadcrumbList",
     itemListElement: [
-      { "@type": "ListItem", position: 1, name: "Acasă", item: siteUrl },
-      { "@type": "ListItem", position: 2, name: "Galerie", item: `${siteUrl}/galerie` },
-      { "@type": "ListItem", position: 3, name: gallery.title, item: `${siteUrl}/galerie/${slug}` },
+      {
+        "@type": "ListItem",
+        position: 1,
+        name: dictionary.common.home,
+        item: absoluteUrl(localizePath("/", locale)),
+      },
+      {
+        "@type": "ListItem",
+        position: 2,
+        name: dictionary.common.gallery,
+        item: absoluteUrl(localizePath("/galerie", locale)),
+      },
+      {
+        "@type": "ListItem",
+        position: 3,
+        name: gallery.title,
+        item: absoluteUrl(galleryUrl(slug, locale)),
+      },
     ],
   };
 
@@ -108,11 +137,11 @@ export default async function GalleryDetailPage({ params }: Props) {
         <Container>
           {/* Back link */}
           <Link
-            href="/galerie"
+            href={localizePath("/galerie", locale)}
             className="mb-6 inline-flex items-center text-lagoon-200 transition-colors hover:text-white"
           >
             <ArrowLeft className="mr-2 h-4 w-4" />
-            Înapoi la Galerie
+            {t.back}
           </Link>
 
           <div className="max-w-3xl">
@@ -138,7 +167,7 @@ export default async function GalleryDetailPage({ params }: Props) {
                 className="bg-white/20 text-white"
               >
                 <Images className="mr-1 h-4 w-4" />
-                {gallery.images.length} fotografii
+                {format(dictionary.common.photos, { count: gallery.images.length })}
               </Badge>
             </div>
 
@@ -162,7 +191,7 @@ export default async function GalleryDetailPage({ params }: Props) {
         <Section background="sand" spacing="xl">
           <div className="mb-8">
             <h2 className="font-heading text-2xl font-semibold text-sand-900">
-              Alte Galerii
+              {t.other}
             </h2>
           </div>
           <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
@@ -172,8 +201,8 @@ export default async function GalleryDetailPage({ params }: Props) {
                 title={g.title}
                 coverImage={g.coverImage}
                 imageCount={g.images.length}
-                href={`/galerie/${g.slug}`}
-                date={g.date ? new Date(g.date).toLocaleDateString("ro-RO", {
+                href={galleryUrl(g.slug, locale)}
+                date={g.date ? new Date(g.date).toLocaleDateString(localeInfo[locale].intl, {
                   year: "numeric",
                   month: "long",
                 }) : undefined}
@@ -185,10 +214,11 @@ export default async function GalleryDetailPage({ params }: Props) {
 
       {/* CTA */}
       <CTASection
-        title="Vrei să capturezi momente speciale?"
-        description="Înscrie copilul tău la cursurile noastre și creează amintiri de neuitat."
-        primaryButton={{ label: "Contactează-ne", href: "/contact" }}
+        title={t.ctaTitle}
+        description={t.ctaDescription}
+        primaryButton={{ label: dictionary.common.contactUs, href: "/contact" }}
         variant="default"
+        locale={locale}
       />
     </>
   );
@@ -1,24 +1,40 @@
+import { draftMode } from "next/headers";
 import type { Metadata } from "next";
 import { getGalleries } from "@/lib/contentful/queries";
 import { SectionHero } from "@/components/layout/PageLayout";
 import { Section } from "@/components/ui/Section";
 import { GalleryCard } from "@/components/content/ImageGallery";
 import { CTASection } from "@/components/sections/CTASection";
+import { galleryUrl } from "@/lib/contentful/urls";
+import { localeInfo, resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { localeAlternates, localizePath } from "@/lib/i18n/routing";
 
-export const metadata: Metadata = {
-  title: "Galerie Foto - Momente din Cursuri",
-  description:
-    "Galerie foto cu activitățile Clubului Micii Campioni - momente speciale din cursurile de educație acvatică pentru bebeluși și copii. Vezi bucuria micilor campioni!",
-  alternates: { canonical: "/galerie" },
-  openGraph: {
-    title: "Galerie Foto - Momente din Cursuri | Micii Campioni",
-    description:
-      "Galerie foto cu activitățile Clubului Micii Campioni - momente speciale din cursurile de educație acvatică pentru bebeluși și copii. Vezi bucuria micilor campioni!",
-  },
-};
+interface Props {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  const t = getDictionary(locale).galleries;
+
+  return {
+    title: t.metaTitle,
+    description: t.metaDescription,
+    alternates: localeAlternates("/galerie", locale),
+    openGraph: {
+      title: `${t.metaTitle} | Micii Campioni`,
+      description: t.metaDescription,
+    },
+  };
+}
 
-export default async function GaleriePage() {
-  const galleries = await getGalleries();
+export default async function GaleriePage({ params }: Props) {
+  const locale = resolveLocale((await params).locale);
+  const dictionary = getDictionary(locale);
+  const t = dictionary.galleries;
+  const { isEnabled: preview } = await draftMode();
+  const galleries = await getGalleries(false, preview, locale);
 
   // Separate featured from regular galleries
   const featuredGalleries = galleries.filter((g) => g.featured);
@@ -30,8 +46,18 @@ export default async function GaleriePage() {
     "@context": "https://schema.org",
     "@type": "BreadcrumbList",
     itemListElement: [
-      { "@type": "ListItem", position: 1, name: "Acasă", item: siteUrl },
-      { "@type": "ListItem", position: 2, name: "Galerie", item: `${siteUrl}/galerie` },
+      {
+        "@type": "ListItem",
+        position: 1,
+        name: dictionary.common.home,
+        item: `${siteUrl}${localizePath("/", locale)}`,
+      },
+      {
+        "@type": "ListItem",
+        position: 2,
+        name: dictionary.common.gallery,
+        item: `${siteUrl}${localizePath("/galerie", locale)}`,
+      },
     ],
   };
 
@@ -43,8 +69,8 @@ export default async function GaleriePage() {
       />
       {/* Hero */}
       <SectionHero
-        title="Galerie Foto"
-        subtitle="Momente speciale din activitățile clubului nostru - bucuria copiilor în apă."
+        title={t.title}
+        subtitle={t.subtitle}
       />
 
       {/* Featured Galleries */}
@@ -52,7 +78,7 @@ export default async function GaleriePage() {
         <Section background="white" spacing="xl">
           <div className="mb-8">
             <h2 className="font-heading text-2xl font-semibold text-sand-900">
-              Galerii Recomandate
+              {t.featured}
             </h2>
           </div>
           <div className="grid gap-6 md:grid-cols-2">
@@ -62,8 +88,8 @@ export default async function GaleriePage() {
                 title={gallery.title}
                 coverImage={gallery.coverImage}
                 imageCount={gallery.images.length}
-                href={`/galerie/${gallery.slug}`}
-                date={gallery.date ? new Date(gallery.date).toLocaleDateString("ro-RO", {
+                href={galleryUrl(gallery.slug, locale)}
+                date={gallery.date ? new Date(gallery.date).toLocaleDateString(localeInfo[locale].intl, {
                   year: "numeric",
                   month: "long",
                 }) : undefined}
@@ -78,7 +104,7 @@ export default async function GaleriePage() {
         <Section background="sand" spacing="xl">
           <div className="mb-8">
             <h2 className="font-heading text-2xl font-semibold text-sand-900">
-              {featuredGalleries.length > 0 ? "Toate Galeriile" : "Galeriile Noastre"}
+              {featuredGalleries.length > 0 ? t.all : t.ours}
             </h2>
           </div>
           <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
@@ -88,8 +114,8 @@ export default async function GaleriePage() {
                 title={gallery.title}
                 coverImage={gallery.coverImage}
                 imageCount={gallery.images.length}
-                href={`/galerie/${gallery.slug}`}
-                date={gallery.date ? new Date(gallery.date).toLocaleDateString("ro-RO", {
+                href={galleryUrl(gallery.slug, locale)}
+                date={gallery.date ? new Date(gallery.date).toLocaleDateString(localeInfo[locale].intl, {
                   year: "numeric",
                   month: "long",
                 }) : undefined}
@@ -104,7 +130,7 @@ export default async function GaleriePage() {
         <Section background="white" spacing="xl">
           <div className="mx-auto max-w-md text-center">
             <p className="text-lg text-sand-600">
-              Galeria foto va fi disponibilă în curând.
+              {t.empty}
             </p>
           </div>
         </Section>
@@ -112,10 +138,11 @@ export default async function GaleriePage() {
 
       {/* CTA */}
       <CTASection
-        title="Vrei să vezi copilul tău aici?"
-        description="Înscrie-l la cursurile noastre și surprinde momentele speciale din călătoria lui acvatică."
-        primaryButton={{ label: "Înscrie-te Acum", href: "/contact" }}
+        title={t.ctaTitle}
+        description={t.ctaDescription}
+        primaryButton={{ label: t.ctaButton, href: "/contact" }}
         variant="gradient"
+        locale={locale}
       />
     </>
   );
@@ -1,106 +1,124 @@
+import { draftMode } from "next/headers";
 import type { Metadata } from "next";
 import Link from "next/link";
-import { ChevronRight, Home, Info, Lightbulb, Building2, Briefcase, Images, Mail } from "lucide-react";
+import { ChevronRight, Home, Info, Lightbulb, Building2, Briefcase, Images, Mail, type LucideIcon } from "lucide-react";
 import { getServices, getGalleries } from "@/lib/contentful/queries";
 import { SectionHero } from "@/components/layout/PageLayout";
 import { Section } from "@/components/ui/Section";
 import { Card } from "@/components/ui/Card";
+import { galleryUrl, serviceUrl } from "@/lib/contentful/urls";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary, type Dictionary } from "@/lib/i18n/dictionary";
+import { localeAlternates, localizePath } from "@/lib/i18n/routing";
 
-export const metadata: Metadata = {
-  title: "Harta Site-ului",
-  description:
-    "Navigare completă prin site-ul Clubului Micii Campioni - explorează toate paginile, cursurile de înot și informațiile despre educația acvatică pentru copii.",
-  alternates: { canonical: "/harta-site" },
-  openGraph: {
-    title: "Harta Site-ului | Micii Campioni",
-    description:
-      "Navigare completă prin site-ul Clubului Micii Campioni - explorează toate paginile, cursurile de înot și informațiile despre educația acvatică pentru copii.",
-  },
-};
+interface Props {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  const t = getDictionary(locale).siteMap;
+
+  return {
+    title: t.metaTitle,
+    description: t.metaDescription,
+    alternates: localeAlternates("/harta-site", locale),
+    openGraph: {
+      title: `${t.metaTitle} | Micii Campioni`,
+      description: t.metaDescription,
+    },
+  };
+}
 
 // Site structure definition
-const siteStructure = [
-  {
-    title: "Acasă",
-    href: "/",
-    icon: Home,
-    description: "Pagina principală",
-  },
-  {
-    title: "Despre Noi",
-    href: "/despre-noi",
-    icon: Info,
-    description: "Informații despre clubul nostru",
-    children: [
-      { title: "Istoric", href: "/despre-noi/istoric" },
-      { title: "Siguranță și Securitate", href: "/despre-noi/siguranta-si-securitate-pentru-copilul-tau" },
-      { title: "Echipa", href: "/despre-noi/echipa-micii-campioni" },
-      { title: "Press Info", href: "/despre-noi/press-info" },
-      { title: "Distincții și Certificări", href: "/despre-noi/distinctii-si-certificari" },
-    ],
-  },
-  {
-    title: "Concept",
-    href: "/concept",
-    icon: Lightbulb,
-    description: "Filosofia și metodologia noastră",
-    children: [
-      { title: "Micii Campioni și FAAEL", href: "/concept/micii-campioni-si-faael" },
-      { title: "Viziune și Obiective", href: "/concept/viziune-si-obiective" },
-    ],
-  },
-  {
-    title: "Asociația",
-    href: "/asociatia",
-    icon: Building2,
-    description: "Activitatea asociației noastre",
-    children: [
-      { title: "Misiune", href: "/asociatia/misiune" },
-      { title: "Proiecte și Programe", href: "/asociatia/proiecte-si-programe" },
-      { title: "Conferințe și Congrese", href: "/asociatia/conferinte-si-congrese" },
-      { title: "Sponsorizări", href: "/asociatia/sponsorizari" },
-    ],
-  },
-  {
-    title: "Cursuri",
-    href: "/servicii",
-    icon: Briefcase,
-    description: "Programele noastre de educație acvatică",
-    // Children will be dynamically populated
-    isDynamic: true,
-    dynamicKey: "services",
-  },
-  {
-    title: "Galerie",
-    href: "/galerie",
-    icon: Images,
-    description: "Galerie foto",
-    isDynamic: true,
-    dynamicKey: "galleries",
-  },
-  {
-    title: "Contact",
-    href: "/contact",
-    icon: Mail,
-    description: "Informații de contact și formular",
-  },
-];
+interface SiteSection {
+  title: string;
+  description: string;
+  href: string;
+  icon: LucideIcon;
+  children?: { title: string; href: string }[];
+  isDynamic?: boolean;
+  dynamicKey?: "services" | "galleries";
+}
+
+function getSiteStructure(dictionary: Dictionary): SiteSection[] {
+  const { sections } = dictionary.siteMap;
+  const subpages = (
+    parent: string,
+    pages: Record<string, { title: string }>
+  ) =>
+    Object.entries(pages).map(([slug, page]) => ({
+      title: page.title,
+      href: `/${parent}/${slug}`,
+    }));
+
+  return [
+    {
+      ...sections.home,
+      href: "/",
+      icon: Home,
+    },
+    {
+      ...sections.about,
+      href: "/despre-noi",
+      icon: Info,
+      children: subpages("despre-noi", dictionary.aboutPage.sections),
+    },
+    {
+      ...sections.concept,
+      href: "/concept",
+      icon: Lightbulb,
+      children: subpages("concept", dictionary.conceptPage.sections),
+    },
+    {
+      ...sections.association,
+      href: "/asociatia",
+      icon: Building2,
+      children: subpages("asociatia", dictionary.associationPage.sections),
+    },
+    {
+      ...sections.courses,
+      href: "/servicii",
+      icon: Briefcase,
+      // Children will be dynamically populated
+      isDynamic: true,
+      dynamicKey: "services",
+    },
+    {
+      ...sections.gallery,
+      href: "/galerie",
+      icon: Images,
+      isDynamic: true,
+      dynamicKey: "galleries",
+    },
+    {
+      ...sections.contact,
+      href: "/contact",
+      icon: Mail,
+      children: [{ title: dictionary.booking.title, href: "/programare" }],
+    },
+  ];
+}
 
-export default async function SitemapPage() {
+export default async function SitemapPage({ params }: Props) {
+  const locale = resolveLocale((await params).locale);
+  const dictionary = getDictionary(locale);
+  const t = dictionary.siteMap;
+  const { isEnabled: preview } = await draftMode();
   const [services, galleries] = await Promise.all([
-    getServices(),
-    getGalleries(),
+    getServices(false, preview, locale),
+    getGalleries(false, preview, locale),
   ]);
 
   // Build dynamic children
-  const structureWithDynamic = siteStructure.map((section) => {
+  const structureWithDynamic = getSiteStructure(dictionary).map((section) => {
     if (section.isDynamic) {
       if (section.dynamicKey === "services") {
         return {
           ...section,
           children: services.map((s) => ({
             title: s.title,
-            href: `/servicii/${s.slug}`,
+            href: serviceUrl(s.slug),
           })),
         };
       }
@@ -109,7 +127,7 @@ export default async function SitemapPage() {
           ...section,
           children: galleries.slice(0, 5).map((g) => ({
             title: g.title,
-            href: `/galerie/${g.slug}`,
+            href: galleryUrl(g.slug),
           })),
         };
       }
@@ -121,8 +139,8 @@ export default async function SitemapPage() {
     <>
       {/* Hero */}
       <SectionHero
-        title="Harta Site-ului"
-        subtitle="Navigare completă prin toate paginile site-ului nostru"
+        title={t.title}
+        subtitle={t.subtitle}
       />
 
       {/* Sitemap Grid */}
@@ -136,7 +154,7 @@ export default async function SitemapPage() {
                 </div>
                 <div>
                   <Link
-                    href={section.href}
+                    href={localizePath(section.href, locale)}
                     className="font-heading text-lg font-semibold text-sand-900 hover:text-lagoon-600"
                   >
                     {section.title}
@@ -152,7 +170,7 @@ export default async function SitemapPage() {
                   {section.children.map((child) => (
                     <li key={child.href}>
                       <Link
-                        href={child.href}
+                        href={localizePath(child.href, locale)}
                         className="flex items-center text-sand-600 transition-colors hover:text-lagoon-600"
                       >
                         <ChevronRight className="mr-2 h-4 w-4 text-sand-400" />
@@ -171,26 +189,26 @@ export default async function SitemapPage() {
       <Section background="sand" spacing="lg">
         <div className="mx-auto max-w-2xl text-center">
           <h2 className="mb-4 font-heading text-2xl font-semibold text-sand-900">
-            Link-uri Rapide
+            {t.quickLinks}
           </h2>
           <div className="flex flex-wrap justify-center gap-4">
             <Link
-              href="/contact"
+              href={localizePath("/contact", locale)}
               className="rounded-full bg-lagoon-500 px-6 py-2 text-white transition-colors hover:bg-lagoon-600"
             >
-              Contactează-ne
+              {dictionary.common.contactUs}
             </Link>
             <Link
-              href="/servicii"
+              href={localizePath("/servicii", locale)}
               className="rounded-full bg-white px-6 py-2 text-sand-700 shadow-soft transition-colors hover:bg-sand-50"
             >
-              Vezi Cursurile
+              {dictionary.common.viewCourses}
             </Link>
             <Link
-              href="/galerie"
+              href={localizePath("/galerie", locale)}
               className="rounded-full bg-white px-6 py-2 text-sand-700 shadow-soft transition-colors hover:bg-sand-50"
             >
-              Galerie Foto
+              {t.photoGallery}
             </Link>
           </div>
         </div>
@@ -0,0 +1,192 @@
+import { draftMode } from "next/headers";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { Plus_Jakarta_Sans, Inter } from "next/font/google";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { PreviewBanner } from "@/components/layout/PreviewBanner";
+import { WhatsAppButton } from "@/components/ui/WhatsAppButton";
+import { ConsentBanner } from "@/components/consent/ConsentBanner";
+import { AttributionTracker } from "@/components/analytics/AttributionTracker";
+import { FacebookPixel } from "@/components/analytics/FacebookPixel";
+import { GoogleAds } from "@/components/analytics/GoogleAds";
+import { GoogleAnalytics } from "@/components/analytics/GoogleAnalytics";
+import { getNavigation, getSiteSettings } from "@/lib/contentful/queries";
+import { consentModeScript } from "@/lib/consent";
+import { ConsentProvider } from "@/lib/consent/ConsentProvider";
+import { ThemeProvider } from "@/lib/theme/ThemeProvider";
+import { LenisProvider } from "@/lib/scroll/LenisProvider";
+import { isLocale, localeInfo, locales, resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { LocaleProvider } from "@/lib/i18n/LocaleProvider";
+import { localeAlternates } from "@/lib/i18n/routing";
+import "../globals.css";
+
+const plusJakarta = Plus_Jakarta_Sans({
+  variable: "--font-plus-jakarta",
+  subsets: ["latin", "latin-ext"],
+  display: "swap",
+  weight: ["400", "500", "600", "700"],
+});
+
+const inter = Inter({
+  variable: "--font-inter",
+  subsets: ["latin", "latin-ext"],
+  display: "swap",
+  weight: ["400", "500", "600"],
+});
+
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }));
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  const t = getDictionary(locale).meta;
+
+  return {
+    metadataBase: new URL(
+      process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro"
+    ),
+    title: {
+      default: t.title,
+      template: "%s | Micii Campioni",
+    },
+    description: t.description,
+    keywords: t.keywords,
+    authors: [{ name: "Clubul Micii Campioni" }],
+    creator: "Georgeta Sultana",
+    alternates: localeAlternates("/", locale),
+    openGraph: {
+      type: "website",
+      locale: localeInfo[locale].ogLocale,
+      alternateLocale: locales
+        .filter((other) => other !== locale)
+        .map((other) => localeInfo[other].ogLocale),
+      siteName: "Micii Campioni",
+      title: t.title,
+      description: t.ogDescription,
+    },
+    twitter: {
+      card: "summary_large_image",
+      site: "@MiciiCampioni1",
+    },
+    robots: {
+      index: true,
+      follow: true,
+    },
+  };
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}>) {
+  const { locale: param } = await params;
+  if (!isLocale(param)) notFound();
+
+  const locale = param;
+  const dictionary = getDictionary(locale);
+  const { isEnabled: preview } = await draftMode();
+  const [headerNav, siteSettings] = await Promise.all([
+    getNavigation("header", preview, locale),
+    getSiteSettings(preview, locale),
+  ]);
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
+
+  const organizationJsonLd = {
+    "@context": "https://schema.org",
+    "@type": "Organization",
+    name: "Clubul Micii Campioni",
+    alternateName: "Micii Campioni",
+    url: siteUrl,
+    logo: siteSettings?.logo?.url
+      ? siteSettings.logo.url.startsWith("//")
+        ? `https:${siteSettings.logo.url}`
+        : siteSettings.logo.url
+      : `${siteUrl}/images/logos/logo-micii-campioni.png`,
+    foundingDate: "2001",
+    founder: {
+      "@type": "Person",
+      name: "Georgeta Sultana",
+    },
+    description: dictionary.meta.organizationDescription,
+    address: siteSettings?.address
+      ? {
+          "@type": "PostalAddress",
+          streetAddress: siteSettings.address,
+          addressLocality: "Bucuresti",
+          addressCountry: "RO",
+        }
+      : undefined,
+    telephone: siteSettings?.phone,
+    email: siteSettings?.email,
+    sameAs: [
+      siteSettings?.facebookUrl,
+      siteSettings?.instagramUrl,
+      siteSettings?.twitterUrl,
+    ].filter(Boolean),
+  };
+
+  return (
+    <html lang={locale} suppressHydrationWarning>
+      <head>
+        {/* Google Consent Mode defaults, before any Google tag can load */}
+        <script
+          id="consent-mode"
+          dangerouslySetInnerHTML={{ __html: consentModeScript() }}
+        />
+        {/* Preconnect to Contentful CDN for faster image loading */}
+        <link rel="preconnect" href="https://images.ctfassets.net" />
+        <link rel="dns-prefetch" href="https://images.ctfassets.net" />
+        {/* Facebook Domain Verification - replace with your verification code from Meta Business Suite */}
+        <meta
+          name="facebook-domain-verification"
+          content={process.env.NEXT_PUBLIC_FB_DOMAIN_VERIFICATION || "YOUR_VERIFICATION_CODE"}
+        />
+      </head>
+      <body
+        className={`${plusJakarta.variable} ${inter.variable} antialiased`}
+      >
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(organizationJsonLd),
+          }}
+        />
+        <ConsentProvider>
+          <ThemeProvider>
+            <LocaleProvider locale={locale} dictionary={dictionary}>
+              <LenisProvider>
+                <a href="#main-content" className="skip-link">
+                  {dictionary.common.skipToContent}
+                </a>
+                <Header navigation={headerNav} siteSettings={siteSettings} />
+                <main id="main-content">{children}</main>
+                <Footer navigation={headerNav} siteSettings={siteSettings} locale={locale} />
+                {siteSettings?.phone && (
+                  <WhatsAppButton phone={siteSettings.phone} />
+                )}
+                {preview && <PreviewBanner />}
+                <ConsentBanner />
+              </LenisProvider>
+            </LocaleProvider>
+          </ThemeProvider>
+          {/* Each loads only with the visitor's consent */}
+          <GoogleAnalytics />
+          <FacebookPixel />
+          <GoogleAds />
+          <AttributionTracker />
+        </ConsentProvider>
+      </body>
+    </html>
+  );
+}
@@ -1,11 +1,16 @@
+"use client";
+
 import { Spinner } from "@/components/ui/Spinner";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
 
 export default function Loading() {
+  const { dictionary } = useLocale();
+
   return (
     <div className="flex min-h-[60vh] items-center justify-center bg-sand-50">
       <div className="text-center">
         <Spinner size="lg" className="mx-auto mb-4" />
-        <p className="text-sand-600">Se încarcă...</p>
+        <p className="text-sand-600">{dictionary.common.loading}</p>
       </div>
     </div>
   );
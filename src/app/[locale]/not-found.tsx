@@ -1,8 +1,15 @@
+"use client";
+
 import Link from "next/link";
 import { Button } from "@/components/ui/Button";
 import { Container } from "@/components/ui/Container";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+import { localizePath } from "@/lib/i18n/routing";
 
 export default function NotFound() {
+  const { locale, dictionary } = useLocale();
+  const t = dictionary.notFound;
+
   return (
     <section className="flex min-h-[60vh] items-center">
       <Container className="text-center">
@@ -15,43 +22,43 @@ export default function NotFound() {
           </div>
 
           <h1 className="font-heading text-3xl font-bold text-sand-900 md:text-4xl">
-            Pagină negăsită
+            {t.title}
           </h1>
 
           <p className="mt-4 text-lg text-sand-600">
-            Ne pare rău, dar pagina pe care o cauți nu există sau a fost mutată.
+            {t.description}
           </p>
 
           <div className="mt-8 flex flex-col justify-center gap-4 sm:flex-row">
-            <Button href="/">Înapoi Acasă</Button>
-            <Button href="/contact" variant="outline">
-              Contactează-ne
+            <Button href={localizePath("/", locale)}>{t.home}</Button>
+            <Button href={localizePath("/contact", locale)} variant="outline">
+              {dictionary.common.contactUs}
             </Button>
           </div>
 
           {/* Helpful links */}
           <div className="mt-12 border-t border-sand-200 pt-8">
             <p className="mb-4 text-sm text-sand-500">
-              Poate te interesează:
+              {t.suggestions}
             </p>
             <div className="flex flex-wrap justify-center gap-4 text-sm">
               <Link
-                href="/servicii"
+                href={localizePath("/servicii", locale)}
                 className="text-lagoon-600 hover:text-lagoon-700"
               >
-                Cursuri
+                {dictionary.common.courses}
               </Link>
               <Link
-                href="/despre-noi"
+                href={localizePath("/despre-noi", locale)}
                 className="text-lagoon-600 hover:text-lagoon-700"
               >
-                Despre Noi
+                {t.about}
               </Link>
               <Link
-                href="/contact"
+                href={localizePath("/contact", locale)}
                 className="text-lagoon-600 hover:text-lagoon-700"
               >
-                Contact
+                {dictionary.common.contact}
               </Link>
             </div>
           </div>
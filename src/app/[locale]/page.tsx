@@ -1,3 +1,4 @@
+import { draftMode } from "next/headers";
 import {
   getCarouselSlides,
   getServices,
@@ -11,14 +12,23 @@ import { StatsSection } from "@/components/sections/StatsSection";
 import { AboutSection } from "@/components/sections/AboutSection";
 import { CTASection } from "@/components/sections/CTASection";
 import { WaveDivider } from "@/components/ui/WaveDivider";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
 import { AnimatedSection } from "./HomePageSections";
 
-export default async function HomePage() {
+interface HomePageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export default async function HomePage({ params }: HomePageProps) {
+  const locale = resolveLocale((await params).locale);
+  const t = getDictionary(locale).home;
+  const { isEnabled: preview } = await draftMode();
   const [slides, services, testimonials, homepageContent] = await Promise.all([
-    getCarouselSlides(),
-    getServices(),
-    getTestimonials(),
-    getHomepageContent(),
+    getCarouselSlides(preview, locale),
+    getServices(false, preview, locale),
+    getTestimonials(false, preview, locale),
+    getHomepageContent(preview, locale),
   ]);
 
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
@@ -86,11 +96,12 @@ export default async function HomePage() {
 
       {/* CTA Section */}
       <CTASection
-        title="Pregătit să începi aventura acvatică?"
-        description="Înscrie-ți copilul astăzi și oferă-i șansa de a deveni un mic campion al apei."
-        primaryButton={{ label: "Programeaza o vizită", href: "/contact" }}
-        secondaryButton={{ label: "Vezi Programul", href: "/servicii" }}
+        title={t.ctaTitle}
+        description={t.ctaDescription}
+        primaryButton={{ label: t.ctaPrimary, href: "/contact" }}
+        secondaryButton={{ label: t.ctaSecondary, href: "/servicii" }}
         variant="gradient"
+        locale={locale}
       />
     </>
   );
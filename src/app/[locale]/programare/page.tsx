@@ -0,0 +1,52 @@
+import { draftMode } from "next/headers";
+import type { Metadata } from "next";
+import { SectionHero } from "@/components/layout/PageLayout";
+import { Section } from "@/components/ui/Section";
+import { Card } from "@/components/ui/Card";
+import { BookingWizard } from "@/components/forms/BookingWizard";
+import { getBookingServices } from "@/lib/booking/services";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { localeAlternates } from "@/lib/i18n/routing";
+
+// =============================================================================
+// Metadata
+// =============================================================================
+
+interface Props {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  const t = getDictionary(locale).booking;
+
+  return {
+    title: t.metaTitle,
+    description: t.metaDescription,
+    alternates: localeAlternates("/programare", locale),
+  };
+}
+
+// =============================================================================
+// Page
+// =============================================================================
+
+export default async function BookingPage({ params }: Props) {
+  const locale = resolveLocale((await params).locale);
+  const t = getDictionary(locale).booking;
+  const { isEnabled: preview } = await draftMode();
+  const services = await getBookingServices(preview, locale);
+
+  return (
+    <>
+      <SectionHero title={t.title} subtitle={t.subtitle} />
+
+      <Section background="sand" spacing="xl" containerSize="md">
+        <Card variant="default" padding="lg">
+          <BookingWizard services={services} />
+        </Card>
+      </Section>
+    </>
+  );
+}
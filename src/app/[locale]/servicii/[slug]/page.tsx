@@ -1,3 +1,4 @@
+import { draftMode } from "next/headers";
 import { notFound } from "next/navigation";
 import Image from "next/image";
 import Link from "next/link";
@@ -6,10 +7,12 @@ import { ChevronRight } from "lucide-react";
 import {
   getServiceBySlug,
   getServices,
+  getAllServiceSlugs,
   getFAQs,
 } from "@/lib/contentful/queries";
 import { RichText } from "@/lib/contentful/rich-text";
 import { Markdown } from "@/lib/contentful/markdown";
+import { absoluteUrl, serviceUrl } from "@/lib/contentful/urls";
 import { Section } from "@/components/ui/Section";
 import { Container } from "@/components/ui/Container";
 import { Badge } from "@/components/ui/Badge";
@@ -24,22 +27,28 @@ import {
 import { CompactServices } from "@/components/sections/ServicesSection";
 import { CTASection } from "@/components/sections/CTASection";
 import { ViewContentTracker } from "@/components/analytics/ViewContentTracker";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { format } from "@/lib/i18n/format";
+import { languageAlternates, localizePath } from "@/lib/i18n/routing";
 
 // =============================================================================
 // Metadata
 // =============================================================================
 
 interface Props {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ locale: string; slug: string }>;
 }
 
 export async function generateMetadata({ params }: Props): Promise<Metadata> {
-  const { slug } = await params;
-  const service = await getServiceBySlug(slug);
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const service = await getServiceBySlug(slug, preview, locale);
 
   if (!service) {
     return {
-      title: "Serviciu negăsit",
+      title: getDictionary(locale).service.notFound,
     };
   }
 
@@ -50,7 +59,10 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   return {
     title,
     description: service.metaDescription || service.shortDescription,
-    alternates: { canonical: `/servicii/${slug}` },
+    alternates: {
+      canonical: serviceUrl(slug, locale),
+      languages: languageAlternates(serviceUrl(slug)),
+    },
     openGraph: {
       title: rawTitle,
       description: service.metaDescription || service.shortDescription,
@@ -69,10 +81,8 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
 }
 
 export async function generateStaticParams() {
-  const services = await getServices();
-  return services.map((service) => ({
-    slug: service.slug,
-  }));
+  const slugs = await getAllServiceSlugs();
+  return slugs.map((slug) => ({ slug }));
 }
 
 // =============================================================================
@@ -80,12 +90,16 @@ export async function generateStaticParams() {
 // =============================================================================
 
 export default async function ServicePage({ params }: Props) {
-  const { slug } = await params;
+  const { isEnabled: preview } = await draftMode();
+  const { slug, locale: param } = await params;
+  const locale = resolveLocale(param);
+  const dictionary = getDictionary(locale);
+  const t = dictionary.service;
   const isFAQPage = slug === "intrebari-frecvente";
   const [service, allServices, faqs] = await Promise.all([
-    getServiceBySlug(slug),
-    getServices(),
-    isFAQPage ? getFAQs() : Promise.resolve([]),
+    getServiceBySlug(slug, preview, locale),
+    getServices(false, preview, locale),
+    isFAQPage ? getFAQs(preview, locale) : Promise.resolve([]),
   ]);
 
   if (!service) {
@@ -105,18 +119,23 @@ export default async function ServicePage({ params }: Props) {
     "@context": "https://schema.org",
     "@type": "BreadcrumbList",
     itemListElement: [
-      { "@type": "ListItem", position: 1, name: "Acasă", item: siteUrl },
+      {
+        "@type": "ListItem",
+        position: 1,
+        name: dictionary.common.home,
+        item: absoluteUrl(localizePath("/", locale)),
+      },
       {
         "@type": "ListItem",
         position: 2,
-        name: "Cursuri",
-        item: `${siteUrl}/servicii`,
+        name: dictionary.common.courses,
+        item: absoluteUrl(localizePath("/servicii", locale)),
       },
       {
         "@type": "ListItem",
         position: 3,
         name: service.title,
-        item: `${siteUrl}/servicii/${slug}`,
+        item: absoluteUrl(serviceUrl(slug, locale)),
       },
     ],
   };
@@ -131,16 +150,16 @@ export default async function ServicePage({ params }: Props) {
     "@type": "Course",
     name: service.title,
     description: service.shortDescription || service.metaDescription,
-    url: `${siteUrl}/servicii/${slug}`,
+    url: absoluteUrl(serviceUrl(slug, locale)),
     provider: {
       "@type": "Organization",
       name: "Clubul Micii Campioni",
       url: siteUrl,
     },
     image: heroImageUrl,
-    inLanguage: "ro",
+    inLanguage: locale,
     ...(primaryAgeRange && {
-      coursePrerequisites: `Vârstă: ${primaryAgeRange}`,
+      coursePrerequisites: format(t.age, { range: primaryAgeRange }),
     }),
     ...(service.ageGroups &&
       service.ageGroups.length > 0 && {
@@ -211,17 +230,20 @@ export default async function ServicePage({ params }: Props) {
           <nav aria-label="Breadcrumb" className="mb-4">
             <ol className="flex flex-wrap items-center gap-1 text-sm text-lagoon-200">
               <li>
-                <Link href="/" className="transition-colors hover:text-white">
-                  Acasă
+                <Link
+                  href={localizePath("/", locale)}
+                  className="transition-colors hover:text-white"
+                >
+                  {dictionary.common.home}
                 </Link>
               </li>
               <li className="flex items-center gap-1">
                 <ChevronRight className="h-4 w-4" />
                 <Link
-                  href="/servicii"
+                  href={localizePath("/servicii", locale)}
                   className="transition-colors hover:text-white"
                 >
-                  Cursuri
+                  {dictionary.common.courses}
                 </Link>
               </li>
               <li className="flex items-center gap-1">
@@ -250,8 +272,8 @@ export default async function ServicePage({ params }: Props) {
               </p>
             )}
             <div className="mt-8 flex flex-wrap gap-4">
-              <Button href="/contact" size="lg">
-                Programează o Lecție
+              <Button href={localizePath(`/programare?serviciu=${service.slug}`, locale)} size="lg">
+                {dictionary.common.bookLesson}
               </Button>
               <Button
                 href="#detalii"
@@ -259,7 +281,7 @@ export default async function ServicePage({ params }: Props) {
                 size="lg"
                 className="border-white/30 text-white hover:bg-white/10"
               >
-                Vezi Detalii
+                {t.viewDetails}
               </Button>
             </div>
           </div>
@@ -295,7 +317,7 @@ export default async function ServicePage({ params }: Props) {
             {service.tabs && service.tabs.length > 0 ? (
               <Tabs defaultTab="descriere">
                 <TabList>
-                  <TabTrigger id="descriere">Descriere</TabTrigger>
+                  <TabTrigger id="descriere">{t.description}</TabTrigger>
                   {service.tabs.map((tab) => (
                     <TabTrigger
                       key={tab.title}
@@ -308,7 +330,7 @@ export default async function ServicePage({ params }: Props) {
 
                 <TabContent id="descriere">
                   <div className="prose max-w-none">
-                    <RichText content={service.content} />
+                    <RichText content={service.content} locale={locale} />
                   </div>
                 </TabContent>
 
@@ -325,7 +347,7 @@ export default async function ServicePage({ params }: Props) {
               </Tabs>
             ) : (
               <div className="prose max-w-none">
-                <RichText content={service.content} />
+                <RichText content={service.content} locale={locale} />
               </div>
             )}
 
@@ -349,7 +371,7 @@ export default async function ServicePage({ params }: Props) {
             {service.ageGroups && service.ageGroups.length > 0 && (
               <div className="mt-12">
                 <h2 className="mb-6 font-heading text-2xl font-semibold text-sand-900">
-                  Grupele de Vârstă
+                  {t.ageGroups}
                 </h2>
                 <div className="space-y-6">
                   {service.ageGroups.map((ageGroup) => (
@@ -386,14 +408,13 @@ export default async function ServicePage({ params }: Props) {
               {/* CTA Card */}
               <div className="rounded-2xl bg-lagoon-50 p-6">
                 <h3 className="mb-2 font-heading text-lg font-semibold text-sand-900">
-                  Înscrie-te Acum
+                  {t.enrolTitle}
                 </h3>
                 <p className="mb-4 text-sand-600">
-                  Programează o întâlnire pentru a discuta despre nevoile
-                  copilului tău.
+                  {t.enrolDescription}
                 </p>
-                <Button href="/contact" fullWidth>
-                  Programează o Lecție
+                <Button href={localizePath(`/programare?serviciu=${service.slug}`, locale)} fullWidth>
+                  {dictionary.common.bookLesson}
                 </Button>
               </div>
 
@@ -401,7 +422,7 @@ export default async function ServicePage({ params }: Props) {
               {otherServices.length > 0 && (
                 <CompactServices
                   services={otherServices}
-                  title="Alte Cursuri"
+                  title={dictionary.servicesSection.other}
                 />
               )}
             </div>
@@ -411,11 +432,12 @@ export default async function ServicePage({ params }: Props) {
 
       {/* CTA Section */}
       <CTASection
-        title="Ai întrebări despre acest curs?"
-        description="Echipa noastră este gata să te ajute. Contactează-ne pentru mai multe informații."
-        primaryButton={{ label: "Contactează-ne", href: "/contact" }}
-        secondaryButton={{ label: "Vezi Toate Cursurile", href: "/servicii" }}
+        title={t.ctaTitle}
+        description={t.ctaDescription}
+        primaryButton={{ label: dictionary.common.contactUs, href: "/contact" }}
+        secondaryButton={{ label: t.allCourses, href: "/servicii" }}
         variant="default"
+        locale={locale}
       />
     </>
   );
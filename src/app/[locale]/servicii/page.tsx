@@ -1,3 +1,4 @@
+import { draftMode } from "next/headers";
 import type { Metadata } from "next";
 import { getServices } from "@/lib/contentful/queries";
 import { Section, SectionHeader } from "@/components/ui/Section";
@@ -5,21 +6,35 @@ import { ServicesSection } from "@/components/sections/ServicesSection";
 import { CTASection } from "@/components/sections/CTASection";
 import { Container } from "@/components/ui/Container";
 import { WaveDivider } from "@/components/ui/WaveDivider";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { localeAlternates, localizePath } from "@/lib/i18n/routing";
 
-export const metadata: Metadata = {
-  title: "Cursuri de Înot pentru Copii",
-  description:
-    "Descoperă programele noastre de educație acvatică pentru toate vârstele: cursuri prenatale, înot bebeluși, înot copii și kinetoterapie.",
-  alternates: { canonical: "/servicii" },
-  openGraph: {
-    title: "Cursuri de Înot pentru Copii",
-    description:
-      "Descoperă programele noastre de educație acvatică pentru toate vârstele: cursuri prenatale, înot bebeluși, înot copii și kinetoterapie.",
-  },
-};
+interface Props {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  const t = getDictionary(locale).services;
+
+  return {
+    title: t.metaTitle,
+    description: t.metaDescription,
+    alternates: localeAlternates("/servicii", locale),
+    openGraph: {
+      title: t.metaTitle,
+      description: t.metaDescription,
+    },
+  };
+}
 
-export default async function ServicesListPage() {
-  const services = await getServices();
+export default async function ServicesListPage({ params }: Props) {
+  const locale = resolveLocale((await params).locale);
+  const dictionary = getDictionary(locale);
+  const t = dictionary.services;
+  const { isEnabled: preview } = await draftMode();
+  const services = await getServices(false, preview, locale);
 
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
 
@@ -27,8 +42,18 @@ export default async function ServicesListPage() {
     "@context": "https://schema.org",
     "@type": "BreadcrumbList",
     itemListElement: [
-      { "@type": "ListItem", position: 1, name: "Acasă", item: siteUrl },
-      { "@type": "ListItem", position: 2, name: "Cursuri", item: `${siteUrl}/servicii` },
+      {
+        "@type": "ListItem",
+        position: 1,
+        name: dictionary.common.home,
+        item: `${siteUrl}${localizePath("/", locale)}`,
+      },
+      {
+        "@type": "ListItem",
+        position: 2,
+        name: dictionary.common.courses,
+        item: `${siteUrl}${localizePath("/servicii", locale)}`,
+      },
     ],
   };
 
@@ -43,11 +68,10 @@ export default async function ServicesListPage() {
         <Container>
           <div className="mx-auto max-w-3xl text-center">
             <h1 className="font-heading text-4xl font-bold text-white md:text-5xl">
-              Cursurile Noastre
+              {t.title}
             </h1>
             <p className="mt-4 text-lg text-lagoon-100 md:text-xl">
-              Programe de educație acvatică adaptate fiecărei etape de dezvoltare,
-              de la bebeluși la copii de toate vârstele.
+              {t.subtitle}
             </p>
           </div>
         </Container>
@@ -66,10 +90,11 @@ export default async function ServicesListPage() {
 
       {/* CTA */}
       <CTASection
-        title="Nu știi ce curs să alegi?"
-        description="Echipa noastră te poate ajuta să găsești programul potrivit pentru copilul tău. Contactează-ne pentru o consultație gratuită."
-        primaryButton={{ label: "Programează o Consultație", href: "/contact" }}
+        title={t.ctaTitle}
+        description={t.ctaDescription}
+        primaryButton={{ label: t.ctaButton, href: "/contact" }}
         variant="gradient"
+        locale={locale}
       />
     </>
   );
@@ -0,0 +1,135 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { after } from "next/server";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import {
+  checkPassword,
+  consumeMagicLinkToken,
+  endSession,
+  isAdminEmail,
+  PASSWORD_USER,
+  requireAdmin,
+  startSession,
+} from "@/lib/admin/auth";
+import { sendMagicLink } from "@/lib/admin/email";
+import { deliverLead } from "@/lib/leads/queue";
+import { getLead, updateLead } from "@/lib/leads/store";
+import { rateLimit } from "@/lib/rate-limit";
+
+// =============================================================================
+// Admin Actions
+// Sign-in and lead triage for the staff inbox. Results of the sign-in forms
+// are reported through the query string of /admin/login.
+// =============================================================================
+
+const NOTE_MAX_LENGTH = 2000;
+
+async function limited(): Promise<boolean> {
+  return (await rateLimit({ headers: await headers() }, "adminLogin")).limited;
+}
+
+// =============================================================================
+// Sign-in
+// =============================================================================
+
+export async function signInWithPassword(formData: FormData) {
+  if (await limited()) redirect("/admin/login?error=limited");
+
+  const password = formData.get("password");
+  if (typeof password !== "string" || !(await checkPassword(password))) {
+    console.warn("[Admin] Failed password sign-in");
+    redirect("/admin/login?error=password");
+  }
+
+  await startSession(PASSWORD_USER);
+  redirect("/admin/leads");
+}
+
+/**
+ * Email a sign-in link. The answer is the same whether or not the address is
+ * allowed, and whether or not the email went out, so the form does not
+ * reveal who the staff are. Send failures are only logged.
+ */
+export async function requestMagicLink(formData: FormData) {
+  if (await limited()) redirect("/admin/login?error=limited");
+
+  const email = formData.get("email");
+  if (typeof email === "string" && isAdminEmail(email)) {
+    try {
+      await sendMagicLink(email.trim().toLowerCase());
+    } catch (error) {
+      console.error("[Admin] Could not send magic link:", error);
+    }
+  }
+
+  redirect("/admin/login?sent=1");
+}
+
+export async function signInWithMagicLink(formData: FormData) {
+  const token = formData.get("token");
+  const email = typeof token === "string" ? await consumeMagicLinkToken(token) : null;
+  if (!email) redirect("/admin/login?error=link");
+
+  await startSession(email);
+  redirect("/admin/leads");
+}
+
+export async function signOut() {
+  await endSession();
+  redirect("/admin/login");
+}
+
+// =============================================================================
+// Triage
+// =============================================================================
+
+/**
+ * - `handled`: followed up
+ * - `quarantined`: spam
+ * - `open`: back to the inbox; a lead released from quarantine gets the staff
+ *   notification it never had
+ */
+export type StatusChange = "handled" | "quarantined" | "open";
+
+export async function changeLeadStatus(id: string, change: StatusChange) {
+  await requireAdmin();
+
+  const lead = await getLead(id);
+  if (!lead) return;
+
+  if (change !== "open") {
+    await updateLead(id, { status: change });
+  } else if (lead.emailId) {
+    await updateLead(id, { status: "emailed" });
+  } else {
+    const reopened = await updateLead(id, { status: "new" });
+    if (reopened) after(() => deliverLead(reopened));
+  }
+
+  revalidatePath(`/admin/leads/${id}`);
+}
+
+export async function addLeadNote(id: string, formData: FormData) {
+  const session = await requireAdmin();
+
+  const text = formData.get("note");
+  if (typeof text !== "string" || !text.trim()) return;
+
+  const lead = await getLead(id);
+  if (!lead) return;
+
+  await updateLead(id, {
+    notes: [
+      ...(lead.notes ?? []),
+      {
+        text: text.trim().slice(0, NOTE_MAX_LENGTH),
+        author: session.user,
+        createdAt: new Date().toISOString(),
+      },
+    ],
+  });
+
+  revalidatePath(`/admin/leads/${id}`);
+}
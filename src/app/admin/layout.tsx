@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import "../globals.css";
+
+/**
+ * Root layout of the staff area. It sits outside the locale routing and the
+ * public site chrome, and is never indexed.
+ */
+
+export const metadata: Metadata = {
+  title: {
+    default: "Inbox",
+    template: "%s | Micii Campioni Admin",
+  },
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <html lang="ro">
+      <body className="min-h-screen bg-sand-50 text-sand-900 antialiased">{children}</body>
+    </html>
+  );
+}
@@ -0,0 +1,200 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { addLeadNote, changeLeadStatus, type StatusChange } from "@/app/admin/actions";
+import { AdminHeader, LeadStatusBadge } from "@/components/admin";
+import { Button } from "@/components/ui/Button";
+import { Textarea } from "@/components/ui/Input";
+import { requireAdmin } from "@/lib/admin/auth";
+import { formatLeadDate, KIND_LABELS, leadKind, touchLabel } from "@/lib/admin/leads";
+import type { Touch } from "@/lib/attribution";
+import { parseDate } from "@/lib/booking/schema";
+import { defaultLocale, localeInfo } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { getLead, type Lead } from "@/lib/leads/store";
+
+export const metadata: Metadata = {
+  title: "Mesaj",
+};
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+interface Detail {
+  label: string;
+  value?: string;
+  href?: string;
+}
+
+function touchDetail(touch?: Touch): string | undefined {
+  return touch && `${touchLabel(touch)}, ${formatLeadDate(new Date(touch.at).toISOString())}`;
+}
+
+/** Everything stored about a lead, in display order; empty values are skipped. */
+function leadDetails(lead: Lead): Detail[] {
+  const t = getDictionary(defaultLocale).booking;
+  const { booking } = lead;
+  const birthDate = booking?.child && parseDate(booking.child.birthDate);
+
+  return [
+    { label: "Email", value: lead.email, href: `mailto:${lead.email}` },
+    { label: "Telefon", value: lead.phone, href: lead.phone && `tel:${lead.phone}` },
+    { label: "Serviciu", value: lead.service },
+    {
+      label: "Grupa",
+      value: booking?.ageGroup && `${booking.ageGroup.name} (${booking.ageGroup.ageRange})`,
+    },
+    {
+      label: "Copil",
+      value:
+        booking?.child &&
+        `${booking.child.name}, născut(ă) la ${
+          birthDate?.toLocaleDateString("ro-RO") ?? booking.child.birthDate
+        }`,
+    },
+    { label: "Zile preferate", value: booking?.days.map((day) => t.dayOptions[day]).join(", ") },
+    {
+      label: "Intervale preferate",
+      value: booking?.times.map((time) => t.timeOptions[time]).join(", "),
+    },
+    { label: "Limbă", value: localeInfo[lead.locale].label },
+    { label: "Pagina", value: lead.pageUrl },
+    { label: "utm_source", value: lead.utm?.source },
+    { label: "utm_medium", value: lead.utm?.medium },
+    { label: "utm_campaign", value: lead.utm?.campaign },
+    { label: "utm_term", value: lead.utm?.term },
+    { label: "utm_content", value: lead.utm?.content },
+    { label: "fbc", value: lead.fbc },
+    { label: "gclid", value: lead.gclid },
+    { label: "Prima vizită", value: touchDetail(lead.attribution?.first) },
+    { label: "Ultima vizită", value: touchDetail(lead.attribution?.last) },
+    {
+      label: `Semnale spam (scor ${lead.spam?.score ?? 0})`,
+      value: lead.spam?.reasons.length ? lead.spam.reasons.join(", ") : undefined,
+    },
+    {
+      label: "Notificare",
+      value: lead.lastError && `${lead.attempts} încercări: ${lead.lastError}`,
+    },
+  ];
+}
+
+// Triage buttons, shown when they would change something
+const STATUS_CHANGES: {
+  change: StatusChange;
+  label: string;
+  allowed: (lead: Lead) => boolean;
+}[] = [
+  { change: "handled", label: "Marchează rezolvat", allowed: (lead) => lead.status !== "handled" },
+  {
+    change: "open",
+    label: "Redeschide",
+    allowed: (lead) => lead.status === "handled" || lead.status === "quarantined",
+  },
+  {
+    change: "quarantined",
+    label: "Marchează spam",
+    allowed: (lead) => lead.status !== "quarantined",
+  },
+];
+
+export default async function AdminLeadPage({ params }: Props) {
+  const session = await requireAdmin();
+  const { id } = await params;
+  const lead = await getLead(id);
+  if (!lead) notFound();
+
+  return (
+    <>
+      <AdminHeader session={session} />
+      <main className="mx-auto max-w-4xl px-6 py-10">
+        <Link href="/admin/leads" className="text-sm text-lagoon-600 hover:underline">
+          ← Toate mesajele
+        </Link>
+
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <h1 className="font-heading text-3xl font-bold text-sand-900">{lead.name}</h1>
+          <LeadStatusBadge status={lead.status} />
+        </div>
+        <p className="mt-1 text-sand-600">
+          {KIND_LABELS[leadKind(lead)]} · {formatLeadDate(lead.createdAt)}
+        </p>
+
+        {/* Status */}
+        <div className="mt-6 flex flex-wrap gap-3">
+          {STATUS_CHANGES.filter(({ allowed }) => allowed(lead)).map(({ change, label }) => (
+            <form key={change} action={changeLeadStatus.bind(null, lead.id, change)}>
+              <Button type="submit" size="sm" variant={change === "handled" ? "primary" : "outline"}>
+                {label}
+              </Button>
+            </form>
+          ))}
+        </div>
+
+        {/* Details */}
+        <dl className="mt-8 divide-y divide-sand-100 rounded-2xl border border-sand-200 bg-white">
+          {leadDetails(lead)
+            .filter((detail) => detail.value)
+            .map(({ label, value, href }) => (
+              <div key={label} className="grid gap-1 px-6 py-3 sm:grid-cols-3">
+                <dt className="text-sm text-sand-500">{label}</dt>
+                <dd className="break-words text-sand-900 sm:col-span-2">
+                  {href ? (
+                    <a href={href} className="text-lagoon-600 hover:underline">
+                      {value}
+                    </a>
+                  ) : (
+                    value
+                  )}
+                </dd>
+              </div>
+            ))}
+        </dl>
+
+        {lead.message && (
+          <section className="mt-8">
+            <h2 className="font-heading text-lg font-semibold text-sand-900">
+              {lead.booking ? "Observații" : "Mesaj"}
+            </h2>
+            <p className="mt-2 whitespace-pre-line rounded-2xl bg-white p-6 text-sand-800">
+              {lead.message}
+            </p>
+          </section>
+        )}
+
+        {/* Notes */}
+        <section className="mt-8">
+          <h2 className="font-heading text-lg font-semibold text-sand-900">Note interne</h2>
+          {lead.notes?.length ? (
+            <ul className="mt-4 space-y-3">
+              {lead.notes.map((note) => (
+                <li key={note.createdAt} className="rounded-xl bg-white p-4">
+                  <p className="whitespace-pre-line text-sand-800">{note.text}</p>
+                  <p className="mt-2 text-xs text-sand-500">
+                    {note.author} · {formatLeadDate(note.createdAt)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-sand-600">Nicio notă încă.</p>
+          )}
+          <form action={addLeadNote.bind(null, lead.id)} className="mt-4 space-y-3">
+            <Textarea
+              id="lead-note"
+              name="note"
+              label="Notă nouă"
+              rows={3}
+              maxLength={2000}
+              required
+            />
+            <Button type="submit" size="sm">
+              Adaugă nota
+            </Button>
+          </form>
+        </section>
+      </main>
+    </>
+  );
+}
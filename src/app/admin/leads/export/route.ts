@@ -0,0 +1,23 @@
+import { requireAdmin } from "@/lib/admin/auth";
+import { filterLeads, leadsCsv, parseLeadFilters } from "@/lib/admin/leads";
+import { listLeads } from "@/lib/leads/store";
+
+/**
+ * CSV export of the lead inbox, with the same filters as the list
+ */
+
+export async function GET(request: Request) {
+  await requireAdmin();
+
+  const filters = parseLeadFilters(Object.fromEntries(new URL(request.url).searchParams));
+  const leads = filterLeads(await listLeads(), filters);
+  const day = new Date().toISOString().slice(0, 10);
+
+  return new Response(leadsCsv(leads), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="mesaje-${day}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,175 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { AdminHeader, LeadStatusBadge } from "@/components/admin";
+import { Button } from "@/components/ui/Button";
+import { Input, Select } from "@/components/ui/Input";
+import { requireAdmin } from "@/lib/admin/auth";
+import {
+  filterLeads,
+  filterOptions,
+  filterQuery,
+  formatLeadDate,
+  KIND_LABELS,
+  leadKind,
+  parseLeadFilters,
+  STATUS_LABELS,
+} from "@/lib/admin/leads";
+import { listLeads } from "@/lib/leads/store";
+
+export const metadata: Metadata = {
+  title: "Mesaje",
+};
+
+const PAGE_SIZE = 50;
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function AdminLeadsPage({ searchParams }: Props) {
+  const session = await requireAdmin();
+  const params = await searchParams;
+  const filters = parseLeadFilters(params);
+
+  const leads = await listLeads();
+  const options = filterOptions(leads);
+  const matching = filterLeads(leads, filters);
+
+  const pages = Math.max(1, Math.ceil(matching.length / PAGE_SIZE));
+  const page = Math.min(Math.max(1, Number(params.page) || 1), pages);
+  const shown = matching.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+  const query = filterQuery(filters);
+  const pageHref = (target: number) =>
+    `/admin/leads${query ? `${query}&` : "?"}page=${target}`;
+
+  return (
+    <>
+      <AdminHeader session={session} />
+      <main className="mx-auto max-w-7xl px-6 py-10">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="font-heading text-3xl font-bold text-sand-900">Mesaje și programări</h1>
+            <p className="mt-1 text-sand-600">
+              {matching.length} din {leads.length}
+            </p>
+          </div>
+          {/* Plain anchor: the export must not be prefetched */}
+          <a
+            href={`/admin/leads/export${query}`}
+            className="font-medium text-lagoon-600 underline hover:text-lagoon-700"
+          >
+            Exportă CSV
+          </a>
+        </div>
+
+        {/* Filters */}
+        <form className="mt-8 grid gap-4 rounded-2xl border border-sand-200 bg-white p-6 sm:grid-cols-2 lg:grid-cols-7 lg:items-end">
+          <Select
+            id="filter-status"
+            name="status"
+            label="Status"
+            defaultValue={filters.status ?? ""}
+            options={[
+              { value: "", label: "Toate, fără spam" },
+              { value: "all", label: "Toate" },
+              ...Object.entries(STATUS_LABELS).map(([value, label]) => ({ value, label })),
+            ]}
+          />
+          <Select
+            id="filter-kind"
+            name="kind"
+            label="Tip"
+            defaultValue={filters.kind ?? ""}
+            options={[
+              { value: "", label: "Toate" },
+              ...Object.entries(KIND_LABELS).map(([value, label]) => ({ value, label })),
+            ]}
+          />
+          <Select
+            id="filter-service"
+            name="service"
+            label="Serviciu"
+            defaultValue={filters.service ?? ""}
+            options={[{ value: "", label: "Toate" }, ...options.services]}
+          />
+          <Select
+            id="filter-campaign"
+            name="campaign"
+            label="Campanie"
+            defaultValue={filters.campaign ?? ""}
+            options={[{ value: "", label: "Toate" }, ...options.campaigns]}
+          />
+          <Input id="filter-from" name="from" type="date" label="De la" defaultValue={filters.from} />
+          <Input id="filter-to" name="to" type="date" label="Până la" defaultValue={filters.to} />
+          <Button type="submit">Filtrează</Button>
+        </form>
+
+        {/* Leads */}
+        {shown.length === 0 ? (
+          <p className="mt-10 text-center text-sand-600">Niciun mesaj nu corespunde filtrelor.</p>
+        ) : (
+          <div className="mt-8 overflow-x-auto rounded-2xl border border-sand-200 bg-white">
+            <table className="w-full text-left text-sm">
+              <thead className="border-b border-sand-200 bg-sand-50 text-xs uppercase tracking-wide text-sand-500">
+                <tr>
+                  <th scope="col" className="px-4 py-3">Data</th>
+                  <th scope="col" className="px-4 py-3">Nume</th>
+                  <th scope="col" className="px-4 py-3">Tip</th>
+                  <th scope="col" className="px-4 py-3">Serviciu</th>
+                  <th scope="col" className="px-4 py-3">Campanie</th>
+                  <th scope="col" className="px-4 py-3">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-sand-100">
+                {shown.map((lead) => (
+                  <tr key={lead.id} className="hover:bg-sand-50">
+                    <td className="whitespace-nowrap px-4 py-3 text-sand-600">
+                      {formatLeadDate(lead.createdAt)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <Link
+                        href={`/admin/leads/${lead.id}`}
+                        className="font-medium text-lagoon-700 hover:underline"
+                      >
+                        {lead.name}
+                      </Link>
+                      <div className="text-sand-500">{lead.email}</div>
+                    </td>
+                    <td className="px-4 py-3">{KIND_LABELS[leadKind(lead)]}</td>
+                    <td className="px-4 py-3">{lead.service ?? "—"}</td>
+                    <td className="px-4 py-3">{lead.utm?.campaign ?? "—"}</td>
+                    <td className="px-4 py-3">
+                      <LeadStatusBadge status={lead.status} />
+                      {lead.notes?.length ? (
+                        <span className="ml-2 text-xs text-sand-500">{lead.notes.length} note</span>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pages > 1 && (
+          <nav aria-label="Paginare" className="mt-6 flex items-center justify-center gap-4 text-sm">
+            {page > 1 && (
+              <Link href={pageHref(page - 1)} className="text-lagoon-600 hover:underline">
+                ← Înapoi
+              </Link>
+            )}
+            <span className="text-sand-600">
+              Pagina {page} din {pages}
+            </span>
+            {page < pages && (
+              <Link href={pageHref(page + 1)} className="text-lagoon-600 hover:underline">
+                Înainte →
+              </Link>
+            )}
+          </nav>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,78 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { requestMagicLink, signInWithPassword } from "@/app/admin/actions";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { Input } from "@/components/ui/Input";
+import { getAdminSession } from "@/lib/admin/auth";
+
+export const metadata: Metadata = {
+  title: "Autentificare",
+};
+
+const ERRORS: Record<string, string> = {
+  password: "Parola nu este corectă.",
+  link: "Linkul a expirat sau a fost deja folosit. Cere unul nou.",
+  limited: "Prea multe încercări. Încearcă din nou peste 15 minute.",
+};
+
+interface Props {
+  searchParams: Promise<{ error?: string; sent?: string }>;
+}
+
+export default async function AdminLoginPage({ searchParams }: Props) {
+  if (await getAdminSession()) redirect("/admin/leads");
+
+  const { error, sent } = await searchParams;
+  const message = error ? ERRORS[error] : undefined;
+
+  return (
+    <main className="mx-auto max-w-md px-6 py-16">
+      <h1 className="font-heading text-3xl font-bold text-sand-900">Inbox Micii Campioni</h1>
+      <p className="mt-2 text-sand-600">Mesajele și programările trimise de pe site.</p>
+
+      {message && (
+        <div role="alert" className="mt-6 rounded-lg bg-red-50 p-4 text-red-700">
+          {message}
+        </div>
+      )}
+      {sent && (
+        <div role="status" className="mt-6 rounded-lg bg-emerald-50 p-4 text-emerald-700">
+          Dacă adresa are acces, vei primi în câteva minute un link de autentificare.
+        </div>
+      )}
+
+      <Card variant="outline" padding="lg" className="mt-8">
+        <form action={requestMagicLink} className="space-y-4">
+          <Input
+            id="admin-email"
+            name="email"
+            type="email"
+            label="Email"
+            autoComplete="email"
+            required
+          />
+          <Button type="submit" fullWidth>
+            Trimite-mi un link
+          </Button>
+        </form>
+
+        <div className="my-6 border-t border-sand-200" />
+
+        <form action={signInWithPassword} className="space-y-4">
+          <Input
+            id="admin-password"
+            name="password"
+            type="password"
+            label="Parola echipei"
+            autoComplete="current-password"
+            required
+          />
+          <Button type="submit" variant="outline" fullWidth>
+            Intră cu parola
+          </Button>
+        </form>
+      </Card>
+    </main>
+  );
+}
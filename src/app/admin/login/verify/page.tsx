@@ -0,0 +1,35 @@
+import type { Metadata } from "next";
+import { signInWithMagicLink } from "@/app/admin/actions";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+
+export const metadata: Metadata = {
+  title: "Autentificare",
+};
+
+interface Props {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Landing page of a magic link. Signing in takes a click, not just the visit:
+ * mail scanners that open links would otherwise use up the one-time token.
+ */
+export default async function AdminVerifyPage({ searchParams }: Props) {
+  const { token = "" } = await searchParams;
+
+  return (
+    <main className="mx-auto max-w-md px-6 py-16">
+      <Card variant="outline" padding="lg">
+        <h1 className="font-heading text-2xl font-bold text-sand-900">Autentificare</h1>
+        <p className="mt-2 text-sand-600">Continuă pentru a intra în inboxul de mesaje.</p>
+        <form action={signInWithMagicLink} className="mt-6">
+          <input type="hidden" name="token" value={token} />
+          <Button type="submit" fullWidth>
+            Intră în inbox
+          </Button>
+        </form>
+      </Card>
+    </main>
+  );
+}
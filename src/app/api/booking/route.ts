@@ -0,0 +1,61 @@
+import { bookingFieldErrors, bookingSchema, type BookingDetails } from "@/lib/booking/schema";
+import { getBookingServices } from "@/lib/booking/services";
+import { defaultLocale, resolveLocale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { stripHtml } from "@/lib/leads/sanitize";
+import { submitLeadForm, type LeadFormData } from "@/lib/leads/submit";
+
+// =============================================================================
+// POST Handler
+// Trial lesson requests from the booking wizard. Stored and delivered as
+// leads by submitLeadForm, with the booking details attached.
+// =============================================================================
+
+export async function POST(request: Request) {
+  const locale = resolveLocale(request.headers.get("content-language") ?? undefined);
+  const dictionary = getDictionary(locale);
+  const t = dictionary.bookingApi;
+
+  return submitLeadForm<LeadFormData>(request, {
+    source: "booking",
+    label: "Booking request",
+    messages: { ...dictionary.contactApi, success: t.success },
+    async prepare(body) {
+      // Against the services in Romanian, which staff read; slugs and age group
+      // IDs are the same in every locale
+      const services = await getBookingServices(false, defaultLocale);
+      const parsed = bookingSchema(t, dictionary.contactApi, services).safeParse(body);
+      if (!parsed.success) {
+        return { invalid: { error: t.invalid, fields: bookingFieldErrors(parsed.error) } };
+      }
+      const fields = parsed.data;
+
+      const service = services.find((candidate) => candidate.slug === fields.service)!;
+      const group = service.ageGroups.find((candidate) => candidate.id === fields.ageGroup);
+
+      const booking: BookingDetails = {
+        ageGroup: group,
+        child:
+          group && fields.childName && fields.childBirthDate
+            ? { name: stripHtml(fields.childName).trim(), birthDate: fields.childBirthDate }
+            : undefined,
+        days: fields.days,
+        times: fields.times,
+      };
+
+      return {
+        lead: {
+          name: fields.name,
+          email: fields.email,
+          phone: fields.phone,
+          service: group ? `${service.title} — ${group.name} (${group.ageRange})` : service.title,
+          serviceSlug: service.slug,
+          message: fields.notes ?? "",
+          locale,
+          booking,
+        },
+        log: { days: booking.days, times: booking.times },
+      };
+    },
+  });
+}
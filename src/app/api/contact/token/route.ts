@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { rateLimit } from "@/lib/rate-limit";
+import { issueFormToken } from "@/lib/spam/token";
+
+// =============================================================================
+// GET Handler
+// Issues the anti-spam token for the contact form. The form fetches it when
+// it renders, since the pages around it are statically cached.
+// =============================================================================
+
+export async function GET(request: Request) {
+  const limit = await rateLimit(request, "formToken");
+
+  if (limit.limited) {
+    return NextResponse.json(
+      { error: "Too many requests" },
+      { status: 429, headers: limit.headers }
+    );
+  }
+
+  return NextResponse.json(issueFormToken(), {
+    headers: { ...limit.headers, "Cache-Control": "no-store" },
+  });
+}
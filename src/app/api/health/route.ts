@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getContentHealth } from "@/lib/contentful/snapshot";
+
+/**
+ * Health check for uptime monitoring
+ *
+ * Responds 503 while this instance is in degraded mode, i.e. serving
+ * last-known-good snapshots because Contentful requests are failing.
+ * `failures` lists the affected queries and how old their snapshots are.
+ */
+
+export async function GET() {
+  const { degraded, failures } = getContentHealth();
+
+  return NextResponse.json(
+    {
+      status: degraded ? "degraded" : "ok",
+      contentful: { degraded, failures },
+      timestamp: Date.now(),
+    },
+    { status: degraded ? 503 : 200 }
+  );
+}
@@ -1,32 +1,50 @@
 import { draftMode } from "next/headers";
 import { redirect } from "next/navigation";
 import { NextRequest, NextResponse } from "next/server";
+import { resolvePreviewPath, toInternalPath } from "@/lib/contentful/preview";
+import { rateLimit, rateLimitStatus } from "@/lib/rate-limit";
 
 /**
  * Preview mode handler for Contentful
  *
- * Enable preview: /api/preview?secret=YOUR_SECRET&slug=/path/to/page
- * Disable preview: /api/preview?disable=true
+ * Enable preview for an entry: /api/preview?secret=YOUR_SECRET&contentType={entry.sys.contentType.sys.id}&slug={entry.fields.slug}
+ * Enable preview for a path: /api/preview?secret=YOUR_SECRET&slug=/path/to/page
+ * Disable preview: /api/preview?disable=true&slug=/path/to/page
+ *
+ * Redirect targets are restricted to internal paths. Wrong secrets are
+ * rate limited per IP, so the secret cannot be brute-forced; editors opening
+ * previews with the right one are never counted.
  */
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const secret = searchParams.get("secret");
-  const slug = searchParams.get("slug") || "/";
+  const slug = searchParams.get("slug");
+  const contentType = searchParams.get("contentType");
   const disable = searchParams.get("disable");
 
   // Disable preview mode
   if (disable === "true") {
     const draft = await draftMode();
     draft.disable();
-    redirect(slug);
+    redirect(toInternalPath(slug));
+  }
+
+  // Refused even with the right secret, or guessing could go on regardless
+  const status = await rateLimitStatus(request, "preview");
+  if (status.limited) {
+    return NextResponse.json(
+      { message: "Too many requests" },
+      { status: 429, headers: status.headers }
+    );
   }
 
-  // Validate secret for enabling preview
-  if (secret !== process.env.CONTENTFUL_PREVIEW_SECRET) {
+  // Validate secret for enabling preview, counting only failed attempts
+  if (!process.env.CONTENTFUL_PREVIEW_SECRET || secret !== process.env.CONTENTFUL_PREVIEW_SECRET) {
+    const limit = await rateLimit(request, "preview");
     return NextResponse.json(
-      { message: "Invalid preview secret" },
-      { status: 401 }
+      { message: limit.limited ? "Too many requests" : "Invalid preview secret" },
+      { status: limit.limited ? 429 : 401, headers: limit.headers }
     );
   }
 
@@ -35,5 +53,8 @@ export async function GET(request: NextRequest) {
   draft.enable();
 
   // Redirect to the page being previewed
-  redirect(slug);
+  const path = contentType
+    ? await resolvePreviewPath(contentType, slug)
+    : toInternalPath(slug);
+  redirect(path);
 }
@@ -1,5 +1,7 @@
-import { revalidatePath } from "next/cache";
+import { revalidateTag } from "next/cache";
 import { NextRequest, NextResponse } from "next/server";
+import { tagsForWebhook } from "@/lib/contentful/cache";
+import { rateLimit, rateLimitStatus } from "@/lib/rate-limit";
 
 /**
  * Contentful webhook handler for ISR revalidation
@@ -8,101 +10,59 @@ import { NextRequest, NextResponse } from "next/server";
  * - URL: https://your-domain.com/api/revalidate
  * - Method: POST
  * - Headers: x-revalidate-secret: YOUR_SECRET
- * - Trigger on: Publish, Unpublish
+ * - Trigger on: Publish, Unpublish (entries and assets)
+ *
+ * Cached queries are tagged by content type and entry slug, so only the
+ * data affected by the change is refetched. Wrong secrets are rate limited
+ * per IP, so the secret cannot be brute-forced; requests with the right one
+ * are never counted, so a bulk publish is not throttled.
  */
 
 export async function POST(request: NextRequest) {
-  // Verify the secret
+  // Refused even with the right secret, or guessing could go on regardless
+  const status = await rateLimitStatus(request, "revalidate");
+  if (status.limited) {
+    return NextResponse.json(
+      { message: "Too many requests" },
+      { status: 429, headers: status.headers }
+    );
+  }
+
+  // Verify the secret, counting only failed attempts
   const secret = request.headers.get("x-revalidate-secret");
 
   if (secret !== process.env.REVALIDATE_SECRET) {
+    const limit = await rateLimit(request, "revalidate");
     return NextResponse.json(
-      { message: "Invalid secret" },
-      { status: 401 }
+      { message: limit.limited ? "Too many requests" : "Invalid secret" },
+      { status: limit.limited ? 429 : 401, headers: limit.headers }
     );
   }
 
   try {
     const body = await request.json();
 
-    // Get content type from Contentful webhook payload
+    // Get entity type, content type and slug from Contentful webhook payload
+    const type = body?.sys?.type;
     const contentType = body?.sys?.contentType?.sys?.id;
     const slug = body?.fields?.slug?.["en-US"] || body?.fields?.slug;
 
-    // Revalidate based on content type
-    switch (contentType) {
-      case "page":
-        if (slug) {
-          revalidatePath(`/${slug}`);
-        }
-        revalidatePath("/");
-        revalidatePath("/harta-site");
-        break;
-
-      case "service":
-        if (slug) {
-          revalidatePath(`/servicii/${slug}`);
-        }
-        revalidatePath("/servicii");
-        revalidatePath("/");
-        break;
-
-      case "gallery":
-        if (slug) {
-          revalidatePath(`/galerie/${slug}`);
-        }
-        revalidatePath("/galerie");
-        revalidatePath("/");
-        break;
-
-      case "carouselSlide":
-      case "testimonial":
-      case "partner":
-        revalidatePath("/");
-        break;
-
-      case "teamMember":
-        revalidatePath("/despre-noi/echipa");
-        revalidatePath("/");
-        break;
-
-      case "faq":
-        revalidatePath("/servicii/intrebari-frecvente");
-        break;
-
-      case "timelineEvent":
-        revalidatePath("/despre-noi/istoric");
-        break;
-
-      case "certificate":
-      case "pressClipping":
-        revalidatePath("/despre-noi/distinctii");
-        revalidatePath("/despre-noi/press");
-        break;
-
-      case "conference":
-        revalidatePath("/asociatia/conferinte");
-        break;
-
-      case "project":
-        revalidatePath("/asociatia/proiecte");
-        break;
-
-      case "siteSettings":
-      case "navigation":
-        // Revalidate all pages for global changes
-        revalidatePath("/", "layout");
-        break;
+    const tags = tagsForWebhook({
+      type,
+      contentType,
+      slug: typeof slug === "string" ? slug : undefined,
+    });
 
-      default:
-        // Revalidate homepage as fallback
-        revalidatePath("/");
+    // Expire immediately so the next request fetches fresh content
+    for (const tag of tags) {
+      revalidateTag(tag, { expire: 0 });
     }
 
     return NextResponse.json({
       revalidated: true,
       contentType,
       slug,
+      tags,
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -0,0 +1,85 @@
+import { NextResponse, after } from "next/server";
+import { z } from "zod";
+import { hasConsent, requestConsent } from "@/lib/consent";
+import { trackAnonymousEvent } from "@/lib/facebook/conversions-api";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+
+// =============================================================================
+// Conversion Events
+// Browser events that no form submission carries to the server, forwarded to
+// the Conversions API under the event ID the Pixel used. Sent with
+// navigator.sendBeacon by track(), so nothing reads the response.
+// =============================================================================
+
+const text = z.string().trim().max(200).optional();
+
+const trackSchema = z.discriminatedUnion("event", [
+  z.object({
+    event: z.literal("view_content"),
+    contentName: z.string().trim().min(1).max(200),
+    contentCategory: text,
+    contentId: text,
+  }),
+  z.object({
+    event: z.literal("contact"),
+    method: z.enum(["phone", "email", "whatsapp"]),
+  }),
+]);
+
+const envelopeSchema = z.object({
+  eventId: z.string().max(100),
+  pageUrl: z.string().max(2000).optional(),
+  fbc: text,
+  fbp: text,
+});
+
+// =============================================================================
+// POST Handler
+// =============================================================================
+
+export async function POST(request: Request) {
+  const limit = await rateLimit(request, "track");
+  if (limit.limited) {
+    return new NextResponse(null, { status: 429, headers: limit.headers });
+  }
+
+  // Without marketing consent the event is dropped, like in the browser
+  if (!hasConsent(requestConsent(request), "marketing")) {
+    return new NextResponse(null, { status: 204, headers: limit.headers });
+  }
+
+  const body: unknown = await request.json().catch(() => null);
+  const event = trackSchema.safeParse(body);
+  const envelope = envelopeSchema.safeParse(body);
+  if (!event.success || !envelope.success) {
+    return new NextResponse(null, { status: 400, headers: limit.headers });
+  }
+
+  const ip = clientIp(request);
+  const { eventId, pageUrl, fbc, fbp } = envelope.data;
+  const data = event.data;
+
+  after(
+    trackAnonymousEvent({
+      eventName: data.event === "view_content" ? "ViewContent" : "Contact",
+      customData:
+        data.event === "view_content"
+          ? {
+              content_name: data.contentName,
+              content_category: data.contentCategory,
+              content_ids: data.contentId ? [data.contentId] : undefined,
+            }
+          : { method: data.method },
+      sourceUrl: pageUrl || process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro",
+      clientIp: ip !== "unknown" ? ip : undefined,
+      userAgent: request.headers.get("user-agent") || undefined,
+      fbc,
+      fbp,
+      eventId,
+    }).catch((err) => {
+      console.error("Facebook CAPI error:", err);
+    })
+  );
+
+  return new NextResponse(null, { status: 202, headers: limit.headers });
+}
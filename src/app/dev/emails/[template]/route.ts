@@ -0,0 +1,34 @@
+import { emailPreviews } from "@/lib/email/templates";
+
+/**
+ * Email template preview (development only)
+ *
+ * Renders a template with its fixture data, without sending anything:
+ * - /dev/emails/lead-confirmation: HTML part
+ * - /dev/emails/lead-confirmation?format=text: plain-text part
+ */
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ template: string }> }
+) {
+  if (process.env.NODE_ENV !== "development") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const { template } = await params;
+  const preview = Object.hasOwn(emailPreviews, template) ? emailPreviews[template] : undefined;
+  if (!preview) {
+    return new Response(`Unknown template "${template}"`, { status: 404 });
+  }
+
+  const { subject, html, text } = preview.render();
+  const asText = new URL(request.url).searchParams.get("format") === "text";
+
+  return new Response(asText ? `Subject: ${subject}\n\n${text}` : html, {
+    headers: {
+      "Content-Type": `${asText ? "text/plain" : "text/html"}; charset=utf-8`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
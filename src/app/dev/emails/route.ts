@@ -0,0 +1,33 @@
+import { escapeHtml } from "@/lib/email/render";
+import { emailPreviews } from "@/lib/email/templates";
+
+/**
+ * Index of email template previews (development only)
+ */
+
+export async function GET() {
+  if (process.env.NODE_ENV !== "development") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const items = Object.entries(emailPreviews)
+    .map(
+      ([name, preview]) =>
+        `<li><a href="/dev/emails/${name}">${name}</a> (<a href="/dev/emails/${name}?format=text">text</a>) — ${escapeHtml(preview.description)}</li>`
+    )
+    .join("\n");
+
+  return new Response(
+    `<!DOCTYPE html>
+<html lang="ro">
+<head><meta charset="utf-8" /><title>Email templates</title></head>
+<body style="font-family:sans-serif;padding:32px;">
+<h1>Email templates</h1>
+<ul>
+${items}
+</ul>
+</body>
+</html>`,
+    { headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Stand-in for the Google endpoints behind server-side conversions
+ * (development only). Requests are logged and answered like Google would:
+ * - GA4_MP_URL=http://localhost:3000/dev/google/mp/collect
+ * - GOOGLE_OAUTH_TOKEN_URL=http://localhost:3000/dev/google/token
+ * - GOOGLE_ADS_API_URL=http://localhost:3000/dev/google/ads
+ *
+ * A click conversion with the gclid `fail` is rejected, to see how a partial
+ * failure is reported.
+ */
+
+interface ClickConversion {
+  gclid?: string;
+  conversionAction?: string;
+  conversionDateTime?: string;
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  if (process.env.NODE_ENV !== "development") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const path = (await params).path.join("/");
+
+  // OAuth refresh token exchange
+  if (path === "token") {
+    return Response.json({
+      access_token: "stub-access-token",
+      expires_in: 3600,
+      token_type: "Bearer",
+    });
+  }
+
+  // GA4 Measurement Protocol, which answers without a body
+  if (path === "mp/collect") {
+    console.log("[Google stub] GA4 event:", await request.text());
+    return new Response(null, { status: 204 });
+  }
+
+  // Google Ads API: ads/<version>/customers/<id>:uploadClickConversions
+  const upload = path.match(/^ads\/(v\d+)\/customers\/(\d+):uploadClickConversions$/);
+  if (upload) {
+    if (!request.headers.get("authorization") || !request.headers.get("developer-token")) {
+      return Response.json(
+        {
+          error: {
+            code: 401,
+            message: "Request is missing required authentication credential.",
+            status: "UNAUTHENTICATED",
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const body: { conversions?: ClickConversion[] } = await request.json().catch(() => ({}));
+    const conversions = body.conversions ?? [];
+    console.log(`[Google stub] Ads ${upload[1]} customer ${upload[2]}:`, JSON.stringify(conversions));
+
+    const failed = conversions.findIndex((conversion) => conversion.gclid === "fail");
+    return Response.json({
+      results: conversions.map((conversion, index) =>
+        index === failed
+          ? {}
+          : {
+              gclid: conversion.gclid,
+              conversionAction: conversion.conversionAction,
+              conversionDateTime: conversion.conversionDateTime,
+            }
+      ),
+      ...(failed >= 0 && {
+        partialFailureError: {
+          code: 3,
+          message: `The click was not found, at conversions[${failed}].gclid`,
+        },
+      }),
+    });
+  }
+
+  return new Response(`Unknown endpoint "${path}"`, { status: 404 });
+}
@@ -0,0 +1,71 @@
+import { randomUUID } from "node:crypto";
+
+/**
+ * Stand-in for the Graph API events endpoint (development only)
+ *
+ * Set FB_GRAPH_API_URL=http://localhost:3000/dev/graph to send Conversions
+ * API events here instead of to Facebook. Events are logged and acknowledged
+ * like Facebook would. A test code of the form `fail-<status>`, e.g.
+ * FB_TEST_EVENT_CODE=fail-503 or fail-429, answers with that error instead,
+ * to exercise the outbox's retries.
+ */
+
+interface GraphRequest {
+  data?: unknown[];
+  access_token?: string;
+  test_event_code?: string;
+}
+
+function graphError(status: number, message: string, code: number) {
+  return Response.json(
+    {
+      error: {
+        message,
+        type: "OAuthException",
+        code,
+        is_transient: status >= 500,
+        fbtrace_id: `stub-${randomUUID()}`,
+      },
+    },
+    { status }
+  );
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ version: string; pixelId: string }> }
+) {
+  if (process.env.NODE_ENV !== "development") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const { version, pixelId } = await params;
+  const body: GraphRequest | null = await request.json().catch(() => null);
+
+  const failure = body?.test_event_code?.match(/^fail-(\d{3})$/);
+  if (failure) {
+    const status = Number(failure[1]);
+    return status === 429
+      ? graphError(status, "(#17) User request limit reached", 17)
+      : graphError(status, `Simulated failure ${status}`, 1);
+  }
+
+  if (!body?.access_token) {
+    return graphError(400, "An access token is required to request this resource.", 104);
+  }
+  if (!Array.isArray(body.data) || body.data.length === 0 || body.data.length > 1000) {
+    return graphError(400, "Invalid parameter: data must hold 1 to 1000 events", 100);
+  }
+
+  console.log(
+    `[Graph stub] ${version} pixel ${pixelId}: ${body.data.length} event(s)` +
+      (body.test_event_code ? ` (test code ${body.test_event_code})` : ""),
+    body.data
+  );
+
+  return Response.json({
+    events_received: body.data.length,
+    messages: [],
+    fbtrace_id: `stub-${randomUUID()}`,
+  });
+}
@@ -2,103 +2,85 @@ import type { MetadataRoute } from "next";
 import {
   getAllServiceSlugs,
   getAllGallerySlugs,
-  getAllPageSlugs,
+  getAllPageRefs,
 } from "@/lib/contentful/queries";
+import { absoluteUrl, galleryUrl, pageUrl, serviceUrl } from "@/lib/contentful/urls";
+import { locales } from "@/lib/i18n/config";
+import { languageAlternates, localizePath } from "@/lib/i18n/routing";
 
-const siteUrl =
-  process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
-
-// Static pages with their parent paths
-const parentPageRoutes: Record<string, string> = {
-  "despre-noi": "/despre-noi",
-  concept: "/concept",
-  asociatia: "/asociatia",
+type Route = Pick<MetadataRoute.Sitemap[number], "changeFrequency" | "priority"> & {
+  /** Internal (Romanian) path */
+  path: string;
 };
 
+/**
+ * One sitemap entry per locale, each listing every translation as an
+ * `hreflang` alternate.
+ */
+function localizedEntries({ path, ...route }: Route): MetadataRoute.Sitemap {
+  const languages = Object.fromEntries(
+    Object.entries(languageAlternates(path)).map(([language, url]) => [
+      language,
+      absoluteUrl(url),
+    ])
+  );
+
+  return locales.map((locale) => ({
+    url: absoluteUrl(localizePath(path, locale)),
+    alternates: { languages },
+    ...route,
+  }));
+}
+
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
-  const [serviceSlugs, gallerySlugs, pageSlugs] = await Promise.all([
+  const [serviceSlugs, gallerySlugs, pageRefs] = await Promise.all([
     getAllServiceSlugs(),
     getAllGallerySlugs(),
-    getAllPageSlugs(),
+    getAllPageRefs(),
   ]);
 
   // Static routes
-  const staticRoutes: MetadataRoute.Sitemap = [
-    {
-      url: siteUrl,
-      changeFrequency: "weekly",
-      priority: 1,
-    },
-    {
-      url: `${siteUrl}/servicii`,
-      changeFrequency: "weekly",
-      priority: 0.9,
-    },
-    {
-      url: `${siteUrl}/despre-noi`,
-      changeFrequency: "monthly",
-      priority: 0.8,
-    },
-    {
-      url: `${siteUrl}/concept`,
-      changeFrequency: "monthly",
-      priority: 0.7,
-    },
-    {
-      url: `${siteUrl}/asociatia`,
-      changeFrequency: "monthly",
-      priority: 0.7,
-    },
-    {
-      url: `${siteUrl}/galerie`,
-      changeFrequency: "weekly",
-      priority: 0.7,
-    },
-    {
-      url: `${siteUrl}/contact`,
-      changeFrequency: "monthly",
-      priority: 0.8,
-    },
-    {
-      url: `${siteUrl}/harta-site`,
-      changeFrequency: "monthly",
-      priority: 0.3,
-    },
+  const staticRoutes: Route[] = [
+    { path: "/", changeFrequency: "weekly", priority: 1 },
+    { path: "/servicii", changeFrequency: "weekly", priority: 0.9 },
+    { path: "/despre-noi", changeFrequency: "monthly", priority: 0.8 },
+    { path: "/concept", changeFrequency: "monthly", priority: 0.7 },
+    { path: "/asociatia", changeFrequency: "monthly", priority: 0.7 },
+    { path: "/galerie", changeFrequency: "weekly", priority: 0.7 },
+    { path: "/contact", changeFrequency: "monthly", priority: 0.8 },
+    { path: "/programare", changeFrequency: "monthly", priority: 0.8 },
+    { path: "/harta-site", changeFrequency: "monthly", priority: 0.3 },
   ];
 
   // Service pages
-  const serviceRoutes: MetadataRoute.Sitemap = serviceSlugs.map((slug) => ({
-    url: `${siteUrl}/servicii/${slug}`,
-    changeFrequency: "monthly" as const,
+  const serviceRoutes: Route[] = serviceSlugs.map((slug) => ({
+    path: serviceUrl(slug),
+    changeFrequency: "monthly",
     priority: 0.8,
   }));
 
   // Gallery pages
-  const galleryRoutes: MetadataRoute.Sitemap = gallerySlugs.map((slug) => ({
-    url: `${siteUrl}/galerie/${slug}`,
-    changeFrequency: "monthly" as const,
+  const galleryRoutes: Route[] = gallerySlugs.map((slug) => ({
+    path: galleryUrl(slug),
+    changeFrequency: "monthly",
     priority: 0.6,
   }));
 
-  // Dynamic pages (child pages under despre-noi, concept, asociatia)
-  // Filter out top-level pages that already have static routes
-  const topLevelSlugs = new Set([
-    "despre-noi",
-    "concept",
-    "asociatia",
-    "contact",
-    "servicii",
-    "galerie",
-    "harta-site",
-  ]);
+  // Dynamic pages at their canonical URLs (child pages under their parent's route).
+  // Pages already listed as static routes or hidden from the sitemap are skipped.
+  const staticPaths = new Set(staticRoutes.map((route) => route.path));
 
-  const pageRoutes: MetadataRoute.Sitemap = pageSlugs
-    .filter((slug) => !topLevelSlugs.has(slug))
-    .map((slug) => ({
-      url: `${siteUrl}/${slug}`,
-      changeFrequency: "monthly" as const,
+  const pageRoutes: Route[] = pageRefs
+    .filter((page) => page.showInSitemap)
+    .map((page) => pageUrl(page))
+    .filter((path) => !staticPaths.has(path))
+    .map((path) => ({
+      path,
+      changeFrequency: "monthly",
       priority: 0.5,
     }));
 
-  return [...staticRoutes, ...serviceRoutes, ...galleryRoutes, ...pageRoutes];
+  return [...staticRoutes, ...serviceRoutes, ...galleryRoutes, ...pageRoutes].flatMap(
+    localizedEntries
+  );
 }
@@ -0,0 +1,25 @@
+import Link from "next/link";
+import { signOut } from "@/app/admin/actions";
+import { PASSWORD_USER, type AdminSession } from "@/lib/admin/auth";
+
+// =============================================================================
+// Admin Header
+// =============================================================================
+
+export function AdminHeader({ session }: { session: AdminSession }) {
+  return (
+    <header className="border-b border-sand-200 bg-white">
+      <div className="mx-auto flex max-w-7xl items-center justify-between gap-4 px-6 py-4">
+        <Link href="/admin/leads" className="font-heading text-lg font-bold text-sand-900">
+          Micii Campioni · Inbox
+        </Link>
+        <form action={signOut} className="flex items-center gap-4 text-sm text-sand-600">
+          <span>{session.user === PASSWORD_USER ? "Personal" : session.user}</span>
+          <button type="submit" className="font-medium text-lagoon-600 hover:text-lagoon-700">
+            Ieșire
+          </button>
+        </form>
+      </div>
+    </header>
+  );
+}
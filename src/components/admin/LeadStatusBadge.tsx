@@ -0,0 +1,19 @@
+import { Badge, type BadgeVariant } from "@/components/ui/Badge";
+import { STATUS_LABELS } from "@/lib/admin/leads";
+import type { LeadStatus } from "@/lib/leads/store";
+
+const variants: Record<LeadStatus, BadgeVariant> = {
+  new: "lagoon",
+  emailed: "default",
+  failed: "error",
+  handled: "success",
+  quarantined: "warning",
+};
+
+export function LeadStatusBadge({ status }: { status: LeadStatus }) {
+  return (
+    <Badge variant={variants[status]} size="sm">
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
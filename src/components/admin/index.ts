@@ -0,0 +1,6 @@
+// =============================================================================
+// Admin Components Barrel Export
+// =============================================================================
+
+export { AdminHeader } from "./AdminHeader";
+export { LeadStatusBadge } from "./LeadStatusBadge";
@@ -0,0 +1,27 @@
+"use client";
+
+import { useEffect } from "react";
+import { captureAttribution, clearAttribution } from "@/lib/attribution/browser";
+import { hasConsent } from "@/lib/consent";
+import { useConsent } from "@/lib/consent/ConsentProvider";
+
+/**
+ * Records where the visitor came from once they agree to marketing cookies,
+ * and forgets it if they withdraw. Renders nothing.
+ */
+export function AttributionTracker() {
+  const { consent } = useConsent();
+
+  useEffect(() => {
+    // Undefined until the cookie has been read
+    if (consent === undefined) return;
+
+    if (hasConsent(consent, "marketing")) {
+      captureAttribution();
+    } else {
+      clearAttribution();
+    }
+  }, [consent]);
+
+  return null;
+}
@@ -3,6 +3,9 @@
 import Script from "next/script";
 import { usePathname, useSearchParams } from "next/navigation";
 import { useEffect, useRef, Suspense } from "react";
+import { hasConsent } from "@/lib/consent";
+import { readConsent } from "@/lib/consent/browser";
+import { useConsent } from "@/lib/consent/ConsentProvider";
 
 // =============================================================================
 // Types
@@ -39,8 +42,16 @@ export const generateEventId = (eventName: string): string => {
 // Helper Functions
 // =============================================================================
 
+// The Pixel only loads with marketing consent, but stays loaded for the rest
+// of the visit if consent is then withdrawn
+const canTrack = () =>
+  typeof window !== "undefined" &&
+  !!window.fbq &&
+  !!FB_PIXEL_ID &&
+  hasConsent(readConsent(), "marketing");
+
 export const fbPageView = () => {
-  if (typeof window !== "undefined" && window.fbq && FB_PIXEL_ID) {
+  if (canTrack()) {
     window.fbq("track", "PageView");
   }
 };
@@ -50,7 +61,7 @@ export const fbEvent = (
   options: Record<string, unknown> = {},
   eventId?: string
 ) => {
-  if (typeof window !== "undefined" && window.fbq && FB_PIXEL_ID) {
+  if (canTrack()) {
     const params = eventId ? { ...options, eventID: eventId } : options;
     window.fbq("track", name, params);
   }
@@ -112,8 +123,11 @@ function FacebookPixelPageView() {
 // =============================================================================
 
 export function FacebookPixel() {
-  // Don't render anything if Pixel ID is not configured
-  if (!FB_PIXEL_ID) {
+  const { consent } = useConsent();
+
+  // Don't render anything if Pixel ID is not configured or the visitor has
+  // not agreed to marketing cookies
+  if (!FB_PIXEL_ID || !hasConsent(consent ?? null, "marketing")) {
     return null;
   }
 
@@ -3,23 +3,15 @@
 import Script from "next/script";
 import { usePathname, useSearchParams } from "next/navigation";
 import { useEffect, useRef, Suspense } from "react";
+import { hasConsent } from "@/lib/consent";
+import { readConsent } from "@/lib/consent/browser";
+import { useConsent } from "@/lib/consent/ConsentProvider";
+import { normalizeUserData, type EnhancedConversionData } from "@/lib/google/user-data";
 
 // =============================================================================
 // Types
 // =============================================================================
 
-interface EnhancedConversionData {
-  email?: string;
-  phone?: string;
-  firstName?: string;
-  lastName?: string;
-  street?: string;
-  city?: string;
-  region?: string;
-  postalCode?: string;
-  country?: string;
-}
-
 // Use module augmentation to avoid conflicts with other gtag declarations
 declare global {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -37,11 +29,18 @@ const CONVERSION_LABEL = process.env.NEXT_PUBLIC_GOOGLE_ADS_CONVERSION_LABEL;
 // Helper Functions
 // =============================================================================
 
+// gtag exists from the first paint for Consent Mode, so commands are only
+// queued once the visitor has agreed to marketing cookies
+const canTrack = () =>
+  typeof window !== "undefined" &&
+  typeof gtag === "function" &&
+  hasConsent(readConsent(), "marketing");
+
 /**
  * Track a page view
  */
 export const gtagPageView = (url?: string) => {
-  if (typeof window !== "undefined" && typeof gtag === "function") {
+  if (canTrack()) {
     gtag("config", GOOGLE_ADS_ID, {
       page_path: url || window.location.pathname,
     });
@@ -59,7 +58,7 @@ export const gtagConversion = (
   value?: number,
   transactionId?: string
 ) => {
-  if (typeof window === "undefined" || typeof gtag !== "function") return;
+  if (!canTrack()) return;
 
   const label = conversionLabel || CONVERSION_LABEL;
   if (!label) {
@@ -96,47 +95,9 @@ export const gtagLead = (transactionId?: string, value?: number) => {
  * Call this before firing a conversion event
  */
 export const gtagSetUserData = (data: EnhancedConversionData) => {
-  if (typeof window === "undefined" || typeof gtag !== "function") return;
-
-  const userData: Record<string, string> = {};
-
-  // Normalize user data according to Google's requirements
-  if (data.email) {
-    userData.email = data.email.toLowerCase().trim();
-  }
-  if (data.phone) {
-    // Normalize Romanian phone numbers
-    let phone = data.phone.replace(/\D/g, "");
-    if (phone.startsWith("0")) {
-      phone = "40" + phone.slice(1);
-    } else if (!phone.startsWith("40")) {
-      phone = "40" + phone;
-    }
-    userData.phone_number = "+" + phone;
-  }
-  if (data.firstName) {
-    userData.first_name = data.firstName.toLowerCase().trim();
-  }
-  if (data.lastName) {
-    userData.last_name = data.lastName.toLowerCase().trim();
-  }
-  if (data.street) {
-    userData.street = data.street.toLowerCase().trim();
-  }
-  if (data.city) {
-    userData.city = data.city.toLowerCase().trim();
-  }
-  if (data.region) {
-    userData.region = data.region.toLowerCase().trim();
-  }
-  if (data.postalCode) {
-    userData.postal_code = data.postalCode.trim();
-  }
-  if (data.country) {
-    userData.country = data.country.toUpperCase().trim();
-  }
+  if (!canTrack()) return;
 
-  gtag("set", "user_data", userData);
+  gtag("set", "user_data", normalizeUserData(data));
 };
 
 /**
@@ -146,7 +107,7 @@ export const gtagRemarketing = (
   eventName: string,
   params?: Record<string, unknown>
 ) => {
-  if (typeof window === "undefined" || typeof gtag !== "function") return;
+  if (!canTrack()) return;
 
   gtag("event", eventName, {
     send_to: GOOGLE_ADS_ID,
@@ -201,6 +162,12 @@ function GoogleAdsPageView() {
 // =============================================================================
 
 export function GoogleAds() {
+  const { consent } = useConsent();
+
+  if (!hasConsent(consent ?? null, "marketing")) {
+    return null;
+  }
+
   return (
     <>
       <Script
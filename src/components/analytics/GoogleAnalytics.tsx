@@ -0,0 +1,28 @@
+"use client";
+
+import { GoogleAnalytics as GoogleAnalyticsScript } from "@next/third-parties/google";
+import { hasConsent } from "@/lib/consent";
+import { useConsent } from "@/lib/consent/ConsentProvider";
+
+// =============================================================================
+// Google Analytics Configuration
+// =============================================================================
+
+const GA_MEASUREMENT_ID = process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID || "G-0KMB46E5XF";
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * GA4, loaded once the visitor agrees to analytics cookies.
+ */
+export function GoogleAnalytics() {
+  const { consent } = useConsent();
+
+  if (!hasConsent(consent ?? null, "analytics")) {
+    return null;
+  }
+
+  return <GoogleAnalyticsScript gaId={GA_MEASUREMENT_ID} />;
+}
@@ -1,8 +1,7 @@
 "use client";
 
 import { useEffect } from "react";
-import { fbViewContent } from "./FacebookPixel";
-import { gtagViewItem } from "./GoogleAds";
+import { track } from "./track";
 
 interface ViewContentTrackerProps {
   contentName: string;
@@ -11,7 +10,7 @@ interface ViewContentTrackerProps {
 }
 
 /**
- * Client component that fires Facebook ViewContent and Google Ads view_item events on mount.
+ * Client component that tracks a view_content event on mount.
  * Use this on service/product pages to track what users are viewing.
  */
 export function ViewContentTracker({
@@ -20,19 +19,7 @@ export function ViewContentTracker({
   contentId,
 }: ViewContentTrackerProps) {
   useEffect(() => {
-    // Facebook Pixel ViewContent event
-    fbViewContent({
-      content_name: contentName,
-      content_category: contentCategory,
-      content_ids: contentId ? [contentId] : undefined,
-    });
-
-    // Google Ads remarketing event
-    gtagViewItem({
-      item_id: contentId || contentName.toLowerCase().replace(/\s+/g, "-"),
-      item_name: contentName,
-      item_category: contentCategory,
-    });
+    track("view_content", { contentName, contentCategory, contentId });
   }, [contentName, contentCategory, contentId]);
 
   // This component renders nothing - it just fires the event
@@ -1,2 +1,5 @@
 export { FacebookPixel, fbEvent, fbLead, fbContact, fbViewContent, fbSchedule, fbPageView, generateEventId } from "./FacebookPixel";
+export { track, createEventId, type TrackEvent, type TrackEvents, type TrackUser } from "./track";
 export { ViewContentTracker } from "./ViewContentTracker";
+export { GoogleAnalytics } from "./GoogleAnalytics";
+export { AttributionTracker } from "./AttributionTracker";
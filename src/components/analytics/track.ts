@@ -0,0 +1,232 @@
+import { hasConsent } from "@/lib/consent";
+import { readConsent } from "@/lib/consent/browser";
+import { splitName } from "@/lib/google/user-data";
+import { readTrackingParams } from "@/lib/leads/tracking";
+import { fbEvent, generateEventId } from "./FacebookPixel";
+import { gtagLead, gtagRemarketing, gtagSetUserData, gtagViewItem } from "./GoogleAds";
+
+// =============================================================================
+// Conversion Tracking
+// One entry point for conversion events: a single event ID per event, sent to
+// the Pixel, Google Ads and the Conversions API so each platform can
+// deduplicate what it receives from the browser and from the server.
+// =============================================================================
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Contact details for enhanced conversions; hashed by gtag and by the server. */
+export interface TrackUser {
+  email: string;
+  phone?: string;
+  name?: string;
+}
+
+export interface TrackEvents {
+  /** Contact form sent */
+  lead: { contentName?: string; value?: number; user?: TrackUser };
+  /** Trial lesson requested */
+  schedule: { contentName?: string; user?: TrackUser };
+  /** Service page viewed */
+  view_content: { contentName: string; contentCategory?: string; contentId?: string };
+  /** Phone, email or WhatsApp link clicked */
+  contact: { method: "phone" | "email" | "whatsapp" };
+}
+
+export type TrackEvent = keyof TrackEvents;
+
+type Destination = "pixel" | "googleAds" | "server";
+
+type Dispatchers = {
+  [E in TrackEvent]: Partial<
+    Record<Destination, (payload: TrackEvents[E], eventId: string) => void>
+  >;
+};
+
+// =============================================================================
+// Debug Mode
+// =============================================================================
+
+const DEBUG_KEY = "analytics_debug";
+
+/**
+ * Log every dispatch to the console. On with NEXT_PUBLIC_ANALYTICS_DEBUG, or
+ * for the rest of the tab's session after visiting any page with
+ * ?analytics_debug=1 (?analytics_debug=0 turns it off again).
+ */
+function debugEnabled(): boolean {
+  if (process.env.NEXT_PUBLIC_ANALYTICS_DEBUG === "true") return true;
+
+  try {
+    const param = new URLSearchParams(window.location.search).get(DEBUG_KEY);
+    if (param === "1") sessionStorage.setItem(DEBUG_KEY, "1");
+    if (param === "0") sessionStorage.removeItem(DEBUG_KEY);
+    return sessionStorage.getItem(DEBUG_KEY) === "1";
+  } catch {
+    // Storage can be blocked
+    return false;
+  }
+}
+
+function debug(event: TrackEvent, eventId: string, message: string, details?: unknown) {
+  if (!debugEnabled()) return;
+  console.info(`[track] ${event} ${eventId}: ${message}`, ...(details ? [details] : []));
+}
+
+// =============================================================================
+// Destinations
+// =============================================================================
+
+// Pixel event names, also used as the event ID prefix
+const PIXEL_EVENTS: Record<TrackEvent, string> = {
+  lead: "Lead",
+  schedule: "Schedule",
+  view_content: "ViewContent",
+  contact: "Contact",
+};
+
+function setUserData(user?: TrackUser) {
+  if (!user) return;
+  gtagSetUserData({
+    email: user.email,
+    phone: user.phone || undefined,
+    ...splitName(user.name),
+    city: "Bucuresti",
+    country: "RO",
+  });
+}
+
+/**
+ * Hand an event to /api/track for the Conversions API. Leads and bookings are
+ * not sent this way: their own API route reports them with the same event ID.
+ */
+function beacon(event: TrackEvent, eventId: string, payload: object) {
+  const body = JSON.stringify({
+    event,
+    eventId,
+    pageUrl: window.location.href,
+    ...payload,
+    ...readTrackingParams(),
+  });
+  const blob = new Blob([body], { type: "application/json" });
+
+  // sendBeacon survives the navigation a contact link click starts
+  if (!navigator.sendBeacon?.("/api/track", blob)) {
+    fetch("/api/track", { method: "POST", body: blob, keepalive: true }).catch(() => {});
+  }
+}
+
+const DISPATCHERS: Dispatchers = {
+  lead: {
+    pixel: ({ contentName, value }, eventId) =>
+      fbEvent("Lead", { content_name: contentName, value }, eventId),
+    googleAds: ({ user, value }, eventId) => {
+      // Enhanced conversion data must be set before the conversion fires
+      setUserData(user);
+      gtagLead(eventId, value);
+    },
+  },
+  schedule: {
+    pixel: ({ contentName }, eventId) =>
+      fbEvent("Schedule", contentName ? { content_name: contentName } : {}, eventId),
+  },
+  view_content: {
+    pixel: ({ contentName, contentCategory, contentId }, eventId) =>
+      fbEvent(
+        "ViewContent",
+        {
+          content_name: contentName,
+          content_category: contentCategory,
+          content_ids: contentId ? [contentId] : undefined,
+        },
+        eventId
+      ),
+    googleAds: ({ contentName, contentCategory, contentId }) =>
+      gtagViewItem({
+        item_id: contentId || contentName.toLowerCase().replace(/\s+/g, "-"),
+        item_name: contentName,
+        item_category: contentCategory,
+      }),
+    server: (payload, eventId) => beacon("view_content", eventId, payload),
+  },
+  contact: {
+    pixel: ({ method }, eventId) => fbEvent("Contact", { method }, eventId),
+    googleAds: ({ method }) => gtagRemarketing("contact", { method }),
+    server: (payload, eventId) => beacon("contact", eventId, payload),
+  },
+};
+
+/** Why a destination cannot receive events right now, if it cannot. */
+function unavailable(destination: Destination): string | null {
+  switch (destination) {
+    case "pixel":
+      if (!process.env.NEXT_PUBLIC_FB_PIXEL_ID) return "no Pixel ID configured";
+      return typeof window.fbq === "function" ? null : "Pixel not loaded";
+    case "googleAds":
+      return typeof gtag === "function" ? null : "gtag not loaded";
+    case "server":
+      return null;
+  }
+}
+
+// =============================================================================
+// API
+// =============================================================================
+
+/**
+ * A new event ID. Create it before a form is sent so the form's API route can
+ * pass the same ID to the Conversions API, then hand it to `track`.
+ */
+export function createEventId(event: TrackEvent): string {
+  return generateEventId(PIXEL_EVENTS[event]);
+}
+
+/**
+ * Send a conversion event to every destination configured for it. Everything
+ * here needs marketing consent; without it the event is dropped.
+ *
+ * @returns The event ID used
+ */
+export function track<E extends TrackEvent>(
+  event: E,
+  payload: TrackEvents[E],
+  eventId: string = createEventId(event)
+): string {
+  if (typeof window === "undefined") return eventId;
+
+  if (!hasConsent(readConsent(), "marketing")) {
+    debug(event, eventId, "dropped, no marketing consent");
+    return eventId;
+  }
+
+  const dispatchers: Dispatchers[E] = DISPATCHERS[event];
+
+  for (const destination of ["pixel", "googleAds", "server"] as const) {
+    const dispatch = dispatchers[destination];
+    if (!dispatch) {
+      const reason =
+        destination === "server" && (event === "lead" || event === "schedule")
+          ? "sent by the form's API route"
+          : "not tracked there";
+      debug(event, eventId, `${destination} skipped, ${reason}`);
+      continue;
+    }
+
+    const reason = unavailable(destination);
+    if (reason) {
+      debug(event, eventId, `${destination} skipped, ${reason}`);
+      continue;
+    }
+
+    try {
+      dispatch(payload, eventId);
+      debug(event, eventId, `sent to ${destination}`, payload);
+    } catch (error) {
+      // A blocked or broken tag must never break the page
+      console.error(`[track] ${event} failed for ${destination}:`, error);
+    }
+  }
+
+  return eventId;
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/Button";
+import { Modal, ModalFooter } from "@/components/ui/Modal";
+import { useConsent } from "@/lib/consent/ConsentProvider";
+import { CONSENT_CATEGORIES, type ConsentChoice } from "@/lib/consent";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+import { localizePath } from "@/lib/i18n/routing";
+
+const ACCEPT_ALL: ConsentChoice = { analytics: true, marketing: true };
+const REJECT_ALL: ConsentChoice = { analytics: false, marketing: false };
+
+// =============================================================================
+// Preferences
+// =============================================================================
+
+/**
+ * Per-category switches. Mounted only while the modal is open, so each
+ * opening starts from the stored choice.
+ */
+function ConsentPreferences() {
+  const { dictionary } = useLocale();
+  const t = dictionary.consent;
+  const { consent, save } = useConsent();
+  const [choice, setChoice] = useState<ConsentChoice>({
+    analytics: consent?.analytics ?? false,
+    marketing: consent?.marketing ?? false,
+  });
+
+  return (
+    <>
+      <ul className="space-y-4">
+        <li className="rounded-xl border border-sand-200 p-4">
+          <div className="flex items-center justify-between gap-4">
+            <span className="font-semibold text-sand-900">{t.categories.necessary.title}</span>
+            <span className="text-sm text-sand-500">{t.alwaysOn}</span>
+          </div>
+          <p className="mt-1 text-sm text-sand-600">{t.categories.necessary.description}</p>
+        </li>
+        {CONSENT_CATEGORIES.map((category) => (
+          <li key={category} className="rounded-xl border border-sand-200 p-4">
+            <label className="flex cursor-pointer items-center justify-between gap-4">
+              <span className="font-semibold text-sand-900">{t.categories[category].title}</span>
+              <input
+                type="checkbox"
+                role="switch"
+                checked={choice[category]}
+                onChange={(event) => setChoice({ ...choice, [category]: event.target.checked })}
+                aria-describedby={`consent-${category}-description`}
+                className="h-5 w-5 accent-lagoon-600"
+              />
+            </label>
+            <p id={`consent-${category}-description`} className="mt-1 text-sm text-sand-600">
+              {t.categories[category].description}
+            </p>
+          </li>
+        ))}
+      </ul>
+      <ModalFooter>
+        <Button variant="outline" size="sm" onClick={() => save(REJECT_ALL)}>
+          {t.rejectAll}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => save(choice)}>
+          {t.save}
+        </Button>
+        <Button size="sm" onClick={() => save(ACCEPT_ALL)}>
+          {t.acceptAll}
+        </Button>
+      </ModalFooter>
+    </>
+  );
+}
+
+// =============================================================================
+// Banner
+// =============================================================================
+
+/**
+ * Asks for consent on the first visit, and hosts the preferences modal that
+ * the footer link reopens. Rejecting is as easy as accepting.
+ */
+export function ConsentBanner() {
+  const { locale, dictionary } = useLocale();
+  const t = dictionary.consent;
+  const { consent, save, preferencesOpen, setPreferencesOpen } = useConsent();
+
+  return (
+    <>
+      {consent === null && !preferencesOpen && (
+        <section
+          aria-label={t.bannerLabel}
+          className="fixed inset-x-0 bottom-0 z-400 border-t border-sand-200 bg-white p-4 shadow-elevated sm:inset-x-6 sm:bottom-6 sm:rounded-2xl sm:border sm:p-6"
+        >
+          <div className="mx-auto flex max-w-5xl flex-col gap-4 lg:flex-row lg:items-center">
+            <div className="flex-1">
+              <h2 className="font-heading font-semibold text-sand-900">{t.bannerTitle}</h2>
+              <p className="mt-1 text-sm text-sand-600">
+                {t.bannerMessage}{" "}
+                <Link
+                  href={localizePath("/politica-confidentialitate", locale)}
+                  className="text-lagoon-600 underline hover:text-lagoon-700"
+                >
+                  {t.privacyLink}
+                </Link>
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              <Button variant="ghost" size="sm" onClick={() => setPreferencesOpen(true)}>
+                {t.customize}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => save(REJECT_ALL)}>
+                {t.rejectAll}
+              </Button>
+              <Button size="sm" onClick={() => save(ACCEPT_ALL)}>
+                {t.acceptAll}
+              </Button>
+            </div>
+          </div>
+        </section>
+      )}
+      <Modal
+        isOpen={preferencesOpen}
+        onClose={() => setPreferencesOpen(false)}
+        title={t.preferencesTitle}
+        description={t.preferencesDescription}
+        size="lg"
+      >
+        <ConsentPreferences />
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import { useConsent } from "@/lib/consent/ConsentProvider";
+
+/**
+ * Reopens the cookie preferences, e.g. from the footer.
+ */
+export function ConsentSettingsButton({ label, className }: { label: string; className?: string }) {
+  const { setPreferencesOpen } = useConsent();
+
+  return (
+    <button type="button" onClick={() => setPreferencesOpen(true)} className={className}>
+      {label}
+    </button>
+  );
+}
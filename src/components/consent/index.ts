@@ -0,0 +1,6 @@
+// =============================================================================
+// Consent Components Barrel Export
+// =============================================================================
+
+export { ConsentBanner } from "./ConsentBanner";
+export { ConsentSettingsButton } from "./ConsentSettingsButton";
@@ -4,6 +4,8 @@ import { useState, useCallback, useEffect } from "react";
 import Image from "next/image";
 import { X, ChevronLeft, ChevronRight, ZoomIn } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
+import { format } from "@/lib/i18n/format";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
 import type { ContentfulImage } from "@/types/contentful";
 
 // =============================================================================
@@ -89,6 +91,7 @@ export function Lightbox({
   onClose,
   onNavigate,
 }: LightboxProps) {
+  const t = useLocale().dictionary.imageGallery;
   const isOpen = currentIndex !== null;
   const currentImage = currentIndex !== null ? images[currentIndex] : null;
 
@@ -139,13 +142,13 @@ export function Lightbox({
       className="fixed inset-0 z-[100] flex items-center justify-center bg-black/95"
       role="dialog"
       aria-modal="true"
-      aria-label="Galerie imagini"
+      aria-label={t.label}
     >
       {/* Close button */}
       <button
         onClick={onClose}
         className="absolute right-4 top-4 z-10 rounded-full bg-white/10 p-3 text-white transition-colors hover:bg-white/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white"
-        aria-label="Închide"
+        aria-label={t.close}
       >
         <X className="h-6 w-6" />
       </button>
@@ -155,7 +158,7 @@ export function Lightbox({
         <button
           onClick={goToPrevious}
           className="absolute left-4 top-1/2 z-10 -translate-y-1/2 rounded-full bg-white/10 p-3 text-white transition-colors hover:bg-white/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white"
-          aria-label="Imaginea anterioară"
+          aria-label={t.previous}
         >
           <ChevronLeft className="h-8 w-8" />
         </button>
@@ -166,7 +169,7 @@ export function Lightbox({
         <button
           onClick={goToNext}
           className="absolute right-4 top-1/2 z-10 -translate-y-1/2 rounded-full bg-white/10 p-3 text-white transition-colors hover:bg-white/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white"
-          aria-label="Imaginea următoare"
+          aria-label={t.next}
         >
           <ChevronRight className="h-8 w-8" />
         </button>
@@ -176,7 +179,7 @@ export function Lightbox({
       <div className="relative max-h-[85vh] max-w-[90vw]">
         <Image
           src={currentImage.url}
-          alt={currentImage.description || currentImage.title || "Fotografie mărită"}
+          alt={currentImage.description || currentImage.title || t.enlarged}
           width={currentImage.width}
           height={currentImage.height}
           className="max-h-[85vh] w-auto object-contain"
@@ -251,6 +254,8 @@ export function GalleryCard({
   date,
   className,
 }: GalleryCardProps) {
+  const { dictionary } = useLocale();
+
   return (
     <a
       href={href}
@@ -275,7 +280,7 @@ export function GalleryCard({
           {title}
         </h3>
         <span className="mt-2 inline-block text-sm text-white/70">
-          {imageCount} fotografii
+          {format(dictionary.common.photos, { count: imageCount })}
         </span>
       </div>
     </a>
@@ -1,6 +1,8 @@
 import Image from "next/image";
 import { cn } from "@/lib/utils/cn";
 import { Container } from "@/components/ui/Container";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
 import type { Partner } from "@/types/contentful";
 
 // =============================================================================
@@ -11,6 +13,7 @@ export interface PartnersStripProps {
   partners: Partner[];
   title?: string;
   className?: string;
+  locale?: Locale;
 }
 
 // =============================================================================
@@ -19,17 +22,20 @@ export interface PartnersStripProps {
 
 export function PartnersStrip({
   partners,
-  title = "Partenerii Noștri",
+  title,
   className,
+  locale = defaultLocale,
 }: PartnersStripProps) {
   if (!partners || partners.length === 0) return null;
 
+  const heading = title ?? getDictionary(locale).partners.title;
+
   return (
     <section className={cn("border-t border-sand-200 bg-white py-12", className)}>
       <Container>
-        {title && (
+        {heading && (
           <h2 className="mb-8 text-center font-heading text-sm font-semibold uppercase tracking-wider text-sand-500">
-            {title}
+            {heading}
           </h2>
         )}
         <div className="flex flex-wrap items-center justify-center gap-8 md:gap-12">
@@ -89,6 +95,7 @@ interface PartnersSectionProps {
   sponsors?: Partner[];
   endorsements?: Partner[];
   className?: string;
+  locale?: Locale;
 }
 
 export function PartnersSection({
@@ -96,7 +103,9 @@ export function PartnersSection({
   sponsors,
   endorsements,
   className,
+  locale = defaultLocale,
 }: PartnersSectionProps) {
+  const t = getDictionary(locale).partners;
   const allPartners = partners.filter((p) => p.partnerType === "partner");
   const allSponsors = sponsors || partners.filter((p) => p.partnerType === "sponsor");
   const allEndorsements = endorsements || partners.filter((p) => p.partnerType === "endorsement");
@@ -107,7 +116,7 @@ export function PartnersSection({
       {allPartners.length > 0 && (
         <div>
           <h2 className="mb-6 font-heading text-2xl font-semibold text-sand-900">
-            Parteneri
+            {t.partners}
           </h2>
           <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
             {allPartners.map((partner) => (
@@ -121,7 +130,7 @@ export function PartnersSection({
       {allSponsors.length > 0 && (
         <div>
           <h2 className="mb-6 font-heading text-2xl font-semibold text-sand-900">
-            Sponsori
+            {t.sponsors}
           </h2>
           <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
             {allSponsors.map((partner) => (
@@ -135,7 +144,7 @@ export function PartnersSection({
       {allEndorsements.length > 0 && (
         <div>
           <h2 className="mb-6 font-heading text-2xl font-semibold text-sand-900">
-            Recomandări și Avizuri
+            {t.endorsements}
           </h2>
           <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
             {allEndorsements.map((partner) => (
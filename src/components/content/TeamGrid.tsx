@@ -8,6 +8,7 @@ import { Card } from "@/components/ui/Card";
 import { Badge } from "@/components/ui/Badge";
 import { Modal } from "@/components/ui/Modal";
 import { Markdown } from "@/lib/contentful/markdown";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
 import type { TeamMember } from "@/types/contentful";
 
 // =============================================================================
@@ -183,6 +184,8 @@ interface TeamMemberDetailProps {
 }
 
 function TeamMemberDetail({ member }: TeamMemberDetailProps) {
+  const t = useLocale().dictionary.team;
+
   return (
     <div className="space-y-6">
       {/* Header with photo */}
@@ -223,7 +226,7 @@ function TeamMemberDetail({ member }: TeamMemberDetailProps) {
       {member.certifications && member.certifications.length > 0 && (
         <div>
           <h4 className="mb-3 font-heading text-lg font-semibold text-sand-900">
-            Certificări și Calificări
+            {t.certifications}
           </h4>
           <div className="flex flex-wrap gap-2">
             {member.certifications.map((cert) => (
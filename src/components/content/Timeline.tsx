@@ -3,6 +3,7 @@
 import { useState } from "react";
 import Image from "next/image";
 import { cn } from "@/lib/utils/cn";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
 import type { TimelineEvent } from "@/types/contentful";
 
 // =============================================================================
@@ -57,6 +58,7 @@ interface TimelineItemProps {
 }
 
 function TimelineItem({ event, index, isExpanded, onToggle }: TimelineItemProps) {
+  const t = useLocale().dictionary.timeline;
   const isEven = index % 2 === 0;
 
   return (
@@ -122,7 +124,7 @@ function TimelineItem({ event, index, isExpanded, onToggle }: TimelineItemProps)
 
           {/* Expand indicator */}
           <span className="mt-3 inline-block text-sm font-medium text-lagoon-600">
-            {isExpanded ? "Arată mai puțin" : "Citește mai mult"}
+            {isExpanded ? t.showLess : t.readMore}
           </span>
         </button>
       </div>
@@ -0,0 +1,498 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useForm, type FieldErrors } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/Button";
+import { Input, Textarea, Select } from "@/components/ui/Input";
+import { createEventId, track } from "@/components/analytics/track";
+import {
+  bookingSchema,
+  TIME_WINDOWS,
+  WEEKDAYS,
+  type BookingFields,
+  type BookingService,
+} from "@/lib/booking/schema";
+import { useFormProof } from "@/lib/hooks/useFormProof";
+import { format } from "@/lib/i18n/format";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+import { localizePath } from "@/lib/i18n/routing";
+import { readTrackingParams } from "@/lib/leads/tracking";
+import { cn } from "@/lib/utils/cn";
+
+// =============================================================================
+// Steps
+// =============================================================================
+
+const STEPS = ["service", "child", "schedule", "contact"] as const;
+
+type Step = (typeof STEPS)[number];
+
+// Fields validated before leaving each step
+const STEP_FIELDS: Record<Step, (keyof BookingFields)[]> = {
+  service: ["service", "ageGroup"],
+  child: ["childName", "childBirthDate"],
+  schedule: ["days", "times"],
+  contact: ["name", "email", "phone", "notes"],
+};
+
+/** The first step with an error, or -1. */
+function stepWithError(fields: Partial<Record<keyof BookingFields, unknown>>): number {
+  return STEPS.findIndex((step) => STEP_FIELDS[step].some((field) => fields[field]));
+}
+
+type FormStatus = "idle" | "submitting" | "success" | "error";
+
+// =============================================================================
+// Component
+// =============================================================================
+
+interface BookingWizardProps {
+  /** From getBookingServices(), in the page's language */
+  services: BookingService[];
+}
+
+export function BookingWizard({ services }: BookingWizardProps) {
+  const { locale, dictionary } = useLocale();
+  const t = dictionary.booking;
+  const form = dictionary.contactForm;
+  // Same schema as the API, so both report the same messages
+  const schema = useMemo(
+    () => bookingSchema(dictionary.bookingApi, dictionary.contactApi, services),
+    [dictionary, services]
+  );
+  const {
+    register,
+    handleSubmit,
+    trigger,
+    watch,
+    setValue,
+    setError,
+    setFocus,
+    reset,
+    formState: { errors },
+  } = useForm<BookingFields>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      service: "",
+      ageGroup: "",
+      childName: "",
+      childBirthDate: "",
+      days: [],
+      times: [],
+      name: "",
+      email: "",
+      phone: "",
+      notes: "",
+    },
+  });
+
+  const [step, setStep] = useState(0);
+  const [status, setStatus] = useState<FormStatus>("idle");
+  const [errorMessage, setErrorMessage] = useState("");
+  const takeProof = useFormProof();
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  // Field to focus once its step is shown, instead of the step heading
+  const pendingFocus = useRef<keyof BookingFields | null>(null);
+  const hasMoved = useRef(false);
+
+  const selected = services.find((service) => service.slug === watch("service"));
+  const needsChild = !!selected && selected.ageGroups.length > 0;
+  const today = new Date().toLocaleDateString("en-CA");
+
+  // Service pages link here with ?serviciu=<slug>
+  useEffect(() => {
+    const slug = new URLSearchParams(window.location.search).get("serviciu");
+    const service = services.find((candidate) => candidate.slug === slug);
+    if (service) {
+      setValue("service", service.slug);
+      setValue("ageGroup", service.ageGroups.length === 1 ? service.ageGroups[0].id : "");
+    }
+  }, [services, setValue]);
+
+  // Announce each new step by moving focus to its heading, or to the field
+  // the server rejected
+  useEffect(() => {
+    if (!hasMoved.current) return;
+    if (pendingFocus.current) {
+      setFocus(pendingFocus.current);
+      pendingFocus.current = null;
+    } else {
+      headingRef.current?.focus();
+    }
+  }, [step, setFocus]);
+
+  const goTo = (next: number) => {
+    hasMoved.current = true;
+    setStep(next);
+  };
+
+  const handleNext = async () => {
+    if (await trigger(STEP_FIELDS[STEPS[step]], { shouldFocus: true })) {
+      goTo(step + 1);
+    }
+  };
+
+  // Errors on an earlier step (an age group that no longer exists...) send
+  // the visitor back to it
+  const showErrorsFrom = (fields: Partial<Record<keyof BookingFields, unknown>>) => {
+    const target = stepWithError(fields);
+    if (target === -1) return;
+
+    const field = STEP_FIELDS[STEPS[target]].find((name) => fields[name]);
+    if (target === step) {
+      if (field) setFocus(field);
+    } else {
+      pendingFocus.current = field ?? null;
+      goTo(target);
+    }
+  };
+
+  const onInvalid = (fieldErrors: FieldErrors<BookingFields>) => showErrorsFrom(fieldErrors);
+
+  const onSubmit = async (values: BookingFields) => {
+    setStatus("submitting");
+    setErrorMessage("");
+
+    try {
+      // Generate event ID for deduplication between client and server
+      const eventId = createEventId("schedule");
+
+      // Anti-spam token and proof of work, usually solved by now
+      const proof = await takeProof();
+
+      const response = await fetch("/api/booking", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Language": locale,
+        },
+        body: JSON.stringify({
+          ...values,
+          website: honeypotRef.current?.value || "",
+          ...proof,
+          ...readTrackingParams(),
+          pageUrl: window.location.href,
+          eventId,
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        const fieldErrors: Partial<Record<keyof BookingFields, string>> = body?.fields ?? {};
+
+        (Object.entries(fieldErrors) as [keyof BookingFields, string][]).forEach(
+          ([field, message]) => setError(field, { message })
+        );
+        showErrorsFrom(fieldErrors);
+
+        throw new Error(body?.error || t.error);
+      }
+
+      setStatus("success");
+      track(
+        "schedule",
+        {
+          contentName: selected?.title ?? values.service,
+          user: { email: values.email, phone: values.phone, name: values.name },
+        },
+        eventId
+      );
+      reset();
+      setStep(0);
+    } catch (error) {
+      setStatus("error");
+      setErrorMessage(error instanceof Error ? error.message : t.error);
+    }
+  };
+
+  if (status === "success") {
+    return (
+      <div role="status" className="rounded-xl bg-emerald-50 p-8 text-center">
+        <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-emerald-100">
+          <svg
+            className="h-8 w-8 text-emerald-600"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M5 13l4 4L19 7"
+            />
+          </svg>
+        </div>
+        <h3 className="font-heading text-xl font-semibold text-emerald-900">
+          {t.successTitle}
+        </h3>
+        <p className="mt-2 text-emerald-700">{t.successMessage}</p>
+        <Button variant="outline" className="mt-6" onClick={() => setStatus("idle")}>
+          {t.bookAnother}
+        </Button>
+      </div>
+    );
+  }
+
+  const current = STEPS[step];
+  const isLast = step === STEPS.length - 1;
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit, onInvalid)} noValidate className="space-y-8">
+      {/* Progress */}
+      <ol className="grid grid-cols-4 gap-2">
+        {STEPS.map((name, index) => (
+          <li
+            key={name}
+            aria-current={index === step ? "step" : undefined}
+            className={cn(
+              "border-t-4 pt-2 text-sm",
+              index <= step ? "border-lagoon-500 text-lagoon-700" : "border-sand-200 text-sand-500",
+              index === step && "font-semibold"
+            )}
+          >
+            {t.steps[name]}
+          </li>
+        ))}
+      </ol>
+
+      <div className="space-y-6">
+        <div>
+          <p className="text-sm text-sand-500">
+            {format(t.stepOf, { current: step + 1, total: STEPS.length })}
+          </p>
+          <h2
+            ref={headingRef}
+            tabIndex={-1}
+            className="font-heading text-2xl font-semibold text-sand-900 focus:outline-none"
+          >
+            {t.steps[current]}
+          </h2>
+        </div>
+
+        {current === "service" && (
+          <div className="grid gap-6 sm:grid-cols-2">
+            <Select
+              id="booking-service"
+              label={t.service}
+              {...register("service", {
+                // Services with a single age group need no choice
+                onChange: (event) => {
+                  const service = services.find((s) => s.slug === event.target.value);
+                  setValue(
+                    "ageGroup",
+                    service?.ageGroups.length === 1 ? service.ageGroups[0].id : ""
+                  );
+                },
+              })}
+              error={errors.service?.message}
+              required
+              options={services.map((service) => ({ value: service.slug, label: service.title }))}
+              placeholder={t.servicePlaceholder}
+            />
+            {needsChild && (
+              <Select
+                id="booking-age-group"
+                label={t.ageGroup}
+                {...register("ageGroup")}
+                error={errors.ageGroup?.message}
+                required
+                options={selected.ageGroups.map((group) => ({
+                  value: group.id,
+                  label: `${group.name} (${group.ageRange})`,
+                }))}
+                placeholder={t.ageGroupPlaceholder}
+              />
+            )}
+          </div>
+        )}
+
+        {current === "child" &&
+          (needsChild ? (
+            <div className="grid gap-6 sm:grid-cols-2">
+              <Input
+                id="booking-child-name"
+                label={t.childName}
+                {...register("childName")}
+                error={errors.childName?.message}
+                required
+                placeholder={t.childNamePlaceholder}
+              />
+              <Input
+                id="booking-child-birth-date"
+                label={t.childBirthDate}
+                type="date"
+                max={today}
+                {...register("childBirthDate")}
+                error={errors.childBirthDate?.message}
+                hint={t.childBirthDateHint}
+                required
+              />
+            </div>
+          ) : (
+            <p className="text-sand-600">{t.noChild}</p>
+          ))}
+
+        {current === "schedule" && (
+          <div className="space-y-6">
+            <CheckboxGroup
+              id="booking-days"
+              legend={t.days}
+              error={errors.days?.message}
+              options={WEEKDAYS.map((day) => ({ value: day, label: t.dayOptions[day] }))}
+              inputProps={register("days")}
+            />
+            <CheckboxGroup
+              id="booking-times"
+              legend={t.times}
+              error={errors.times?.message}
+              options={(Object.keys(TIME_WINDOWS) as (keyof typeof TIME_WINDOWS)[]).map((time) => ({
+                value: time,
+                label: t.timeOptions[time],
+              }))}
+              inputProps={register("times")}
+            />
+          </div>
+        )}
+
+        {current === "contact" && (
+          <div className="space-y-6">
+            <div className="grid gap-6 sm:grid-cols-2">
+              <Input
+                id="booking-name"
+                label={form.name}
+                {...register("name")}
+                error={errors.name?.message}
+                required
+                autoComplete="name"
+                placeholder={form.namePlaceholder}
+              />
+              <Input
+                id="booking-email"
+                label={form.email}
+                type="email"
+                {...register("email")}
+                error={errors.email?.message}
+                required
+                autoComplete="email"
+                placeholder={form.emailPlaceholder}
+              />
+            </div>
+            <Input
+              id="booking-phone"
+              label={t.phone}
+              type="tel"
+              {...register("phone")}
+              error={errors.phone?.message}
+              required
+              autoComplete="tel"
+              placeholder="07XX XXX XXX"
+            />
+            <Textarea
+              id="booking-notes"
+              label={t.notes}
+              {...register("notes")}
+              error={errors.notes?.message}
+              placeholder={t.notesPlaceholder}
+              rows={4}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Honeypot field — hidden from real users */}
+      <input
+        ref={honeypotRef}
+        type="text"
+        name="website"
+        tabIndex={-1}
+        autoComplete="off"
+        aria-hidden="true"
+        style={{ display: "none" }}
+      />
+
+      {status === "error" && (
+        <div role="alert" className="rounded-lg bg-red-50 p-4 text-red-700">
+          {errorMessage}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        {step > 0 ? (
+          <Button type="button" variant="outline" onClick={() => goTo(step - 1)}>
+            {t.back}
+          </Button>
+        ) : (
+          <span />
+        )}
+        {isLast ? (
+          <Button type="submit" isLoading={status === "submitting"} size="lg">
+            {status === "submitting" ? t.submitting : t.submit}
+          </Button>
+        ) : (
+          <Button type="button" size="lg" onClick={handleNext}>
+            {t.next}
+          </Button>
+        )}
+      </div>
+
+      <p className="text-sm text-sand-500">
+        {form.required}{" "}
+        <a
+          href={localizePath("/politica-confidentialitate", locale)}
+          className="text-lagoon-600 underline hover:text-lagoon-700"
+        >
+          {form.privacy}
+        </a>
+        .
+      </p>
+    </form>
+  );
+}
+
+// =============================================================================
+// Checkbox Group
+// =============================================================================
+
+interface CheckboxGroupProps {
+  id: string;
+  legend: string;
+  error?: string;
+  options: { value: string; label: string }[];
+  inputProps: ReturnType<ReturnType<typeof useForm<BookingFields>>["register"]>;
+}
+
+function CheckboxGroup({ id, legend, error, options, inputProps }: CheckboxGroupProps) {
+  return (
+    <fieldset aria-describedby={error ? `${id}-error` : undefined}>
+      <legend className="mb-2 block text-sm font-medium text-sand-700">{legend}</legend>
+      <div className="flex flex-wrap gap-3">
+        {options.map((option) => (
+          <label
+            key={option.value}
+            className={cn(
+              "flex cursor-pointer items-center gap-2 rounded-xl border bg-white px-4 py-3 text-sand-800 transition-colors has-[:checked]:border-lagoon-500 has-[:checked]:bg-lagoon-50",
+              error ? "border-red-500" : "border-sand-300"
+            )}
+          >
+            <input
+              type="checkbox"
+              value={option.value}
+              aria-invalid={!!error}
+              className="h-4 w-4 accent-lagoon-600"
+              {...inputProps}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+      {error && (
+        <p id={`${id}-error`} className="mt-1.5 text-sm text-red-600">
+          {error}
+        </p>
+      )}
+    </fieldset>
+  );
+}
@@ -1,121 +1,84 @@
 "use client";
 
-import { useState, useEffect, type FormEvent } from "react";
+import { useMemo, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/Button";
 import { Input, Textarea, Select } from "@/components/ui/Input";
-import { fbLead, generateEventId } from "@/components/analytics/FacebookPixel";
-import { gtagLead, gtagSetUserData } from "@/components/analytics/GoogleAds";
+import { createEventId, track } from "@/components/analytics/track";
+import { useFormProof } from "@/lib/hooks/useFormProof";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+import { localizePath } from "@/lib/i18n/routing";
+import {
+  contactSchema,
+  type ContactFieldErrors,
+  type ContactFields,
+} from "@/lib/leads/contact-schema";
+import { readTrackingParams } from "@/lib/leads/tracking";
+import type { ServiceOption, ServiceOptionGroup } from "@/lib/leads/services";
 
 // =============================================================================
 // Types
 // =============================================================================
 
-interface FormState {
-  name: string;
-  email: string;
-  phone: string;
-  service: string;
-  message: string;
-}
-
 type FormStatus = "idle" | "submitting" | "success" | "error";
 
-interface UTMParams {
-  utm_source?: string;
-  utm_medium?: string;
-  utm_campaign?: string;
-  utm_term?: string;
-  utm_content?: string;
-  fbc?: string; // Facebook click ID
-  fbp?: string; // Facebook browser ID
-}
-
-// =============================================================================
-// Service Options
-// =============================================================================
-
-const serviceOptions = [
-  { value: "cursuri-prenatale", label: "Cursuri Prenatale Lamaze" },
-  { value: "inot-bebelusi", label: "Înot Bebeluși (0-3 ani)" },
-  { value: "inot-copii", label: "Înot Copii (3-12 ani)" },
-  { value: "kinetoterapie", label: "Kinetoterapie Pediatrică" },
-  { value: "consultatie", label: "Consultație Generală" },
-  { value: "altele", label: "Altele" },
-];
-
 // =============================================================================
 // Component
 // =============================================================================
 
-export function ContactForm() {
-  const [formData, setFormData] = useState<FormState>({
-    name: "",
-    email: "",
-    phone: "",
-    service: "",
-    message: "",
+interface ContactFormProps {
+  /** From getServiceOptions(), so new services in Contentful are selectable */
+  serviceOptions: (ServiceOption | ServiceOptionGroup)[];
+}
+
+export function ContactForm({ serviceOptions }: ContactFormProps) {
+  const { locale, dictionary } = useLocale();
+  const t = dictionary.contactForm;
+  // Same schema as the API, so both report the same messages
+  const schema = useMemo(() => contactSchema(dictionary.contactApi), [dictionary]);
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<ContactFields>({
+    resolver: zodResolver(schema),
+    defaultValues: { name: "", email: "", phone: "", service: "", message: "" },
+    // Client-side errors focus the first invalid field; server ones do below
+    shouldFocusError: true,
   });
+  const honeypotRef = useRef<HTMLInputElement>(null);
   const [status, setStatus] = useState<FormStatus>("idle");
   const [errorMessage, setErrorMessage] = useState("");
-  const [utmParams, setUtmParams] = useState<UTMParams>({});
-
-  // Capture UTM parameters and Facebook cookies on mount
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-
-    const searchParams = new URLSearchParams(window.location.search);
-    const params: UTMParams = {};
-
-    // Capture UTM parameters
-    ["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content"].forEach((key) => {
-      const value = searchParams.get(key);
-      if (value) {
-        params[key as keyof UTMParams] = value;
-      }
-    });
-
-    // Capture Facebook cookies for Conversions API
-    const cookies = document.cookie.split(";").reduce((acc, cookie) => {
-      const [key, value] = cookie.trim().split("=");
-      acc[key] = value;
-      return acc;
-    }, {} as Record<string, string>);
-
-    if (cookies._fbc) params.fbc = cookies._fbc;
-    if (cookies._fbp) params.fbp = cookies._fbp;
+  const takeProof = useFormProof();
 
-    setUtmParams(params);
-  }, []);
-
-  const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
-  ) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
-  };
-
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
+  const onSubmit = async (values: ContactFields) => {
     setStatus("submitting");
     setErrorMessage("");
 
     try {
       // Read honeypot value from the actual DOM input
-      const form = e.target as HTMLFormElement;
-      const honeypot = (form.elements.namedItem("website") as HTMLInputElement)?.value || "";
+      const honeypot = honeypotRef.current?.value || "";
 
       // Generate event ID for deduplication between client and server
-      const eventId = generateEventId("Lead");
+      const eventId = createEventId("lead");
+
+      // Anti-spam token and proof of work, usually solved by now
+      const proof = await takeProof();
 
       const response = await fetch("/api/contact", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Content-Language": locale,
         },
         body: JSON.stringify({
-          ...formData,
+          ...values,
           website: honeypot,
-          ...utmParams,
+          ...proof,
+          ...readTrackingParams(),
           pageUrl: window.location.href,
           eventId, // Pass to server for CAPI deduplication
         }),
@@ -123,52 +86,35 @@ export function ContactForm() {
 
       if (!response.ok) {
         const body = await response.json().catch(() => null);
-        throw new Error(
-          body?.error || "A apărut o eroare. Te rugăm să încerci din nou."
-        );
-      }
-
-      setStatus("success");
 
-      // Fire Facebook Lead event (client-side) with same eventId for deduplication
-      fbLead({
-        content_name: formData.service || "Contact Form",
-        eventId,
-      });
+        // Show the server's field errors inline, focusing the first one
+        const fieldErrors = Object.entries(body?.fields ?? {}) as [
+          keyof ContactFieldErrors,
+          string,
+        ][];
+        fieldErrors.forEach(([field, message], index) => {
+          setError(field, { message }, { shouldFocus: index === 0 });
+        });
 
-      // Fire Google Ads conversion with enhanced conversion data
-      // Split name into first/last for enhanced conversions
-      const nameParts = formData.name.trim().split(/\s+/);
-      const firstName = nameParts[0] || "";
-      const lastName = nameParts.slice(1).join(" ") || "";
+        throw new Error(body?.error || t.error);
+      }
 
-      // Set enhanced conversion data before firing conversion
-      gtagSetUserData({
-        email: formData.email,
-        phone: formData.phone || undefined,
-        firstName,
-        lastName,
-        city: "Bucuresti",
-        country: "RO",
-      });
+      setStatus("success");
 
-      // Fire Google Ads Lead conversion (uses eventId for deduplication)
-      gtagLead(eventId);
+      // Same eventId as the server's Conversions API event, for deduplication
+      track(
+        "lead",
+        {
+          contentName: values.service || "Contact Form",
+          user: { email: values.email, phone: values.phone, name: values.name },
+        },
+        eventId
+      );
 
-      setFormData({
-        name: "",
-        email: "",
-        phone: "",
-        service: "",
-        message: "",
-      });
+      reset();
     } catch (error) {
       setStatus("error");
-      setErrorMessage(
-        error instanceof Error
-          ? error.message
-          : "A apărut o eroare. Te rugăm să încerci din nou."
-      );
+      setErrorMessage(error instanceof Error ? error.message : t.error);
     }
   };
 
@@ -191,66 +137,70 @@ export function ContactForm() {
           </svg>
         </div>
         <h3 className="font-heading text-xl font-semibold text-emerald-900">
-          Mesaj trimis cu succes!
+          {t.successTitle}
         </h3>
         <p className="mt-2 text-emerald-700">
-          Îți mulțumim pentru mesaj. Te vom contacta în cel mai scurt timp
-          posibil.
+          {t.successMessage}
         </p>
         <Button
           variant="outline"
           className="mt-6"
           onClick={() => setStatus("idle")}
         >
-          Trimite alt mesaj
+          {t.sendAnother}
         </Button>
       </div>
     );
   }
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-6">
+    // Validation is the schema's; `required` stays for assistive technology
+    <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-6">
       <div className="grid gap-6 sm:grid-cols-2">
         <Input
-          label="Nume complet *"
-          name="name"
-          value={formData.name}
-          onChange={handleChange}
+          id="contact-name"
+          label={t.name}
+          {...register("name")}
+          error={errors.name?.message}
           required
-          placeholder="Numele tău"
+          autoComplete="name"
+          placeholder={t.namePlaceholder}
         />
         <Input
-          label="Email *"
-          name="email"
+          id="contact-email"
+          label={t.email}
           type="email"
-          value={formData.email}
-          onChange={handleChange}
+          {...register("email")}
+          error={errors.email?.message}
           required
-          placeholder="email@exemplu.ro"
+          autoComplete="email"
+          placeholder={t.emailPlaceholder}
         />
       </div>
 
       <div className="grid gap-6 sm:grid-cols-2">
         <Input
-          label="Telefon"
-          name="phone"
+          id="contact-phone"
+          label={t.phone}
           type="tel"
-          value={formData.phone}
-          onChange={handleChange}
+          {...register("phone")}
+          error={errors.phone?.message}
+          autoComplete="tel"
           placeholder="07XX XXX XXX"
         />
         <Select
-          label="Serviciu de interes"
-          name="service"
-          value={formData.service}
-          onChange={handleChange}
+          id="contact-service"
+          label={t.service}
+          {...register("service")}
+          error={errors.service?.message}
           options={serviceOptions}
-          placeholder="Selectează un serviciu"
+          placeholder={t.servicePlaceholder}
         />
       </div>
 
       {/* Honeypot field — hidden from real users */}
       <input
+        ref={honeypotRef}
         type="text"
         name="website"
         tabIndex={-1}
@@ -260,32 +210,32 @@ export function ContactForm() {
       />
 
       <Textarea
-        label="Mesaj *"
-        name="message"
-        value={formData.message}
-        onChange={handleChange}
+        id="contact-message"
+        label={t.message}
+        {...register("message")}
+        error={errors.message?.message}
         required
-        placeholder="Scrie-ne mesajul tău aici..."
+        placeholder={t.messagePlaceholder}
         rows={5}
       />
 
       {status === "error" && (
-        <div className="rounded-lg bg-red-50 p-4 text-red-700">
+        <div role="alert" className="rounded-lg bg-red-50 p-4 text-red-700">
           {errorMessage}
         </div>
       )}
 
       <Button type="submit" isLoading={status === "submitting"} size="lg">
-        {status === "submitting" ? "Se trimite..." : "Trimite Mesajul"}
+        {status === "submitting" ? t.submitting : t.submit}
       </Button>
 
       <p className="text-sm text-sand-500">
-        * Câmpuri obligatorii. Datele tale sunt protejate conform{" "}
+        {t.required}{" "}
         <a
-          href="/politica-confidentialitate"
+          href={localizePath("/politica-confidentialitate", locale)}
           className="text-lagoon-600 underline hover:text-lagoon-700"
         >
-          Politicii de Confidențialitate
+          {t.privacy}
         </a>
         .
       </p>
@@ -3,3 +3,4 @@
 // =============================================================================
 
 export { ContactForm } from "./ContactForm";
+export { BookingWizard } from "./BookingWizard";
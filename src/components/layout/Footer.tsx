@@ -1,7 +1,12 @@
 import Link from "next/link";
 import Image from "next/image";
 import { Phone, Mail, MapPin, Facebook, Instagram, Twitter } from "lucide-react";
+import { ConsentSettingsButton } from "@/components/consent/ConsentSettingsButton";
 import { Container } from "@/components/ui/Container";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { format } from "@/lib/i18n/format";
+import { localizePath } from "@/lib/i18n/routing";
 import type { Navigation as NavigationType, SiteSettings } from "@/types/contentful";
 
 // =============================================================================
@@ -11,15 +16,20 @@ import type { Navigation as NavigationType, SiteSettings } from "@/types/content
 export interface FooterProps {
   navigation?: NavigationType | null;
   siteSettings?: SiteSettings | null;
+  locale?: Locale;
 }
 
 // =============================================================================
 // Component
 // =============================================================================
 
-export function Footer({ navigation, siteSettings }: FooterProps) {
+export function Footer({ navigation, siteSettings, locale = defaultLocale }: FooterProps) {
+  const t = getDictionary(locale).footer;
   const currentYear = new Date().getFullYear();
-  const navItems = navigation?.items || [];
+  const navItems = (navigation?.items || []).map((item) => ({
+    ...item,
+    href: localizePath(item.href, locale),
+  }));
 
   // Navigation items for footer
   const mainLinks = navItems;
@@ -31,7 +41,7 @@ export function Footer({ navigation, siteSettings }: FooterProps) {
         <div className="grid gap-12 py-16 md:grid-cols-2 lg:grid-cols-4">
           {/* Brand column */}
           <div className="lg:col-span-1">
-            <Link href="/" className="inline-block">
+            <Link href={localizePath("/", locale)} className="inline-block">
               {siteSettings?.logo ? (
                 <Image
                   src={siteSettings.logo.url}
@@ -47,8 +57,7 @@ export function Footer({ navigation, siteSettings }: FooterProps) {
               )}
             </Link>
             <p className="mt-4 text-sm leading-relaxed">
-              {siteSettings?.tagline ||
-                "Primul club de educație acvatică din România, oferind cursuri de înot pentru copii de toate vârstele."}
+              {siteSettings?.tagline || t.tagline}
             </p>
 
             {/* Social links */}
@@ -92,7 +101,7 @@ export function Footer({ navigation, siteSettings }: FooterProps) {
           {/* Navigation columns */}
           <div>
             <h3 className="mb-4 font-heading font-semibold text-white">
-              Navigare
+              {t.navigation}
             </h3>
             <ul className="space-y-2">
               {mainLinks.map((item) => (
@@ -110,57 +119,63 @@ export function Footer({ navigation, siteSettings }: FooterProps) {
 
           <div>
             <h3 className="mb-4 font-heading font-semibold text-white">
-              Despre
+              {t.about}
             </h3>
             <ul className="space-y-2">
               <li>
                 <Link
-                  href="/despre-noi"
+                  href={localizePath("/despre-noi", locale)}
                   className="text-sm transition-colors hover:text-white"
                 >
-                  Despre Noi
+                  {t.aboutUs}
                 </Link>
               </li>
               <li>
                 <Link
-                  href="/concept"
+                  href={localizePath("/concept", locale)}
                   className="text-sm transition-colors hover:text-white"
                 >
-                  Conceptul Nostru
+                  {t.concept}
                 </Link>
               </li>
               <li>
                 <Link
-                  href="/galerie"
+                  href={localizePath("/galerie", locale)}
                   className="text-sm transition-colors hover:text-white"
                 >
-                  Galerie Foto
+                  {t.gallery}
                 </Link>
               </li>
               <li>
                 <Link
-                  href="/asociatia"
+                  href={localizePath("/asociatia", locale)}
                   className="text-sm transition-colors hover:text-white"
                 >
-                  Asociația
+                  {t.association}
                 </Link>
               </li>
               <li>
                 <Link
-                  href="/termeni-conditii"
+                  href={localizePath("/termeni-conditii", locale)}
                   className="text-sm transition-colors hover:text-white"
                 >
-                  Termeni și Condiții
+                  {t.terms}
                 </Link>
               </li>
               <li>
                 <Link
-                  href="/politica-confidentialitate"
+                  href={localizePath("/politica-confidentialitate", locale)}
                   className="text-sm transition-colors hover:text-white"
                 >
-                  Politica de Confidențialitate
+                  {t.privacy}
                 </Link>
               </li>
+              <li>
+                <ConsentSettingsButton
+                  label={t.cookieSettings}
+                  className="text-sm transition-colors hover:text-white"
+                />
+              </li>
             </ul>
           </div>
 
@@ -208,10 +223,10 @@ export function Footer({ navigation, siteSettings }: FooterProps) {
         <Container>
           <div className="flex flex-col items-center justify-between gap-4 py-6 text-sm md:flex-row">
             <p>
-              © {currentYear} Micii Campioni. Toate drepturile rezervate.
+              {format(t.rights, { year: currentYear })}
             </p>
             <p className="text-sand-500">
-              Designed with ❤️ for little swimmers
+              {t.credit}
             </p>
           </div>
         </Container>
@@ -7,9 +7,13 @@ import { usePathname } from "next/navigation";
 import { Menu, X, Phone, Mail } from "lucide-react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils/cn";
+import { track } from "@/components/analytics/track";
 import { Button } from "@/components/ui/Button";
 import { Container } from "@/components/ui/Container";
 import { ThemeToggle } from "@/components/ui/ThemeToggle";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+import { localizePath } from "@/lib/i18n/routing";
+import { LanguageSwitcher } from "./LanguageSwitcher";
 import type { Navigation as NavigationType, SiteSettings } from "@/types/contentful";
 
 // =============================================================================
@@ -27,11 +31,15 @@ export interface HeaderProps {
 
 export function Header({ navigation, siteSettings }: HeaderProps) {
   const pathname = usePathname();
+  const { locale, dictionary: t } = useLocale();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
 
+  const homeHref = localizePath("/", locale);
+  const contactHref = localizePath("/contact", locale);
+
   const isActive = (href: string) =>
-    pathname === href || pathname.startsWith(href + "/");
+    pathname === href || (href !== homeHref && pathname.startsWith(href + "/"));
 
   // Handle scroll for sticky header styling
   useEffect(() => {
@@ -60,9 +68,9 @@ export function Header({ navigation, siteSettings }: HeaderProps) {
     };
   }, [isMenuOpen]);
 
-  const navItems = (navigation?.items || []).filter(
-    (item) => item.href !== "/contact"
-  );
+  const navItems = (navigation?.items || [])
+    .filter((item) => item.href !== "/contact")
+    .map((item) => ({ ...item, href: localizePath(item.href, locale) }));
 
   return (
     <>
@@ -74,6 +82,7 @@ export function Header({ navigation, siteSettings }: HeaderProps) {
               {siteSettings?.phone && (
                 <a
                   href={`tel:${siteSettings.phone}`}
+                  onClick={() => track("contact", { method: "phone" })}
                   className="flex items-center gap-2 transition-colors hover:text-lagoon-100"
                 >
                   <Phone className="h-4 w-4" />
@@ -83,6 +92,7 @@ export function Header({ navigation, siteSettings }: HeaderProps) {
               {siteSettings?.email && (
                 <a
                   href={`mailto:${siteSettings.email}`}
+                  onClick={() => track("contact", { method: "email" })}
                   className="flex items-center gap-2 transition-colors hover:text-lagoon-100"
                 >
                   <Mail className="h-4 w-4" />
@@ -93,7 +103,7 @@ export function Header({ navigation, siteSettings }: HeaderProps) {
             <div className="text-lagoon-100">
               {siteSettings?.anniversaryActive && siteSettings?.anniversaryText
                 ? siteSettings.anniversaryText
-                : "Primul Club de Educație Acvatică din România"}
+                : t.header.tagline}
             </div>
           </div>
         </Container>
@@ -112,7 +122,7 @@ export function Header({ navigation, siteSettings }: HeaderProps) {
           <nav className="flex h-16 items-center justify-between lg:h-20">
             {/* Logo */}
             <Link
-              href="/"
+              href={homeHref}
               className="flex items-center gap-3 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-lagoon-500 focus-visible:ring-offset-2"
             >
               {siteSettings?.logo ? (
@@ -152,15 +162,17 @@ export function Header({ navigation, siteSettings }: HeaderProps) {
                 ))}
               </ul>
               <div className="flex items-center gap-3">
+                <LanguageSwitcher />
                 <ThemeToggle size="sm" />
-                <Button href="/contact" size="sm">
-                  Contact
+                <Button href={contactHref} size="sm">
+                  {t.common.contact}
                 </Button>
               </div>
             </div>
 
             {/* Mobile controls */}
             <div className="flex items-center gap-2 lg:hidden">
+              <LanguageSwitcher />
               <ThemeToggle size="sm" />
               <button
                 type="button"
@@ -170,7 +182,7 @@ export function Header({ navigation, siteSettings }: HeaderProps) {
                   "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-lagoon-500"
                 )}
                 aria-expanded={isMenuOpen}
-                aria-label={isMenuOpen ? "Close menu" : "Open menu"}
+                aria-label={isMenuOpen ? t.header.closeMenu : t.header.openMenu}
               >
                 {isMenuOpen ? (
                   <X className="h-6 w-6" />
@@ -224,11 +236,11 @@ export function Header({ navigation, siteSettings }: HeaderProps) {
 
           <div className="mt-6 px-4">
             <Button
-              href="/contact"
+              href={contactHref}
               fullWidth
               onClick={() => setIsMenuOpen(false)}
             >
-              Contact
+              {t.common.contact}
             </Button>
           </div>
 
@@ -237,6 +249,7 @@ export function Header({ navigation, siteSettings }: HeaderProps) {
             {siteSettings?.phone && (
               <a
                 href={`tel:${siteSettings.phone}`}
+                onClick={() => track("contact", { method: "phone" })}
                 className="flex items-center gap-3 text-sand-600 dark:text-sand-400"
               >
                 <Phone className="h-5 w-5 text-lagoon-500 dark:text-lagoon-400" />
@@ -246,6 +259,7 @@ export function Header({ navigation, siteSettings }: HeaderProps) {
             {siteSettings?.email && (
               <a
                 href={`mailto:${siteSettings.email}`}
+                onClick={() => track("contact", { method: "email" })}
                 className="flex items-center gap-3 text-sand-600 dark:text-sand-400"
               >
                 <Mail className="h-5 w-5 text-lagoon-500 dark:text-lagoon-400" />
@@ -0,0 +1,61 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { cn } from "@/lib/utils/cn";
+import { localeInfo, locales } from "@/lib/i18n/config";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+import { switchLocalePath } from "@/lib/i18n/routing";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LanguageSwitcherProps {
+  className?: string;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Links to the current page in every other locale.
+ */
+export function LanguageSwitcher({ className }: LanguageSwitcherProps) {
+  const pathname = usePathname();
+  const { locale, dictionary } = useLocale();
+
+  return (
+    <nav aria-label={dictionary.header.language} className={cn("flex items-center gap-1", className)}>
+      {locales.map((option) =>
+        option === locale ? (
+          <span
+            key={option}
+            aria-current="true"
+            className="flex h-8 min-w-8 items-center justify-center rounded-full bg-lagoon-50 px-2 text-xs font-semibold uppercase text-lagoon-600 dark:bg-night-800 dark:text-lagoon-400"
+          >
+            {option}
+          </span>
+        ) : (
+          <Link
+            key={option}
+            href={switchLocalePath(pathname, option)}
+            hrefLang={option}
+            lang={option}
+            aria-label={localeInfo[option].label}
+            className={cn(
+              "flex h-8 min-w-8 items-center justify-center rounded-full px-2 text-xs font-semibold uppercase",
+              "text-sand-600 transition-colors hover:bg-sand-100 hover:text-sand-800",
+              "dark:text-sand-300 dark:hover:bg-night-800 dark:hover:text-lagoon-300",
+              "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-lagoon-500 focus-visible:ring-offset-2",
+              "dark:focus-visible:ring-offset-night-900"
+            )}
+          >
+            {option}
+          </Link>
+        )
+      )}
+    </nav>
+  );
+}
@@ -5,6 +5,9 @@ import { cn } from "@/lib/utils/cn";
 import { Container } from "@/components/ui/Container";
 import { Section } from "@/components/ui/Section";
 import { WaveDivider } from "@/components/ui/WaveDivider";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { localizePath } from "@/lib/i18n/routing";
 import { Sidebar } from "./Sidebar";
 import type { Widget, ContentfulImage } from "@/types/contentful";
 
@@ -26,6 +29,7 @@ export interface PageLayoutProps {
   breadcrumbs?: Breadcrumb[];
   sidebarWidgets?: Widget[];
   className?: string;
+  locale?: Locale;
 }
 
 // =============================================================================
@@ -41,7 +45,10 @@ export function PageLayout({
   breadcrumbs,
   sidebarWidgets,
   className,
+  locale = defaultLocale,
 }: PageLayoutProps) {
+  const home = getDictionary(locale).common.home;
+  const homeHref = localizePath("/", locale);
   const hasSidebar = sidebarWidgets && sidebarWidgets.length > 0;
 
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
@@ -52,7 +59,7 @@ export function PageLayout({
           "@context": "https://schema.org",
           "@type": "BreadcrumbList",
           itemListElement: [
-            { "@type": "ListItem", position: 1, name: "Acasă", item: siteUrl },
+            { "@type": "ListItem", position: 1, name: home, item: `${siteUrl}${homeHref}` },
             ...breadcrumbs.map((crumb, i) => ({
               "@type": "ListItem" as const,
               position: i + 2,
@@ -96,10 +103,10 @@ export function PageLayout({
               <ol className="flex flex-wrap items-center gap-1 text-sm text-lagoon-200">
                 <li>
                   <Link
-                    href="/"
+                    href={homeHref}
                     className="transition-colors hover:text-white"
                   >
-                    Acasă
+                    {home}
                   </Link>
                 </li>
                 {breadcrumbs.map((crumb, index) => (
@@ -154,7 +161,7 @@ export function PageLayout({
           {/* Sidebar */}
           {hasSidebar && (
             <aside className="lg:col-span-1">
-              <Sidebar widgets={sidebarWidgets} />
+              <Sidebar widgets={sidebarWidgets} locale={locale} />
             </aside>
           )}
         </div>
@@ -0,0 +1,36 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { Eye } from "lucide-react";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+
+// =============================================================================
+// Preview Banner
+// =============================================================================
+
+/**
+ * Shown while draft mode is enabled, so editors know they are seeing
+ * unpublished content. The exit link returns them to the current page.
+ */
+export function PreviewBanner() {
+  const pathname = usePathname();
+  const { dictionary: t } = useLocale();
+  const exitHref = `/api/preview?disable=true&slug=${encodeURIComponent(pathname || "/")}`;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-6 z-400 flex items-center gap-3 rounded-full bg-amber-500 px-4 py-2 text-sm font-semibold text-white shadow-lg"
+    >
+      <Eye className="h-4 w-4" aria-hidden="true" />
+      <span>{t.preview.label}</span>
+      {/* Plain anchor: the exit route must not be prefetched */}
+      <a
+        href={exitHref}
+        className="rounded-full bg-white/20 px-3 py-1 transition-colors hover:bg-white/30 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-white"
+      >
+        {t.preview.exit}
+      </a>
+    </div>
+  );
+}
@@ -3,6 +3,9 @@ import { cn } from "@/lib/utils/cn";
 import { Card } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { Markdown } from "@/lib/contentful/markdown";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { localizePath } from "@/lib/i18n/routing";
 import type { Widget } from "@/types/contentful";
 
 // =============================================================================
@@ -12,19 +15,20 @@ import type { Widget } from "@/types/contentful";
 export interface SidebarProps {
   widgets: Widget[];
   className?: string;
+  locale?: Locale;
 }
 
 // =============================================================================
 // Component
 // =============================================================================
 
-export function Sidebar({ widgets, className }: SidebarProps) {
+export function Sidebar({ widgets, className, locale = defaultLocale }: SidebarProps) {
   if (!widgets || widgets.length === 0) return null;
 
   return (
     <div className={cn("sticky top-24 space-y-6", className)}>
       {widgets.map((widget, index) => (
-        <WidgetCard key={`${widget.title}-${index}`} widget={widget} />
+        <WidgetCard key={`${widget.title}-${index}`} widget={widget} locale={locale} />
       ))}
     </div>
   );
@@ -34,11 +38,12 @@ export function Sidebar({ widgets, className }: SidebarProps) {
 // Widget Card
 // =============================================================================
 
-interface WidgetCardProps {
+export interface WidgetCardProps {
   widget: Widget;
+  locale?: Locale;
 }
 
-function WidgetCard({ widget }: WidgetCardProps) {
+export function WidgetCard({ widget, locale = defaultLocale }: WidgetCardProps) {
   const { title, content, widgetType, ctaText, ctaLink } = widget;
 
   // Style variants based on widget type
@@ -114,7 +119,7 @@ function WidgetCard({ widget }: WidgetCardProps) {
       {ctaText && ctaLink && (
         <div className="mt-4">
           <Button
-            href={ctaLink}
+            href={localizePath(ctaLink, locale)}
             variant={isCta ? "outline" : "primary"}
             size="sm"
             fullWidth
@@ -138,15 +143,23 @@ interface ContactWidgetProps {
   phone?: string;
   email?: string;
   className?: string;
+  locale?: Locale;
 }
 
-export function ContactWidget({ phone, email, className }: ContactWidgetProps) {
+export function ContactWidget({
+  phone,
+  email,
+  className,
+  locale = defaultLocale,
+}: ContactWidgetProps) {
   if (!phone && !email) return null;
 
+  const t = getDictionary(locale).contactWidget;
+
   return (
     <Card variant="default" padding="md" className={cn("bg-lagoon-50", className)}>
       <h3 className="mb-4 font-heading text-lg font-semibold text-sand-900">
-        Contactează-ne
+        {t.title}
       </h3>
       <div className="space-y-3">
         {phone && (
@@ -173,8 +186,8 @@ export function ContactWidget({ phone, email, className }: ContactWidgetProps) {
         )}
       </div>
       <div className="mt-4">
-        <Button href="/contact" fullWidth>
-          Trimite un mesaj
+        <Button href={localizePath("/contact", locale)} fullWidth>
+          {t.button}
         </Button>
       </div>
     </Card>
@@ -5,4 +5,6 @@
 export { Header, type HeaderProps } from "./Header";
 export { Footer, type FooterProps } from "./Footer";
 export { PageLayout, SectionHero, type PageLayoutProps, type Breadcrumb, type SectionHeroProps } from "./PageLayout";
-export { Sidebar, ContactWidget, type SidebarProps } from "./Sidebar";
+export { Sidebar, ContactWidget, WidgetCard, type SidebarProps, type WidgetCardProps } from "./Sidebar";
+export { PreviewBanner } from "./PreviewBanner";
+export { LanguageSwitcher, type LanguageSwitcherProps } from "./LanguageSwitcher";
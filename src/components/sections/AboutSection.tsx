@@ -8,6 +8,8 @@ import { Section } from "@/components/ui/Section";
 import { Button } from "@/components/ui/Button";
 import { MotionSection } from "@/components/motion/MotionSection";
 import { MagneticButton } from "@/components/motion/MagneticButton";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+import { localizePath } from "@/lib/i18n/routing";
 import type { ContentfulMedia } from "@/types/contentful";
 
 // =============================================================================
@@ -27,32 +29,27 @@ export interface AboutSectionProps {
   reverse?: boolean;
 }
 
-// =============================================================================
-// Default Content
-// =============================================================================
-
-const defaultFeatures = [
-  "Metode certificate internațional",
-  "Instructori cu experiență vastă",
-  "Grupe mici pentru atenție maximă",
-  "Program flexibil adaptat nevoilor tale",
-  "Echipament modern și sigur",
-  "Mediu prietenos și distractiv",
-];
-
 // =============================================================================
 // Component
 // =============================================================================
 
 export function AboutSection({
-  title = "De Ce Să Alegi Micii Campioni?",
-  subtitle = "Despre Noi",
-  description = "Suntem primul club de educație acvatică din România, dedicat formării copiilor într-un mediu sigur și prietenos. De peste 15 ani, transformăm frica de apă în pasiune pentru înot.",
-  features = defaultFeatures,
+  title,
+  subtitle,
+  description,
+  features,
   media,
-  ctaButton = { label: "Află Mai Multe", href: "/despre-noi" },
+  ctaButton,
   reverse = false,
 }: AboutSectionProps) {
+  const { locale, dictionary } = useLocale();
+  const t = dictionary.about;
+  title ??= t.title;
+  subtitle ??= t.subtitle;
+  description ??= t.description;
+  features ??= t.features;
+  const cta = ctaButton ?? { label: t.cta, href: "/despre-noi" };
+
   const isVideo = media?.contentType?.startsWith("video/");
   return (
     <Section background="white" spacing="xl">
@@ -114,7 +111,7 @@ export function AboutSection({
                   <p className="mt-4 font-heading text-lg font-semibold text-lagoon-700">
                     Micii Campioni
                   </p>
-                  <p className="text-sm text-lagoon-500">Educație Acvatică</p>
+                  <p className="text-sm text-lagoon-500">{t.aquaticEducation}</p>
                 </div>
               </div>
             )}
@@ -131,7 +128,7 @@ export function AboutSection({
             <p className="font-heading text-2xl font-bold text-white lg:text-3xl">
               25+
             </p>
-            <p className="text-sm text-coral-100">Ani Experiență</p>
+            <p className="text-sm text-coral-100">{t.yearsBadge}</p>
           </motion.div>
         </div>
 
@@ -184,10 +181,10 @@ export function AboutSection({
             </motion.ul>
           )}
 
-          {ctaButton && (
+          {cta && (
             <div className="mt-8">
               <MagneticButton>
-                <Button href={ctaButton.href}>{ctaButton.label}</Button>
+                <Button href={localizePath(cta.href, locale)}>{cta.label}</Button>
               </MagneticButton>
             </div>
           )}
@@ -1,6 +1,9 @@
 import Image from "next/image";
 import { Button } from "@/components/ui/Button";
 import { Section } from "@/components/ui/Section";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { localizePath } from "@/lib/i18n/routing";
 
 // =============================================================================
 // Types
@@ -19,6 +22,8 @@ export interface CTASectionProps {
   };
   backgroundImage?: string;
   variant?: "default" | "gradient" | "image";
+  /** Locale of the default copy; button hrefs are site paths localized to it. */
+  locale?: Locale;
 }
 
 // =============================================================================
@@ -26,13 +31,26 @@ export interface CTASectionProps {
 // =============================================================================
 
 export function CTASection({
-  title = "Pregătit să începi aventura acvatică?",
-  description = "Înscrie-ți copilul astăzi și oferă-i șansa de a deveni un mic campion al apei.",
-  primaryButton = { label: "Programează o lecție", href: "/contact" },
+  title,
+  description,
+  primaryButton,
   secondaryButton,
   backgroundImage,
   variant = "gradient",
+  locale = defaultLocale,
 }: CTASectionProps) {
+  const t = getDictionary(locale).cta;
+  const heading = title ?? t.title;
+  const text = description ?? t.description;
+  const primary = {
+    label: primaryButton?.label ?? t.button,
+    href: localizePath(primaryButton?.href ?? "/contact", locale),
+  };
+  const secondary = secondaryButton && {
+    label: secondaryButton.label,
+    href: localizePath(secondaryButton.href, locale),
+  };
+
   if (variant === "image" && backgroundImage) {
     return (
       <section className="relative min-h-[400px] overflow-hidden">
@@ -41,21 +59,21 @@ export function CTASection({
         <div className="relative z-10 flex min-h-[400px] items-center px-4 py-16 sm:px-6 lg:px-8">
           <div className="mx-auto max-w-3xl text-center">
             <h2 className="font-heading text-3xl font-bold text-white md:text-4xl">
-              {title}
+              {heading}
             </h2>
-            <p className="mt-4 text-lg text-lagoon-100">{description}</p>
+            <p className="mt-4 text-lg text-lagoon-100">{text}</p>
             <div className="mt-8 flex flex-wrap justify-center gap-4">
-              <Button href={primaryButton.href} size="lg">
-                {primaryButton.label}
+              <Button href={primary.href} size="lg">
+                {primary.label}
               </Button>
-              {secondaryButton && (
+              {secondary && (
                 <Button
-                  href={secondaryButton.href}
+                  href={secondary.href}
                   variant="outline"
                   size="lg"
                   className="border-white/60 text-white hover:bg-white/20"
                 >
-                  {secondaryButton.label}
+                  {secondary.label}
                 </Button>
               )}
             </div>
@@ -78,25 +96,25 @@ export function CTASection({
         <div className="relative z-10 px-4 py-16 sm:px-6 lg:px-8 lg:py-20">
           <div className="mx-auto max-w-3xl text-center">
             <h2 className="font-heading text-3xl font-bold text-white md:text-4xl">
-              {title}
+              {heading}
             </h2>
-            <p className="mt-4 text-lg text-coral-100">{description}</p>
+            <p className="mt-4 text-lg text-coral-100">{text}</p>
             <div className="mt-8 flex flex-wrap justify-center gap-4">
               <Button
-                href={primaryButton.href}
+                href={primary.href}
                 size="lg"
                 className="bg-white text-coral-600 hover:bg-coral-50"
               >
-                {primaryButton.label}
+                {primary.label}
               </Button>
-              {secondaryButton && (
+              {secondary && (
                 <Button
-                  href={secondaryButton.href}
+                  href={secondary.href}
                   variant="outline"
                   size="lg"
                   className="border-white/60 text-white hover:bg-white/20"
                 >
-                  {secondaryButton.label}
+                  {secondary.label}
                 </Button>
               )}
             </div>
@@ -111,16 +129,16 @@ export function CTASection({
     <Section background="sand" spacing="xl">
       <div className="mx-auto max-w-3xl text-center">
         <h2 className="font-heading text-3xl font-bold text-sand-900 md:text-4xl">
-          {title}
+          {heading}
         </h2>
-        <p className="mt-4 text-lg text-sand-600">{description}</p>
+        <p className="mt-4 text-lg text-sand-600">{text}</p>
         <div className="mt-8 flex flex-wrap justify-center gap-4">
-          <Button href={primaryButton.href} size="lg">
-            {primaryButton.label}
+          <Button href={primary.href} size="lg">
+            {primary.label}
           </Button>
-          {secondaryButton && (
-            <Button href={secondaryButton.href} variant="outline" size="lg">
-              {secondaryButton.label}
+          {secondary && (
+            <Button href={secondary.href} variant="outline" size="lg">
+              {secondary.label}
             </Button>
           )}
         </div>
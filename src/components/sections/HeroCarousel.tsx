@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/Button";
 import { Carousel, CarouselSlide } from "@/components/ui/Carousel";
 import { Container } from "@/components/ui/Container";
 import { MagneticButton } from "@/components/motion/MagneticButton";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+import { localizePath } from "@/lib/i18n/routing";
 import type { CarouselSlide as CarouselSlideType } from "@/types/contentful";
 
 // =============================================================================
@@ -21,6 +23,8 @@ export interface HeroCarouselProps {
 // =============================================================================
 
 export function HeroCarousel({ slides }: HeroCarouselProps) {
+  const { locale } = useLocale();
+
   if (slides.length === 0) {
     return <HeroFallback />;
   }
@@ -107,7 +111,7 @@ export function HeroCarousel({ slides }: HeroCarouselProps) {
                       }}
                     >
                       <MagneticButton>
-                        <Button href={slide.ctaLink} size="lg">
+                        <Button href={localizePath(slide.ctaLink, locale)} size="lg">
                           {slide.ctaText}
                         </Button>
                       </MagneticButton>
@@ -128,6 +132,9 @@ export function HeroCarousel({ slides }: HeroCarouselProps) {
 // =============================================================================
 
 function HeroFallback() {
+  const { locale, dictionary } = useLocale();
+  const t = dictionary.hero;
+
   return (
     <section className="relative min-h-[500px] bg-gradient-to-br from-lagoon-600 to-lagoon-800 md:min-h-[600px]">
       {/* Decorative waves */}
@@ -153,26 +160,25 @@ function HeroFallback() {
       <Container className="relative z-10 flex h-full min-h-[500px] items-center md:min-h-[600px]">
         <div className="max-w-2xl py-16">
           <span className="mb-4 inline-block rounded-full bg-white/20 px-4 py-1.5 text-sm font-semibold text-white">
-            Primul Club de Educație Acvatică din România
+            {t.badge}
           </span>
           <h1 className="font-heading text-4xl font-bold text-white md:text-5xl lg:text-6xl">
-            Învățăm copiii să înoate cu bucurie și încredere
+            {t.title}
           </h1>
           <p className="mt-6 text-lg text-lagoon-100 md:text-xl">
-            De peste 15 ani formăm micii campioni ai apei, cu metode certificate
-            și instructori dedicați.
+            {t.subtitle}
           </p>
           <div className="mt-8 flex flex-wrap gap-4">
-            <Button href="/servicii" size="lg">
-              Descoperă Cursurile
+            <Button href={localizePath("/servicii", locale)} size="lg">
+              {t.discover}
             </Button>
             <Button
-              href="/contact"
+              href={localizePath("/contact", locale)}
               variant="outline"
               size="lg"
               className="border-white/60 text-white hover:bg-white/20"
             >
-              Contactează-ne
+              {dictionary.common.contactUs}
             </Button>
           </div>
         </div>
@@ -8,6 +8,8 @@ import { Card, CardTitle, CardDescription } from "@/components/ui/Card";
 import { Badge } from "@/components/ui/Badge";
 import { MotionSection, MotionItem } from "@/components/motion/MotionSection";
 import { TiltCard } from "@/components/motion/TiltCard";
+import { serviceUrl } from "@/lib/contentful/urls";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
 import type { Service } from "@/types/contentful";
 
 // =============================================================================
@@ -27,10 +29,15 @@ export interface ServicesSectionProps {
 
 export function ServicesSection({
   services,
-  title = "Cursurile Noastre",
-  subtitle = "Ce Oferim",
-  description = "Descoperă programele noastre de educație acvatică, create special pentru fiecare etapă de dezvoltare a copilului tău.",
+  title,
+  subtitle,
+  description,
 }: ServicesSectionProps) {
+  const t = useLocale().dictionary.servicesSection;
+  title ??= t.title;
+  subtitle ??= t.subtitle;
+  description ??= t.description;
+
   // Filter out FAQ page from services listing
   const filteredServices = services.filter((s) => s.slug !== "intrebari-frecvente");
 
@@ -65,13 +72,14 @@ interface ServiceCardProps {
 }
 
 function ServiceCard({ service }: ServiceCardProps) {
+  const { locale, dictionary } = useLocale();
   // Get first age group's age range if available
   const primaryAgeRange = service.ageGroups?.[0]?.ageRange;
 
   return (
     <TiltCard tiltAmount={6} className="h-full">
       <Link
-        href={`/servicii/${service.slug}`}
+        href={serviceUrl(service.slug, locale)}
         className="group block h-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-lagoon-500 focus-visible:ring-offset-2"
       >
         <Card
@@ -128,7 +136,7 @@ function ServiceCard({ service }: ServiceCardProps) {
 
             {/* CTA */}
             <div className="mt-4 flex items-center gap-2 font-medium text-lagoon-600 dark:text-lagoon-400">
-              <span>Află mai multe</span>
+              <span>{dictionary.servicesSection.learnMore}</span>
               <ArrowRight className="h-4 w-4 transition-transform group-hover:translate-x-1" />
             </div>
           </div>
@@ -149,8 +157,11 @@ export interface CompactServicesProps {
 
 export function CompactServices({
   services,
-  title = "Alte Cursuri",
+  title,
 }: CompactServicesProps) {
+  const { locale, dictionary } = useLocale();
+  title ??= dictionary.servicesSection.other;
+
   if (services.length === 0) return null;
 
   return (
@@ -167,7 +178,7 @@ export function CompactServices({
           return (
             <Link
               key={service.slug}
-              href={`/servicii/${service.slug}`}
+              href={serviceUrl(service.slug, locale)}
               className="group flex items-center gap-4 rounded-xl p-3 transition-colors hover:bg-sand-50 dark:hover:bg-night-800"
             >
               {service.heroImage && (
@@ -3,6 +3,7 @@
 import { Section } from "@/components/ui/Section";
 import { MotionSection, MotionItem } from "@/components/motion/MotionSection";
 import { FloatingElements } from "@/components/decorative/FloatingElements";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
 
 // =============================================================================
 // Types
@@ -23,37 +24,25 @@ export interface StatsSectionProps {
 // Default Stats
 // =============================================================================
 
-const defaultStats: Stat[] = [
-  {
-    value: "25+",
-    label: "Ani de Experiență",
-    description: "De peste 25 ani formăm mici campioni ai educației acvatice",
-  },
-  {
-    value: "7.900+",
-    label: "Mici Campioni",
-    description: "Mii de copii au absolvit cursurile noastre de educație acvatică",
-  },
-  {
-    value: "50+",
-    label: "Instructori Certificați",
-    description: "Instructori certificați în educație acvatică pentru copii. Echipa noastră urmează singurele cursuri de profil acreditate (cod COR: 342215)",
-  },
-  {
-    value: "98%",
-    label: "Copii & Părinți mulțumiți",
-    description: "Perfecționăm permanent metodele și exercițiile de educație acvatică",
-  },
-];
+// Labels and descriptions come from the dictionary
+const defaultStats = [
+  { key: "years", value: "25+" },
+  { key: "champions", value: "7.900+" },
+  { key: "instructors", value: "50+" },
+  { key: "satisfaction", value: "98%" },
+] as const;
 
 // =============================================================================
 // Component
 // =============================================================================
 
 export function StatsSection({
-  stats = defaultStats,
+  stats,
   variant = "lagoon",
 }: StatsSectionProps) {
+  const t = useLocale().dictionary.stats;
+  stats ??= defaultStats.map(({ key, value }) => ({ value, ...t[key] }));
+
   if (variant === "lagoon") {
     return (
       <Section
@@ -5,6 +5,7 @@ import { Section, SectionHeader } from "@/components/ui/Section";
 import { Card } from "@/components/ui/Card";
 import { Avatar } from "@/components/ui/Avatar";
 import { Carousel, CarouselSlide } from "@/components/ui/Carousel";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
 import type { Testimonial } from "@/types/contentful";
 
 // =============================================================================
@@ -24,10 +25,15 @@ export interface TestimonialsSectionProps {
 
 export function TestimonialsSection({
   testimonials,
-  title = "Ce Spun Părinții",
-  subtitle = "Testimoniale",
-  description = "Descoperă experiențele familiilor care au ales Micii Campioni pentru educația acvatică a copiilor lor.",
+  title,
+  subtitle,
+  description,
 }: TestimonialsSectionProps) {
+  const t = useLocale().dictionary.testimonials;
+  title ??= t.title;
+  subtitle ??= t.subtitle;
+  description ??= t.description;
+
   if (testimonials.length === 0) return null;
 
   return (
@@ -66,11 +72,11 @@ export function TestimonialsSection({
 // Testimonial Card
 // =============================================================================
 
-interface TestimonialCardProps {
+export interface TestimonialCardProps {
   testimonial: Testimonial;
 }
 
-function TestimonialCard({ testimonial }: TestimonialCardProps) {
+export function TestimonialCard({ testimonial }: TestimonialCardProps) {
   return (
     <Card variant="elevated" padding="lg" className="h-full">
       {/* Quote icon */}
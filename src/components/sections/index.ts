@@ -12,7 +12,9 @@ export {
 export {
   TestimonialsSection,
   FeaturedTestimonial,
+  TestimonialCard,
   type TestimonialsSectionProps,
+  type TestimonialCardProps,
   type FeaturedTestimonialProps,
 } from "./TestimonialsSection";
 export { StatsSection, type StatsSectionProps, type Stat } from "./StatsSection";
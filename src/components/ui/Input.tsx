@@ -151,11 +151,17 @@ export interface SelectOption {
   disabled?: boolean;
 }
 
+export interface SelectOptionGroup {
+  label: string;
+  options: SelectOption[];
+}
+
 export interface SelectProps extends Omit<InputHTMLAttributes<HTMLSelectElement>, "children"> {
   label?: string;
   error?: string;
   hint?: string;
-  options: SelectOption[];
+  /** Options, and groups rendered as `<optgroup>` */
+  options: (SelectOption | SelectOptionGroup)[];
   placeholder?: string;
 }
 
@@ -163,6 +169,14 @@ export interface SelectProps extends Omit<InputHTMLAttributes<HTMLSelectElement>
 // Select Component
 // =============================================================================
 
+function renderOption(option: SelectOption) {
+  return (
+    <option key={option.value} value={option.value} disabled={option.disabled}>
+      {option.label}
+    </option>
+  );
+}
+
 export const Select = forwardRef<HTMLSelectElement, SelectProps>(
   ({ label, error, hint, options, placeholder, className, id, ...props }, ref) => {
     const selectId = id || label?.toLowerCase().replace(/\s+/g, "-");
@@ -195,11 +209,15 @@ export const Select = forwardRef<HTMLSelectElement, SelectProps>(
               {placeholder}
             </option>
           )}
-          {options.map((option) => (
-            <option key={option.value} value={option.value} disabled={option.disabled}>
-              {option.label}
-            </option>
-          ))}
+          {options.map((option) =>
+            "options" in option ? (
+              <optgroup key={option.label} label={option.label}>
+                {option.options.map(renderOption)}
+              </optgroup>
+            ) : (
+              renderOption(option)
+            )
+          )}
         </select>
         {error && (
           <p id={`${selectId}-error`} className="mt-1.5 text-sm text-red-600">
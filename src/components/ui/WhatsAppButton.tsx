@@ -1,12 +1,16 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { track } from "@/components/analytics/track";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
+import { whatsAppUrl } from "@/lib/utils/whatsapp";
 
 interface WhatsAppButtonProps {
   phone: string;
 }
 
 export function WhatsAppButton({ phone }: WhatsAppButtonProps) {
+  const { dictionary: t } = useLocale();
   const [visible, setVisible] = useState(false);
 
   useEffect(() => {
@@ -15,17 +19,15 @@ export function WhatsAppButton({ phone }: WhatsAppButtonProps) {
     return () => cancelAnimationFrame(id);
   }, []);
 
-  const cleanPhone = phone.replace(/[\s\-()]/g, "");
-  const fullPhone = cleanPhone.startsWith("+") ? cleanPhone : `+40${cleanPhone.replace(/^0+/, "")}`;
-  const greeting = encodeURIComponent("Bună ziua! Aș dori mai multe informații.");
-  const href = `https://wa.me/${fullPhone}?text=${greeting}`;
+  const href = whatsAppUrl(phone, t.whatsApp.greeting);
 
   return (
     <a
       href={href}
       target="_blank"
       rel="noopener noreferrer"
-      aria-label="Trimite mesaj pe WhatsApp"
+      onClick={() => track("contact", { method: "whatsapp" })}
+      aria-label={t.whatsApp.label}
       className={`fixed bottom-6 right-6 z-400 flex h-14 w-14 items-center justify-center rounded-full bg-[#25D366] text-white shadow-lg transition-all duration-300 hover:scale-110 hover:shadow-xl focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[#25D366] motion-reduce:transition-none ${
         visible
           ? "translate-y-0 opacity-100"
@@ -0,0 +1,16 @@
+/**
+ * Server startup hook
+ *
+ * Starts the background workers that retry failed lead notifications and
+ * send queued Conversions API events. Both stores live on the local
+ * filesystem, so only the Node.js runtime runs them.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startLeadRetryWorker } = await import("@/lib/leads/queue");
+    startLeadRetryWorker();
+
+    const { startOutboxWorker } = await import("@/lib/facebook/conversions-api");
+    startOutboxWorker();
+  }
+}
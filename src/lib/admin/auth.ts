@@ -0,0 +1,164 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { getStore } from "@/lib/rate-limit/stores";
+import { verifyPassword } from "./password";
+
+// =============================================================================
+// Admin Authentication
+// Staff sign in to the lead inbox with the shared password (ADMIN_PASSWORD_HASH)
+// or with a one-time link emailed to an address in ADMIN_EMAILS. Either way
+// they get a signed session cookie; there is no user database.
+// =============================================================================
+
+const SESSION_COOKIE = "admin_session";
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+// Who signed in with the shared password
+export const PASSWORD_USER = "staff";
+
+export interface AdminSession {
+  /** Email of a magic link sign-in, or PASSWORD_USER */
+  user: string;
+  /** Epoch ms */
+  expiresAt: number;
+}
+
+// =============================================================================
+// Signing
+// =============================================================================
+
+let fallbackSecret: string | null = null;
+
+/**
+ * ADMIN_SESSION_SECRET, which every instance must share. Without it sessions
+ * are signed with a per-process secret and end with every restart.
+ */
+function secret(): string {
+  if (process.env.ADMIN_SESSION_SECRET) return process.env.ADMIN_SESSION_SECRET;
+  if (!fallbackSecret) {
+    console.warn("[Admin] ADMIN_SESSION_SECRET is not set, using a per-process secret");
+    fallbackSecret = randomBytes(32).toString("hex");
+  }
+  return fallbackSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", secret()).update(payload).digest("base64url");
+}
+
+/** The payload parts of a signed value, or null if the signature is wrong. */
+function unsign(value: string, parts: number): string[] | null {
+  const fields = value.split(".");
+  if (fields.length !== parts + 1) return null;
+
+  const signature = fields.pop() as string;
+  const expected = Buffer.from(sign(fields.join(".")));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+  return fields;
+}
+
+function encode(user: string): string {
+  return Buffer.from(user).toString("base64url");
+}
+
+function decode(user: string): string {
+  return Buffer.from(user, "base64url").toString("utf8");
+}
+
+// =============================================================================
+// Credentials
+// =============================================================================
+
+/**
+ * Addresses allowed to sign in by magic link, from the comma-separated
+ * ADMIN_EMAILS.
+ */
+export function isAdminEmail(email: string): boolean {
+  const allowed = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((address) => address.trim().toLowerCase())
+    .filter(Boolean);
+  return allowed.includes(email.trim().toLowerCase());
+}
+
+export async function checkPassword(password: string): Promise<boolean> {
+  const hash = process.env.ADMIN_PASSWORD_HASH;
+  if (!hash) return false;
+  return verifyPassword(password, hash);
+}
+
+// =============================================================================
+// Magic Links
+// Token format: <email>.<expiresAt>.<nonce>.<signature>
+// =============================================================================
+
+export function issueMagicLinkToken(email: string): string {
+  const payload = `${encode(email.trim().toLowerCase())}.${Date.now() + MAGIC_LINK_TTL_MS}.${randomBytes(12).toString("base64url")}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The email a magic link token was issued to, or null if it is forged,
+ * expired or was already used. Each token works once.
+ */
+export async function consumeMagicLinkToken(token: string): Promise<string | null> {
+  const fields = unsign(token, 3);
+  if (!fields) return null;
+
+  const [email, expiresAt, nonce] = fields;
+  if (Number(expiresAt) < Date.now()) return null;
+
+  const { count } = await getStore().hit(`magiclink:${nonce}`, MAGIC_LINK_TTL_MS);
+  if (count > 1) return null;
+
+  // The allowlist may have changed since the link was sent
+  const address = decode(email);
+  return isAdminEmail(address) ? address : null;
+}
+
+// =============================================================================
+// Sessions
+// Cookie format: <user>.<expiresAt>.<signature>
+// =============================================================================
+
+export async function startSession(user: string): Promise<void> {
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  const payload = `${encode(user)}.${expiresAt}`;
+
+  (await cookies()).set(SESSION_COOKIE, `${payload}.${sign(payload)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/admin",
+    expires: new Date(expiresAt),
+  });
+}
+
+export async function endSession(): Promise<void> {
+  (await cookies()).delete({ name: SESSION_COOKIE, path: "/admin" });
+}
+
+export async function getAdminSession(): Promise<AdminSession | null> {
+  const value = (await cookies()).get(SESSION_COOKIE)?.value;
+  const fields = value ? unsign(value, 2) : null;
+  if (!fields) return null;
+
+  const [user, expiresAt] = fields;
+  if (Number(expiresAt) < Date.now()) return null;
+  return { user: decode(user), expiresAt: Number(expiresAt) };
+}
+
+/**
+ * The current session, or a redirect to the sign-in page. Every admin page,
+ * action and route calls this; nothing else guards them.
+ */
+export async function requireAdmin(): Promise<AdminSession> {
+  const session = await getAdminSession();
+  if (!session) redirect("/admin/login");
+  return session;
+}
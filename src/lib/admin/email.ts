@@ -0,0 +1,36 @@
+import { getResend } from "@/lib/email/client";
+import { renderEmail } from "@/lib/email/render";
+import { adminMagicLink } from "@/lib/email/templates";
+import { issueMagicLinkToken, MAGIC_LINK_TTL_MS } from "./auth";
+
+// The link always points at the configured site, never at the host a request
+// claims: a forged Origin header would otherwise send staff a valid token on
+// someone else's domain
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
+
+/**
+ * Email a one-time sign-in link to a staff address. Throws when Resend
+ * rejects the message.
+ */
+export async function sendMagicLink(email: string): Promise<void> {
+  const from = process.env.CONTACT_EMAIL_FROM || "noreply@launchinto.space";
+  const url = new URL("/admin/login/verify", siteUrl);
+  url.searchParams.set("token", issueMagicLinkToken(email));
+
+  const { subject, html, text } = renderEmail(adminMagicLink, {
+    url: url.toString(),
+    validFor: MAGIC_LINK_TTL_MS / 60_000,
+  });
+
+  const { error } = await getResend().emails.send({
+    from: `Micii Campioni Website <${from}>`,
+    to: email,
+    subject,
+    html,
+    text,
+  });
+
+  if (error) {
+    throw new Error(`${error.name}: ${error.message}`);
+  }
+}
@@ -0,0 +1,222 @@
+import type { Touch } from "@/lib/attribution";
+import type { Lead, LeadStatus } from "@/lib/leads/store";
+
+// =============================================================================
+// Lead Inbox
+// Filtering and CSV export for the staff inbox at /admin/leads. Staff work in
+// Romanian, so labels here are not translated.
+// =============================================================================
+
+export const STATUS_LABELS: Record<LeadStatus, string> = {
+  new: "Nou",
+  emailed: "Notificat",
+  failed: "Notificare eșuată",
+  handled: "Rezolvat",
+  quarantined: "Spam",
+};
+
+export type LeadKind = "contact" | "booking";
+
+export const KIND_LABELS: Record<LeadKind, string> = {
+  contact: "Mesaj",
+  booking: "Programare",
+};
+
+export function leadKind(lead: Lead): LeadKind {
+  return lead.booking ? "booking" : "contact";
+}
+
+/**
+ * What the service filter matches on: the Contentful slug, or the label of
+ * general enquiries, which have none.
+ */
+function serviceKey(lead: Lead): string | undefined {
+  return lead.serviceSlug ?? lead.service;
+}
+
+/** Date and time in the club's time zone, e.g. "19.10.2026, 14:05". */
+export function formatLeadDate(iso: string): string {
+  return new Date(iso).toLocaleString("ro-RO", {
+    timeZone: "Europe/Bucharest",
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * Where a visit came from, e.g. "facebook / cpc / vara-2026 → /servicii/inot",
+ * an ad click without UTMs, or the referring site.
+ */
+export function touchLabel(touch: Touch): string {
+  const utm = [touch.utm?.source, touch.utm?.medium, touch.utm?.campaign].filter(Boolean);
+  const source = utm.length
+    ? utm.join(" / ")
+    : touch.gclid
+      ? "Google Ads"
+      : touch.fbclid
+        ? "Facebook Ads"
+        : touch.referrer;
+  return `${source ?? "direct"} → ${touch.landingPage}`;
+}
+
+/** Calendar day a lead arrived on, in the club's time zone (YYYY-MM-DD). */
+export function leadDay(lead: Lead): string {
+  return new Date(lead.createdAt).toLocaleDateString("en-CA", { timeZone: "Europe/Bucharest" });
+}
+
+// =============================================================================
+// Filters
+// =============================================================================
+
+export interface LeadFilters {
+  /** A status, "all", or unset for everything except spam */
+  status?: LeadStatus | "all";
+  kind?: LeadKind;
+  service?: string;
+  campaign?: string;
+  /** Inclusive days, YYYY-MM-DD */
+  from?: string;
+  to?: string;
+}
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function first(value: string | string[] | undefined): string | undefined {
+  const text = Array.isArray(value) ? value[0] : value;
+  return text?.trim() || undefined;
+}
+
+/** Filters from the query string; unknown values are dropped. */
+export function parseLeadFilters(params: SearchParams): LeadFilters {
+  const status = first(params.status);
+  const kind = first(params.kind);
+  const from = first(params.from);
+  const to = first(params.to);
+
+  return {
+    status:
+      status === "all" || (status && status in STATUS_LABELS)
+        ? (status as LeadFilters["status"])
+        : undefined,
+    kind: kind && kind in KIND_LABELS ? (kind as LeadKind) : undefined,
+    service: first(params.service),
+    campaign: first(params.campaign),
+    from: from && DAY_PATTERN.test(from) ? from : undefined,
+    to: to && DAY_PATTERN.test(to) ? to : undefined,
+  };
+}
+
+/** The query string for a set of filters, e.g. for the CSV link. */
+export function filterQuery(filters: LeadFilters): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+export function filterLeads(leads: Lead[], filters: LeadFilters): Lead[] {
+  return leads.filter((lead) => {
+    if (filters.status !== "all") {
+      if (filters.status ? lead.status !== filters.status : lead.status === "quarantined") {
+        return false;
+      }
+    }
+    if (filters.kind && leadKind(lead) !== filters.kind) return false;
+    if (filters.service && serviceKey(lead) !== filters.service) return false;
+    if (filters.campaign && lead.utm?.campaign !== filters.campaign) return false;
+
+    const day = leadDay(lead);
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+
+    return true;
+  });
+}
+
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * The services and campaigns found in the stored leads, for the filter
+ * selects. Services are labelled without the age group.
+ */
+export function filterOptions(leads: Lead[]): { services: FilterOption[]; campaigns: FilterOption[] } {
+  const services = new Map<string, string>();
+  const campaigns = new Set<string>();
+
+  for (const lead of leads) {
+    const key = serviceKey(lead);
+    if (key && lead.service && !services.has(key)) {
+      services.set(key, lead.service.split(" — ")[0]);
+    }
+    if (lead.utm?.campaign) campaigns.add(lead.utm.campaign);
+  }
+
+  const byLabel = (a: FilterOption, b: FilterOption) => a.label.localeCompare(b.label, "ro");
+  return {
+    services: [...services].map(([value, label]) => ({ value, label })).sort(byLabel),
+    campaigns: [...campaigns].map((value) => ({ value, label: value })).sort(byLabel),
+  };
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+const CSV_COLUMNS: [header: string, value: (lead: Lead) => string | number | undefined][] = [
+  ["id", (lead) => lead.id],
+  ["data", (lead) => lead.createdAt],
+  ["status", (lead) => STATUS_LABELS[lead.status]],
+  ["tip", (lead) => KIND_LABELS[leadKind(lead)]],
+  ["nume", (lead) => lead.name],
+  ["email", (lead) => lead.email],
+  ["telefon", (lead) => lead.phone],
+  ["serviciu", (lead) => lead.service],
+  ["mesaj", (lead) => lead.message],
+  ["limba", (lead) => lead.locale],
+  ["copil", (lead) => lead.booking?.child?.name],
+  ["data_nasterii", (lead) => lead.booking?.child?.birthDate],
+  ["zile", (lead) => lead.booking?.days.join(" ")],
+  ["intervale", (lead) => lead.booking?.times.join(" ")],
+  ["pagina", (lead) => lead.pageUrl],
+  ["utm_source", (lead) => lead.utm?.source],
+  ["utm_medium", (lead) => lead.utm?.medium],
+  ["utm_campaign", (lead) => lead.utm?.campaign],
+  ["utm_term", (lead) => lead.utm?.term],
+  ["utm_content", (lead) => lead.utm?.content],
+  ["fbc", (lead) => lead.fbc],
+  ["gclid", (lead) => lead.gclid],
+  ["prima_vizita", (lead) => lead.attribution && touchLabel(lead.attribution.first)],
+  ["ultima_vizita", (lead) => lead.attribution && touchLabel(lead.attribution.last)],
+  ["scor_spam", (lead) => lead.spam?.score],
+  ["note", (lead) => lead.notes?.map((note) => `${note.author}: ${note.text}`).join("\n")],
+];
+
+// An international phone number, which starts with "+" but holds no formula
+const PHONE_NUMBER = /^\+[\d\s().\/-]+$/;
+
+/**
+ * Quote a CSV cell. Cells that a spreadsheet would run as a formula get a
+ * leading apostrophe: the values come from a public form. Phone numbers are
+ * left as typed, so staff can copy them.
+ */
+function csvCell(value: string | number | undefined): string {
+  let text = value === undefined ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text) && !PHONE_NUMBER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Leads as CSV, with a byte order mark so Excel reads the diacritics. */
+export function leadsCsv(leads: Lead[]): string {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...leads.map((lead) => CSV_COLUMNS.map(([, value]) => csvCell(value(lead)))),
+  ];
+  return `\uFEFF${rows.map((row) => row.join(",")).join("\r\n")}\r\n`;
+}
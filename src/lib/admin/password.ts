@@ -0,0 +1,36 @@
+import { randomBytes, scrypt, timingSafeEqual, type BinaryLike } from "node:crypto";
+
+// =============================================================================
+// Admin Password
+// The shared staff password is configured as a scrypt hash in
+// ADMIN_PASSWORD_HASH, never in plain text. Generate one with:
+//   npm run admin:hash-password
+// Format: scrypt$<salt>$<hash>, both base64url
+// =============================================================================
+
+const KEY_LENGTH = 64;
+
+function derive(password: string, salt: BinaryLike): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt);
+  return `scrypt$${salt.toString("base64url")}$${key.toString("base64url")}`;
+}
+
+/**
+ * Whether `password` matches a hash made by hashPassword(). A malformed hash
+ * matches nothing.
+ */
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, salt, expected] = hash.split("$");
+  if (scheme !== "scrypt" || !salt || !expected) return false;
+
+  const key = await derive(password, Buffer.from(salt, "base64url"));
+  const target = Buffer.from(expected, "base64url");
+  return key.length === target.length && timingSafeEqual(key, target);
+}
@@ -0,0 +1,63 @@
+import {
+  addTouch,
+  ATTRIBUTION_COOKIE,
+  ATTRIBUTION_MAX_AGE,
+  fbcFromClickId,
+  parseAttribution,
+  serializeAttribution,
+  touchFromLanding,
+} from "./index";
+
+// =============================================================================
+// Attribution in the Browser
+// Records the landing of each full page load. Visitors often accept cookies a
+// few pages in, so the landing URL and referrer are kept in memory until then.
+// =============================================================================
+
+// The page this document was loaded for; client-side navigations keep it
+const landing =
+  typeof window !== "undefined"
+    ? { href: window.location.href, referrer: document.referrer }
+    : null;
+
+let captured = false;
+
+function readCookie(name: string): string | undefined {
+  return document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(`${name}=`))
+    ?.slice(name.length + 1);
+}
+
+function writeCookie(name: string, value: string, maxAge: number): void {
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie = `${name}=${value}; Path=/; Max-Age=${maxAge}; SameSite=Lax${secure}`;
+}
+
+/**
+ * Store the landing as the latest touch, and the first if there is none yet.
+ * Also sets _fbc for a Facebook ad click the Pixel has not recorded, e.g.
+ * because it loaded after the visitor left the landing page. Call once
+ * marketing consent is given; runs once per page load.
+ */
+export function captureAttribution(): void {
+  if (!landing || captured) return;
+  captured = true;
+
+  const touch = touchFromLanding(new URL(landing.href), landing.referrer);
+  if (!touch) return;
+
+  const attribution = addTouch(parseAttribution(readCookie(ATTRIBUTION_COOKIE)), touch);
+  writeCookie(ATTRIBUTION_COOKIE, serializeAttribution(attribution), ATTRIBUTION_MAX_AGE);
+
+  if (touch.fbclid && !readCookie("_fbc")) {
+    writeCookie("_fbc", fbcFromClickId(touch.fbclid, touch.at), ATTRIBUTION_MAX_AGE);
+  }
+}
+
+/** Forget the stored attribution, when marketing consent is withdrawn. */
+export function clearAttribution(): void {
+  if (readCookie(ATTRIBUTION_COOKIE) !== undefined) {
+    writeCookie(ATTRIBUTION_COOKIE, "", 0);
+  }
+}
@@ -0,0 +1,177 @@
+// =============================================================================
+// Attribution
+// Where a visitor came from, kept in a first-party cookie from the page they
+// land on to the form they send, possibly several pages later. The first and
+// the most recent campaign touch are both kept. It describes ad traffic, so it
+// is only stored with marketing consent.
+// =============================================================================
+
+export const ATTRIBUTION_COOKIE = "attribution";
+
+// Ninety days, the click window of Facebook's _fbc cookie
+export const ATTRIBUTION_MAX_AGE = 90 * 24 * 60 * 60;
+
+// Cookies are limited to about 4 KB; one touch stays well under half of that
+const MAX_VALUE_LENGTH = 200;
+
+export const UTM_KEYS = ["source", "medium", "campaign", "term", "content"] as const;
+
+export type UtmParams = Partial<Record<(typeof UTM_KEYS)[number], string>>;
+
+/** One arrival on the site from a campaign, an ad click or another site */
+export interface Touch {
+  utm?: UtmParams;
+  /** Google Ads click ID */
+  gclid?: string;
+  /** Facebook click ID */
+  fbclid?: string;
+  /** Host of the referring site, never the full URL, which can hold personal data */
+  referrer?: string;
+  /** Path of the landing page, without the query */
+  landingPage: string;
+  /** When the visitor arrived (epoch ms) */
+  at: number;
+}
+
+export interface Attribution {
+  first: Touch;
+  last: Touch;
+}
+
+// =============================================================================
+// Touches
+// =============================================================================
+
+function clip(value: string | null | undefined): string | undefined {
+  return value?.trim().slice(0, MAX_VALUE_LENGTH) || undefined;
+}
+
+/**
+ * The touch a page load represents, or null for a direct visit or a
+ * navigation within the site, which leave the attribution as it is.
+ */
+export function touchFromLanding(url: URL, referrer: string, now = Date.now()): Touch | null {
+  const utm: UtmParams = {};
+  for (const key of UTM_KEYS) {
+    const value = clip(url.searchParams.get(`utm_${key}`));
+    if (value) utm[key] = value;
+  }
+
+  let referrerHost: string | undefined;
+  try {
+    referrerHost = referrer ? new URL(referrer).hostname : undefined;
+  } catch {
+    referrerHost = undefined;
+  }
+
+  const touch: Touch = {
+    utm: Object.keys(utm).length ? utm : undefined,
+    gclid: clip(url.searchParams.get("gclid")),
+    fbclid: clip(url.searchParams.get("fbclid")),
+    referrer: referrerHost !== url.hostname ? clip(referrerHost) : undefined,
+    landingPage: clip(url.pathname) ?? "/",
+    at: now,
+  };
+
+  return touch.utm || touch.gclid || touch.fbclid || touch.referrer ? touch : null;
+}
+
+/** Record a new touch: the first one stays, the last one is replaced. */
+export function addTouch(attribution: Attribution | null, touch: Touch): Attribution {
+  return { first: attribution?.first ?? touch, last: touch };
+}
+
+/**
+ * The _fbc value Facebook's Pixel would have built for a click
+ * ("fb.1.<click time in ms>.<fbclid>").
+ */
+export function fbcFromClickId(fbclid: string, at: number): string {
+  return `fb.1.${at}.${fbclid}`;
+}
+
+// =============================================================================
+// Cookie Value
+// =============================================================================
+
+export function serializeAttribution(attribution: Attribution): string {
+  return encodeURIComponent(JSON.stringify(attribution));
+}
+
+function parseTouch(value: unknown): Touch | null {
+  if (!value || typeof value !== "object") return null;
+  const touch = value as Record<string, unknown>;
+  const at = Number(touch.at);
+  if (!at) return null;
+
+  const text = (field: unknown) => (typeof field === "string" ? clip(field) : undefined);
+
+  const utm: UtmParams = {};
+  if (touch.utm && typeof touch.utm === "object") {
+    for (const key of UTM_KEYS) {
+      const value = text((touch.utm as Record<string, unknown>)[key]);
+      if (value) utm[key] = value;
+    }
+  }
+
+  return {
+    utm: Object.keys(utm).length ? utm : undefined,
+    gclid: text(touch.gclid),
+    fbclid: text(touch.fbclid),
+    referrer: text(touch.referrer),
+    landingPage: text(touch.landingPage) ?? "/",
+    at,
+  };
+}
+
+/**
+ * The attribution stored in a cookie value, or null if there is none or it
+ * is unreadable. The cookie can be edited by anyone, so every field is
+ * checked and clipped.
+ */
+export function parseAttribution(value: string | undefined | null): Attribution | null {
+  if (!value) return null;
+
+  try {
+    const stored = JSON.parse(decodeURIComponent(value)) as Partial<Attribution>;
+    const first = parseTouch(stored.first);
+    const last = parseTouch(stored.last);
+    return first && last ? { first, last } : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The attribution sent with a request, for API routes. */
+export function requestAttribution(request: Pick<Request, "headers">): Attribution | null {
+  const cookie = request.headers
+    .get("cookie")
+    ?.split(/;\s*/)
+    .find((pair) => pair.startsWith(`${ATTRIBUTION_COOKIE}=`));
+  return parseAttribution(cookie?.slice(ATTRIBUTION_COOKIE.length + 1));
+}
+
+// =============================================================================
+// Leads
+// =============================================================================
+
+export interface LeadCampaign {
+  utm?: UtmParams;
+  fbc?: string;
+  gclid?: string;
+}
+
+/**
+ * Campaign details for a lead: what the form sent from its own page, or else
+ * those of the last stored touch, so a visitor who browsed on from the
+ * landing page is still attributed.
+ */
+export function leadCampaign(sent: LeadCampaign, attribution: Attribution | null): LeadCampaign {
+  const last = attribution?.last;
+  const sentUtm = sent.utm && Object.values(sent.utm).some(Boolean) ? sent.utm : undefined;
+
+  return {
+    utm: sentUtm ?? last?.utm,
+    fbc: sent.fbc || (last?.fbclid ? fbcFromClickId(last.fbclid, last.at) : undefined),
+    gclid: sent.gclid || last?.gclid,
+  };
+}
@@ -0,0 +1,68 @@
+// =============================================================================
+// Age Ranges
+// Age groups in Contentful describe who they are for as text ("0 - 6 luni",
+// "3 - 6 ani", "3 - 6 years"). Parsing them lets the booking form check a
+// child's date of birth against the group before anyone has to call back.
+// =============================================================================
+
+export interface AgeRange {
+  /** Youngest and oldest age, in completed units */
+  min: number;
+  max: number;
+  unit: "months" | "years";
+}
+
+const UNITS: Record<string, AgeRange["unit"]> = {
+  luna: "months",
+  luni: "months",
+  month: "months",
+  months: "months",
+  an: "years",
+  ani: "years",
+  year: "years",
+  years: "years",
+};
+
+const RANGE_PATTERN = /(\d+)\s*[-–]\s*(\d+)\s*([\p{L}]+)/u;
+const OPEN_RANGE_PATTERN = /(\d+)\s*\+\s*([\p{L}]+)/u;
+
+function unitOf(word: string): AgeRange["unit"] | undefined {
+  return UNITS[word.toLowerCase().normalize("NFD").replace(/\p{M}/gu, "")];
+}
+
+/**
+ * Parse an age range such as "1 - 3 ani" or "6+ years". Returns null for
+ * text it cannot read, in which case no eligibility check is made.
+ */
+export function parseAgeRange(text: string): AgeRange | null {
+  const range = text.match(RANGE_PATTERN);
+  if (range) {
+    const unit = unitOf(range[3]);
+    return unit ? { min: Number(range[1]), max: Number(range[2]), unit } : null;
+  }
+
+  const open = text.match(OPEN_RANGE_PATTERN);
+  if (open) {
+    const unit = unitOf(open[2]);
+    return unit ? { min: Number(open[1]), max: Infinity, unit } : null;
+  }
+
+  return null;
+}
+
+/** Completed months between a date of birth and `on`. */
+export function ageInMonths(birthDate: Date, on: Date): number {
+  const months =
+    (on.getFullYear() - birthDate.getFullYear()) * 12 + (on.getMonth() - birthDate.getMonth());
+  return on.getDate() < birthDate.getDate() ? months - 1 : months;
+}
+
+/**
+ * Whether a child fits an age range. The upper bound is inclusive of the
+ * whole unit: a child of 3 years and 5 months fits "1 - 3 ani".
+ */
+export function isEligible(range: AgeRange, birthDate: Date, on = new Date()): boolean {
+  const months = ageInMonths(birthDate, on);
+  const age = range.unit === "years" ? Math.floor(months / 12) : months;
+  return age >= range.min && age <= range.max;
+}
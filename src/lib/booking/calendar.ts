@@ -0,0 +1,134 @@
+import { TIME_WINDOWS, WEEKDAYS, type BookingDetails } from "./schema";
+
+// =============================================================================
+// Calendar Invite
+// A provisional iCalendar event for the first preferred day and time window
+// of a booking, attached to the confirmation email. It is marked tentative:
+// the club confirms the actual time by phone.
+// =============================================================================
+
+const TIME_ZONE = "Europe/Bucharest";
+
+// Romanian time: EET in winter, EEST from the last Sunday of March to the
+// last Sunday of October
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIME_ZONE}`,
+  "BEGIN:STANDARD",
+  "DTSTART:19701025T040000",
+  "TZOFFSETFROM:+0300",
+  "TZOFFSETTO:+0200",
+  "TZNAME:EET",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "BEGIN:DAYLIGHT",
+  "DTSTART:19700329T030000",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0300",
+  "TZNAME:EEST",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "END:VTIMEZONE",
+];
+
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  description: string;
+  location?: string;
+  booking: Pick<BookingDetails, "days" | "times">;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Escape a TEXT value (RFC 5545 §3.3.11). */
+function escapeText(value: string): string {
+  return value.replace(/[\\;,]/g, (char) => `\\${char}`).replace(/\r?\n/g, "\\n");
+}
+
+/** Fold lines longer than 75 octets (RFC 5545 §3.1). */
+function fold(line: string): string {
+  const bytes = Buffer.from(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (parts.length === 0 ? 75 : 74), bytes.length);
+    // Never split a multi-byte character
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(bytes.toString("utf8", start, end));
+    start = end;
+  }
+  return parts.join("\r\n ");
+}
+
+/** Today's date in Romania as [year, month, day]. */
+function today(now: Date): [number, number, number] {
+  const [year, month, day] = new Intl.DateTimeFormat("en-CA", { timeZone: TIME_ZONE })
+    .format(now)
+    .split("-")
+    .map(Number);
+  return [year, month, day];
+}
+
+/**
+ * The first of the preferred weekdays from tomorrow on, as YYYYMMDD.
+ */
+function nextPreferredDate(days: BookingDetails["days"], now: Date): string {
+  const [year, month, day] = today(now);
+  // Noon UTC, so the date never shifts whatever the offset
+  const date = new Date(Date.UTC(year, month - 1, day, 12));
+
+  for (let offset = 1; offset <= 7; offset++) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    // getUTCDay: 0 is Sunday, WEEKDAYS starts on Monday
+    const weekday = WEEKDAYS[date.getUTCDay() - 1];
+    if (weekday && days.includes(weekday)) break;
+  }
+
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+const stamp = (date: Date) => date.toISOString().replace(/[-:]|\.\d{3}/g, "");
+
+// =============================================================================
+// Invite
+// =============================================================================
+
+export function bookingCalendar(event: CalendarEvent, now = new Date()): string {
+  const date = nextPreferredDate(event.booking.days, now);
+  // Windows are listed in time order; pick the earliest one chosen
+  const window =
+    TIME_WINDOWS[
+      (Object.keys(TIME_WINDOWS) as (keyof typeof TIME_WINDOWS)[]).find((key) =>
+        event.booking.times.includes(key)
+      ) ?? "morning"
+    ];
+  const time = (value: string) => `${date}T${value.replace(":", "")}00`;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Micii Campioni//Programare//RO",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...VTIMEZONE,
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp(now)}`,
+    `DTSTART;TZID=${TIME_ZONE}:${time(window.start)}`,
+    `DTEND;TZID=${TIME_ZONE}:${time(window.end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    "STATUS:TENTATIVE",
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(fold).join("\r\n")}\r\n`;
+}
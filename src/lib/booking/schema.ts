@@ -0,0 +1,183 @@
+import { z } from "zod";
+import type { Dictionary } from "@/lib/i18n/dictionary";
+import { format } from "@/lib/i18n/format";
+import { contactSchema } from "@/lib/leads/contact-schema";
+import { isEligible, parseAgeRange } from "./age";
+
+// =============================================================================
+// Booking Schema
+// Trial lesson requests, shared by the booking wizard and /api/booking like
+// the contact schema. Services are passed in, so the child's eligibility is
+// checked against the age groups the visitor was shown.
+// =============================================================================
+
+// The club is closed on Sundays
+export const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export const TIME_WINDOWS = {
+  morning: { start: "09:00", end: "12:00" },
+  afternoon: { start: "12:00", end: "16:00" },
+  evening: { start: "16:00", end: "20:00" },
+} as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+export type TimeWindow = keyof typeof TIME_WINDOWS;
+
+const TIME_WINDOW_KEYS = Object.keys(TIME_WINDOWS) as TimeWindow[];
+
+export const BOOKING_LIMITS = {
+  childName: 100,
+  notes: 2000,
+} as const;
+
+/**
+ * What the wizard needs to know about a service. Age groups are referenced
+ * by their Contentful entry ID, which is the same in every locale.
+ */
+export interface BookingService {
+  slug: string;
+  title: string;
+  ageGroups: { id: string; name: string; ageRange: string }[];
+}
+
+/** Booking details stored with the lead; the age group as listed in Romanian. */
+export interface BookingDetails {
+  ageGroup?: { id: string; name: string; ageRange: string };
+  child?: { name: string; birthDate: string };
+  days: Weekday[];
+  times: TimeWindow[];
+}
+
+/** A YYYY-MM-DD date as local midnight, or null if it is not a real date. */
+export function parseDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+// The fields of the first two steps, as read by the cross-field checks
+interface Selection {
+  service: string;
+  ageGroup?: string;
+  childName?: string;
+  childBirthDate?: string;
+}
+
+/**
+ * Whether the input can be read as a Selection. The child checks run even
+ * when other fields failed, so they must not trust its shape: a null body or
+ * a number for a name would make them throw instead of failing validation.
+ */
+function readableSelection({ value }: { value: unknown }): boolean {
+  if (typeof value !== "object" || value === null) return false;
+  const fields = value as Record<keyof Selection, unknown>;
+  return (["service", "ageGroup", "childName", "childBirthDate"] as const).every(
+    (field) => fields[field] === undefined || typeof fields[field] === "string"
+  );
+}
+
+export function bookingSchema(
+  t: Dictionary["bookingApi"],
+  contact: Dictionary["contactApi"],
+  services: BookingService[]
+) {
+  const { name, email, phone } = contactSchema(contact).shape;
+
+  // Services without age groups (prenatal courses) are not about a child
+  const serviceOf = (booking: Partial<Selection>) =>
+    services.find((service) => service.slug === booking.service);
+  const needsChild = (booking: Partial<Selection>) => !!serviceOf(booking)?.ageGroups.length;
+  const ageGroupOf = (booking: Partial<Selection>) =>
+    booking.ageGroup
+      ? serviceOf(booking)?.ageGroups.find((group) => group.id === booking.ageGroup)
+      : undefined;
+
+  return z
+    .object({
+      service: z
+        .string({ error: t.serviceRequired })
+        .min(1, t.serviceRequired)
+        .refine((slug) => services.some((service) => service.slug === slug), t.serviceInvalid),
+      ageGroup: z.string().optional(),
+      childName: z
+        .string()
+        .trim()
+        .max(BOOKING_LIMITS.childName, format(t.childNameTooLong, { max: BOOKING_LIMITS.childName }))
+        .optional(),
+      childBirthDate: z.string().optional(),
+      days: z.array(z.enum(WEEKDAYS), { error: t.daysRequired }).min(1, t.daysRequired),
+      times: z.array(z.enum(TIME_WINDOW_KEYS), { error: t.timesRequired }).min(1, t.timesRequired),
+      name,
+      email,
+      // Needed to agree on the lesson time
+      phone: phone.unwrap().min(1, t.phoneRequired),
+      notes: z
+        .string()
+        .trim()
+        .max(BOOKING_LIMITS.notes, format(t.notesTooLong, { max: BOOKING_LIMITS.notes }))
+        .optional(),
+    })
+    // Child checks run even while other steps are incomplete, so the wizard
+    // can validate the child's step on its own, as long as its fields are
+    // strings
+    .refine((booking) => !needsChild(booking) || !!ageGroupOf(booking), {
+      path: ["ageGroup"],
+      message: t.ageGroupRequired,
+      when: readableSelection,
+    })
+    .refine((booking) => !needsChild(booking) || !!booking.childName?.trim(), {
+      path: ["childName"],
+      message: t.childNameRequired,
+      when: readableSelection,
+    })
+    .refine((booking) => !needsChild(booking) || !!booking.childBirthDate, {
+      path: ["childBirthDate"],
+      message: t.childBirthDateRequired,
+      when: readableSelection,
+    })
+    .refine(
+      (booking) => {
+        if (!needsChild(booking) || !booking.childBirthDate) return true;
+        const birthDate = parseDate(booking.childBirthDate);
+        return !!birthDate && birthDate <= new Date();
+      },
+      { path: ["childBirthDate"], message: t.childBirthDateInvalid, when: readableSelection }
+    )
+    .refine(
+      (booking) => {
+        const group = needsChild(booking) ? ageGroupOf(booking) : undefined;
+        const birthDate = booking.childBirthDate ? parseDate(booking.childBirthDate) : null;
+        const range = group && parseAgeRange(group.ageRange);
+        return !range || !birthDate || birthDate > new Date() || isEligible(range, birthDate);
+      },
+      {
+        path: ["childBirthDate"],
+        error: (issue) => {
+          const group = ageGroupOf(issue.input as Partial<Selection>);
+          return format(t.ineligible, { group: group?.name ?? "", range: group?.ageRange ?? "" });
+        },
+        when: readableSelection,
+      }
+    );
+}
+
+export type BookingFields = z.infer<ReturnType<typeof bookingSchema>>;
+
+/** Field errors as returned by the API: the first message per field. */
+export type BookingFieldErrors = Partial<Record<keyof BookingFields, string>>;
+
+export function bookingFieldErrors(error: z.ZodError<BookingFields>): BookingFieldErrors {
+  const errors: BookingFieldErrors = {};
+  for (const issue of error.issues) {
+    const field = issue.path[0] as keyof BookingFields;
+    errors[field] ??= issue.message;
+  }
+  return errors;
+}
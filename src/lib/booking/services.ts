@@ -0,0 +1,20 @@
+import { getServices } from "@/lib/contentful/queries";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import type { BookingService } from "./schema";
+
+/**
+ * Services that can be booked, reduced to what the booking wizard needs, in
+ * the order of the services page.
+ */
+export async function getBookingServices(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<BookingService[]> {
+  const services = await getServices(false, preview, locale);
+
+  return services.map((service) => ({
+    slug: service.slug,
+    title: service.title,
+    ageGroups: (service.ageGroups ?? []).map(({ id, name, ageRange }) => ({ id, name, ageRange })),
+  }));
+}
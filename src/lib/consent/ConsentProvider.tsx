@@ -0,0 +1,70 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import { readConsent, saveConsent, subscribeConsent } from "./browser";
+import type { Consent, ConsentChoice } from "./index";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ConsentContextType {
+  /**
+   * The visitor's choice; null before they make one, undefined until the
+   * cookie has been read in the browser
+   */
+  consent: Consent | null | undefined;
+  save: (choice: ConsentChoice) => void;
+  preferencesOpen: boolean;
+  setPreferencesOpen: (open: boolean) => void;
+}
+
+// =============================================================================
+// Context
+// =============================================================================
+
+const ConsentContext = createContext<ConsentContextType>({
+  consent: undefined,
+  save: saveConsent,
+  preferencesOpen: false,
+  setPreferencesOpen: () => {},
+});
+
+export function useConsent() {
+  return useContext(ConsentContext);
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+/**
+ * Shares the consent cookie with client components. The server never sees
+ * it, so pages stay static; components wait for `consent` to be defined.
+ */
+export function ConsentProvider({ children }: { children: ReactNode }) {
+  const consent = useSyncExternalStore(subscribeConsent, readConsent, () => undefined);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  const value = useMemo(
+    () => ({
+      consent,
+      save: (choice: ConsentChoice) => {
+        saveConsent(choice);
+        setPreferencesOpen(false);
+      },
+      preferencesOpen,
+      setPreferencesOpen,
+    }),
+    [consent, preferencesOpen]
+  );
+
+  return <ConsentContext.Provider value={value}>{children}</ConsentContext.Provider>;
+}
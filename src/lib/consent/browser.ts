@@ -0,0 +1,68 @@
+import {
+  CONSENT_COOKIE,
+  CONSENT_MAX_AGE,
+  consentModeState,
+  parseConsent,
+  serializeConsent,
+  type Consent,
+  type ConsentChoice,
+} from "./index";
+
+// =============================================================================
+// Consent in the Browser
+// Reads and writes the consent cookie, and tells the vendors that are already
+// loaded when the visitor changes their mind.
+// =============================================================================
+
+const listeners = new Set<() => void>();
+
+// Parsed once per cookie value, so repeated reads return the same object
+let cache: { value: string | undefined; consent: Consent | null } = {
+  value: undefined,
+  consent: null,
+};
+
+function cookieValue(): string | undefined {
+  return document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(`${CONSENT_COOKIE}=`))
+    ?.slice(CONSENT_COOKIE.length + 1);
+}
+
+/**
+ * The visitor's stored choice, or null if they have not made one. Also
+ * safe to call outside React, e.g. from the tracking helpers.
+ */
+export function readConsent(): Consent | null {
+  if (typeof document === "undefined") return null;
+
+  const value = cookieValue();
+  if (value !== cache.value) {
+    cache = { value, consent: parseConsent(value) };
+  }
+  return cache.consent;
+}
+
+export function saveConsent(choice: ConsentChoice): void {
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie = `${CONSENT_COOKIE}=${serializeConsent(choice)}; Path=/; Max-Age=${CONSENT_MAX_AGE}; SameSite=Lax${secure}`;
+
+  const consent = readConsent();
+
+  // Tags loaded earlier in the visit keep running, so they are told too
+  if (typeof gtag === "function") {
+    gtag("consent", "update", consentModeState(consent));
+  }
+  if (typeof window.fbq === "function") {
+    window.fbq("consent", choice.marketing ? "grant" : "revoke");
+  }
+
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeConsent(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,130 @@
+// =============================================================================
+// Cookie Consent
+// What a visitor agreed to, stored in a first-party cookie that the browser,
+// the layout's inline Consent Mode script and the API routes all read.
+// Strictly necessary cookies (theme, anti-spam, staff session) need no consent.
+// =============================================================================
+
+export const CONSENT_COOKIE = "consent";
+
+// Bump when the categories or the vendors behind them change: older choices
+// are then ignored and the banner asks again
+export const CONSENT_VERSION = 1;
+
+// Twelve months, the longest most EU regulators accept before asking again
+export const CONSENT_MAX_AGE = 365 * 24 * 60 * 60;
+
+/**
+ * - `analytics`: Google Analytics
+ * - `marketing`: Facebook Pixel and Conversions API, Google Ads, the
+ *   attribution cookie
+ */
+export type ConsentCategory = "analytics" | "marketing";
+
+export const CONSENT_CATEGORIES: ConsentCategory[] = ["analytics", "marketing"];
+
+export type ConsentChoice = Record<ConsentCategory, boolean>;
+
+export interface Consent extends ConsentChoice {
+  version: number;
+  /** When the visitor chose (epoch ms) */
+  updatedAt: number;
+}
+
+// =============================================================================
+// Cookie Value
+// =============================================================================
+
+export function serializeConsent(choice: ConsentChoice, now = Date.now()): string {
+  const consent: Consent = { version: CONSENT_VERSION, ...choice, updatedAt: now };
+  return encodeURIComponent(JSON.stringify(consent));
+}
+
+/**
+ * The consent stored in a cookie value, or null if the visitor has not
+ * chosen yet, chose under an older version, or the value is unreadable.
+ */
+export function parseConsent(value: string | undefined | null): Consent | null {
+  if (!value) return null;
+
+  try {
+    const consent = JSON.parse(decodeURIComponent(value)) as Partial<Consent>;
+    if (consent.version !== CONSENT_VERSION) return null;
+
+    return {
+      version: consent.version,
+      analytics: consent.analytics === true,
+      marketing: consent.marketing === true,
+      updatedAt: Number(consent.updatedAt) || 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** The consent sent with a request, for API routes. */
+export function requestConsent(request: Pick<Request, "headers">): Consent | null {
+  const cookie = request.headers
+    .get("cookie")
+    ?.split(/;\s*/)
+    .find((pair) => pair.startsWith(`${CONSENT_COOKIE}=`));
+  return parseConsent(cookie?.slice(CONSENT_COOKIE.length + 1));
+}
+
+/** Whether a category was granted; no choice yet means no. */
+export function hasConsent(consent: Consent | null, category: ConsentCategory): boolean {
+  return consent?.[category] === true;
+}
+
+// =============================================================================
+// Google Consent Mode v2
+// =============================================================================
+
+type ConsentModeValue = "granted" | "denied";
+
+export interface ConsentModeState {
+  analytics_storage: ConsentModeValue;
+  ad_storage: ConsentModeValue;
+  ad_user_data: ConsentModeValue;
+  ad_personalization: ConsentModeValue;
+}
+
+export function consentModeState(consent: Consent | null): ConsentModeState {
+  const value = (category: ConsentCategory): ConsentModeValue =>
+    hasConsent(consent, category) ? "granted" : "denied";
+
+  return {
+    analytics_storage: value("analytics"),
+    ad_storage: value("marketing"),
+    ad_user_data: value("marketing"),
+    ad_personalization: value("marketing"),
+  };
+}
+
+/**
+ * Inline script for the top of the page. It sets the Consent Mode defaults
+ * (everything denied) before any Google tag can load, then applies a stored
+ * choice at once so returning visitors are measured from the first hit.
+ */
+export function consentModeScript(): string {
+  const denied = consentModeState(null);
+
+  return `
+    window.dataLayer = window.dataLayer || [];
+    function gtag(){dataLayer.push(arguments);}
+    gtag('consent', 'default', ${JSON.stringify({ ...denied, wait_for_update: 500 })});
+    try {
+      var match = document.cookie.match(/(?:^|; )${CONSENT_COOKIE}=([^;]*)/);
+      var stored = match && JSON.parse(decodeURIComponent(match[1]));
+      if (stored && stored.version === ${CONSENT_VERSION}) {
+        var state = function (granted) { return granted === true ? 'granted' : 'denied'; };
+        gtag('consent', 'update', {
+          analytics_storage: state(stored.analytics),
+          ad_storage: state(stored.marketing),
+          ad_user_data: state(stored.marketing),
+          ad_personalization: state(stored.marketing)
+        });
+      }
+    } catch (e) {}
+  `;
+}
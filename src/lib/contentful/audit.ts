@@ -0,0 +1,290 @@
+import { BLOCKS, INLINES } from "@contentful/rich-text-types";
+import { resolveEntryUrl, STATIC_ROUTES } from "./urls";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** An entry with its fields in the default locale and links left unresolved. */
+export interface AuditEntry {
+  id: string;
+  contentType: string;
+  published: boolean;
+  fields: Record<string, unknown>;
+}
+
+export interface AuditAsset {
+  id: string;
+  published: boolean;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/** Everything the audit needs, loaded from a live space or an export. */
+export interface ContentSnapshot {
+  entries: AuditEntry[];
+  assets: AuditAsset[];
+}
+
+export type AuditRule =
+  | "duplicate-slug"
+  | "missing-order"
+  | "duplicate-order"
+  | "image-alt"
+  | "unpublished-link"
+  | "parent-cycle"
+  | "service-short-description"
+  | "carousel-cta-route";
+
+export interface AuditIssue {
+  severity: "error" | "warning";
+  rule: AuditRule;
+  contentType: string;
+  entryId: string;
+  label: string;
+  message: string;
+}
+
+// =============================================================================
+// Content Model
+// =============================================================================
+
+// Content types looked up by slug in queries.ts
+const SLUGGED_TYPES = ["page", "service", "gallery"];
+
+// Content types sorted by `fields.order` in queries.ts
+const ORDERED_TYPES = [
+  "carouselSlide",
+  "testimonial",
+  "teamMember",
+  "serviceTab",
+  "ageGroup",
+  "service",
+  "courseModule",
+  "timelineEvent",
+  "conference",
+  "project",
+  "certificate",
+  "pressClipping",
+  "gallery",
+  "faq",
+  "partner",
+];
+
+// Image fields whose alt text can come from a sibling field instead of the asset
+const ALT_TEXT_FIELDS: Record<string, string> = {
+  heroImage: "heroImageAlt",
+};
+
+const ENTRY_LINK_NODES = new Set<string>([
+  INLINES.ENTRY_HYPERLINK,
+  INLINES.EMBEDDED_ENTRY,
+  BLOCKS.EMBEDDED_ENTRY,
+]);
+
+const ASSET_LINK_NODES = new Set<string>([INLINES.ASSET_HYPERLINK, BLOCKS.EMBEDDED_ASSET]);
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface Link {
+  linkType: "Entry" | "Asset";
+  id: string;
+}
+
+interface RichTextNode {
+  nodeType: string;
+  data?: { target?: unknown };
+  content?: RichTextNode[];
+}
+
+function asLink(value: unknown): Link | null {
+  const sys = (value as { sys?: { type?: string; linkType?: string; id?: string } })?.sys;
+  if (sys?.type !== "Link" || !sys.id) return null;
+  if (sys.linkType !== "Entry" && sys.linkType !== "Asset") return null;
+  return { linkType: sys.linkType, id: sys.id };
+}
+
+function isRichText(value: unknown): value is RichTextNode {
+  return (value as RichTextNode)?.nodeType === BLOCKS.DOCUMENT;
+}
+
+function walkRichText(node: RichTextNode, visit: (node: RichTextNode) => void): void {
+  visit(node);
+  node.content?.forEach((child) => walkRichText(child, visit));
+}
+
+function entryLabel(entry: AuditEntry): string {
+  const { slug, title, internalName, name, question, authorName } = entry.fields;
+  const label = [slug, title, internalName, name, question, authorName].find(
+    (value) => typeof value === "string" && value.trim()
+  );
+  return typeof label === "string" ? label : entry.id;
+}
+
+function isImage(asset: AuditAsset): boolean {
+  return !asset.mimeType || asset.mimeType.startsWith("image/");
+}
+
+function normalisePath(href: string): string {
+  const path = href.split(/[?#]/)[0];
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+// =============================================================================
+// Audit
+// =============================================================================
+
+/**
+ * Audit a content snapshot against the assumptions queries.ts and the routes
+ * make about it. Errors break pages; warnings degrade them.
+ */
+export function auditContent(snapshot: ContentSnapshot): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+  const entries = snapshot.entries;
+  const published = entries.filter((entry) => entry.published);
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+  const assetsById = new Map(snapshot.assets.map((asset) => [asset.id, asset]));
+
+  function report(
+    entry: AuditEntry,
+    severity: AuditIssue["severity"],
+    rule: AuditRule,
+    message: string
+  ) {
+    issues.push({
+      severity,
+      rule,
+      contentType: entry.contentType,
+      entryId: entry.id,
+      label: entryLabel(entry),
+      message,
+    });
+  }
+
+  // Duplicate slugs: only the first match is ever served
+  for (const contentType of SLUGGED_TYPES) {
+    const bySlug = new Map<string, AuditEntry[]>();
+    for (const entry of published.filter((e) => e.contentType === contentType)) {
+      const slug = entry.fields.slug;
+      if (typeof slug !== "string" || !slug) continue;
+      bySlug.set(slug, [...(bySlug.get(slug) ?? []), entry]);
+    }
+    for (const [slug, duplicates] of bySlug) {
+      if (duplicates.length < 2) continue;
+      for (const entry of duplicates) {
+        const others = duplicates.filter((other) => other !== entry).map((other) => other.id);
+        report(entry, "error", "duplicate-slug", `slug "${slug}" is also used by ${others.join(", ")}`);
+      }
+    }
+  }
+
+  // Missing or duplicate order values: missing drops the entry, duplicates sort unpredictably
+  for (const contentType of ORDERED_TYPES) {
+    const byOrder = new Map<number, AuditEntry[]>();
+    for (const entry of published.filter((e) => e.contentType === contentType)) {
+      const order = entry.fields.order;
+      if (typeof order !== "number") {
+        report(entry, "error", "missing-order", "has no order value and is skipped by the site");
+        continue;
+      }
+      byOrder.set(order, [...(byOrder.get(order) ?? []), entry]);
+    }
+    for (const [order, duplicates] of byOrder) {
+      if (duplicates.length < 2) continue;
+      for (const entry of duplicates) {
+        report(entry, "warning", "duplicate-order", `order ${order} is shared with ${duplicates.length - 1} other ${contentType} entries`);
+      }
+    }
+  }
+
+  for (const entry of published) {
+    for (const [field, value] of Object.entries(entry.fields)) {
+      // Images without alt text in image fields
+      const links = (Array.isArray(value) ? value : [value]).map(asLink);
+      for (const link of links) {
+        if (link?.linkType !== "Asset") continue;
+        const asset = assetsById.get(link.id);
+        const altField = ALT_TEXT_FIELDS[field];
+        if (!asset || !isImage(asset) || asset.description?.trim()) continue;
+        if (altField && typeof entry.fields[altField] === "string" && entry.fields[altField]) continue;
+        report(entry, "warning", "image-alt", `image "${asset.title || asset.id}" in ${field} has no description (alt text)`);
+      }
+
+      if (!isRichText(value)) continue;
+
+      walkRichText(value, (node) => {
+        const link = asLink(node.data?.target);
+        if (!link) return;
+
+        // Links and embeds whose target the Delivery API will not return
+        if (ENTRY_LINK_NODES.has(node.nodeType)) {
+          const target = entriesById.get(link.id);
+          if (!target?.published) {
+            report(entry, "error", "unpublished-link", `${field} links to ${target ? "unpublished" : "missing"} entry ${link.id}${target ? ` (${target.contentType} "${entryLabel(target)}")` : ""}`);
+          }
+        }
+
+        if (ASSET_LINK_NODES.has(node.nodeType)) {
+          const asset = assetsById.get(link.id);
+          if (!asset?.published) {
+            report(entry, "error", "unpublished-link", `${field} links to ${asset ? "unpublished" : "missing"} asset ${link.id}`);
+          } else if (node.nodeType === BLOCKS.EMBEDDED_ASSET && isImage(asset) && !asset.description?.trim()) {
+            report(entry, "warning", "image-alt", `embedded image "${asset.title || asset.id}" in ${field} has no description (alt text)`);
+          }
+        }
+      });
+    }
+  }
+
+  // parentPage cycles: every page in the loop resolves to a broken URL
+  for (const page of published.filter((entry) => entry.contentType === "page")) {
+    const seen = new Set<string>([page.id]);
+    let current: AuditEntry | undefined = page;
+    while (current) {
+      const parentLink = asLink(current.fields.parentPage);
+      if (!parentLink) break;
+      if (seen.has(parentLink.id)) {
+        if (parentLink.id === page.id) {
+          report(page, "error", "parent-cycle", `parentPage chain loops back to itself via ${[...seen].join(" → ")}`);
+        }
+        break;
+      }
+      seen.add(parentLink.id);
+      current = entriesById.get(parentLink.id);
+    }
+  }
+
+  // Services without a short description fail validation and disappear
+  for (const service of published.filter((entry) => entry.contentType === "service")) {
+    const shortDescription = service.fields.shortDescription;
+    if (typeof shortDescription !== "string" || !shortDescription.trim()) {
+      report(service, "error", "service-short-description", "has no shortDescription");
+    }
+  }
+
+  // Carousel CTAs must point at a route that exists
+  const routes = new Set<string>(STATIC_ROUTES);
+  for (const entry of published) {
+    const parentLink = asLink(entry.fields.parentPage);
+    const parent = parentLink ? entriesById.get(parentLink.id) : undefined;
+    const url = resolveEntryUrl({
+      contentType: entry.contentType,
+      slug: typeof entry.fields.slug === "string" ? entry.fields.slug : undefined,
+      parentSlug: typeof parent?.fields.slug === "string" ? parent.fields.slug : undefined,
+    });
+    if (url) routes.add(url);
+  }
+
+  for (const slide of published.filter((entry) => entry.contentType === "carouselSlide")) {
+    const ctaLink = slide.fields.ctaLink;
+    if (typeof ctaLink !== "string" || !ctaLink.startsWith("/")) continue;
+    if (!routes.has(normalisePath(ctaLink))) {
+      report(slide, "error", "carousel-cta-route", `ctaLink "${ctaLink}" does not match any route`);
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,134 @@
+import { cache } from "react";
+import { unstable_cache } from "next/cache";
+import { loadSnapshot, recordFailure, recordSuccess, saveSnapshot } from "./snapshot";
+
+// =============================================================================
+// Cache Tags
+// =============================================================================
+
+/** Attached to every cached query — revalidating it refreshes all content. */
+export const CONTENT_TAG = "contentful";
+
+/** Fallback revalidation window when no webhook reaches us (seconds). */
+export const CONTENT_REVALIDATE_SECONDS = 60 * 60;
+
+/** Tag for every query that returns (or embeds) entries of a content type. */
+export function typeTag(contentType: string): string {
+  return `contentful:type:${contentType}`;
+}
+
+/**
+ * Tag for a single entry, keyed by its slug. Detail queries look entries up by
+ * slug, so this also covers "not found" results cached before the entry existed.
+ */
+export function entryTag(contentType: string, slug: string): string {
+  return `contentful:entry:${contentType}:${slug}`;
+}
+
+/**
+ * Tag shared by all single-entry queries of a content type, used when a webhook
+ * cannot identify the entry (e.g. unpublish payloads carry no fields).
+ */
+export function entriesTag(contentType: string): string {
+  return `contentful:entries:${contentType}`;
+}
+
+/** Tags for a single-entry query looked up by slug. */
+export function slugTags(contentType: string, slug: string): string[] {
+  return [entryTag(contentType, slug), entriesTag(contentType)];
+}
+
+// Content types the query layer caches; anything else invalidates everything
+const KNOWN_CONTENT_TYPES = new Set([
+  "siteSettings",
+  "navigation",
+  "carouselSlide",
+  "testimonial",
+  "teamMember",
+  "widget",
+  "page",
+  "serviceTab",
+  "ageGroup",
+  "service",
+  "courseModule",
+  "timelineEvent",
+  "conference",
+  "project",
+  "certificate",
+  "pressClipping",
+  "gallery",
+  "faq",
+  "partner",
+  "homepageContent",
+]);
+
+/**
+ * Resolve the tags to invalidate for a Contentful webhook payload.
+ * Assets can be embedded anywhere, so asset changes invalidate all content.
+ */
+export function tagsForWebhook(payload: {
+  type?: string;
+  contentType?: string;
+  slug?: string;
+}): string[] {
+  const { type, contentType, slug } = payload;
+
+  if (type === "Asset" || type === "DeletedAsset") return [CONTENT_TAG];
+  if (!contentType || !KNOWN_CONTENT_TYPES.has(contentType)) return [CONTENT_TAG];
+
+  return [
+    typeTag(contentType),
+    slug ? entryTag(contentType, slug) : entriesTag(contentType),
+  ];
+}
+
+// =============================================================================
+// Cached Query Wrapper
+// =============================================================================
+
+// Defers inference so the query alone determines the argument list; a tags
+// callback that ignores trailing arguments must not narrow it (NoInfer<T>
+// rejects such callbacks)
+type Deferred<T> = T extends unknown ? T : never;
+
+/**
+ * Wrap a query with per-request deduplication (React `cache`) and the
+ * persistent Next.js data cache, tagged for on-demand invalidation.
+ * Draft mode bypasses the data cache, so preview requests always hit the API.
+ *
+ * Queries throw on Contentful errors so a failure is never cached. The wrapper
+ * then serves the last-known-good snapshot (or `fallback` if there is none)
+ * and flags the query as degraded until it succeeds again.
+ */
+export function cachedQuery<Args extends unknown[], Result>(
+  name: string,
+  query: (...args: Args) => Promise<Result>,
+  tags: (...args: Deferred<Args>) => string[],
+  fallback: Deferred<Result>
+): (...args: Args) => Promise<Result> {
+  return cache(async (...args: Args): Promise<Result> => {
+    const fetchAndSnapshot = async () => {
+      const result = await query(...args);
+      await saveSnapshot(name, args, result);
+      return result;
+    };
+
+    try {
+      const result = await unstable_cache(fetchAndSnapshot, [name, JSON.stringify(args)], {
+        tags: [CONTENT_TAG, ...tags(...args)],
+        revalidate: CONTENT_REVALIDATE_SECONDS,
+      })();
+      recordSuccess(name, args);
+      return result;
+    } catch (error) {
+      const snapshot = await loadSnapshot<Result>(name, args);
+      recordFailure(name, args, error, snapshot);
+      console.warn(
+        snapshot
+          ? `[Contentful] ${name} failed, serving snapshot from ${snapshot.savedAt}`
+          : `[Contentful] ${name} failed and has no snapshot, serving an empty result`
+      );
+      return snapshot ? snapshot.value : fallback;
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import { createClient, type ContentfulClientApi } from "contentful";
 import type { ContentfulImage, ContentfulMedia } from "@/types/contentful";
 import type { Asset } from "contentful";
+import { fixtureSource } from "./fixtures";
 
 // =============================================================================
 // Client Configuration
@@ -11,8 +12,12 @@ const accessToken = process.env.CONTENTFUL_ACCESS_TOKEN;
 const previewToken = process.env.CONTENTFUL_PREVIEW_TOKEN;
 const environment = process.env.CONTENTFUL_ENVIRONMENT || "master";
 
+// "fixtures" forces the offline fixture data, "contentful" disables the fallback
+const contentSourceSetting = process.env.CONTENT_SOURCE;
+
 // Validate required environment variables
 function validateConfig() {
+  if (contentSourceSetting === "fixtures") return;
   if (!spaceId) {
     console.warn("CONTENTFUL_SPACE_ID is not set");
   }
@@ -48,6 +53,24 @@ export const previewClient: ContentfulClientApi<undefined> | null =
       })
     : null;
 
+/**
+ * The subset of the Contentful client the query layer depends on.
+ * Implemented by the Contentful SDK and by the offline fixture source.
+ */
+export type ContentSource = Pick<ContentfulClientApi<undefined>, "getEntries">;
+
+// Fixtures are served when explicitly requested, or when credentials are missing
+// outside production (so a misconfigured deploy never shows sample content)
+const useFixtures =
+  contentSourceSetting === "fixtures" ||
+  (contentSourceSetting !== "contentful" &&
+    !contentfulClient &&
+    process.env.NODE_ENV !== "production");
+
+if (useFixtures) {
+  console.info("[Contentful] Serving offline fixture content");
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -55,7 +78,10 @@ export const previewClient: ContentfulClientApi<undefined> | null =
 /**
  * Get the appropriate client based on preview mode
  */
-export function getClient(preview = false): ContentfulClientApi<undefined> | null {
+export function getClient(preview = false): ContentSource | null {
+  if (useFixtures) {
+    return fixtureSource;
+  }
   if (preview && previewClient) {
     return previewClient;
   }
@@ -125,3 +151,10 @@ export function parseMedia(asset: Asset | undefined): ContentfulMedia | undefine
 export function isContentfulConfigured(): boolean {
   return !!contentfulClient;
 }
+
+/**
+ * Check if queries are being served from the offline fixtures
+ */
+export function isUsingFixtures(): boolean {
+  return useFixtures;
+}
@@ -0,0 +1,167 @@
+import Link from "next/link";
+import type { ReactNode } from "react";
+import { ImageGallery } from "@/components/content/ImageGallery";
+import { TestimonialCard } from "@/components/sections/TestimonialsSection";
+import { CTASection } from "@/components/sections/CTASection";
+import { WidgetCard } from "@/components/layout/Sidebar";
+import {
+  Accordion,
+  AccordionItem,
+  AccordionTrigger,
+  AccordionContent,
+} from "@/components/ui/Accordion";
+import type { Locale } from "@/lib/i18n/config";
+import { Markdown } from "./markdown";
+import { galleryUrl } from "./urls";
+import {
+  parseEntry,
+  faqSchema,
+  gallerySchema,
+  testimonialSchema,
+  widgetSchema,
+  type EntrySchema,
+} from "./schemas";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface EmbeddedEntryTarget {
+  sys?: { id?: string; type?: string; contentType?: { sys?: { id?: string } } };
+  fields?: Record<string, unknown>;
+}
+
+interface EmbeddedEntryComponents<T> {
+  /** Rendered for BLOCKS.EMBEDDED_ENTRY nodes. */
+  block: (entry: T, id: string, locale: Locale) => ReactNode;
+  /** Rendered for INLINES.EMBEDDED_ENTRY nodes; falls back to the entry title. */
+  inline?: (entry: T, locale: Locale) => ReactNode;
+}
+
+type EmbeddedEntryRenderer = (
+  target: EmbeddedEntryTarget,
+  inline: boolean,
+  locale: Locale
+) => ReactNode;
+
+/**
+ * Validate an embedded entry with its schema before handing it to a component,
+ * so a broken or unpublished embed renders nothing instead of crashing the page.
+ */
+function embed<T>(
+  schema: EntrySchema<T>,
+  components: EmbeddedEntryComponents<T>
+): EmbeddedEntryRenderer {
+  return (target, inline, locale) => {
+    const entry = parseEntry(schema, target);
+    if (!entry) return null;
+    if (!inline) return components.block(entry, target.sys?.id ?? schema.contentType, locale);
+    return components.inline ? components.inline(entry, locale) : fallbackInline(target);
+  };
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const embeddedEntryRegistry: Record<string, EmbeddedEntryRenderer> = {
+  gallery: embed(gallerySchema, {
+    block: (gallery, _id, locale) => (
+      <figure className="not-prose my-8">
+        <ImageGallery images={gallery.images} />
+        <figcaption className="mt-3 text-center text-sm text-sand-500">
+          <Link
+            href={galleryUrl(gallery.slug, locale)}
+            className="text-lagoon-600 underline underline-offset-2 transition-colors hover:text-lagoon-700"
+          >
+            {gallery.title}
+          </Link>
+        </figcaption>
+      </figure>
+    ),
+    inline: (gallery, locale) => (
+      <Link
+        href={galleryUrl(gallery.slug, locale)}
+        className="text-lagoon-600 underline underline-offset-2 transition-colors hover:text-lagoon-700"
+      >
+        {gallery.title}
+      </Link>
+    ),
+  }),
+
+  testimonial: embed(testimonialSchema, {
+    block: (testimonial) => (
+      <div className="not-prose my-8">
+        <TestimonialCard testimonial={testimonial} />
+      </div>
+    ),
+  }),
+
+  faq: embed(faqSchema, {
+    block: (faq, id) => (
+      <Accordion className="not-prose my-6">
+        <AccordionItem id={`faq-${id}`}>
+          <AccordionTrigger>{faq.question}</AccordionTrigger>
+          <AccordionContent>
+            <Markdown content={faq.answer} />
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    ),
+  }),
+
+  widget: embed(widgetSchema, {
+    block: (widget, _id, locale) =>
+      widget.widgetType === "cta" ? (
+        <div className="not-prose my-8 overflow-hidden rounded-3xl">
+          <CTASection
+            locale={locale}
+            title={widget.title}
+            description={widget.content}
+            primaryButton={
+              widget.ctaText && widget.ctaLink
+                ? { label: widget.ctaText, href: widget.ctaLink }
+                : undefined
+            }
+          />
+        </div>
+      ) : (
+        <div className="not-prose my-8">
+          <WidgetCard widget={widget} locale={locale} />
+        </div>
+      ),
+  }),
+};
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+// Unknown inline embeds degrade to their title so the sentence still reads
+function fallbackInline(target: EmbeddedEntryTarget): ReactNode {
+  const title = target.fields?.title;
+  return typeof title === "string" ? <span>{title}</span> : null;
+}
+
+/**
+ * Render an entry embedded in rich text with the component registered for its
+ * content type. Unknown types render their title inline and nothing as a block.
+ */
+export function renderEmbeddedEntry(
+  target: unknown,
+  inline: boolean,
+  locale: Locale
+): ReactNode {
+  const entry = (target ?? {}) as EmbeddedEntryTarget;
+  const contentType = entry.sys?.contentType?.sys?.id;
+  const render = contentType ? embeddedEntryRegistry[contentType] : undefined;
+
+  if (!render) {
+    console.warn(
+      `[Contentful] No component registered for embedded ${contentType ?? "unresolved"} entry ${entry.sys?.id ?? "(unknown id)"}`
+    );
+    return inline ? fallbackInline(entry) : null;
+  }
+
+  return render(entry, inline, locale);
+}
@@ -0,0 +1,140 @@
+import {
+  BLOCKS,
+  type Document,
+  type Heading2,
+  type Heading3,
+  type ListItem,
+  type Paragraph,
+  type Quote,
+  type Text,
+  type TopLevelBlock,
+  type UnorderedList,
+} from "@contentful/rich-text-types";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Contentful-shaped entry with its links already resolved (as with `include`). */
+export interface FixtureEntry {
+  sys: {
+    id: string;
+    type: "Entry";
+    contentType: { sys: { type: "Link"; linkType: "ContentType"; id: string } };
+    createdAt: string;
+    updatedAt: string;
+  };
+  fields: Record<string, unknown>;
+  metadata: { tags: [] };
+}
+
+export interface FixtureAsset {
+  sys: { id: string; type: "Asset" };
+  fields: {
+    title: string;
+    description?: string;
+    file: {
+      url: string;
+      contentType: string;
+      details: { image: { width: number; height: number } };
+    };
+  };
+}
+
+// =============================================================================
+// Entries and Assets
+// =============================================================================
+
+const FIXTURE_DATE = "2024-09-01T08:00:00.000Z";
+
+export function entry(
+  contentType: string,
+  id: string,
+  fields: Record<string, unknown>
+): FixtureEntry {
+  return {
+    sys: {
+      id,
+      type: "Entry",
+      contentType: { sys: { type: "Link", linkType: "ContentType", id: contentType } },
+      createdAt: FIXTURE_DATE,
+      updatedAt: FIXTURE_DATE,
+    },
+    fields,
+    metadata: { tags: [] },
+  };
+}
+
+/**
+ * An asset served from /public so fixtures render without network access.
+ */
+export function asset(
+  path: string,
+  width: number,
+  height: number,
+  title: string,
+  description?: string
+): FixtureAsset {
+  const extension = path.split(".").pop()?.toLowerCase();
+  return {
+    sys: { id: `asset-${path.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "")}`, type: "Asset" },
+    fields: {
+      title,
+      description,
+      file: {
+        url: path,
+        contentType: extension === "png" ? "image/png" : "image/jpeg",
+        details: { image: { width, height } },
+      },
+    },
+  };
+}
+
+// =============================================================================
+// Rich Text
+// =============================================================================
+
+function text(value: string): Text {
+  return { nodeType: "text", value, marks: [], data: {} };
+}
+
+export function paragraph(value: string): Paragraph {
+  return { nodeType: BLOCKS.PARAGRAPH, data: {}, content: [text(value)] };
+}
+
+export function heading(value: string, level: 2 | 3 = 2): Heading2 | Heading3 {
+  return level === 2
+    ? { nodeType: BLOCKS.HEADING_2, data: {}, content: [text(value)] }
+    : { nodeType: BLOCKS.HEADING_3, data: {}, content: [text(value)] };
+}
+
+export function list(items: string[]): UnorderedList {
+  return {
+    nodeType: BLOCKS.UL_LIST,
+    data: {},
+    content: items.map(
+      (item): ListItem => ({
+        nodeType: BLOCKS.LIST_ITEM,
+        data: {},
+        content: [paragraph(item)],
+      })
+    ),
+  };
+}
+
+export function quote(value: string): Quote {
+  return { nodeType: BLOCKS.QUOTE, data: {}, content: [paragraph(value)] };
+}
+
+/** A block-level embed; the target is the resolved entry, as with `include`. */
+export function embeddedEntry(target: FixtureEntry): TopLevelBlock {
+  return {
+    nodeType: BLOCKS.EMBEDDED_ENTRY,
+    data: { target },
+    content: [],
+  };
+}
+
+export function doc(...content: TopLevelBlock[]): Document {
+  return { nodeType: BLOCKS.DOCUMENT, data: {}, content };
+}
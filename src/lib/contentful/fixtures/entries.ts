@@ -0,0 +1,751 @@
+import {
+  asset,
+  doc,
+  embeddedEntry,
+  entry,
+  heading,
+  list,
+  paragraph,
+  quote,
+  type FixtureEntry,
+} from "./builders";
+
+// =============================================================================
+// Assets
+// =============================================================================
+
+const logo = asset("/images/logos/logo-micii-campioni.png", 203, 136, "Micii Campioni");
+const founderPhoto = asset(
+  "/images/team/georgeta-sultana.jpg",
+  500,
+  307,
+  "Georgeta Sultana",
+  "Georgeta Sultana, fondatoarea Clubului Micii Campioni"
+);
+
+const slides = [1, 2, 3, 4].map((n) =>
+  asset(`/images/carousel/slice${n}.jpg`, 1600, 700, `Micii Campioni ${n}`, "Copii la cursurile de înot")
+);
+
+const babyPhotos = ["dsc_0172", "dsc_0179", "dsc_0183", "dsc_0193", "dsc_0222", "dsc_0226"].map(
+  (name) =>
+    asset(
+      `/images/gallery/bebelusi-inotatori/${name}.jpg`,
+      791,
+      525,
+      "Bebeluși înotători",
+      "Bebeluș în apă alături de instructor"
+    )
+);
+
+const anniversaryPhotos = [
+  ["dsc_0048", 349],
+  ["dsc_0068", 791],
+  ["dsc_0071", 791],
+  ["dsc_0088", 349],
+].map(([name, width]) =>
+  asset(
+    `/images/gallery/10-ani/${name}.jpg`,
+    width as number,
+    525,
+    "10 ani Micii Campioni",
+    "Aniversarea a 10 ani de la înființarea clubului"
+  )
+);
+
+const celebrationPhotos = [
+  ["dsc_0006", 791],
+  ["dsc_0013", 349],
+  ["dsc_0019", 349],
+].map(([name, width]) =>
+  asset(
+    `/images/gallery/sarbatoarea-invingatorilor-2012/${name}.jpg`,
+    width as number,
+    525,
+    "Sărbătoarea Învingătorilor 2012",
+    "Copiii premiați la Sărbătoarea Învingătorilor"
+  )
+);
+
+const certificateImages = [
+  ["img004", 759],
+  ["img005", 759],
+  ["img006", 363],
+  ["img007", 748],
+].map(([name, width]) =>
+  asset(`/images/certificates/${name}.jpg`, width as number, 525, "Certificat", "Diplomă acordată clubului")
+);
+
+const partnerLogos = [1, 2, 3].map((n) =>
+  asset(`/images/icons/home-ico-${n}.png`, 77, 76, `Partener ${n}`, "Sigla partenerului")
+);
+
+// =============================================================================
+// Site Settings & Navigation
+// =============================================================================
+
+const siteSettings = entry("siteSettings", "fixture-site-settings", {
+  internalName: "Setări site",
+  siteName: "Micii Campioni",
+  tagLine: "Primul Club de Educație Acvatică din România",
+  logo,
+  anniversaryText: "Din 2001 alături de micii campioni ai apei",
+  showAnniversaryBanner: true,
+  phoneNumber: "0722 123 456",
+  emailAddress: "info@miciicampioni.ro",
+  address: "Str. Bazinului nr. 12, Sector 2, București",
+  location: { lat: 44.4521, lon: 26.1311 },
+  facebookUrl: "https://www.facebook.com/miciicampioni",
+  twitterUrl: "https://twitter.com/MiciiCampioni1",
+  scheduleWeekdays: "Luni - Vineri: 08:00 - 20:00",
+  scheduleSaturday: "Sâmbătă: 09:00 - 14:00",
+  scheduleSunday: "Duminică: închis",
+  footerCopyright: "Clubul Micii Campioni. Toate drepturile rezervate.",
+  defaultMetaDescription:
+    "Educație acvatică pentru bebeluși și copii, Metoda Sultana și cursuri prenatale Lamaze din 2001.",
+});
+
+const headerItems = [
+  {
+    label: "Despre Noi",
+    href: "/despre-noi",
+    children: [
+      { label: "Istoric", href: "/despre-noi/istoric" },
+      { label: "Echipa", href: "/despre-noi/echipa-micii-campioni" },
+      { label: "Press Info", href: "/despre-noi/press-info" },
+      { label: "Distincții și Certificări", href: "/despre-noi/distinctii-si-certificari" },
+    ],
+  },
+  {
+    label: "Cursuri",
+    href: "/servicii",
+    children: [
+      { label: "Înot Bebeluși", href: "/servicii/inot-bebelusi" },
+      { label: "Înot Copii", href: "/servicii/inot-copii" },
+      { label: "Cursuri Prenatale", href: "/servicii/cursuri-prenatale" },
+      { label: "Kinetoterapie", href: "/servicii/kinetoterapie" },
+    ],
+  },
+  { label: "Concept", href: "/concept" },
+  { label: "Asociația", href: "/asociatia" },
+  { label: "Galerie", href: "/galerie" },
+  { label: "Contact", href: "/contact" },
+];
+
+const headerNavigation = entry("navigation", "fixture-navigation-header", {
+  internalName: "Meniu principal",
+  location: "header",
+  items: headerItems,
+});
+
+const footerNavigation = entry("navigation", "fixture-navigation-footer", {
+  internalName: "Meniu subsol",
+  location: "footer",
+  items: headerItems.map(({ label, href }) => ({ label, href })),
+});
+
+// =============================================================================
+// Homepage
+// =============================================================================
+
+const carouselSlides = [
+  {
+    badge: "Din 2001",
+    title: "Primul club de educație acvatică din România",
+    subtitle: "Învățăm copiii să iubească apa încă din primele luni de viață.",
+    ctaText: "Descoperă cursurile",
+    ctaLink: "/servicii",
+  },
+  {
+    badge: "0 - 3 ani",
+    title: "Înot pentru bebeluși după Metoda Sultana",
+    subtitle: "Sesiuni blânde, alături de părinți, într-un bazin încălzit la 34°C.",
+    ctaText: "Află mai multe",
+    ctaLink: "/servicii/inot-bebelusi",
+  },
+  {
+    badge: "3 - 12 ani",
+    title: "Cursuri de înot pentru copii",
+    subtitle: "Grupe mici, instructori specializați, progres vizibil de la o lună la alta.",
+    ctaText: "Vezi programul",
+    ctaLink: "/servicii/inot-copii",
+  },
+  {
+    title: "Pregătire pentru naștere prin metoda Lamaze",
+    subtitle: "Cursuri prenatale pentru viitoarele mămici și tătici.",
+    ctaText: "Înscrie-te",
+    ctaLink: "/contact",
+  },
+].map((slide, index) =>
+  entry("carouselSlide", `fixture-slide-${index + 1}`, {
+    internalName: slide.title,
+    ...slide,
+    backgroundImage: slides[index],
+    order: index + 1,
+    active: true,
+  })
+);
+
+const homepageContent = entry("homepageContent", "fixture-homepage", {
+  internalName: "Pagina principală",
+  aboutMedia: anniversaryPhotos[1],
+  aboutTitle: "Educație acvatică pentru cei mai mici campioni",
+  aboutSubtitle: "Despre noi",
+  aboutDescription:
+    "De peste două decenii, Clubul Micii Campioni îi însoțește pe părinți și copii în descoperirea apei. Metoda Sultana, brevetată în România, combină jocul, stimularea senzorială și siguranța pentru o dezvoltare armonioasă.",
+  aboutFeatures: [
+    "Bazin încălzit și apă tratată fără clor agresiv",
+    "Instructori certificați în educație acvatică",
+    "Grupe mici, adaptate vârstei",
+    "Program flexibil, inclusiv în weekend",
+  ],
+});
+
+const testimonials = [
+  {
+    authorName: "Andreea Popescu",
+    authorTitle: "Mama lui Matei, 14 luni",
+    quote:
+      "Matei așteaptă cu nerăbdare fiecare ședință. În câteva luni a câștigat o încredere în apă pe care nu ne-am fi imaginat-o.",
+  },
+  {
+    authorName: "Radu Ionescu",
+    authorTitle: "Tatăl Irinei, 6 ani",
+    quote:
+      "Instructorii sunt răbdători și atenți. Irina înoată acum singură și abia așteaptă vara să meargă la mare.",
+  },
+  {
+    authorName: "Ioana Marinescu",
+    authorTitle: "Cursuri prenatale Lamaze",
+    quote:
+      "Cursul Lamaze ne-a pregătit pe amândoi pentru naștere. Am plecat liniștiți și informați.",
+  },
+].map((testimonial, index) =>
+  entry("testimonial", `fixture-testimonial-${index + 1}`, {
+    ...testimonial,
+    featured: index < 2,
+    order: index + 1,
+  })
+);
+
+// =============================================================================
+// Widgets
+// =============================================================================
+
+const scheduleWidget = entry("widget", "fixture-widget-schedule", {
+  internalName: "Program",
+  title: "Program",
+  widgetType: "info",
+  content: "**Luni - Vineri:** 08:00 - 20:00\n\n**Sâmbătă:** 09:00 - 14:00",
+});
+
+const trialWidget = entry("widget", "fixture-widget-trial", {
+  internalName: "Lecție de probă",
+  title: "Lecție de probă",
+  widgetType: "cta",
+  content: "Prima întâlnire este o ședință de acomodare, fără obligații.",
+  ctaText: "Programează",
+  ctaLink: "/contact",
+});
+
+const contactWidget = entry("widget", "fixture-widget-contact", {
+  internalName: "Contact rapid",
+  title: "Ai întrebări?",
+  widgetType: "contact",
+  content: "Sună-ne la **0722 123 456** sau scrie-ne la info@miciicampioni.ro.",
+});
+
+// =============================================================================
+// Services
+// =============================================================================
+
+const babyAgeGroups = [
+  {
+    name: "Bebeluși",
+    ageRange: "0 - 6 luni",
+    duration: "30 minute",
+    description: "Acomodare blândă cu apa, în brațele părintelui. Reflexul de apnee este valorificat prin joc.",
+    objectives: "- Acomodare cu apa\n- Plutire asistată\n- Legătura părinte-copil",
+    color: "#0d9488",
+  },
+  {
+    name: "Exploratori",
+    ageRange: "6 - 12 luni",
+    duration: "30 minute",
+    description: "Copilul descoperă mișcarea liberă în apă și primele scufundări ghidate.",
+    objectives: "- Scufundări scurte\n- Coordonare\n- Autonomie în apă",
+    color: "#0891b2",
+  },
+  {
+    name: "Mici înotători",
+    ageRange: "1 - 3 ani",
+    duration: "45 minute",
+    description: "Jocuri acvatice care pregătesc trecerea spre înotul independent.",
+    objectives: "- Plutire independentă\n- Intrare sigură în apă\n- Respirație controlată",
+    color: "#2563eb",
+  },
+].map((group, index) =>
+  entry("ageGroup", `fixture-age-group-baby-${index + 1}`, { ...group, order: index + 1 })
+);
+
+const kidsAgeGroups = [
+  {
+    name: "Preșcolari",
+    ageRange: "3 - 6 ani",
+    duration: "45 minute",
+    description: "Învățarea elementelor de bază ale înotului prin joc și exerciții ghidate.",
+  },
+  {
+    name: "Școlari",
+    ageRange: "6 - 12 ani",
+    duration: "60 minute",
+    description: "Tehnica stilurilor craul și spate, rezistență și siguranță în apă adâncă.",
+  },
+].map((group, index) =>
+  entry("ageGroup", `fixture-age-group-kids-${index + 1}`, { ...group, order: index + 1 })
+);
+
+const babyTabs = [
+  {
+    title: "Metoda Sultana",
+    content:
+      "Metoda Sultana este un program de educație acvatică dezvoltat și brevetat de Georgeta Sultana. Se bazează pe **stimularea reflexelor native** ale bebelușului și pe implicarea activă a părintelui.",
+  },
+  {
+    title: "Beneficii",
+    content:
+      "- Dezvoltare psihomotorie armonioasă\n- Somn mai liniștit și apetit crescut\n- Întărirea sistemului imunitar\n- Încredere și sociabilitate",
+  },
+  {
+    title: "Ce aduceți",
+    content: "- Scutece speciale pentru apă\n- Prosop și halat\n- O gustare ușoară pentru după ședință",
+  },
+].map((tab, index) =>
+  entry("serviceTab", `fixture-tab-baby-${index + 1}`, { ...tab, order: index + 1 })
+);
+
+const kidsTabs = [
+  {
+    title: "Program",
+    content: "Ședințele au loc de două ori pe săptămână. Grupele sunt formate din maximum 6 copii.",
+  },
+  {
+    title: "Echipament",
+    content: "- Costum de baie\n- Cască de înot\n- Ochelari de înot\n- Papuci și prosop",
+  },
+].map((tab, index) =>
+  entry("serviceTab", `fixture-tab-kids-${index + 1}`, { ...tab, order: index + 1 })
+);
+
+const serviceDefinitions = [
+  {
+    id: "fixture-service-inot-bebelusi",
+    title: "Înot pentru Bebeluși",
+    slug: "inot-bebelusi",
+    shortDescription: "Educație acvatică pentru bebeluși de la 0 la 3 ani, după Metoda Sultana.",
+    heroImage: babyPhotos[0],
+    content: doc(
+      heading("Primii pași în apă"),
+      paragraph(
+        "Bebelușii se nasc cu o afinitate naturală pentru apă. Cursurile noastre păstrează și dezvoltă această legătură într-un mediu sigur, cald și prietenos."
+      ),
+      list([
+        "Bazin încălzit la 34°C",
+        "Ședințe individuale sau în grupe de maximum 4 bebeluși",
+        "Participarea activă a părinților",
+      ])
+    ),
+    nextSteps: [
+      "Vă sunăm în cel mult o zi lucrătoare pentru a stabili o ședință de probă.",
+      "Aduceți scutece de apă, un prosop și o jucărie preferată a bebelușului.",
+      "Prima ședință durează 30 de minute și se desfășoară alături de un instructor.",
+    ].join("\n"),
+    tabs: babyTabs,
+    ageGroups: babyAgeGroups,
+    sidebarWidgets: [trialWidget, scheduleWidget],
+    featured: true,
+  },
+  {
+    id: "fixture-service-inot-copii",
+    title: "Înot pentru Copii",
+    slug: "inot-copii",
+    shortDescription: "Cursuri de înot pentru copii între 3 și 12 ani, în grupe mici.",
+    heroImage: celebrationPhotos[0],
+    content: doc(
+      heading("Înot cu încredere"),
+      paragraph(
+        "Copiii învață tehnica corectă a înotului pas cu pas, prin exerciții adaptate vârstei și ritmului fiecăruia."
+      )
+    ),
+    tabs: kidsTabs,
+    ageGroups: kidsAgeGroups,
+    sidebarWidgets: [trialWidget],
+    featured: true,
+  },
+  {
+    id: "fixture-service-cursuri-prenatale",
+    title: "Cursuri Prenatale Lamaze",
+    slug: "cursuri-prenatale",
+    shortDescription: "Pregătire pentru naștere și primele luni cu bebelușul, pentru ambii părinți.",
+    heroImage: slides[3],
+    content: doc(
+      paragraph(
+        "Cursul Lamaze îi pregătește pe viitorii părinți pentru naștere prin tehnici de respirație, relaxare și informații practice despre îngrijirea nou-născutului."
+      ),
+      quote("Nașterea este un proces natural, iar încrederea se construiește prin informare.")
+    ),
+    featured: true,
+  },
+  {
+    id: "fixture-service-kinetoterapie",
+    title: "Kinetoterapie Pediatrică",
+    slug: "kinetoterapie",
+    shortDescription: "Terapie prin mișcare în apă pentru copiii cu nevoi speciale de dezvoltare.",
+    heroImage: babyPhotos[3],
+    content: doc(
+      paragraph(
+        "Hidrokinetoterapia folosește proprietățile apei pentru recuperarea și stimularea motorie a copiilor, sub îndrumarea unui kinetoterapeut specializat."
+      )
+    ),
+    featured: false,
+  },
+  {
+    id: "fixture-service-intrebari-frecvente",
+    title: "Întrebări Frecvente",
+    slug: "intrebari-frecvente",
+    shortDescription: "Răspunsuri la cele mai frecvente întrebări ale părinților.",
+    content: doc(
+      paragraph("Am adunat aici întrebările pe care ni le adresează cel mai des părinții.")
+    ),
+    featured: false,
+  },
+];
+
+const services = serviceDefinitions.map(({ id, ...fields }, index) =>
+  entry("service", id, { ...fields, order: index + 1 })
+);
+
+// Related services reference other service entries, as in Contentful
+services[0].fields.relatedServices = [services[1], services[2]];
+services[1].fields.relatedServices = [services[0]];
+
+// =============================================================================
+// Team, History & Distinctions
+// =============================================================================
+
+const founder = entry("teamMember", "fixture-team-georgeta-sultana", {
+  name: "Georgeta Sultana",
+  role: "Fondatoare, instructor educație acvatică",
+  shortBio: "Creatoarea Metodei Sultana și fondatoarea primului club de educație acvatică din România.",
+  bio: "Georgeta Sultana lucrează cu bebeluși și copii în apă de peste 40 de ani. A fondat Clubul Micii Campioni în 2001 și a brevetat **Metoda Sultana** de educație acvatică.",
+  photo: founderPhoto,
+  certifications: ["Brevet de invenție - Metoda Sultana", "Instructor Lamaze certificat"],
+  isFounder: true,
+  order: 1,
+});
+
+const teamMembers = [
+  founder,
+  entry("teamMember", "fixture-team-instructor-1", {
+    name: "Mihaela Dumitru",
+    role: "Instructor înot bebeluși",
+    shortBio: "Profesor de educație fizică, specializată în educație acvatică timpurie.",
+    photo: babyPhotos[1],
+    certifications: ["Instructor Metoda Sultana"],
+    isFounder: false,
+    order: 2,
+  }),
+  entry("teamMember", "fixture-team-instructor-2", {
+    name: "Alexandru Stan",
+    role: "Antrenor înot copii",
+    shortBio: "Fost sportiv de performanță, antrenor al grupelor de școlari.",
+    photo: celebrationPhotos[1],
+    isFounder: false,
+    order: 3,
+  }),
+];
+
+const timelineEvents = [
+  { year: "1981", title: "Primele ședințe", description: "Georgeta Sultana începe lucrul cu bebeluși în apă." },
+  { year: "2001", title: "Înființarea clubului", description: "Ia naștere Clubul Micii Campioni, primul club de educație acvatică din România." },
+  { year: "2007", title: "Brevetul Metodei Sultana", description: "Metoda Sultana este recunoscută prin brevet de invenție." },
+  { year: "2011", title: "10 ani de Micii Campioni", description: "Sărbătorim un deceniu alături de sute de familii.", image: anniversaryPhotos[0] },
+].map((event, index) =>
+  entry("timelineEvent", `fixture-timeline-${event.year}`, { ...event, order: index + 1 })
+);
+
+const certificates = certificateImages.map((image, index) =>
+  entry("certificate", `fixture-certificate-${index + 1}`, {
+    title: `Diplomă de excelență ${index + 1}`,
+    issuingBody: "Federația Română de Educație Acvatică",
+    date: `${2005 + index * 2}-06-01`,
+    image,
+    order: index + 1,
+  })
+);
+
+const pressClippings = [
+  ["Interviu.jpg", 735, 1000, "Interviu cu Georgeta Sultana", "Revista Mămica"],
+  ["Metoda-MG.jpg", 798, 997, "Metoda care învață bebelușii să înoate", "Jurnalul Național"],
+  ["Aquatica.jpg", 723, 1000, "Aquatica: terapia prin apă", "Revista Aquatica"],
+  ["Bebelusii-campioni.jpg", 1000, 345, "Bebelușii campioni", "Adevărul"],
+].map(([file, width, height, title, publication], index) =>
+  entry("pressClipping", `fixture-press-${index + 1}`, {
+    title,
+    publication,
+    date: `${2008 + index}-03-15`,
+    image: asset(`/images/press/${file}`, width as number, height as number, title as string, title as string),
+    order: index + 1,
+  })
+);
+
+// =============================================================================
+// Association
+// =============================================================================
+
+const conferences = [
+  { title: "Congresul Mondial de Educație Acvatică", year: "2015", location: "Viena, Austria", isInternational: true },
+  { title: "Conferința Națională de Pediatrie", year: "2013", location: "Cluj-Napoca", isInternational: false },
+].map((conference, index) =>
+  entry("conference", `fixture-conference-${index + 1}`, {
+    ...conference,
+    description: "Prezentarea rezultatelor Metodei Sultana în dezvoltarea copiilor.",
+    order: index + 1,
+  })
+);
+
+const projects = [
+  {
+    title: "Apa pentru toți copiii",
+    slug: "apa-pentru-toti-copiii",
+    description: "Cursuri gratuite de educație acvatică pentru copii din familii defavorizate.",
+    objectives: "- 100 de copii înscriși anual\n- Parteneriate cu școli din București",
+    status: "active",
+  },
+  {
+    title: "Hidroterapie pentru copiii cu dizabilități",
+    description: "Program de kinetoterapie în apă, în colaborare cu centre de recuperare.",
+    results: "Peste 200 de copii au beneficiat de program.",
+    status: "completed",
+  },
+].map((project, index) =>
+  entry("project", `fixture-project-${index + 1}`, { ...project, image: babyPhotos[4], order: index + 1 })
+);
+
+const partners = [
+  { name: "Federația Română de Educație Acvatică", partnerType: "endorsement", website: "https://example.ro/fraea" },
+  { name: "Maternitatea Bucur", partnerType: "partner" },
+  { name: "AquaSport Distribuție", partnerType: "sponsor", website: "https://example.ro/aquasport" },
+].map((partner, index) =>
+  entry("partner", `fixture-partner-${index + 1}`, {
+    ...partner,
+    logo: partnerLogos[index],
+    active: true,
+    order: index + 1,
+  })
+);
+
+const courseModules = [
+  { title: "Sarcina și pregătirea corpului", subtitle: "Modulul 1", sessions: "2 întâlniri", content: "Modificările din timpul sarcinii și exerciții de respirație." },
+  { title: "Travaliul și nașterea", subtitle: "Modulul 2", sessions: "3 întâlniri", content: "Etapele travaliului, poziții și tehnici Lamaze de relaxare." },
+  { title: "Primele zile cu bebelușul", subtitle: "Modulul 3", sessions: "2 întâlniri", content: "Alăptarea, îngrijirea nou-născutului și primul contact cu apa." },
+].map((module, index) =>
+  entry("courseModule", `fixture-course-module-${index + 1}`, {
+    ...module,
+    instructor: founder,
+    order: index + 1,
+  })
+);
+
+// =============================================================================
+// Galleries & FAQ
+// =============================================================================
+
+const galleries = [
+  entry("gallery", "fixture-gallery-bebelusi-inotatori", {
+    title: "Bebeluși înotători",
+    slug: "bebelusi-inotatori",
+    description: "Momente de bucurie din cursurile pentru bebeluși.",
+    date: "2013-05-20",
+    coverImage: babyPhotos[0],
+    images: babyPhotos,
+    featured: true,
+    order: 1,
+  }),
+  entry("gallery", "fixture-gallery-10-ani", {
+    title: "10 ani de Micii Campioni",
+    slug: "10-ani",
+    description: "Aniversarea primului deceniu al clubului.",
+    date: "2011-10-01",
+    coverImage: anniversaryPhotos[1],
+    images: anniversaryPhotos,
+    featured: false,
+    order: 2,
+  }),
+  entry("gallery", "fixture-gallery-sarbatoarea-invingatorilor-2012", {
+    title: "Sărbătoarea Învingătorilor 2012",
+    slug: "sarbatoarea-invingatorilor-2012",
+    date: "2012-06-01",
+    coverImage: celebrationPhotos[0],
+    images: celebrationPhotos,
+    featured: false,
+    order: 3,
+  }),
+];
+
+const faqs = [
+  { category: "general", question: "De la ce vârstă poate începe un bebeluș cursurile?", answer: "Recomandăm începerea cursurilor de la vârsta de 2-3 luni, după acordul medicului pediatru." },
+  { category: "general", question: "Părinții intră în apă cu bebelușul?", answer: "Da. Până la vârsta de 3 ani, cel puțin un părinte participă activ la fiecare ședință." },
+  { category: "programs", question: "Cât durează o ședință?", answer: "Între 30 și 60 de minute, în funcție de vârsta copilului și de grupă." },
+  { category: "safety", question: "Cum este tratată apa din bazin?", answer: "Folosim un sistem de tratare cu **ozon și UV**, cu un nivel minim de clor, potrivit pielii sensibile a bebelușilor." },
+  { category: "pricing", question: "Există abonamente?", answer: "Da, oferim abonamente lunare de 4 sau 8 ședințe. Prima ședință de acomodare se plătește separat." },
+].map((faq, index) => entry("faq", `fixture-faq-${index + 1}`, { ...faq, order: index + 1 }));
+
+// =============================================================================
+// Pages
+// =============================================================================
+
+function page(
+  id: string,
+  slug: string,
+  title: string,
+  content: ReturnType<typeof doc>,
+  extra: Record<string, unknown> = {}
+): FixtureEntry {
+  return entry("page", id, {
+    title,
+    slug,
+    metaDescription: `${title} - Clubul Micii Campioni, educație acvatică pentru bebeluși și copii.`,
+    content,
+    showInSitemap: true,
+    ...extra,
+  });
+}
+
+const despreNoi = page(
+  "fixture-page-despre-noi",
+  "despre-noi",
+  "Despre Noi",
+  doc(
+    paragraph(
+      "Clubul Micii Campioni a fost fondat în 2001 de Georgeta Sultana, cu misiunea de a aduce educația acvatică în viața fiecărei familii."
+    ),
+    embeddedEntry(testimonials[0]),
+    embeddedEntry(galleries[0]),
+    embeddedEntry(trialWidget)
+  ),
+  { heroImage: anniversaryPhotos[2] }
+);
+
+const concept = page(
+  "fixture-page-concept",
+  "concept",
+  "Concept",
+  doc(
+    paragraph(
+      "Conceptul Micii Campioni pornește de la ideea că apa este primul mediu al copilului și un instrument extraordinar de dezvoltare."
+    )
+  )
+);
+
+const asociatia = page(
+  "fixture-page-asociatia",
+  "asociatia",
+  "Asociația",
+  doc(
+    paragraph(
+      "Asociația Micii Campioni susține proiecte sociale și educaționale pentru copii, promovând educația acvatică la nivel național."
+    )
+  )
+);
+
+const contact = page(
+  "fixture-page-contact",
+  "contact",
+  "Contact",
+  doc(paragraph("Suntem aici pentru orice întrebare despre cursurile noastre. Scrie-ne sau sună-ne!"))
+);
+
+function childPage(
+  parent: FixtureEntry,
+  slug: string,
+  title: string,
+  body: string,
+  extra: Record<string, unknown> = {}
+): FixtureEntry {
+  return page(`fixture-page-${slug}`, slug, title, doc(paragraph(body)), {
+    parentPage: parent,
+    sidebarWidgets: [contactWidget],
+    ...extra,
+  });
+}
+
+const pages = [
+  despreNoi,
+  concept,
+  asociatia,
+  contact,
+  childPage(despreNoi, "istoric", "Istoric", "Povestea noastră începe în 1981, cu primele ședințe de înot pentru bebeluși."),
+  childPage(
+    despreNoi,
+    "siguranta-si-securitate-pentru-copilul-tau",
+    "Siguranță și Securitate",
+    "Siguranța copilului este prioritatea noastră: instructori cu brevet de salvamar, apă tratată și supraveghere permanentă."
+  ),
+  childPage(despreNoi, "echipa-micii-campioni", "Echipa Micii Campioni", "Cunoaște oamenii care îi însoțesc pe micii campioni în fiecare zi."),
+  childPage(despreNoi, "press-info", "Press Info", "Apariții în presă despre Clubul Micii Campioni și Metoda Sultana."),
+  childPage(
+    despreNoi,
+    "distinctii-si-certificari",
+    "Distincții și Certificări",
+    "Recunoașterea muncii noastre de-a lungul anilor."
+  ),
+  childPage(concept, "micii-campioni-si-faael", "Micii Campioni și FAAEL", "Colaborarea noastră cu Federația de Educație Acvatică."),
+  childPage(concept, "viziune-si-obiective", "Viziune și Obiective", "Ne dorim ca fiecare copil din România să se simtă în siguranță în apă."),
+  childPage(asociatia, "misiune", "Misiune", "Promovăm educația acvatică ca parte a dezvoltării sănătoase a copiilor."),
+  childPage(asociatia, "proiecte-si-programe", "Proiecte și Programe", "Proiectele sociale derulate de asociație."),
+  childPage(asociatia, "conferinte-si-congrese", "Conferințe și Congrese", "Participări la evenimente naționale și internaționale."),
+  childPage(asociatia, "sponsorizari", "Sponsorizări", "Partenerii și sponsorii care ne susțin proiectele."),
+  page(
+    "fixture-page-politica-confidentialitate",
+    "politica-confidentialitate",
+    "Politica de Confidențialitate",
+    doc(
+      paragraph(
+        "Datele transmise prin formularul de contact sunt folosite exclusiv pentru a răspunde solicitării tale și nu sunt transmise terților."
+      )
+    )
+  ),
+];
+
+// =============================================================================
+// All Entries
+// =============================================================================
+
+export const fixtureEntries: FixtureEntry[] = [
+  siteSettings,
+  headerNavigation,
+  footerNavigation,
+  homepageContent,
+  ...carouselSlides,
+  ...testimonials,
+  scheduleWidget,
+  trialWidget,
+  contactWidget,
+  ...babyAgeGroups,
+  ...kidsAgeGroups,
+  ...babyTabs,
+  ...kidsTabs,
+  ...services,
+  ...teamMembers,
+  ...timelineEvents,
+  ...certificates,
+  ...pressClippings,
+  ...conferences,
+  ...projects,
+  ...partners,
+  ...courseModules,
+  ...galleries,
+  ...faqs,
+  ...pages,
+];
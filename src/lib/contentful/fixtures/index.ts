@@ -0,0 +1,121 @@
+import type { ContentSource } from "../client";
+import type { FixtureEntry } from "./builders";
+import { fixtureEntries } from "./entries";
+
+// =============================================================================
+// Fixture Content Source
+// Serves the local fixture entries through the same `getEntries` contract as
+// the Contentful client, so queries.ts and its schemas run unchanged offline.
+// =============================================================================
+
+type Query = Record<string, unknown>;
+
+// Contentful's default page size when `limit` is omitted
+const DEFAULT_LIMIT = 100;
+
+// Query keys that are not field filters
+const RESERVED_KEYS = new Set(["content_type", "order", "limit", "skip", "select", "include", "locale"]);
+
+function getPath(entry: FixtureEntry, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== "object") return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, entry);
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return String(value).split(",").map((item) => item.trim());
+}
+
+function matchesFilter(entry: FixtureEntry, key: string, expected: unknown): boolean {
+  const operator = key.match(/\[(\w+)\]$/)?.[1];
+  const path = operator ? key.slice(0, -(operator.length + 2)) : key;
+  const actual = getPath(entry, path);
+
+  switch (operator) {
+    case undefined:
+      return Array.isArray(actual)
+        ? actual.map(String).includes(String(expected))
+        : String(actual) === String(expected);
+    case "ne":
+      return String(actual) !== String(expected);
+    case "in":
+      return toList(expected).includes(String(actual));
+    case "nin":
+      return !toList(expected).includes(String(actual));
+    case "exists":
+      return (actual !== undefined) === (String(expected) === "true");
+    default:
+      console.warn(`[Fixtures] Unsupported query operator "${operator}" ignored`);
+      return true;
+  }
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), "ro");
+}
+
+function sortEntries(entries: FixtureEntry[], order: unknown): FixtureEntry[] {
+  if (!order) return entries;
+  const keys = toList(order);
+
+  return [...entries].sort((a, b) => {
+    for (const key of keys) {
+      const descending = key.startsWith("-");
+      const path = descending ? key.slice(1) : key;
+      const result = compare(getPath(a, path), getPath(b, path));
+      if (result !== 0) return descending ? -result : result;
+    }
+    return 0;
+  });
+}
+
+function selectFields(entry: FixtureEntry, select: unknown): FixtureEntry {
+  if (!select) return entry;
+  const fieldNames = toList(select)
+    .filter((path) => path.startsWith("fields."))
+    .map((path) => path.slice("fields.".length));
+
+  return {
+    ...entry,
+    fields: Object.fromEntries(
+      fieldNames
+        .filter((name) => name in entry.fields)
+        .map((name) => [name, entry.fields[name]])
+    ),
+  };
+}
+
+async function getEntries(query: Query = {}) {
+  const skip = Number(query.skip ?? 0);
+  const limit = Number(query.limit ?? DEFAULT_LIMIT);
+
+  const matching = fixtureEntries.filter(
+    (entry) =>
+      (!query.content_type || entry.sys.contentType.sys.id === query.content_type) &&
+      Object.entries(query)
+        .filter(([key]) => !RESERVED_KEYS.has(key))
+        .every(([key, value]) => matchesFilter(entry, key, value))
+  );
+
+  const sorted = sortEntries(matching, query.order);
+
+  return {
+    sys: { type: "Array" },
+    total: sorted.length,
+    skip,
+    limit,
+    items: sorted.slice(skip, skip + limit).map((entry) => selectFields(entry, query.select)),
+    includes: {},
+  };
+}
+
+/**
+ * Offline content source backed by realistic Romanian fixture data.
+ */
+export const fixtureSource = { getEntries } as unknown as ContentSource;
@@ -0,0 +1,68 @@
+import type { Entry, EntrySkeletonType } from "contentful";
+import type { ContentSource } from "./client";
+
+// =============================================================================
+// Pagination Settings
+// =============================================================================
+
+// Contentful's default page size; keeps responses with deep includes small
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Largest page size the Delivery API accepts; suits slug-only queries. */
+export const MAX_PAGE_SIZE = 1000;
+
+// Safety ceiling on entries fetched by one collection query
+const DEFAULT_MAX_ENTRIES = 2000;
+
+function readMaxEntries(): number {
+  const value = Number(process.env.CONTENTFUL_MAX_ENTRIES);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_ENTRIES;
+}
+
+export interface PaginationOptions {
+  /** Entries requested per call (capped at 1000). */
+  pageSize?: number;
+  /** Stop after this many entries. Defaults to CONTENTFUL_MAX_ENTRIES or 2000. */
+  maxEntries?: number;
+}
+
+// =============================================================================
+// Auto-Paging
+// =============================================================================
+
+/**
+ * Fetch every entry matching a query by walking `skip`/`limit` until `total`
+ * is reached. Logs a warning when the safety ceiling truncates the result.
+ */
+export async function getAllEntries<S extends EntrySkeletonType>(
+  client: ContentSource,
+  query: Record<string, unknown>,
+  options: PaginationOptions = {}
+): Promise<Entry<S, undefined>[]> {
+  const maxEntries = options.maxEntries ?? readMaxEntries();
+  const pageSize = Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, maxEntries);
+  const items: Entry<S, undefined>[] = [];
+  let total = Infinity;
+
+  while (items.length < total && items.length < maxEntries) {
+    const page = await client.getEntries<S>({
+      ...query,
+      skip: items.length,
+      limit: Math.min(pageSize, maxEntries - items.length),
+    });
+
+    items.push(...page.items);
+    total = page.total;
+
+    // Guard against a source that reports more entries than it returns
+    if (!page.items.length) break;
+  }
+
+  if (total > maxEntries && items.length >= maxEntries) {
+    console.warn(
+      `[Contentful] ${String(query.content_type ?? "entries")} query truncated at ${maxEntries} of ${total} entries`
+    );
+  }
+
+  return items;
+}
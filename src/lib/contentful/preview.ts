@@ -0,0 +1,45 @@
+import { getPageBySlug } from "./queries";
+import { resolveEntryUrl } from "./urls";
+
+// =============================================================================
+// Preview Paths
+// =============================================================================
+
+// Placeholder origin used only to parse and normalise relative paths
+const INTERNAL_ORIGIN = "http://internal.invalid";
+
+/**
+ * Normalise a redirect target to an internal path, falling back to "/".
+ * Rejects absolute and protocol-relative URLs so the preview route
+ * cannot be used as an open redirect.
+ */
+export function toInternalPath(value: string | null | undefined): string {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return "/";
+  }
+
+  try {
+    const url = new URL(value, INTERNAL_ORIGIN);
+    if (url.origin !== INTERNAL_ORIGIN) return "/";
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return "/";
+  }
+}
+
+/**
+ * Resolve the site path that previews an entry, from its content type and slug.
+ * Pages are looked up with the preview client so unpublished parents resolve too.
+ */
+export async function resolvePreviewPath(
+  contentType: string,
+  slug: string | null | undefined
+): Promise<string> {
+  if (!slug) return resolveEntryUrl({ contentType }) ?? "/";
+
+  const parentSlug =
+    contentType === "page" ? (await getPageBySlug(slug, true))?.parentSlug : undefined;
+
+  // Entries without a page of their own preview on the homepage
+  return resolveEntryUrl({ contentType, slug, parentSlug }) ?? "/";
+}
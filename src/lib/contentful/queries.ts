@@ -1,4 +1,30 @@
-import { getClient, parseAsset, parseAssets, parseMedia } from "./client";
+import { getClient } from "./client";
+import { cachedQuery, slugTags, typeTag } from "./cache";
+import { getAllEntries, MAX_PAGE_SIZE } from "./pagination";
+import { contentfulLocale, defaultLocale, type Locale } from "@/lib/i18n/config";
+import {
+  parseEntry,
+  parseEntries,
+  siteSettingsSchema,
+  navigationSchema,
+  carouselSlideSchema,
+  testimonialSchema,
+  teamMemberSchema,
+  pageSchema,
+  pageRefSchema,
+  slugSchema,
+  serviceSchema,
+  gallerySchema,
+  faqSchema,
+  partnerSchema,
+  timelineEventSchema,
+  conferenceSchema,
+  certificateSchema,
+  pressClippingSchema,
+  projectSchema,
+  courseModuleSchema,
+  homepageContentSchema,
+} from "./schemas";
 import type {
   SiteSettings,
   SiteSettingsSkeleton,
@@ -10,16 +36,11 @@ import type {
   TestimonialSkeleton,
   TeamMember,
   TeamMemberSkeleton,
-  Widget,
-  WidgetSkeleton,
   Page,
+  PageRef,
   PageSkeleton,
   Service,
   ServiceSkeleton,
-  ServiceTab,
-  ServiceTabSkeleton,
-  AgeGroup,
-  AgeGroupSkeleton,
   Gallery,
   GallerySkeleton,
   FAQ,
@@ -41,15 +62,31 @@ import type {
   HomepageContent,
   HomepageContentSkeleton,
 } from "@/types/contentful";
-import type { Entry, Asset } from "contentful";
-import type { Document } from "@contentful/rich-text-types";
+
+// =============================================================================
+// Rich Text Embeds
+// =============================================================================
+
+// Content types editors can embed in page and service bodies (see embedded-entries.tsx)
+const EMBEDDED_ENTRY_TAGS = [
+  typeTag("widget"),
+  typeTag("gallery"),
+  typeTag("testimonial"),
+  typeTag("faq"),
+];
+
+// Link depth for entries with rich text bodies: embedded entries sit one level
+// down and their assets (gallery images, testimonial photos) two; the third
+// level covers assets of linked entries such as related service icons
+const RICH_TEXT_INCLUDE = 3;
 
 // =============================================================================
 // Site Settings
 // =============================================================================
 
-export async function getSiteSettings(
-  preview = false
+async function fetchSiteSettings(
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<SiteSettings | null> {
   const client = getClient(preview);
   if (!client) return null;
@@ -57,48 +94,35 @@ export async function getSiteSettings(
   try {
     const entries = await client.getEntries<SiteSettingsSkeleton>({
       content_type: "siteSettings",
+      locale: contentfulLocale(locale),
       limit: 1,
       include: 2,
     });
 
     if (!entries.items.length) return null;
 
-    const item = entries.items[0];
-    const location = item.fields.location as { lat: number; lon: number } | undefined;
-    return {
-      siteName: item.fields.siteName,
-      tagline: item.fields.tagLine,
-      logo: parseAsset(item.fields.logo as Asset)!,
-      logoWhite: parseAsset(item.fields.logoWhite as unknown as Asset | undefined),
-      anniversaryText: item.fields.anniversaryText,
-      anniversaryActive: item.fields.showAnniversaryBanner,
-      phone: item.fields.phoneNumber,
-      email: item.fields.emailAddress,
-      address: item.fields.address,
-      gpsLatitude: location?.lat,
-      gpsLongitude: location?.lon,
-      facebookUrl: item.fields.facebookUrl,
-      twitterUrl: item.fields.twitterUrl,
-      instagramUrl: item.fields.instagramUrl,
-      scheduleWeekdays: item.fields.scheduleWeekdays,
-      scheduleSaturday: item.fields.scheduleSaturday,
-      scheduleSunday: item.fields.scheduleSunday,
-      footerCopyright: item.fields.footerCopyright,
-      defaultMetaDescription: item.fields.defaultMetaDescription,
-    };
+    return parseEntry(siteSettingsSchema, entries.items[0]);
   } catch (error) {
     console.error("Error fetching site settings:", error);
-    return null;
+    throw error;
   }
 }
 
+export const getSiteSettings = cachedQuery(
+  "getSiteSettings",
+  fetchSiteSettings,
+  () => [typeTag("siteSettings")],
+  null
+);
+
 // =============================================================================
 // Navigation
 // =============================================================================
 
-export async function getNavigation(
+async function fetchNavigation(
   location: "header" | "footer",
-  preview = false
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<Navigation | null> {
   const client = getClient(preview);
   if (!client) return null;
@@ -106,29 +130,34 @@ export async function getNavigation(
   try {
     const entries = await client.getEntries<NavigationSkeleton>({
       content_type: "navigation",
+      locale: contentfulLocale(locale),
       limit: 1,
       ...({ "fields.location": location } as Record<string, unknown>),
     });
 
     if (!entries.items.length) return null;
 
-    const item = entries.items[0];
-    return {
-      location: item.fields.location,
-      items: item.fields.items || [],
-    };
+    return parseEntry(navigationSchema, entries.items[0]);
   } catch (error) {
     console.error("Error fetching navigation:", error);
-    return null;
+    throw error;
   }
 }
 
+export const getNavigation = cachedQuery(
+  "getNavigation",
+  fetchNavigation,
+  () => [typeTag("navigation")],
+  null
+);
+
 // =============================================================================
 // Carousel Slides
 // =============================================================================
 
-export async function getCarouselSlides(
-  preview = false
+async function fetchCarouselSlides(
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<CarouselSlide[]> {
   const client = getClient(preview);
   if (!client) return [];
@@ -136,34 +165,35 @@ export async function getCarouselSlides(
   try {
     const query: Record<string, unknown> = {
       content_type: "carouselSlide",
+      locale: contentfulLocale(locale),
       "fields.active": true,
       order: ["fields.order"],
       include: 2,
     };
-    const entries = await client.getEntries<CarouselSlideSkeleton>(query);
-
-    return entries.items.map((item) => ({
-      badge: item.fields.badge,
-      title: item.fields.title,
-      subtitle: item.fields.subtitle,
-      backgroundImage: parseAsset(item.fields.backgroundImage as Asset)!,
-      ctaText: item.fields.ctaText,
-      ctaLink: item.fields.ctaLink,
-      order: item.fields.order,
-    }));
+    const entries = await getAllEntries<CarouselSlideSkeleton>(client, query);
+
+    return parseEntries(carouselSlideSchema, entries);
   } catch (error) {
     console.error("Error fetching carousel slides:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getCarouselSlides = cachedQuery(
+  "getCarouselSlides",
+  fetchCarouselSlides,
+  () => [typeTag("carouselSlide")],
+  []
+);
+
 // =============================================================================
 // Testimonials
 // =============================================================================
 
-export async function getTestimonials(
+async function fetchTestimonials(
   featured = false,
-  preview = false
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<Testimonial[]> {
   const client = getClient(preview);
   if (!client) return [];
@@ -171,6 +201,7 @@ export async function getTestimonials(
   try {
     const query: Record<string, unknown> = {
       content_type: "testimonial",
+      locale: contentfulLocale(locale),
       order: ["fields.order"],
       include: 2,
     };
@@ -179,61 +210,71 @@ export async function getTestimonials(
       query["fields.featured"] = true;
     }
 
-    const entries = await client.getEntries<TestimonialSkeleton>(query);
+    const entries = await getAllEntries<TestimonialSkeleton>(client, query);
 
-    return entries.items.map((item) => ({
-      authorName: item.fields.authorName,
-      authorTitle: item.fields.authorTitle,
-      quote: item.fields.quote,
-      photo: item.fields.photo ? parseAsset(item.fields.photo as Asset) : undefined,
-      featured: item.fields.featured,
-      order: item.fields.order,
-    }));
+    return parseEntries(testimonialSchema, entries);
   } catch (error) {
     console.error("Error fetching testimonials:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getTestimonials = cachedQuery(
+  "getTestimonials",
+  fetchTestimonials,
+  () => [typeTag("testimonial")],
+  []
+);
+
 // =============================================================================
 // Team Members
 // =============================================================================
 
-export async function getTeamMembers(preview = false): Promise<TeamMember[]> {
+async function fetchTeamMembers(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<TeamMember[]> {
   const client = getClient(preview);
   if (!client) return [];
 
   try {
     const query: Record<string, unknown> = {
       content_type: "teamMember",
+      locale: contentfulLocale(locale),
       order: ["fields.order"],
       include: 2,
     };
-    const entries = await client.getEntries<TeamMemberSkeleton>(query);
-
-    return entries.items.map((item) => ({
-      name: item.fields.name,
-      role: item.fields.role,
-      bio: item.fields.bio,
-      shortBio: item.fields.shortBio,
-      photo: parseAsset(item.fields.photo as Asset)!,
-      certifications: item.fields.certifications,
-      isFounder: item.fields.isFounder,
-      order: item.fields.order,
-    }));
+    const entries = await getAllEntries<TeamMemberSkeleton>(client, query);
+
+    return parseEntries(teamMemberSchema, entries);
   } catch (error) {
     console.error("Error fetching team members:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getTeamMembers = cachedQuery(
+  "getTeamMembers",
+  fetchTeamMembers,
+  () => [typeTag("teamMember")],
+  []
+);
+
 // =============================================================================
 // Services
 // =============================================================================
 
-export async function getServices(
+// Services embed tabs, age groups, sidebar widgets, related services and rich text embeds
+const SERVICE_LINKED_TAGS = [
+  typeTag("serviceTab"),
+  typeTag("ageGroup"),
+  ...EMBEDDED_ENTRY_TAGS,
+];
+
+async function fetchServices(
   featured = false,
-  preview = false
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<Service[]> {
   const client = getClient(preview);
   if (!client) return [];
@@ -241,26 +282,35 @@ export async function getServices(
   try {
     const query: Record<string, unknown> = {
       content_type: "service",
+      locale: contentfulLocale(locale),
       order: ["fields.order"],
-      include: 3,
+      include: RICH_TEXT_INCLUDE,
     };
 
     if (featured) {
       query["fields.featured"] = true;
     }
 
-    const entries = await client.getEntries<ServiceSkeleton>(query);
+    const entries = await getAllEntries<ServiceSkeleton>(client, query);
 
-    return entries.items.map((item) => parseService(item));
+    return parseEntries(serviceSchema, entries);
   } catch (error) {
     console.error("Error fetching services:", error);
-    return [];
+    throw error;
   }
 }
 
-export async function getServiceBySlug(
+export const getServices = cachedQuery(
+  "getServices",
+  fetchServices,
+  () => [typeTag("service"), ...SERVICE_LINKED_TAGS],
+  []
+);
+
+async function fetchServiceBySlug(
   slug: string,
-  preview = false
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<Service | null> {
   const client = getClient(preview);
   if (!client) return null;
@@ -268,76 +318,40 @@ export async function getServiceBySlug(
   try {
     const query: Record<string, unknown> = {
       content_type: "service",
+      locale: contentfulLocale(locale),
       "fields.slug": slug,
       limit: 1,
-      include: 3,
+      include: RICH_TEXT_INCLUDE,
     };
     const entries = await client.getEntries<ServiceSkeleton>(query);
 
     if (!entries.items.length) return null;
 
-    return parseService(entries.items[0]);
+    return parseEntry(serviceSchema, entries.items[0]);
   } catch (error) {
     console.error("Error fetching service:", error);
-    return null;
+    throw error;
   }
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function parseService(item: Entry<ServiceSkeleton> | any): Service {
-  const fields = item.fields;
-  return {
-    title: fields.title as unknown as string,
-    slug: fields.slug as unknown as string,
-    shortDescription: fields.shortDescription as unknown as string,
-    icon: fields.icon ? parseAsset(fields.icon as unknown as Asset) : undefined,
-    heroImage: fields.heroImage ? parseAsset(fields.heroImage as unknown as Asset) : undefined,
-    content: fields.content as unknown as Document,
-    metaTitle: fields.metaTitle as unknown as string | undefined,
-    metaDescription: fields.metaDescription as unknown as string | undefined,
-    tabs: fields.tabs
-      ? ((fields.tabs as unknown as Entry<ServiceTabSkeleton>[]).map((tab) => ({
-          title: tab.fields.title,
-          content: tab.fields.content,
-          order: tab.fields.order,
-        })) as unknown as ServiceTab[])
-      : undefined,
-    ageGroups: fields.ageGroups
-      ? ((fields.ageGroups as unknown as Entry<AgeGroupSkeleton>[]).map((ag) => ({
-          name: ag.fields.name,
-          ageRange: ag.fields.ageRange,
-          duration: ag.fields.duration,
-          description: ag.fields.description,
-          psychologicalDevelopment: ag.fields.psychologicalDevelopment,
-          objectives: ag.fields.objectives,
-          icon: ag.fields.icon ? parseAsset(ag.fields.icon as unknown as Asset) : undefined,
-          color: ag.fields.color,
-          order: ag.fields.order,
-        })) as unknown as AgeGroup[])
-      : undefined,
-    sidebarWidgets: fields.sidebarWidgets
-      ? ((fields.sidebarWidgets as unknown as Entry<WidgetSkeleton>[]).map((w) =>
-          parseWidget(w)
-        ) as unknown as Widget[])
-      : undefined,
-    relatedServices: fields.relatedServices
-      ? ((fields.relatedServices as unknown as Entry<ServiceSkeleton>[]).map((s) => ({
-          title: s.fields.title,
-          slug: s.fields.slug,
-        })) as unknown as { title: string; slug: string }[])
-      : undefined,
-    order: fields.order as unknown as number,
-    featured: fields.featured as unknown as boolean,
-  };
-}
+export const getServiceBySlug = cachedQuery(
+  "getServiceBySlug",
+  fetchServiceBySlug,
+  (slug) => [
+    ...slugTags("service", slug),
+    ...SERVICE_LINKED_TAGS,
+  ],
+  null
+);
 
 // =============================================================================
 // Pages
 // =============================================================================
 
-export async function getPageBySlug(
+async function fetchPageBySlug(
   slug: string,
-  preview = false
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<Page | null> {
   const client = getClient(preview);
   if (!client) return null;
@@ -345,62 +359,68 @@ export async function getPageBySlug(
   try {
     const query: Record<string, unknown> = {
       content_type: "page",
+      locale: contentfulLocale(locale),
       "fields.slug": slug,
       limit: 1,
-      include: 3,
+      include: RICH_TEXT_INCLUDE,
     };
     const entries = await client.getEntries<PageSkeleton>(query);
 
     if (!entries.items.length) return null;
 
-    const item = entries.items[0];
-    const fields = item.fields;
-    const parentPage = fields.parentPage as unknown as Entry<PageSkeleton> | undefined;
-
-    return {
-      title: fields.title as unknown as string,
-      slug: fields.slug as unknown as string,
-      metaTitle: fields.metaTitle as unknown as string | undefined,
-      metaDescription: fields.metaDescription as unknown as string | undefined,
-      heroImage: fields.heroImage ? parseAsset(fields.heroImage as unknown as Asset) : undefined,
-      heroImageAlt: fields.heroImageAlt as unknown as string | undefined,
-      content: fields.content as unknown as Document,
-      sidebarWidgets: fields.sidebarWidgets
-        ? ((fields.sidebarWidgets as unknown as Entry<WidgetSkeleton>[]).map((w) =>
-            parseWidget(w)
-          ) as unknown as Widget[])
-        : undefined,
-      parentSlug: parentPage?.fields.slug as unknown as string | undefined,
-      parentTitle: parentPage?.fields.title as unknown as string | undefined,
-      showInSitemap: fields.showInSitemap as unknown as boolean,
-    };
+    return parseEntry(pageSchema, entries.items[0]);
   } catch (error) {
     console.error("Error fetching page:", error);
-    return null;
+    throw error;
   }
 }
 
-export async function getAllPageSlugs(preview = false): Promise<string[]> {
+export const getPageBySlug = cachedQuery(
+  "getPageBySlug",
+  fetchPageBySlug,
+  (slug) => [
+    ...slugTags("page", slug),
+    ...EMBEDDED_ENTRY_TAGS,
+  ],
+  null
+);
+
+async function fetchAllPageRefs(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<PageRef[]> {
   const client = getClient(preview);
   if (!client) return [];
 
   try {
     const query: Record<string, unknown> = {
       content_type: "page",
-      select: ["fields.slug"],
+      locale: contentfulLocale(locale),
+      select: ["fields.slug", "fields.parentPage", "fields.showInSitemap"],
+      include: 1,
     };
-    const entries = await client.getEntries<PageSkeleton>(query);
+    const entries = await getAllEntries<PageSkeleton>(client, query, {
+      pageSize: MAX_PAGE_SIZE,
+    });
 
-    return entries.items.map((item) => item.fields.slug as string);
+    return parseEntries(pageRefSchema, entries);
   } catch (error) {
-    console.error("Error fetching page slugs:", error);
-    return [];
+    console.error("Error fetching page refs:", error);
+    throw error;
   }
 }
 
-export async function getPagesByParentSlug(
+export const getAllPageRefs = cachedQuery(
+  "getAllPageRefs",
+  fetchAllPageRefs,
+  () => [typeTag("page")],
+  []
+);
+
+async function fetchPagesByParentSlug(
   parentSlug: string,
-  preview = false
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<Page[]> {
   const client = getClient(preview);
   if (!client) return [];
@@ -409,6 +429,7 @@ export async function getPagesByParentSlug(
     // First get the parent page ID
     const parentQuery: Record<string, unknown> = {
       content_type: "page",
+      locale: contentfulLocale(locale),
       "fields.slug": parentSlug,
       limit: 1,
     };
@@ -421,97 +442,105 @@ export async function getPagesByParentSlug(
     // Then get all pages with this parent
     const query: Record<string, unknown> = {
       content_type: "page",
+      locale: contentfulLocale(locale),
       "fields.parentPage.sys.id": parentId,
-      include: 2,
+      include: RICH_TEXT_INCLUDE,
     };
-    const entries = await client.getEntries<PageSkeleton>(query);
+    const entries = await getAllEntries<PageSkeleton>(client, query);
 
-    return entries.items.map((item) => {
-      const fields = item.fields;
-      return {
-        title: fields.title as unknown as string,
-        slug: fields.slug as unknown as string,
-        metaTitle: fields.metaTitle as unknown as string | undefined,
-        metaDescription: fields.metaDescription as unknown as string | undefined,
-        heroImage: fields.heroImage ? parseAsset(fields.heroImage as unknown as Asset) : undefined,
-        heroImageAlt: fields.heroImageAlt as unknown as string | undefined,
-        content: fields.content as unknown as Document,
-        sidebarWidgets: fields.sidebarWidgets
-          ? ((fields.sidebarWidgets as unknown as Entry<WidgetSkeleton>[]).map((w) =>
-              parseWidget(w)
-            ) as unknown as Widget[])
-          : undefined,
-        parentSlug: parentSlug,
-        parentTitle: parentEntries.items[0].fields.title as unknown as string,
-        showInSitemap: fields.showInSitemap as unknown as boolean,
-      };
-    });
+    const parent = parseEntry(pageSchema, parentEntries.items[0]);
+
+    return parseEntries(pageSchema, entries).map((page) => ({
+      ...page,
+      parentSlug,
+      parentTitle: parent?.title,
+    }));
   } catch (error) {
     console.error("Error fetching pages by parent:", error);
-    return [];
+    throw error;
   }
 }
 
-export async function getAllServiceSlugs(preview = false): Promise<string[]> {
+export const getPagesByParentSlug = cachedQuery(
+  "getPagesByParentSlug",
+  fetchPagesByParentSlug,
+  () => [
+    typeTag("page"),
+    ...EMBEDDED_ENTRY_TAGS,
+  ],
+  []
+);
+
+async function fetchAllServiceSlugs(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<string[]> {
   const client = getClient(preview);
   if (!client) return [];
 
   try {
     const query: Record<string, unknown> = {
       content_type: "service",
+      locale: contentfulLocale(locale),
       select: ["fields.slug"],
     };
-    const entries = await client.getEntries<ServiceSkeleton>(query);
+    const entries = await getAllEntries<ServiceSkeleton>(client, query, {
+      pageSize: MAX_PAGE_SIZE,
+    });
 
-    return entries.items.map((item) => item.fields.slug as string);
+    return parseEntries(slugSchema("service"), entries);
   } catch (error) {
     console.error("Error fetching service slugs:", error);
-    return [];
+    throw error;
   }
 }
 
-export async function getAllGallerySlugs(preview = false): Promise<string[]> {
+export const getAllServiceSlugs = cachedQuery(
+  "getAllServiceSlugs",
+  fetchAllServiceSlugs,
+  () => [typeTag("service")],
+  []
+);
+
+async function fetchAllGallerySlugs(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<string[]> {
   const client = getClient(preview);
   if (!client) return [];
 
   try {
     const query: Record<string, unknown> = {
       content_type: "gallery",
+      locale: contentfulLocale(locale),
       select: ["fields.slug"],
     };
-    const entries = await client.getEntries<GallerySkeleton>(query);
+    const entries = await getAllEntries<GallerySkeleton>(client, query, {
+      pageSize: MAX_PAGE_SIZE,
+    });
 
-    return entries.items.map((item) => item.fields.slug as string);
+    return parseEntries(slugSchema("gallery"), entries);
   } catch (error) {
     console.error("Error fetching gallery slugs:", error);
-    return [];
+    throw error;
   }
 }
 
-// =============================================================================
-// Widget Helper
-// =============================================================================
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function parseWidget(item: Entry<WidgetSkeleton> | any): Widget {
-  const fields = item.fields;
-  return {
-    title: fields.title as unknown as string,
-    icon: fields.icon ? parseAsset(fields.icon as unknown as Asset) : undefined,
-    content: fields.content as unknown as string | undefined, // Markdown
-    widgetType: fields.widgetType as unknown as "info" | "highlight" | "cta" | "contact",
-    ctaText: fields.ctaText as unknown as string | undefined,
-    ctaLink: fields.ctaLink as unknown as string | undefined,
-  };
-}
+export const getAllGallerySlugs = cachedQuery(
+  "getAllGallerySlugs",
+  fetchAllGallerySlugs,
+  () => [typeTag("gallery")],
+  []
+);
 
 // =============================================================================
 // Galleries
 // =============================================================================
 
-export async function getGalleries(
+async function fetchGalleries(
   featured = false,
-  preview = false
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<Gallery[]> {
   const client = getClient(preview);
   if (!client) return [];
@@ -519,6 +548,7 @@ export async function getGalleries(
   try {
     const query: Record<string, unknown> = {
       content_type: "gallery",
+      locale: contentfulLocale(locale),
       order: ["-fields.date", "fields.order"],
       include: 2,
     };
@@ -527,27 +557,26 @@ export async function getGalleries(
       query["fields.featured"] = true;
     }
 
-    const entries = await client.getEntries<GallerySkeleton>(query);
+    const entries = await getAllEntries<GallerySkeleton>(client, query);
 
-    return entries.items.map((item) => ({
-      title: item.fields.title,
-      slug: item.fields.slug,
-      description: item.fields.description,
-      date: item.fields.date,
-      coverImage: parseAsset(item.fields.coverImage as Asset)!,
-      images: parseAssets(item.fields.images as Asset[]),
-      featured: item.fields.featured,
-      order: item.fields.order,
-    }));
+    return parseEntries(gallerySchema, entries);
   } catch (error) {
     console.error("Error fetching galleries:", error);
-    return [];
+    throw error;
   }
 }
 
-export async function getGalleryBySlug(
+export const getGalleries = cachedQuery(
+  "getGalleries",
+  fetchGalleries,
+  () => [typeTag("gallery")],
+  []
+);
+
+async function fetchGalleryBySlug(
   slug: string,
-  preview = false
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<Gallery | null> {
   const client = getClient(preview);
   if (!client) return null;
@@ -555,6 +584,7 @@ export async function getGalleryBySlug(
   try {
     const query: Record<string, unknown> = {
       content_type: "gallery",
+      locale: contentfulLocale(locale),
       "fields.slug": slug,
       limit: 1,
       include: 2,
@@ -563,89 +593,90 @@ export async function getGalleryBySlug(
 
     if (!entries.items.length) return null;
 
-    const item = entries.items[0];
-    const fields = item.fields;
-    return {
-      title: fields.title as unknown as string,
-      slug: fields.slug as unknown as string,
-      description: fields.description as unknown as string | undefined,
-      date: fields.date as unknown as string | undefined,
-      coverImage: parseAsset(fields.coverImage as unknown as Asset)!,
-      images: parseAssets(fields.images as unknown as Asset[]),
-      featured: fields.featured as unknown as boolean,
-      order: fields.order as unknown as number,
-    };
+    return parseEntry(gallerySchema, entries.items[0]);
   } catch (error) {
     console.error("Error fetching gallery:", error);
-    return null;
+    throw error;
   }
 }
 
+export const getGalleryBySlug = cachedQuery(
+  "getGalleryBySlug",
+  fetchGalleryBySlug,
+  (slug) => slugTags("gallery", slug),
+  null
+);
+
 // =============================================================================
 // FAQ
 // =============================================================================
 
-export async function getFAQs(preview = false): Promise<FAQ[]> {
+async function fetchFAQs(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<FAQ[]> {
   const client = getClient(preview);
   if (!client) return [];
 
   try {
     const query: Record<string, unknown> = {
       content_type: "faq",
+      locale: contentfulLocale(locale),
       order: ["fields.category", "fields.order"],
     };
-    const entries = await client.getEntries<FAQSkeleton>(query);
+    const entries = await getAllEntries<FAQSkeleton>(client, query);
 
-    return entries.items.map((item) => ({
-      question: item.fields.question,
-      answer: item.fields.answer,
-      category: item.fields.category,
-      order: item.fields.order,
-    }));
+    return parseEntries(faqSchema, entries);
   } catch (error) {
     console.error("Error fetching FAQs:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getFAQs = cachedQuery("getFAQs", fetchFAQs, () => [typeTag("faq")], []);
+
 // =============================================================================
 // Partners
 // =============================================================================
 
-export async function getPartners(preview = false): Promise<Partner[]> {
+async function fetchPartners(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<Partner[]> {
   const client = getClient(preview);
   if (!client) return [];
 
   try {
     const query: Record<string, unknown> = {
       content_type: "partner",
+      locale: contentfulLocale(locale),
       "fields.active": true,
       order: ["fields.order"],
       include: 2,
     };
-    const entries = await client.getEntries<PartnerSkeleton>(query);
-
-    return entries.items.map((item) => ({
-      name: item.fields.name,
-      logo: parseAsset(item.fields.logo as Asset)!,
-      website: item.fields.website,
-      partnerType: item.fields.partnerType,
-      description: item.fields.description,
-      active: item.fields.active,
-      order: item.fields.order,
-    }));
+    const entries = await getAllEntries<PartnerSkeleton>(client, query);
+
+    return parseEntries(partnerSchema, entries);
   } catch (error) {
     console.error("Error fetching partners:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getPartners = cachedQuery(
+  "getPartners",
+  fetchPartners,
+  () => [typeTag("partner")],
+  []
+);
+
 // =============================================================================
 // Timeline Events
 // =============================================================================
 
-export async function getTimelineEvents(
-  preview = false
+async function fetchTimelineEvents(
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<TimelineEvent[]> {
   const client = getClient(preview);
   if (!client) return [];
@@ -653,89 +684,100 @@ export async function getTimelineEvents(
   try {
     const query: Record<string, unknown> = {
       content_type: "timelineEvent",
+      locale: contentfulLocale(locale),
       order: ["fields.order"],
       include: 2,
     };
-    const entries = await client.getEntries<TimelineEventSkeleton>(query);
-
-    return entries.items.map((item) => ({
-      year: item.fields.year,
-      title: item.fields.title,
-      description: item.fields.description,
-      image: item.fields.image ? parseAsset(item.fields.image as Asset) : undefined,
-      order: item.fields.order,
-    }));
+    const entries = await getAllEntries<TimelineEventSkeleton>(client, query);
+
+    return parseEntries(timelineEventSchema, entries);
   } catch (error) {
     console.error("Error fetching timeline events:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getTimelineEvents = cachedQuery(
+  "getTimelineEvents",
+  fetchTimelineEvents,
+  () => [typeTag("timelineEvent")],
+  []
+);
+
 // =============================================================================
 // Conferences
 // =============================================================================
 
-export async function getConferences(preview = false): Promise<Conference[]> {
+async function fetchConferences(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<Conference[]> {
   const client = getClient(preview);
   if (!client) return [];
 
   try {
     const query: Record<string, unknown> = {
       content_type: "conference",
+      locale: contentfulLocale(locale),
       order: ["-fields.year", "fields.order"],
     };
-    const entries = await client.getEntries<ConferenceSkeleton>(query);
-
-    return entries.items.map((item) => ({
-      title: item.fields.title,
-      year: item.fields.year,
-      location: item.fields.location,
-      description: item.fields.description,
-      isInternational: item.fields.isInternational,
-      order: item.fields.order,
-    }));
+    const entries = await getAllEntries<ConferenceSkeleton>(client, query);
+
+    return parseEntries(conferenceSchema, entries);
   } catch (error) {
     console.error("Error fetching conferences:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getConferences = cachedQuery(
+  "getConferences",
+  fetchConferences,
+  () => [typeTag("conference")],
+  []
+);
+
 // =============================================================================
 // Certificates
 // =============================================================================
 
-export async function getCertificates(preview = false): Promise<Certificate[]> {
+async function fetchCertificates(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<Certificate[]> {
   const client = getClient(preview);
   if (!client) return [];
 
   try {
     const query: Record<string, unknown> = {
       content_type: "certificate",
+      locale: contentfulLocale(locale),
       order: ["fields.order"],
       include: 2,
     };
-    const entries = await client.getEntries<CertificateSkeleton>(query);
-
-    return entries.items.map((item) => ({
-      title: item.fields.title,
-      issuingBody: item.fields.issuingBody,
-      date: item.fields.date,
-      image: parseAsset(item.fields.image as Asset)!,
-      description: item.fields.description,
-      order: item.fields.order,
-    }));
+    const entries = await getAllEntries<CertificateSkeleton>(client, query);
+
+    return parseEntries(certificateSchema, entries);
   } catch (error) {
     console.error("Error fetching certificates:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getCertificates = cachedQuery(
+  "getCertificates",
+  fetchCertificates,
+  () => [typeTag("certificate")],
+  []
+);
+
 // =============================================================================
 // Press Clippings
 // =============================================================================
 
-export async function getPressClippings(
-  preview = false
+async function fetchPressClippings(
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<PressClipping[]> {
   const client = getClient(preview);
   if (!client) return [];
@@ -743,64 +785,67 @@ export async function getPressClippings(
   try {
     const query: Record<string, unknown> = {
       content_type: "pressClipping",
+      locale: contentfulLocale(locale),
       order: ["-fields.date", "fields.order"],
       include: 2,
     };
-    const entries = await client.getEntries<PressClippingSkeleton>(query);
-
-    return entries.items.map((item) => ({
-      title: item.fields.title,
-      publication: item.fields.publication,
-      date: item.fields.date,
-      image: parseAsset(item.fields.image as Asset)!,
-      link: item.fields.link,
-      excerpt: item.fields.excerpt,
-      order: item.fields.order,
-    }));
+    const entries = await getAllEntries<PressClippingSkeleton>(client, query);
+
+    return parseEntries(pressClippingSchema, entries);
   } catch (error) {
     console.error("Error fetching press clippings:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getPressClippings = cachedQuery(
+  "getPressClippings",
+  fetchPressClippings,
+  () => [typeTag("pressClipping")],
+  []
+);
+
 // =============================================================================
 // Projects
 // =============================================================================
 
-export async function getProjects(preview = false): Promise<Project[]> {
+async function fetchProjects(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<Project[]> {
   const client = getClient(preview);
   if (!client) return [];
 
   try {
     const query: Record<string, unknown> = {
       content_type: "project",
+      locale: contentfulLocale(locale),
       order: ["fields.order"],
       include: 2,
     };
-    const entries = await client.getEntries<ProjectSkeleton>(query);
-
-    return entries.items.map((item) => ({
-      title: item.fields.title,
-      slug: item.fields.slug,
-      description: item.fields.description,
-      objectives: item.fields.objectives,
-      results: item.fields.results,
-      image: item.fields.image ? parseAsset(item.fields.image as Asset) : undefined,
-      status: item.fields.status,
-      order: item.fields.order,
-    }));
+    const entries = await getAllEntries<ProjectSkeleton>(client, query);
+
+    return parseEntries(projectSchema, entries);
   } catch (error) {
     console.error("Error fetching projects:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getProjects = cachedQuery(
+  "getProjects",
+  fetchProjects,
+  () => [typeTag("project")],
+  []
+);
+
 // =============================================================================
 // Course Modules
 // =============================================================================
 
-export async function getCourseModules(
-  preview = false
+async function fetchCourseModules(
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<CourseModule[]> {
   const client = getClient(preview);
   if (!client) return [];
@@ -808,42 +853,36 @@ export async function getCourseModules(
   try {
     const query: Record<string, unknown> = {
       content_type: "courseModule",
+      locale: contentfulLocale(locale),
       order: ["fields.order"],
       include: 2,
     };
-    const entries = await client.getEntries<CourseModuleSkeleton>(query);
-
-    return entries.items.map((item) => {
-      const fields = item.fields;
-      const instructor = fields.instructor as unknown as Entry<TeamMemberSkeleton> | undefined;
-      return {
-        title: fields.title as unknown as string,
-        subtitle: fields.subtitle as unknown as string | undefined,
-        sessions: fields.sessions as unknown as string | undefined,
-        instructor: instructor
-          ? {
-              name: instructor.fields.name as unknown as string,
-              role: instructor.fields.role as unknown as string,
-              photo: instructor.fields.photo ? parseAsset(instructor.fields.photo as unknown as Asset) : undefined,
-            }
-          : undefined,
-        content: fields.content as unknown as string, // Markdown
-        objectives: fields.objectives as unknown as string | undefined, // Markdown
-        order: fields.order as unknown as number,
-      };
-    }) as CourseModule[];
+    const entries = await getAllEntries<CourseModuleSkeleton>(client, query);
+
+    return parseEntries(courseModuleSchema, entries);
   } catch (error) {
     console.error("Error fetching course modules:", error);
-    return [];
+    throw error;
   }
 }
 
+export const getCourseModules = cachedQuery(
+  "getCourseModules",
+  fetchCourseModules,
+  () => [
+    typeTag("courseModule"),
+    typeTag("teamMember"),
+  ],
+  []
+);
+
 // =============================================================================
 // Homepage Content
 // =============================================================================
 
-export async function getHomepageContent(
-  preview = false
+async function fetchHomepageContent(
+  preview = false,
+  locale: Locale = defaultLocale
 ): Promise<HomepageContent | null> {
   const client = getClient(preview);
   if (!client) return null;
@@ -851,24 +890,23 @@ export async function getHomepageContent(
   try {
     const entries = await client.getEntries<HomepageContentSkeleton>({
       content_type: "homepageContent",
+      locale: contentfulLocale(locale),
       limit: 1,
       include: 2,
     });
 
     if (!entries.items.length) return null;
 
-    const item = entries.items[0];
-    const fields = item.fields;
-
-    return {
-      aboutMedia: parseMedia(fields.aboutMedia as Asset | undefined),
-      aboutTitle: fields.aboutTitle,
-      aboutSubtitle: fields.aboutSubtitle,
-      aboutDescription: fields.aboutDescription,
-      aboutFeatures: fields.aboutFeatures,
-    };
+    return parseEntry(homepageContentSchema, entries.items[0]);
   } catch (error) {
     console.error("Error fetching homepage content:", error);
-    return null;
+    throw error;
   }
 }
+
+export const getHomepageContent = cachedQuery(
+  "getHomepageContent",
+  fetchHomepageContent,
+  () => [typeTag("homepageContent")],
+  null
+);
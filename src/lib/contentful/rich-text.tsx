@@ -6,12 +6,17 @@ import { BLOCKS, INLINES, MARKS, type Document } from "@contentful/rich-text-typ
 import Image from "next/image";
 import Link from "next/link";
 import type { ReactNode } from "react";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { localizePath } from "@/lib/i18n/routing";
+import { renderEmbeddedEntry } from "./embedded-entries";
+import { resolveEntryUrl } from "./urls";
 
 // =============================================================================
 // Rich Text Rendering Options
 // =============================================================================
 
-const defaultOptions: Options = {
+// Links and embeds resolve to the page's locale
+const defaultOptions = (locale: Locale): Options => ({
   renderMark: {
     [MARKS.BOLD]: (text: ReactNode) => (
       <strong className="font-semibold">{text}</strong>
@@ -104,6 +109,7 @@ const defaultOptions: Options = {
         </figure>
       );
     },
+    [BLOCKS.EMBEDDED_ENTRY]: (node) => renderEmbeddedEntry(node.data.target, false, locale),
     [BLOCKS.TABLE]: (node, children) => (
       <div className="my-6 overflow-x-auto">
         <table className="w-full border-collapse text-sm">
@@ -142,20 +148,21 @@ const defaultOptions: Options = {
 
       return (
         <Link
-          href={href}
+          href={localizePath(href, locale)}
           className="text-lagoon-600 underline underline-offset-2 transition-colors hover:text-lagoon-700"
         >
           {children}
         </Link>
       );
     },
+    [INLINES.EMBEDDED_ENTRY]: (node) => renderEmbeddedEntry(node.data.target, true, locale),
     [INLINES.ENTRY_HYPERLINK]: (node, children) => {
-      const slug = node.data.target.fields?.slug;
-      if (!slug) return <span>{children}</span>;
+      const href = resolveEntryUrl(node.data.target, locale);
+      if (!href) return <span>{children}</span>;
 
       return (
         <Link
-          href={`/${slug}`}
+          href={href}
           className="text-lagoon-600 underline underline-offset-2 transition-colors hover:text-lagoon-700"
         >
           {children}
@@ -163,7 +170,7 @@ const defaultOptions: Options = {
       );
     },
   },
-};
+});
 
 // =============================================================================
 // Rich Text Component
@@ -173,12 +180,13 @@ interface RichTextProps {
   content: Document;
   className?: string;
   options?: Options;
+  locale?: Locale;
 }
 
-export function RichText({ content, className, options }: RichTextProps) {
+export function RichText({ content, className, options, locale = defaultLocale }: RichTextProps) {
   const mergedOptions = options
-    ? { ...defaultOptions, ...options }
-    : defaultOptions;
+    ? { ...defaultOptions(locale), ...options }
+    : defaultOptions(locale);
 
   return (
     <div className={className}>
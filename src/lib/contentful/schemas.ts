@@ -0,0 +1,647 @@
+import { z } from "zod";
+import type { Asset } from "contentful";
+import type { Document } from "@contentful/rich-text-types";
+import { parseAsset, parseMedia } from "./client";
+import type {
+  ContentfulImage,
+  SiteSettings,
+  Navigation,
+  NavigationItem,
+  CarouselSlide,
+  Testimonial,
+  TeamMember,
+  Widget,
+  Page,
+  PageRef,
+  Service,
+  ServiceTab,
+  AgeGroup,
+  Gallery,
+  FAQ,
+  Partner,
+  TimelineEvent,
+  Conference,
+  Certificate,
+  PressClipping,
+  Project,
+  CourseModule,
+  HomepageContent,
+} from "@/types/contentful";
+
+// =============================================================================
+// Entry Schema
+// =============================================================================
+
+/**
+ * Validates the raw `fields` of one content type and maps them to its view type.
+ * `defaults` lists raw field values used to repair an entry whose only problems
+ * are in those fields; anything else makes the entry invalid and it is dropped.
+ */
+export interface EntrySchema<T> {
+  contentType: string;
+  fields: z.ZodType<T>;
+  defaults?: Record<string, unknown>;
+  /** Pass the entry's `sys.id` to `fields` as `id`, a key that is the same in every locale */
+  withEntryId?: boolean;
+}
+
+interface RawEntry {
+  sys?: { id?: string; type?: string };
+  fields?: unknown;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "(entry)"}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Validate a single Contentful entry against its schema.
+ * Returns null (and logs the entry ID with the reason) when the entry cannot be used.
+ */
+export function parseEntry<T>(schema: EntrySchema<T>, entry: unknown): T | null {
+  const raw = (entry ?? {}) as RawEntry;
+  const id = raw.sys?.id ?? "(unknown id)";
+
+  // Unresolved links (unpublished or missing targets) have no fields at all
+  if (raw.sys?.type === "Link" || !raw.fields) {
+    console.warn(`[Contentful] Skipping unresolved ${schema.contentType} entry ${id}`);
+    return null;
+  }
+
+  const fields = schema.withEntryId
+    ? { ...(raw.fields as Record<string, unknown>), id: raw.sys?.id }
+    : raw.fields;
+
+  const result = schema.fields.safeParse(fields);
+  if (result.success) return result.data;
+
+  // Attempt a repair when every failing field has a known default
+  const failedFields = new Set(result.error.issues.map((issue) => String(issue.path[0])));
+  const defaults = schema.defaults;
+  if (defaults && [...failedFields].every((field) => field in defaults)) {
+    const patch = Object.fromEntries(
+      [...failedFields].map((field) => [field, defaults[field]])
+    );
+    const repaired = schema.fields.safeParse({
+      ...(fields as Record<string, unknown>),
+      ...patch,
+    });
+    if (repaired.success) {
+      console.warn(
+        `[Contentful] Repaired ${schema.contentType} entry ${id}: ${formatIssues(result.error)}`
+      );
+      return repaired.data;
+    }
+  }
+
+  console.warn(
+    `[Contentful] Skipping invalid ${schema.contentType} entry ${id}: ${formatIssues(result.error)}`
+  );
+  return null;
+}
+
+/**
+ * Validate a list of entries, dropping (and reporting) the invalid ones.
+ */
+export function parseEntries<T>(schema: EntrySchema<T>, entries: readonly unknown[]): T[] {
+  return entries
+    .map((entry) => parseEntry(schema, entry))
+    .filter((item): item is T => item !== null);
+}
+
+// =============================================================================
+// Field Helpers
+// =============================================================================
+
+const requiredString = z.string().trim().min(1, "is required");
+const optionalString = z.string().optional();
+const flag = z.boolean();
+const order = z.number();
+
+/** A resolved image asset; fails when the asset is missing or unpublished. */
+const image = z.unknown().transform((value, ctx) => {
+  const parsed = parseAsset(value as Asset | undefined);
+  if (!parsed?.url) {
+    ctx.addIssue({ code: "custom", message: "missing or unpublished asset" });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+/** An optional image asset; unresolved assets are treated as absent. */
+const optionalImage = z.unknown().transform((value) => {
+  const parsed = parseAsset(value as Asset | undefined);
+  return parsed?.url ? parsed : undefined;
+});
+
+/** A list of image assets; unresolved assets are skipped. */
+const images = z
+  .array(z.unknown())
+  .optional()
+  .transform((values) =>
+    (values ?? [])
+      .map((value) => parseAsset(value as Asset | undefined))
+      .filter((img): img is ContentfulImage => !!img?.url)
+  );
+
+const optionalMedia = z.unknown().transform((value) => {
+  const parsed = parseMedia(value as Asset | undefined);
+  return parsed?.url ? parsed : undefined;
+});
+
+const richText = z.custom<Document>(
+  (value) =>
+    typeof value === "object" &&
+    value !== null &&
+    (value as { nodeType?: unknown }).nodeType === "document" &&
+    Array.isArray((value as { content?: unknown }).content),
+  { message: "is not a rich text document" }
+);
+
+const stringList = z.array(z.string()).optional();
+
+/** Linked entries validated with their own schema; invalid links are dropped. */
+function linkedEntries<T>(schema: EntrySchema<T>) {
+  return z
+    .array(z.unknown())
+    .optional()
+    .transform((values) => (values ? parseEntries(schema, values) : undefined));
+}
+
+/** A single linked entry; an invalid link resolves to undefined. */
+function linkedEntry<T>(schema: EntrySchema<T>) {
+  return z
+    .unknown()
+    .transform((value) => (value ? parseEntry(schema, value) ?? undefined : undefined));
+}
+
+// Local fallback for a site settings entry whose logo asset is missing
+const FALLBACK_LOGO = {
+  sys: { type: "Asset" },
+  fields: {
+    title: "Micii Campioni",
+    file: {
+      url: "/images/logos/logo-micii-campioni.png",
+      details: { image: { width: 203, height: 136 } },
+    },
+  },
+};
+
+// =============================================================================
+// Site Settings
+// =============================================================================
+
+export const siteSettingsSchema: EntrySchema<SiteSettings> = {
+  contentType: "siteSettings",
+  fields: z
+    .object({
+      siteName: requiredString,
+      tagLine: optionalString,
+      logo: image,
+      logoWhite: optionalImage,
+      anniversaryText: optionalString,
+      showAnniversaryBanner: flag,
+      phoneNumber: requiredString,
+      emailAddress: requiredString,
+      address: requiredString,
+      location: z.object({ lat: z.number(), lon: z.number() }).optional(),
+      facebookUrl: optionalString,
+      twitterUrl: optionalString,
+      instagramUrl: optionalString,
+      scheduleWeekdays: optionalString,
+      scheduleSaturday: optionalString,
+      scheduleSunday: optionalString,
+      footerCopyright: optionalString,
+      defaultMetaDescription: optionalString,
+    })
+    .transform((fields) => ({
+      siteName: fields.siteName,
+      tagline: fields.tagLine,
+      logo: fields.logo,
+      logoWhite: fields.logoWhite,
+      anniversaryText: fields.anniversaryText,
+      anniversaryActive: fields.showAnniversaryBanner,
+      phone: fields.phoneNumber,
+      email: fields.emailAddress,
+      address: fields.address,
+      gpsLatitude: fields.location?.lat,
+      gpsLongitude: fields.location?.lon,
+      facebookUrl: fields.facebookUrl,
+      twitterUrl: fields.twitterUrl,
+      instagramUrl: fields.instagramUrl,
+      scheduleWeekdays: fields.scheduleWeekdays,
+      scheduleSaturday: fields.scheduleSaturday,
+      scheduleSunday: fields.scheduleSunday,
+      footerCopyright: fields.footerCopyright,
+      defaultMetaDescription: fields.defaultMetaDescription,
+    })),
+  defaults: {
+    logo: FALLBACK_LOGO,
+    logoWhite: undefined,
+    showAnniversaryBanner: false,
+    location: undefined,
+  },
+};
+
+// =============================================================================
+// Navigation
+// =============================================================================
+
+const navigationItem: z.ZodType<NavigationItem> = z.lazy(() =>
+  z.object({
+    label: requiredString,
+    href: requiredString,
+    children: z.array(navigationItem).optional(),
+  })
+);
+
+export const navigationSchema: EntrySchema<Navigation> = {
+  contentType: "navigation",
+  fields: z
+    .object({
+      location: z.enum(["header", "footer"]),
+      items: z.array(navigationItem).optional(),
+    })
+    .transform((fields) => ({
+      location: fields.location,
+      items: fields.items ?? [],
+    })),
+  defaults: { items: [] },
+};
+
+// =============================================================================
+// Carousel Slide
+// =============================================================================
+
+export const carouselSlideSchema: EntrySchema<CarouselSlide> = {
+  contentType: "carouselSlide",
+  fields: z.object({
+    badge: optionalString,
+    title: requiredString,
+    subtitle: optionalString,
+    backgroundImage: image,
+    ctaText: optionalString,
+    ctaLink: optionalString,
+    order,
+  }),
+  defaults: { order: 0 },
+};
+
+// =============================================================================
+// Testimonial
+// =============================================================================
+
+export const testimonialSchema: EntrySchema<Testimonial> = {
+  contentType: "testimonial",
+  fields: z.object({
+    authorName: requiredString,
+    authorTitle: optionalString,
+    quote: requiredString,
+    photo: optionalImage,
+    featured: flag,
+    order,
+  }),
+  defaults: { featured: false, order: 0 },
+};
+
+// =============================================================================
+// Team Member
+// =============================================================================
+
+export const teamMemberSchema: EntrySchema<TeamMember> = {
+  contentType: "teamMember",
+  fields: z.object({
+    name: requiredString,
+    role: requiredString,
+    bio: optionalString,
+    shortBio: optionalString,
+    photo: optionalImage,
+    certifications: stringList,
+    isFounder: flag,
+    order,
+  }),
+  defaults: { certifications: undefined, isFounder: false, order: 0 },
+};
+
+// =============================================================================
+// Widget
+// =============================================================================
+
+export const widgetSchema: EntrySchema<Widget> = {
+  contentType: "widget",
+  fields: z.object({
+    title: requiredString,
+    icon: optionalImage,
+    content: optionalString,
+    widgetType: z.enum(["info", "highlight", "cta", "contact"]),
+    ctaText: optionalString,
+    ctaLink: optionalString,
+  }),
+  defaults: { widgetType: "info" },
+};
+
+// =============================================================================
+// Page
+// =============================================================================
+
+const pageLinkSchema: EntrySchema<{ slug: string; title: string }> = {
+  contentType: "page",
+  fields: z.object({ slug: requiredString, title: requiredString }),
+};
+
+export const pageSchema: EntrySchema<Page> = {
+  contentType: "page",
+  fields: z
+    .object({
+      title: requiredString,
+      slug: requiredString,
+      metaTitle: optionalString,
+      metaDescription: optionalString,
+      heroImage: optionalImage,
+      heroImageAlt: optionalString,
+      content: richText,
+      sidebarWidgets: linkedEntries(widgetSchema),
+      parentPage: linkedEntry(pageLinkSchema),
+      showInSitemap: flag,
+    })
+    .transform((fields) => ({
+      title: fields.title,
+      slug: fields.slug,
+      metaTitle: fields.metaTitle,
+      metaDescription: fields.metaDescription,
+      heroImage: fields.heroImage,
+      heroImageAlt: fields.heroImageAlt,
+      content: fields.content,
+      sidebarWidgets: fields.sidebarWidgets,
+      parentSlug: fields.parentPage?.slug,
+      parentTitle: fields.parentPage?.title,
+      showInSitemap: fields.showInSitemap,
+    })),
+  defaults: { showInSitemap: true },
+};
+
+/** Routing projection of a page, used for sitemaps and static params. */
+export const pageRefSchema: EntrySchema<PageRef> = {
+  contentType: "page",
+  fields: z
+    .object({
+      slug: requiredString,
+      parentPage: linkedEntry(pageLinkSchema),
+      showInSitemap: flag,
+    })
+    .transform((fields) => ({
+      slug: fields.slug,
+      parentSlug: fields.parentPage?.slug,
+      showInSitemap: fields.showInSitemap,
+    })),
+  defaults: { showInSitemap: true },
+};
+
+/** Slug-only projection used by the `select: ["fields.slug"]` queries. */
+export const slugSchema = (contentType: string): EntrySchema<string> => ({
+  contentType,
+  fields: z.object({ slug: requiredString }).transform((fields) => fields.slug),
+});
+
+// =============================================================================
+// Service
+// =============================================================================
+
+export const serviceTabSchema: EntrySchema<ServiceTab> = {
+  contentType: "serviceTab",
+  fields: z.object({
+    title: requiredString,
+    content: z.string(),
+    order,
+  }),
+  defaults: { content: "", order: 0 },
+};
+
+export const ageGroupSchema: EntrySchema<AgeGroup> = {
+  contentType: "ageGroup",
+  fields: z.object({
+    id: requiredString,
+    name: requiredString,
+    ageRange: requiredString,
+    duration: optionalString,
+    description: optionalString,
+    psychologicalDevelopment: optionalString,
+    objectives: optionalString,
+    icon: optionalImage,
+    color: optionalString,
+    order,
+  }),
+  defaults: { order: 0 },
+  withEntryId: true,
+};
+
+const serviceLinkSchema: EntrySchema<{ title: string; slug: string }> = {
+  contentType: "service",
+  fields: z.object({ title: requiredString, slug: requiredString }),
+};
+
+export const serviceSchema: EntrySchema<Service> = {
+  contentType: "service",
+  fields: z.object({
+    title: requiredString,
+    slug: requiredString,
+    shortDescription: requiredString,
+    icon: optionalImage,
+    heroImage: optionalImage,
+    content: richText,
+    nextSteps: optionalString,
+    metaTitle: optionalString,
+    metaDescription: optionalString,
+    tabs: linkedEntries(serviceTabSchema),
+    ageGroups: linkedEntries(ageGroupSchema),
+    sidebarWidgets: linkedEntries(widgetSchema),
+    relatedServices: linkedEntries(serviceLinkSchema),
+    order,
+    featured: flag,
+  }),
+  defaults: { shortDescription: "", order: 0, featured: false },
+};
+
+// =============================================================================
+// Gallery
+// =============================================================================
+
+export const gallerySchema: EntrySchema<Gallery> = {
+  contentType: "gallery",
+  fields: z.object({
+    title: requiredString,
+    slug: requiredString,
+    description: optionalString,
+    date: optionalString,
+    coverImage: image,
+    images,
+    featured: flag,
+    order,
+  }),
+  defaults: { featured: false, order: 0 },
+};
+
+// =============================================================================
+// FAQ
+// =============================================================================
+
+export const faqSchema: EntrySchema<FAQ> = {
+  contentType: "faq",
+  fields: z.object({
+    question: requiredString,
+    answer: requiredString,
+    category: z.enum(["general", "programs", "safety", "pricing", "other"]).optional(),
+    order,
+  }),
+  defaults: { category: "other", order: 0 },
+};
+
+// =============================================================================
+// Partner
+// =============================================================================
+
+export const partnerSchema: EntrySchema<Partner> = {
+  contentType: "partner",
+  fields: z.object({
+    name: requiredString,
+    logo: image,
+    website: optionalString,
+    partnerType: z.enum(["partner", "sponsor", "endorsement"]),
+    description: optionalString,
+    active: flag,
+    order,
+  }),
+  defaults: { partnerType: "partner", active: true, order: 0 },
+};
+
+// =============================================================================
+// Timeline Event
+// =============================================================================
+
+export const timelineEventSchema: EntrySchema<TimelineEvent> = {
+  contentType: "timelineEvent",
+  fields: z.object({
+    year: requiredString,
+    title: optionalString,
+    description: requiredString,
+    image: optionalImage,
+    order,
+  }),
+  defaults: { order: 0 },
+};
+
+// =============================================================================
+// Conference
+// =============================================================================
+
+export const conferenceSchema: EntrySchema<Conference> = {
+  contentType: "conference",
+  fields: z.object({
+    title: requiredString,
+    year: requiredString,
+    location: optionalString,
+    description: optionalString,
+    isInternational: flag,
+    order,
+  }),
+  defaults: { isInternational: false, order: 0 },
+};
+
+// =============================================================================
+// Certificate
+// =============================================================================
+
+export const certificateSchema: EntrySchema<Certificate> = {
+  contentType: "certificate",
+  fields: z.object({
+    title: requiredString,
+    issuingBody: optionalString,
+    date: optionalString,
+    image,
+    description: optionalString,
+    order,
+  }),
+  defaults: { order: 0 },
+};
+
+// =============================================================================
+// Press Clipping
+// =============================================================================
+
+export const pressClippingSchema: EntrySchema<PressClipping> = {
+  contentType: "pressClipping",
+  fields: z.object({
+    title: optionalString,
+    publication: optionalString,
+    date: optionalString,
+    image,
+    link: optionalString,
+    excerpt: optionalString,
+    order,
+  }),
+  defaults: { order: 0 },
+};
+
+// =============================================================================
+// Project
+// =============================================================================
+
+export const projectSchema: EntrySchema<Project> = {
+  contentType: "project",
+  fields: z.object({
+    title: requiredString,
+    slug: optionalString,
+    description: requiredString,
+    objectives: optionalString,
+    results: optionalString,
+    image: optionalImage,
+    status: z.enum(["active", "completed", "upcoming"]),
+    order,
+  }),
+  defaults: { status: "active", order: 0 },
+};
+
+// =============================================================================
+// Course Module
+// =============================================================================
+
+const instructorSchema: EntrySchema<NonNullable<CourseModule["instructor"]>> = {
+  contentType: "teamMember",
+  fields: z.object({
+    name: requiredString,
+    role: requiredString,
+    photo: optionalImage,
+  }),
+};
+
+export const courseModuleSchema: EntrySchema<CourseModule> = {
+  contentType: "courseModule",
+  fields: z.object({
+    title: requiredString,
+    subtitle: optionalString,
+    sessions: optionalString,
+    instructor: linkedEntry(instructorSchema),
+    content: z.string(),
+    objectives: optionalString,
+    order,
+  }),
+  defaults: { content: "", order: 0 },
+};
+
+// =============================================================================
+// Homepage Content
+// =============================================================================
+
+export const homepageContentSchema: EntrySchema<HomepageContent> = {
+  contentType: "homepageContent",
+  fields: z.object({
+    aboutMedia: optionalMedia,
+    aboutTitle: optionalString,
+    aboutSubtitle: optionalString,
+    aboutDescription: optionalString,
+    aboutFeatures: stringList,
+  }),
+  defaults: { aboutFeatures: undefined },
+};
@@ -0,0 +1,116 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+// =============================================================================
+// Snapshot Store
+// Last-known-good results of every cached query, persisted to disk so an
+// outage or a bad deploy of the Contentful space never blanks the site.
+// =============================================================================
+
+const snapshotDir =
+  process.env.CONTENTFUL_SNAPSHOT_DIR ||
+  join(process.cwd(), ".next", "cache", "contentful-snapshots");
+
+export interface Snapshot<T> {
+  query: string;
+  args: unknown[];
+  savedAt: string;
+  value: T;
+}
+
+// Snapshots already read or written by this process
+const memory = new Map<string, Snapshot<unknown>>();
+
+function snapshotFile(key: string): string {
+  const hash = createHash("sha1").update(key).digest("hex");
+  return join(snapshotDir, `${hash}.json`);
+}
+
+/**
+ * Persist the result of a successful query. Failures are logged and ignored:
+ * a read-only filesystem must not take the query down with it.
+ */
+export async function saveSnapshot<T>(
+  query: string,
+  args: unknown[],
+  value: T
+): Promise<void> {
+  const key = JSON.stringify([query, args]);
+  const snapshot: Snapshot<T> = { query, args, savedAt: new Date().toISOString(), value };
+  memory.set(key, snapshot);
+
+  try {
+    const file = snapshotFile(key);
+    // Write then rename, so a crash never leaves a truncated snapshot behind
+    await mkdir(snapshotDir, { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(snapshot));
+    await rename(`${file}.tmp`, file);
+  } catch (error) {
+    console.warn(`[Contentful] Could not persist snapshot for ${query}:`, error);
+  }
+}
+
+/**
+ * Load the last-known-good result of a query, or null if it never succeeded.
+ */
+export async function loadSnapshot<T>(
+  query: string,
+  args: unknown[]
+): Promise<Snapshot<T> | null> {
+  const key = JSON.stringify([query, args]);
+  const cached = memory.get(key);
+  if (cached) return cached as Snapshot<T>;
+
+  try {
+    const snapshot = JSON.parse(await readFile(snapshotFile(key), "utf8")) as Snapshot<T>;
+    memory.set(key, snapshot);
+    return snapshot;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// Degraded Mode
+// =============================================================================
+
+export interface QueryFailure {
+  query: string;
+  args: unknown[];
+  since: string;
+  error: string;
+  /** When the snapshot being served was saved; null if none existed. */
+  snapshotSavedAt: string | null;
+}
+
+// Queries whose latest attempt failed, keyed like the snapshots
+const failures = new Map<string, QueryFailure>();
+
+export function recordFailure(
+  query: string,
+  args: unknown[],
+  error: unknown,
+  snapshot: Snapshot<unknown> | null
+): void {
+  const key = JSON.stringify([query, args]);
+  failures.set(key, {
+    query,
+    args,
+    since: failures.get(key)?.since ?? new Date().toISOString(),
+    error: error instanceof Error ? error.message : String(error),
+    snapshotSavedAt: snapshot?.savedAt ?? null,
+  });
+}
+
+export function recordSuccess(query: string, args: unknown[]): void {
+  failures.delete(JSON.stringify([query, args]));
+}
+
+/**
+ * Whether this process is serving snapshots (or empty fallbacks) because
+ * Contentful requests are failing, with the queries affected.
+ */
+export function getContentHealth(): { degraded: boolean; failures: QueryFailure[] } {
+  return { degraded: failures.size > 0, failures: [...failures.values()] };
+}
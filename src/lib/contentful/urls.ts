@@ -0,0 +1,149 @@
+import type { Page } from "@/types/contentful";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { localizePath } from "@/lib/i18n/routing";
+
+// =============================================================================
+// Entry URLs
+// Single source of truth for where each content type is served. Rich text
+// links, the sitemap, preview redirects, breadcrumbs and JSON-LD all resolve
+// entry URLs here, so they always agree with the routes under src/app.
+// Paths are the Romanian ones; pass a locale to get that locale's public path.
+// =============================================================================
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
+
+/** Parent pages whose children are served under /{parent}/{slug}. */
+export const NESTED_PAGE_PARENTS = ["despre-noi", "concept", "asociatia"];
+
+/** Routes served from src/app without a Contentful entry behind them. */
+export const STATIC_ROUTES = [
+  "/",
+  "/servicii",
+  "/despre-noi",
+  "/concept",
+  "/asociatia",
+  "/galerie",
+  "/contact",
+  "/programare",
+  "/harta-site",
+];
+
+/** Service whose page lists every FAQ entry. */
+const FAQ_SERVICE_SLUG = "intrebari-frecvente";
+
+/** The routing facts about an entry, from a parsed view or a raw Contentful entry. */
+export interface EntryRef {
+  contentType: string;
+  slug?: string;
+  parentSlug?: string;
+}
+
+// Raw entry as found in rich text link targets (links resolved via `include`)
+interface RawEntry {
+  sys?: { contentType?: { sys?: { id?: string } } };
+  fields?: {
+    slug?: unknown;
+    parentPage?: { fields?: { slug?: unknown } };
+  };
+}
+
+function toEntryRef(entry: EntryRef | RawEntry): EntryRef | null {
+  if ("contentType" in entry) return entry;
+
+  const contentType = entry.sys?.contentType?.sys?.id;
+  if (!contentType) return null;
+
+  const slug = entry.fields?.slug;
+  const parentSlug = entry.fields?.parentPage?.fields?.slug;
+  return {
+    contentType,
+    slug: typeof slug === "string" ? slug : undefined,
+    parentSlug: typeof parentSlug === "string" ? parentSlug : undefined,
+  };
+}
+
+/**
+ * Resolve the canonical site path of an entry, or null when the content type
+ * has no page of its own (e.g. widgets, team members).
+ */
+export function resolveEntryUrl(
+  entry: EntryRef | RawEntry,
+  locale: Locale = defaultLocale
+): string | null {
+  const ref = toEntryRef(entry);
+  const path = ref && entryPath(ref);
+  return path && localizePath(path, locale);
+}
+
+function entryPath({ contentType, slug, parentSlug }: EntryRef): string | null {
+  switch (contentType) {
+    case "service":
+      return slug ? serviceUrl(slug) : null;
+    case "gallery":
+      return slug ? galleryUrl(slug) : null;
+    case "page":
+      if (!slug) return null;
+      return parentSlug && NESTED_PAGE_PARENTS.includes(parentSlug)
+        ? `/${parentSlug}/${slug}`
+        : `/${slug}`;
+    case "faq":
+      return serviceUrl(FAQ_SERVICE_SLUG);
+    case "homepageContent":
+    case "carouselSlide":
+      return "/";
+    default:
+      return null;
+  }
+}
+
+export function serviceUrl(slug: string, locale: Locale = defaultLocale): string {
+  return localizePath(`/servicii/${slug}`, locale);
+}
+
+export function galleryUrl(slug: string, locale: Locale = defaultLocale): string {
+  return localizePath(`/galerie/${slug}`, locale);
+}
+
+/**
+ * Absolute URL for a site path, for sitemaps and structured data.
+ */
+export function absoluteUrl(path: string): string {
+  return path === "/" ? siteUrl : `${siteUrl}${path}`;
+}
+
+// =============================================================================
+// Pages
+// =============================================================================
+
+/**
+ * Canonical path of a page. Routes compare it with the requested path and
+ * redirect, so a page is only ever served at one URL.
+ */
+export function pageUrl(
+  page: Pick<Page, "slug" | "parentSlug">,
+  locale: Locale = defaultLocale
+): string {
+  return (
+    resolveEntryUrl({ contentType: "page", ...page }, locale) ??
+    localizePath(`/${page.slug}`, locale)
+  );
+}
+
+/**
+ * Breadcrumb trail for a page: its parent, when it has one, then the page itself.
+ */
+export function pageBreadcrumbs(
+  page: Pick<Page, "title" | "slug" | "parentSlug" | "parentTitle">,
+  locale: Locale = defaultLocale
+): { label: string; href: string }[] {
+  const crumbs = [{ label: page.title, href: pageUrl(page, locale) }];
+  if (!page.parentSlug) return crumbs;
+
+  return [
+    {
+      label: page.parentTitle || page.parentSlug,
+      href: pageUrl({ slug: page.parentSlug }, locale),
+    },
+    ...crumbs,
+  ];
+}
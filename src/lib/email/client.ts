@@ -0,0 +1,16 @@
+import { Resend } from "resend";
+
+// =============================================================================
+// Resend Client
+// Created on first use rather than at import: Resend throws without an API
+// key, and the lead queue is imported by src/instrumentation.ts, so a missing
+// key would otherwise fail every request instead of just the emails.
+// =============================================================================
+
+let resend: Resend | null = null;
+
+/** The shared Resend client. Throws when RESEND_API_KEY is not set. */
+export function getResend(): Resend {
+  resend ??= new Resend(process.env.RESEND_API_KEY);
+  return resend;
+}
@@ -0,0 +1,264 @@
+// =============================================================================
+// Email Rendering
+// Templates describe an email as a list of content blocks. The shared layout
+// renders the blocks to branded, table-based HTML and to a plain-text
+// alternative, escaping every value on the way, so templates never build
+// markup by hand.
+// =============================================================================
+
+const brand = {
+  primary: "#0d9488",
+  whatsApp: "#25D366",
+  background: "#f5f0eb",
+  text: "#292524",
+  heading: "#1c1917",
+  muted: "#78716c",
+  border: "#e7e5e4",
+  font: "Arial,Helvetica,sans-serif",
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface EmailField {
+  label: string;
+  value: string;
+  /** Link target; only http(s), mailto and tel URLs are kept */
+  href?: string;
+}
+
+export type EmailBlock =
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "fields"; fields: EmailField[] }
+  | { type: "quote"; label: string; text: string }
+  | { type: "list"; title: string; items: string[]; ordered?: boolean }
+  | { type: "button"; label: string; href: string; intro?: string; color?: "primary" | "whatsApp" }
+  | { type: "signature"; lines: string[] };
+
+export interface EmailContent {
+  subject: string;
+  lang: string;
+  /** Hidden inbox preview text */
+  preheader: string;
+  /** Title in the coloured header bar */
+  header: string;
+  blocks: EmailBlock[];
+  footer: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * A typed email template, with sample data for the dev preview route.
+ */
+export interface EmailTemplate<Data> {
+  description: string;
+  render(data: Data): EmailContent;
+  fixture: Data;
+}
+
+// =============================================================================
+// Escaping
+// =============================================================================
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/** Escape a value for HTML text content and quoted attributes alike. */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/** Escaped text with line breaks kept. */
+function multiline(value: string): string {
+  return escapeHtml(value).replace(/\r?\n/g, "<br />");
+}
+
+/**
+ * Escaped link target, or null for schemes that have no place in an email
+ * (`javascript:`, `data:`...).
+ */
+export function safeHref(href: string): string | null {
+  return /^(https?:|mailto:|tel:)/i.test(href.trim()) ? escapeHtml(href.trim()) : null;
+}
+
+// =============================================================================
+// HTML
+// =============================================================================
+
+const label = (text: string) =>
+  `<span style="display:block;font-size:11px;text-transform:uppercase;letter-spacing:0.05em;color:${brand.muted};margin-bottom:4px;">${escapeHtml(text)}</span>`;
+
+function fieldHtml({ label: name, value, href }: EmailField): string {
+  const target = href ? safeHref(href) : null;
+  const content = target
+    ? `<a href="${target}" style="font-size:15px;color:${brand.primary};text-decoration:none;">${escapeHtml(value)}</a>`
+    : `<span style="font-size:15px;color:${brand.heading};">${multiline(value)}</span>`;
+
+  return `
+                <tr>
+                  <td style="padding:12px 0;border-bottom:1px solid ${brand.border};">
+                    ${label(name)}
+                    ${content}
+                  </td>
+                </tr>`;
+}
+
+function blockHtml(block: EmailBlock): string {
+  switch (block.type) {
+    case "heading":
+      return `<h1 style="margin:0;font-size:22px;font-weight:700;color:${brand.heading};font-family:${brand.font};">${escapeHtml(block.text)}</h1>`;
+
+    case "paragraph":
+      return `<p style="margin:0;font-size:15px;line-height:1.6;color:${brand.text};">${multiline(block.text)}</p>`;
+
+    case "fields":
+      if (block.fields.length === 0) return "";
+      return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">${block.fields.map(fieldHtml).join("")}
+              </table>`;
+
+    case "quote":
+      return `${label(block.label)}
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+                <tr>
+                  <td style="background-color:${brand.background};border-radius:6px;padding:16px;font-size:15px;line-height:1.6;color:${brand.text};">
+                    ${multiline(block.text)}
+                  </td>
+                </tr>
+              </table>`;
+
+    case "list": {
+      const tag = block.ordered ? "ol" : "ul";
+      const items = block.items
+        .map((item) => `<li style="margin-bottom:6px;">${escapeHtml(item)}</li>`)
+        .join("");
+      return `${label(block.title)}
+              <${tag} style="margin:0;padding-left:20px;font-size:15px;line-height:1.6;color:${brand.text};">${items}</${tag}>`;
+    }
+
+    case "button": {
+      const target = safeHref(block.href);
+      if (!target) return "";
+      const intro = block.intro
+        ? `<p style="margin:0 0 12px;font-size:15px;color:${brand.text};">${escapeHtml(block.intro)}</p>`
+        : "";
+      return `<div style="text-align:center;">
+              ${intro}
+              <table role="presentation" cellpadding="0" cellspacing="0" border="0" align="center">
+                <tr>
+                  <td style="background-color:${brand[block.color ?? "primary"]};border-radius:6px;text-align:center;">
+                    <a href="${target}" style="display:inline-block;padding:12px 28px;font-size:14px;font-weight:600;color:#ffffff;text-decoration:none;font-family:${brand.font};">${escapeHtml(block.label)}</a>
+                  </td>
+                </tr>
+              </table>
+              </div>`;
+    }
+
+    case "signature":
+      return `<p style="margin:0;font-size:15px;line-height:1.6;color:${brand.text};">${block.lines.map(escapeHtml).join("<br />")}</p>`;
+  }
+}
+
+function renderHtml(content: EmailContent): string {
+  const rows = content.blocks
+    .map(blockHtml)
+    .filter(Boolean)
+    .map(
+      (html) => `
+        <tr>
+          <td style="padding:24px 32px 0;">
+            ${html}
+          </td>
+        </tr>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(content.lang)}" xmlns="http://www.w3.org/1999/xhtml" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width,initial-scale=1.0" />
+  <meta name="color-scheme" content="light" />
+  <meta name="supported-color-schemes" content="light" />
+  <title>${escapeHtml(content.subject)}</title>
+  <!--[if mso]><xml><o:OfficeDocumentSettings><o:PixelsPerInch>96</o:PixelsPerInch></o:OfficeDocumentSettings></xml><![endif]-->
+</head>
+<body style="margin:0;padding:0;background-color:${brand.background};font-family:${brand.font};-webkit-text-size-adjust:100%;-ms-text-size-adjust:100%;">
+  <!-- Preheader (hidden inbox preview text) -->
+  <div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(content.preheader)}${"&nbsp;&zwnj;".repeat(20)}</div>
+
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color:${brand.background};">
+    <tr><td style="padding:32px 16px;" align="center">
+      <!--[if mso]><table role="presentation" cellpadding="0" cellspacing="0" border="0" width="600"><tr><td><![endif]-->
+      <table role="presentation" cellpadding="0" cellspacing="0" border="0" style="max-width:600px;width:100%;background-color:#ffffff;border-radius:8px;overflow:hidden;">
+        <!-- Header -->
+        <tr>
+          <td style="background-color:${brand.primary};padding:24px 32px;">
+            <span style="font-size:20px;font-weight:700;color:#ffffff;font-family:${brand.font};">${escapeHtml(content.header)}</span>
+          </td>
+        </tr>${rows}
+        <tr><td style="padding:32px 0 0;"></td></tr>
+        <!-- Footer -->
+        <tr>
+          <td style="background-color:${brand.background};padding:16px 32px;text-align:center;">
+            <span style="font-size:12px;color:${brand.muted};">${escapeHtml(content.footer)}</span>
+          </td>
+        </tr>
+      </table>
+      <!--[if mso]></td></tr></table><![endif]-->
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
+
+// =============================================================================
+// Plain Text
+// =============================================================================
+
+function blockText(block: EmailBlock): string {
+  switch (block.type) {
+    case "heading":
+      return block.text;
+    case "paragraph":
+      return block.text;
+    case "fields":
+      return block.fields.map(({ label: name, value }) => `${name}: ${value}`).join("\n");
+    case "quote":
+      return `${block.label}:\n${block.text}`;
+    case "list":
+      return [
+        `${block.title}:`,
+        ...block.items.map((item, index) => (block.ordered ? `${index + 1}. ${item}` : `- ${item}`)),
+      ].join("\n");
+    case "button":
+      if (!safeHref(block.href)) return "";
+      return [block.intro, `${block.label}: ${block.href}`].filter(Boolean).join("\n");
+    case "signature":
+      return block.lines.join("\n");
+  }
+}
+
+function renderText(content: EmailContent): string {
+  return [...content.blocks.map(blockText).filter(Boolean), `--\n${content.footer}`].join("\n\n");
+}
+
+// =============================================================================
+// Render
+// =============================================================================
+
+export function renderEmail<Data>(template: EmailTemplate<Data>, data: Data): RenderedEmail {
+  const content = template.render(data);
+  return { subject: content.subject, html: renderHtml(content), text: renderText(content) };
+}
@@ -0,0 +1,41 @@
+import { defaultLocale } from "@/lib/i18n/config";
+import type { EmailTemplate } from "../render";
+
+export interface AdminMagicLinkData {
+  url: string;
+  /** Minutes the link stays valid */
+  validFor: number;
+}
+
+/**
+ * Sign-in link to the lead inbox, for staff.
+ */
+export const adminMagicLink: EmailTemplate<AdminMagicLinkData> = {
+  description: "Link de autentificare în inboxul de mesaje, pentru personal",
+
+  render({ url, validFor }) {
+    return {
+      subject: "Link de autentificare - Micii Campioni",
+      lang: defaultLocale,
+      preheader: `Linkul este valabil ${validFor} minute și poate fi folosit o singură dată.`,
+      header: "Autentificare",
+      blocks: [
+        {
+          type: "paragraph",
+          text: "Cineva a cerut un link de autentificare în inboxul de mesaje al site-ului pentru această adresă.",
+        },
+        { type: "button", label: "Intră în inbox", href: url },
+        {
+          type: "paragraph",
+          text: `Linkul este valabil ${validFor} minute și poate fi folosit o singură dată. Dacă nu tu l-ai cerut, ignoră acest email.`,
+        },
+      ],
+      footer: "Trimis de miciicampioni.ro",
+    };
+  },
+
+  fixture: {
+    url: "https://miciicampioni.ro/admin/login/verify?token=example",
+    validFor: 15,
+  },
+};
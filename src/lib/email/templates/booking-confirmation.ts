@@ -0,0 +1,116 @@
+import type { BookingDetails } from "@/lib/booking/schema";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { format } from "@/lib/i18n/format";
+import type { LeadInput } from "@/lib/leads/store";
+import { whatsAppUrl } from "@/lib/utils/whatsapp";
+import type { Service, SiteSettings } from "@/types/contentful";
+import type { EmailBlock, EmailField, EmailTemplate } from "../render";
+
+export interface BookingConfirmationData {
+  lead: LeadInput & { booking: BookingDetails };
+  /** The service in the family's language */
+  service: Pick<Service, "title" | "nextSteps" | "ageGroups"> | null;
+  settings: Pick<SiteSettings, "phone"> | null;
+}
+
+/**
+ * Acknowledgement of a trial lesson request, in the language of the page it
+ * was sent from. Sent with a provisional calendar event.
+ */
+export const bookingConfirmation: EmailTemplate<BookingConfirmationData> = {
+  description: "Confirmare către familie pentru o cerere de lecție de probă, cu eveniment în calendar",
+
+  render({ lead, service, settings }) {
+    const dictionary = getDictionary(lead.locale);
+    const t = dictionary.bookingEmail;
+    const common = dictionary.confirmationEmail;
+    const { booking } = lead;
+
+    // Age group names as the family saw them, falling back to the Romanian ones
+    const ageGroup = booking.ageGroup
+      ? service?.ageGroups?.find((group) => group.id === booking.ageGroup?.id) ?? booking.ageGroup
+      : undefined;
+
+    const nextSteps =
+      service?.nextSteps
+        ?.split("\n")
+        .map((step) => step.trim())
+        .filter(Boolean) ?? [];
+
+    const fields: EmailField[] = [
+      { label: t.service, value: service?.title ?? lead.service ?? "" },
+      ...(ageGroup ? [{ label: t.ageGroup, value: `${ageGroup.name} (${ageGroup.ageRange})` }] : []),
+      ...(booking.child ? [{ label: t.child, value: booking.child.name }] : []),
+      {
+        label: t.days,
+        value: booking.days.map((day) => dictionary.booking.dayOptions[day]).join(", "),
+      },
+      {
+        label: t.times,
+        value: booking.times.map((time) => dictionary.booking.timeOptions[time]).join(", "),
+      },
+    ];
+
+    const blocks: EmailBlock[] = [
+      { type: "heading", text: format(common.greeting, { name: lead.name }) },
+      { type: "paragraph", text: t.intro },
+      { type: "fields", fields },
+      ...(lead.message ? [{ type: "quote" as const, label: t.notes, text: lead.message }] : []),
+      { type: "paragraph", text: t.calendar },
+      {
+        type: "list",
+        title: common.nextSteps,
+        items: nextSteps.length > 0 ? nextSteps : common.defaultNextSteps,
+        ordered: true,
+      },
+    ];
+
+    if (settings?.phone) {
+      blocks.push({
+        type: "button",
+        intro: common.whatsApp,
+        label: common.whatsAppButton,
+        href: whatsAppUrl(settings.phone, dictionary.whatsApp.greeting),
+        color: "whatsApp",
+      });
+    }
+
+    blocks.push({ type: "signature", lines: [common.signOff, common.team] });
+
+    return {
+      subject: t.subject,
+      lang: lead.locale,
+      preheader: format(t.preheader, { name: lead.name }),
+      header: "Micii Campioni",
+      blocks,
+      footer: t.footer,
+    };
+  },
+
+  fixture: {
+    lead: {
+      name: "Ioana Popescu",
+      email: "ioana.popescu@example.com",
+      phone: "0722 123 456",
+      service: "Înot Copii — Preșcolari (3 - 6 ani)",
+      serviceSlug: "inot-copii",
+      message: "Andrei a mai fost la piscină, dar nu știe încă să înoate.",
+      locale: "ro",
+      booking: {
+        ageGroup: { id: "prescolari", name: "Preșcolari", ageRange: "3 - 6 ani" },
+        child: { name: "Andrei", birthDate: "2021-05-14" },
+        days: ["tue", "thu", "sat"],
+        times: ["afternoon", "evening"],
+      },
+    },
+    service: {
+      title: "Înot pentru Copii",
+      nextSteps: [
+        "Vă sunăm în cel mult o zi lucrătoare pentru a confirma ora lecției de probă.",
+        "Aduceți costum de baie, cască, ochelari și un prosop.",
+      ].join("\n"),
+      ageGroups: [],
+    },
+    settings: { phone: "0722 000 000" },
+  },
+};
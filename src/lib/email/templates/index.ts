@@ -0,0 +1,42 @@
+import { renderEmail, type EmailTemplate, type RenderedEmail } from "../render";
+import { adminMagicLink } from "./admin-magic-link";
+import { bookingConfirmation } from "./booking-confirmation";
+import { leadConfirmation } from "./lead-confirmation";
+import { leadNotification } from "./lead-notification";
+
+export { adminMagicLink, bookingConfirmation, leadConfirmation, leadNotification };
+export type { AdminMagicLinkData } from "./admin-magic-link";
+export type { BookingConfirmationData } from "./booking-confirmation";
+export type { LeadConfirmationData } from "./lead-confirmation";
+
+// =============================================================================
+// Previews
+// =============================================================================
+
+export interface EmailPreview {
+  description: string;
+  render(): RenderedEmail;
+}
+
+function preview<Data>(template: EmailTemplate<Data>): EmailPreview {
+  return {
+    description: template.description,
+    render: () => renderEmail(template, template.fixture),
+  };
+}
+
+/**
+ * Every template rendered with its fixture data, keyed by the name used in
+ * the /dev/emails preview route.
+ */
+export const emailPreviews: Record<string, EmailPreview> = {
+  "lead-notification": preview(leadNotification),
+  "lead-confirmation": preview(leadConfirmation),
+  "booking-notification": preview({
+    ...leadNotification,
+    description: "Notificare către club pentru o cerere de programare",
+    fixture: bookingConfirmation.fixture.lead,
+  }),
+  "booking-confirmation": preview(bookingConfirmation),
+  "admin-magic-link": preview(adminMagicLink),
+};
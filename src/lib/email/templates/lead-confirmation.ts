@@ -0,0 +1,108 @@
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { format } from "@/lib/i18n/format";
+import type { LeadInput } from "@/lib/leads/store";
+import { whatsAppUrl } from "@/lib/utils/whatsapp";
+import type { Service, SiteSettings } from "@/types/contentful";
+import type { EmailBlock, EmailTemplate } from "../render";
+
+export interface LeadConfirmationData {
+  lead: LeadInput;
+  service: Pick<Service, "title" | "nextSteps"> | null;
+  settings: Pick<
+    SiteSettings,
+    "phone" | "scheduleWeekdays" | "scheduleSaturday" | "scheduleSunday"
+  > | null;
+}
+
+/**
+ * Acknowledgement to the family, in the language of the page they used, with
+ * next steps for the service they asked about.
+ */
+export const leadConfirmation: EmailTemplate<LeadConfirmationData> = {
+  description: "Confirmare către familie, cu pașii următori și programul clubului",
+
+  render({ lead, service, settings }) {
+    const dictionary = getDictionary(lead.locale);
+    const t = dictionary.confirmationEmail;
+
+    const nextSteps =
+      service?.nextSteps
+        ?.split("\n")
+        .map((step) => step.trim())
+        .filter(Boolean) ?? [];
+
+    const serviceLabel = service?.title ?? lead.service;
+
+    const blocks: EmailBlock[] = [
+      { type: "heading", text: format(t.greeting, { name: lead.name }) },
+      { type: "paragraph", text: t.intro },
+      {
+        type: "fields",
+        fields: serviceLabel ? [{ label: t.service, value: serviceLabel }] : [],
+      },
+      { type: "quote", label: t.summary, text: lead.message },
+      {
+        type: "list",
+        title: t.nextSteps,
+        items: nextSteps.length > 0 ? nextSteps : t.defaultNextSteps,
+        ordered: true,
+      },
+      {
+        type: "list",
+        title: t.schedule,
+        items: [
+          settings?.scheduleWeekdays || dictionary.contact.weekdays,
+          settings?.scheduleSaturday || dictionary.contact.saturday,
+          settings?.scheduleSunday || dictionary.contact.sunday,
+        ],
+      },
+    ];
+
+    if (settings?.phone) {
+      blocks.push({
+        type: "button",
+        intro: t.whatsApp,
+        label: t.whatsAppButton,
+        href: whatsAppUrl(settings.phone, dictionary.whatsApp.greeting),
+        color: "whatsApp",
+      });
+    }
+
+    blocks.push({ type: "signature", lines: [t.signOff, t.team] });
+
+    return {
+      subject: t.subject,
+      lang: lead.locale,
+      preheader: format(t.preheader, { name: lead.name }),
+      header: "Micii Campioni",
+      blocks,
+      footer: t.footer,
+    };
+  },
+
+  fixture: {
+    lead: {
+      name: "Ioana Popescu",
+      email: "ioana.popescu@example.com",
+      phone: "0722 123 456",
+      service: "Înot Bebeluși (0-3 ani)",
+      serviceSlug: "inot-bebelusi",
+      message:
+        "Bună ziua,\nAș dori să înscriu fetița mea de 8 luni la cursurile de înot. Ce zile aveți disponibile?",
+      locale: "ro",
+    },
+    service: {
+      title: "Înot pentru Bebeluși",
+      nextSteps: [
+        "Vă sunăm în cel mult o zi lucrătoare pentru a stabili o ședință de probă.",
+        "Aduceți scutece de apă, un prosop și o jucărie preferată a bebelușului.",
+      ].join("\n"),
+    },
+    settings: {
+      phone: "0722 000 000",
+      scheduleWeekdays: "Luni - Vineri: 9:00 - 20:00",
+      scheduleSaturday: "Sâmbătă: 9:00 - 14:00",
+      scheduleSunday: "Duminică: Închis",
+    },
+  },
+};
@@ -0,0 +1,81 @@
+import { parseDate } from "@/lib/booking/schema";
+import { defaultLocale, localeInfo } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import type { LeadInput } from "@/lib/leads/store";
+import type { EmailField, EmailTemplate } from "../render";
+
+/** Trial lesson details, with the wizard's labels in Romanian. */
+function bookingFields(booking: NonNullable<LeadInput["booking"]>): EmailField[] {
+  const t = getDictionary(defaultLocale).booking;
+  const birthDate = booking.child && parseDate(booking.child.birthDate);
+
+  return [
+    ...(booking.ageGroup
+      ? [{ label: "Grupa", value: `${booking.ageGroup.name} (${booking.ageGroup.ageRange})` }]
+      : []),
+    ...(booking.child
+      ? [
+          {
+            label: "Copil",
+            value: `${booking.child.name}, născut(ă) la ${
+              birthDate?.toLocaleDateString("ro-RO") ?? booking.child.birthDate
+            }`,
+          },
+        ]
+      : []),
+    { label: "Zile preferate", value: booking.days.map((day) => t.dayOptions[day]).join(", ") },
+    { label: "Intervale preferate", value: booking.times.map((time) => t.timeOptions[time]).join(", ") },
+  ];
+}
+
+/**
+ * Staff notification for a new lead or trial lesson request. Staff read it in
+ * Romanian whatever the language of the form.
+ */
+export const leadNotification: EmailTemplate<LeadInput> = {
+  description: "Notificare către club pentru un mesaj nou din formularul de contact",
+
+  render(lead) {
+    const translated = lead.locale !== defaultLocale;
+    const kind = lead.booking ? "Cerere de programare" : "Mesaj nou";
+
+    return {
+      subject: `${translated ? `[${lead.locale.toUpperCase()}] ` : ""}${kind} de la ${lead.name}`,
+      lang: defaultLocale,
+      preheader: `${kind} de la ${lead.name}${lead.service ? ` — ${lead.service}` : ""}`,
+      header: lead.booking ? "Cerere de programare" : "Mesaj nou de pe site",
+      blocks: [
+        {
+          type: "fields",
+          fields: [
+            { label: "Nume", value: lead.name },
+            { label: "Email", value: lead.email, href: `mailto:${lead.email}` },
+            ...(lead.phone ? [{ label: "Telefon", value: lead.phone, href: `tel:${lead.phone}` }] : []),
+            ...(lead.service ? [{ label: "Serviciu", value: lead.service }] : []),
+            ...(lead.booking ? bookingFields(lead.booking) : []),
+            ...(translated ? [{ label: "Limbă", value: localeInfo[lead.locale].label }] : []),
+            ...(lead.spam?.score
+              ? [{ label: `Semnale spam (scor ${lead.spam.score})`, value: lead.spam.reasons.join("\n") }]
+              : []),
+          ],
+        },
+        ...(lead.message
+          ? [{ type: "quote" as const, label: lead.booking ? "Observații" : "Mesaj", text: lead.message }]
+          : []),
+        { type: "button", label: `Răspunde lui ${lead.name}`, href: `mailto:${lead.email}` },
+      ],
+      footer: "Trimis prin formularul de contact — miciicampioni.ro",
+    };
+  },
+
+  fixture: {
+    name: "Ioana Popescu",
+    email: "ioana.popescu@example.com",
+    phone: "0722 123 456",
+    service: "Înot Bebeluși (0-3 ani)",
+    serviceSlug: "inot-bebelusi",
+    message:
+      "Bună ziua,\nAș dori să înscriu fetița mea de 8 luni la cursurile de înot. Ce zile aveți disponibile?",
+    locale: "en",
+  },
+};
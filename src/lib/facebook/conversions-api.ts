@@ -1,13 +1,30 @@
 import crypto from "crypto";
+import {
+  enqueueEvent,
+  listEvents,
+  pruneEvents,
+  updateEvent,
+  type CustomData,
+  type GraphResponse,
+  type OutboxEvent,
+  type ServerEvent,
+} from "./outbox";
 
 // =============================================================================
 // Facebook Conversions API
-// Server-side event tracking for improved accuracy
+// Server-side event tracking for improved accuracy. Events go through a
+// durable outbox (./outbox) and are sent in batches, retried with backoff by
+// a background worker started from src/instrumentation.ts.
 // =============================================================================
 
 const FB_PIXEL_ID = process.env.NEXT_PUBLIC_FB_PIXEL_ID;
 const FB_ACCESS_TOKEN = process.env.FB_CONVERSIONS_API_TOKEN;
-const FB_API_VERSION = "v18.0";
+// Each Graph version is supported for about two years; bump this before it expires
+const FB_API_VERSION = process.env.FB_GRAPH_API_VERSION || "v24.0";
+// Point at /dev/graph to send events to the local stub instead
+const FB_GRAPH_URL = process.env.FB_GRAPH_API_URL || "https://graph.facebook.com";
+// Events sent with a test code show up under Test Events in Events Manager
+const FB_TEST_EVENT_CODE = process.env.FB_TEST_EVENT_CODE;
 
 // =============================================================================
 // Types
@@ -26,24 +43,6 @@ interface UserData {
   fbp?: string; // Facebook browser ID from _fbp cookie
 }
 
-interface CustomData {
-  content_name?: string;
-  content_category?: string;
-  value?: number;
-  currency?: string;
-  service?: string;
-}
-
-interface ServerEvent {
-  event_name: string;
-  event_time: number;
-  event_id: string;
-  event_source_url: string;
-  action_source: "website";
-  user_data: Record<string, string | undefined>;
-  custom_data?: CustomData;
-}
-
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -103,6 +102,10 @@ function prepareUserData(userData: UserData): Record<string, string | undefined>
 // Main Function
 // =============================================================================
 
+/**
+ * Queue an event for the Conversions API. Succeeds once the event is stored;
+ * the background worker sends it with the next batch.
+ */
 export async function sendServerEvent({
   eventName,
   eventSourceUrl,
@@ -143,36 +146,16 @@ export async function sendServerEvent({
   };
 
   try {
-    const response = await fetch(
-      `https://graph.facebook.com/${FB_API_VERSION}/${FB_PIXEL_ID}/events`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          data: [event],
-          access_token: FB_ACCESS_TOKEN,
-        }),
-      }
-    );
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      console.error("[FB CAPI] Error:", result);
-      return { success: false, error: result.error?.message || "Unknown error" };
-    }
-
-    console.log("[FB CAPI] Event sent successfully:", eventName, finalEventId);
-    return { success: true, eventId: finalEventId };
+    await enqueueEvent(event);
   } catch (error) {
-    console.error("[FB CAPI] Failed to send event:", error);
+    console.error("[FB CAPI] Could not queue event:", error);
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error",
     };
   }
+
+  return { success: true, eventId: finalEventId };
 }
 
 // =============================================================================
@@ -230,3 +213,343 @@ export async function trackLead({
     eventId,
   });
 }
+
+export async function trackSchedule({
+  email,
+  phone,
+  name,
+  service,
+  sourceUrl,
+  clientIp,
+  userAgent,
+  fbc,
+  fbp,
+  eventId,
+}: {
+  email: string;
+  phone?: string;
+  name?: string;
+  service?: string;
+  sourceUrl: string;
+  clientIp?: string;
+  userAgent?: string;
+  fbc?: string;
+  fbp?: string;
+  eventId?: string; // Same ID used client-side for deduplication
+}) {
+  // Split name into first/last
+  const nameParts = name?.split(" ") || [];
+  const firstName = nameParts[0];
+  const lastName = nameParts.slice(1).join(" ") || undefined;
+
+  return sendServerEvent({
+    eventName: "Schedule",
+    eventSourceUrl: sourceUrl,
+    userData: {
+      email,
+      phone,
+      firstName,
+      lastName,
+      city: "Bucuresti",
+      country: "RO",
+      clientIpAddress: clientIp,
+      clientUserAgent: userAgent,
+      fbc,
+      fbp,
+    },
+    customData: {
+      content_name: "Trial Lesson Booking",
+      content_category: service || "General Inquiry",
+      service,
+    },
+    eventId,
+  });
+}
+
+/**
+ * An event from a visitor who has not given contact details, e.g. a service
+ * page view. Facebook matches it on the browser cookies, IP and user agent.
+ */
+export async function trackAnonymousEvent({
+  eventName,
+  customData,
+  sourceUrl,
+  clientIp,
+  userAgent,
+  fbc,
+  fbp,
+  eventId,
+}: {
+  eventName: string;
+  customData?: CustomData;
+  sourceUrl: string;
+  clientIp?: string;
+  userAgent?: string;
+  fbc?: string;
+  fbp?: string;
+  eventId?: string; // Same ID used client-side for deduplication
+}) {
+  return sendServerEvent({
+    eventName,
+    eventSourceUrl: sourceUrl,
+    userData: {
+      country: "RO",
+      clientIpAddress: clientIp,
+      clientUserAgent: userAgent,
+      fbc,
+      fbp,
+    },
+    customData,
+    eventId,
+  });
+}
+
+// =============================================================================
+// Batch Delivery
+// =============================================================================
+
+const BATCH_SIZE = 1000; // The most the Graph API takes per request
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 60 * 1000; // 1 minute, then 4, 16, 64 minutes...
+const MAX_DELAY_MS = 12 * 60 * 60 * 1000; // 12 hours
+// Facebook rejects events that happened longer ago than this
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Graph error codes for throttling: app, user, API and call-rate limits
+const RATE_LIMIT_CODES = [4, 17, 32, 613];
+// "Invalid parameter", what one malformed event makes the whole batch fail
+// with; other errors (an expired token, a wrong pixel ID, missing
+// permissions) fail any batch alike
+const INVALID_PARAMETER_CODE = 100;
+// ...except this subcode, for a pixel ID that does not exist
+const UNKNOWN_OBJECT_SUBCODE = 33;
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 4 ** (attempts - 1), MAX_DELAY_MS);
+}
+
+/**
+ * Post events in one request. Never throws. `invalidEvent` is set when the
+ * request failed on the data of some event rather than on the request itself.
+ */
+async function postBatch(
+  events: ServerEvent[]
+): Promise<{ response: GraphResponse; retryable: boolean; invalidEvent?: boolean }> {
+  try {
+    const response = await fetch(`${FB_GRAPH_URL}/${FB_API_VERSION}/${FB_PIXEL_ID}/events`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        data: events,
+        access_token: FB_ACCESS_TOKEN,
+        ...(FB_TEST_EVENT_CODE && { test_event_code: FB_TEST_EVENT_CODE }),
+      }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    if (response.ok) {
+      return {
+        response: {
+          status: response.status,
+          eventsReceived: result.events_received,
+          fbtraceId: result.fbtrace_id,
+          messages: result.messages,
+        },
+        retryable: false,
+      };
+    }
+
+    const error = result.error ?? {};
+    return {
+      response: {
+        status: response.status,
+        fbtraceId: error.fbtrace_id,
+        error: error.message || `HTTP ${response.status}`,
+      },
+      retryable:
+        response.status >= 500 ||
+        response.status === 429 ||
+        error.is_transient === true ||
+        RATE_LIMIT_CODES.includes(error.code),
+      invalidEvent:
+        error.code === INVALID_PARAMETER_CODE && error.error_subcode !== UNKNOWN_OBJECT_SUBCODE,
+    };
+  } catch (error) {
+    return {
+      response: { status: 0, error: error instanceof Error ? error.message : "Unknown error" },
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Send stored events and record the outcome on each. One invalid event makes
+ * Facebook reject the whole request, so a batch rejected for its data is split
+ * in halves until the culprit is alone. Any other rejection fails the batch.
+ */
+async function sendBatch(entries: OutboxEvent[]): Promise<{ sent: number; failed: number }> {
+  const { response, retryable, invalidEvent } = await postBatch(
+    entries.map((entry) => entry.event)
+  );
+
+  if (!response.error) {
+    const sentAt = new Date().toISOString();
+    await Promise.all(
+      entries.map((entry) =>
+        updateEvent(entry.id, {
+          status: "sent",
+          attempts: entry.attempts + 1,
+          sentAt,
+          response,
+          lastError: undefined,
+          nextAttemptAt: undefined,
+        })
+      )
+    );
+    console.log(
+      `[FB CAPI] Sent ${entries.length} event(s)${FB_TEST_EVENT_CODE ? " as test events" : ""}:`,
+      response.fbtraceId
+    );
+    return { sent: entries.length, failed: 0 };
+  }
+
+  if (!retryable && invalidEvent && entries.length > 1) {
+    const half = Math.ceil(entries.length / 2);
+    const first = await sendBatch(entries.slice(0, half));
+    const second = await sendBatch(entries.slice(half));
+    return { sent: first.sent + second.sent, failed: first.failed + second.failed };
+  }
+
+  console.error(
+    `[FB CAPI] Batch of ${entries.length} event(s) failed${retryable ? ", will retry" : ""}:`,
+    response.error
+  );
+
+  let failed = 0;
+  await Promise.all(
+    entries.map((entry) => {
+      const attempts = entry.attempts + 1;
+      const exhausted = !retryable || attempts >= MAX_ATTEMPTS;
+      if (exhausted) failed++;
+
+      return updateEvent(entry.id, {
+        status: exhausted ? "failed" : "pending",
+        attempts,
+        response,
+        lastError: response.error,
+        nextAttemptAt: exhausted
+          ? undefined
+          : new Date(Date.now() + retryDelay(attempts)).toISOString(),
+      });
+    })
+  );
+  return { sent: 0, failed };
+}
+
+interface FlushResult {
+  sent: number;
+  failed: number;
+}
+
+async function flushDue(): Promise<FlushResult> {
+  const result: FlushResult = { sent: 0, failed: 0 };
+  if (!FB_PIXEL_ID || !FB_ACCESS_TOKEN) return result;
+
+  const now = Date.now();
+  const due: OutboxEvent[] = [];
+
+  for (const entry of await listEvents("pending")) {
+    if (entry.nextAttemptAt && Date.parse(entry.nextAttemptAt) > now) continue;
+
+    if (now - entry.event.event_time * 1000 > MAX_EVENT_AGE_MS) {
+      await updateEvent(entry.id, {
+        status: "failed",
+        lastError: "Older than Facebook accepts",
+        nextAttemptAt: undefined,
+      });
+      result.failed++;
+      continue;
+    }
+
+    due.push(entry);
+  }
+
+  for (let i = 0; i < due.length; i += BATCH_SIZE) {
+    const batch = await sendBatch(due.slice(i, i + BATCH_SIZE));
+    result.sent += batch.sent;
+    result.failed += batch.failed;
+  }
+
+  return result;
+}
+
+let flushing: Promise<FlushResult> | null = null;
+let flushAgain = false;
+
+/**
+ * Send every pending event that is due. Calls made while a flush is running
+ * wait for it and one more pass, so events queued meanwhile go out together
+ * in the next batch instead of one request each.
+ */
+export function flushOutbox(): Promise<FlushResult> {
+  if (flushing) {
+    flushAgain = true;
+    return flushing;
+  }
+
+  flushing = (async () => {
+    const total: FlushResult = { sent: 0, failed: 0 };
+    do {
+      flushAgain = false;
+      try {
+        const { sent, failed } = await flushDue();
+        total.sent += sent;
+        total.failed += failed;
+      } catch (error) {
+        console.error("[FB CAPI] Outbox flush failed:", error);
+      }
+    } while (flushAgain);
+    return total;
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
+
+// =============================================================================
+// Background Worker
+// =============================================================================
+
+const WORKER_INTERVAL_MS = 30 * 1000;
+// Sent and failed events are kept this long, then deleted
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+let worker: ReturnType<typeof setInterval> | null = null;
+let lastPrunedAt = 0;
+
+/**
+ * Send queued events and due retries, and prune old events, in this process.
+ * Idempotent; the timer does not keep the process alive on shutdown.
+ */
+export function startOutboxWorker(): void {
+  if (worker) return;
+
+  worker = setInterval(async () => {
+    await flushOutbox();
+
+    if (Date.now() - lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      lastPrunedAt = Date.now();
+      try {
+        const pruned = await pruneEvents(new Date(Date.now() - RETENTION_MS));
+        if (pruned > 0) console.log(`[FB CAPI] Pruned ${pruned} old outbox event(s)`);
+      } catch (error) {
+        console.error("[FB CAPI] Outbox prune failed:", error);
+      }
+    }
+  }, WORKER_INTERVAL_MS);
+  worker.unref();
+}
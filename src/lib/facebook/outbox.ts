@@ -0,0 +1,186 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+// =============================================================================
+// Conversions API Outbox
+// Server events persisted to disk as one JSON file per event before they are
+// sent, so a Graph API outage or a restart never loses a conversion. Events
+// waiting to be sent live in pending/; once sent or failed they move to done/,
+// where they are kept for a while with the Graph response, for debugging.
+// =============================================================================
+
+const outboxDir = process.env.CAPI_OUTBOX_DIR || join(process.cwd(), ".data", "capi-outbox");
+const pendingDir = join(outboxDir, "pending");
+const doneDir = join(outboxDir, "done");
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CustomData {
+  content_name?: string;
+  content_category?: string;
+  content_ids?: string[];
+  value?: number;
+  currency?: string;
+  service?: string;
+  method?: string; // How a visitor got in touch: phone, email or whatsapp
+}
+
+/** An event in the shape the Graph API expects */
+export interface ServerEvent {
+  event_name: string;
+  event_time: number;
+  event_id: string;
+  event_source_url: string;
+  action_source: "website";
+  user_data: Record<string, string | undefined>;
+  custom_data?: CustomData;
+}
+
+/**
+ * - `pending`: waiting to be sent, or for a retry while `nextAttemptAt` is set
+ * - `sent`: accepted by the Graph API
+ * - `failed`: rejected, or retries exhausted; never sent again
+ */
+export type OutboxStatus = "pending" | "sent" | "failed";
+
+/** What the Graph API answered for the batch an event was sent in */
+export interface GraphResponse {
+  status: number;
+  eventsReceived?: number;
+  fbtraceId?: string;
+  messages?: string[];
+  error?: string;
+}
+
+export interface OutboxEvent {
+  id: string;
+  /** Sent as is; Facebook deduplicates on its `event_id` */
+  event: ServerEvent;
+  status: OutboxStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Send attempts so far */
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  sentAt?: string;
+  response?: GraphResponse;
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+function statusDir(status: OutboxStatus): string {
+  return status === "pending" ? pendingDir : doneDir;
+}
+
+function eventFile(dir: string, id: string): string {
+  return join(dir, `${id}.json`);
+}
+
+async function writeEvent(entry: OutboxEvent): Promise<void> {
+  const dir = statusDir(entry.status);
+  const file = eventFile(dir, entry.id);
+  // Write then rename, so a crash never leaves a truncated record behind
+  await mkdir(dir, { recursive: true });
+  await writeFile(`${file}.tmp`, JSON.stringify(entry, null, 2));
+  await rename(`${file}.tmp`, file);
+
+  // A finished event leaves pending/ only once its done/ record is in place
+  if (entry.status !== "pending") {
+    await rm(eventFile(pendingDir, entry.id), { force: true });
+  }
+}
+
+async function readEvent(file: string): Promise<OutboxEvent | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as OutboxEvent;
+  } catch {
+    return null;
+  }
+}
+
+/** The events stored in one directory, in no particular order. */
+async function readDir(dir: string): Promise<OutboxEvent[]> {
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const entries = await Promise.all(
+    files.filter((file) => file.endsWith(".json")).map((file) => readEvent(join(dir, file)))
+  );
+  return entries.filter((entry): entry is OutboxEvent => entry !== null);
+}
+
+/**
+ * Store an event for sending. Errors propagate, as with leads: the caller
+ * has to know the event was not kept.
+ */
+export async function enqueueEvent(event: ServerEvent): Promise<OutboxEvent> {
+  const now = new Date().toISOString();
+  const entry: OutboxEvent = {
+    id: randomUUID(),
+    event,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+    attempts: 0,
+  };
+
+  await writeEvent(entry);
+  return entry;
+}
+
+export async function getEvent(id: string): Promise<OutboxEvent | null> {
+  return (
+    (await readEvent(eventFile(pendingDir, id))) ?? (await readEvent(eventFile(doneDir, id)))
+  );
+}
+
+/**
+ * Apply changes to a stored event. `undefined` values clear a field.
+ */
+export async function updateEvent(
+  id: string,
+  changes: Partial<Omit<OutboxEvent, "id" | "event" | "createdAt">>
+): Promise<OutboxEvent | null> {
+  const entry = await getEvent(id);
+  if (!entry) return null;
+
+  const updated: OutboxEvent = { ...entry, ...changes, updatedAt: new Date().toISOString() };
+  await writeEvent(updated);
+  return updated;
+}
+
+/**
+ * Stored events, oldest first, optionally filtered by status. Listing pending
+ * events reads only pending/, however many finished ones are kept.
+ */
+export async function listEvents(status?: OutboxStatus): Promise<OutboxEvent[]> {
+  const dirs = status ? [statusDir(status)] : [pendingDir, doneDir];
+  const entries = (await Promise.all(dirs.map(readDir))).flat();
+
+  return entries
+    .filter((entry) => !status || entry.status === status)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Delete sent and failed events last updated before a date.
+ * Returns how many were removed.
+ */
+export async function pruneEvents(before: Date): Promise<number> {
+  const stale = (await readDir(doneDir)).filter(
+    (entry) => entry.updatedAt < before.toISOString()
+  );
+
+  await Promise.all(stale.map((entry) => rm(eventFile(doneDir, entry.id), { force: true })));
+  return stale.length;
+}
@@ -0,0 +1,295 @@
+import crypto from "crypto";
+import { consentModeState, hasConsent, type Consent } from "@/lib/consent";
+import { normalizeUserData, splitName, type NormalizedUserData } from "./user-data";
+
+// =============================================================================
+// Google Server-Side Conversions
+// The server-side counterpart of gtag, which ad blockers often stop: leads go
+// to GA4 through the Measurement Protocol and, for visits from an ad, to
+// Google Ads as click conversions with enhanced conversion data. Point the
+// URLs below at /dev/google to use the local stand-in instead.
+// =============================================================================
+
+// GA4 Measurement Protocol
+const GA_MEASUREMENT_ID = process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID || "G-0KMB46E5XF";
+const GA_API_SECRET = process.env.GA4_API_SECRET;
+const GA_COLLECT_URL = process.env.GA4_MP_URL || "https://www.google-analytics.com/mp/collect";
+
+// Google Ads API
+const ADS_API_URL = process.env.GOOGLE_ADS_API_URL || "https://googleads.googleapis.com";
+const ADS_API_VERSION = process.env.GOOGLE_ADS_API_VERSION || "v21";
+const ADS_TOKEN_URL = process.env.GOOGLE_OAUTH_TOKEN_URL || "https://oauth2.googleapis.com/token";
+const ADS_DEVELOPER_TOKEN = process.env.GOOGLE_ADS_DEVELOPER_TOKEN;
+const ADS_CLIENT_ID = process.env.GOOGLE_ADS_CLIENT_ID;
+const ADS_CLIENT_SECRET = process.env.GOOGLE_ADS_CLIENT_SECRET;
+const ADS_REFRESH_TOKEN = process.env.GOOGLE_ADS_REFRESH_TOKEN;
+// Digits only, e.g. 1234567890; the login customer is the manager account, if any
+const ADS_CUSTOMER_ID = process.env.GOOGLE_ADS_CUSTOMER_ID?.replace(/\D/g, "");
+const ADS_LOGIN_CUSTOMER_ID = process.env.GOOGLE_ADS_LOGIN_CUSTOMER_ID?.replace(/\D/g, "");
+// Conversion action IDs; bookings count as leads unless they have their own
+const ADS_LEAD_ACTION_ID = process.env.GOOGLE_ADS_LEAD_CONVERSION_ACTION_ID;
+const ADS_BOOKING_ACTION_ID = process.env.GOOGLE_ADS_BOOKING_CONVERSION_ACTION_ID || ADS_LEAD_ACTION_ID;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Which form produced the lead */
+export type GoogleLeadSource = "contact" | "booking";
+
+interface GoogleLead {
+  source: GoogleLeadSource;
+  /** What the visitor agreed to; GA4 needs analytics, anything personal marketing */
+  consent: Consent | null;
+  email: string;
+  phone?: string;
+  name?: string;
+  service?: string;
+  sourceUrl: string;
+  /** GA4 client ID from the _ga cookie */
+  clientId?: string;
+  /** Google Ads click ID of the visit */
+  gclid?: string;
+  userAgent?: string;
+  /** Same ID as the browser conversion, for deduplication */
+  eventId?: string;
+}
+
+type Result = { success: boolean; skipped?: string; error?: string };
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function hashData(data: string): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function normalizedLead(lead: GoogleLead): NormalizedUserData {
+  return normalizeUserData({
+    email: lead.email,
+    phone: lead.phone,
+    ...splitName(lead.name),
+    city: "Bucuresti",
+    country: "RO",
+  });
+}
+
+/**
+ * The GA4 client ID from a request's _ga cookie ("GA1.1.<id>.<timestamp>"),
+ * which ties a server event to the visitor's browser session.
+ */
+export function gaClientId(request: Pick<Request, "headers">): string | undefined {
+  const value = request.headers
+    .get("cookie")
+    ?.split(/;\s*/)
+    .find((pair) => pair.startsWith("_ga="))
+    ?.slice("_ga=".length);
+  const parts = value?.split(".");
+  return parts && parts.length >= 4 ? parts.slice(2).join(".") : undefined;
+}
+
+// =============================================================================
+// GA4 Measurement Protocol
+// =============================================================================
+
+async function sendGenerateLead(lead: GoogleLead): Promise<Result> {
+  if (!GA_API_SECRET) {
+    return { success: false, skipped: "No GA4 API secret configured" };
+  }
+  if (!hasConsent(lead.consent, "analytics")) {
+    return { success: false, skipped: "No analytics consent" };
+  }
+
+  const marketing = hasConsent(lead.consent, "marketing");
+  const { ad_user_data, ad_personalization } = consentModeState(lead.consent);
+  const user = normalizedLead(lead);
+
+  const body = {
+    // Without the _ga cookie the lead still counts, as a new visitor
+    client_id: lead.clientId || `${crypto.randomInt(1e9)}.${Math.floor(Date.now() / 1000)}`,
+    consent: { ad_user_data, ad_personalization },
+    events: [
+      {
+        name: "generate_lead",
+        params: {
+          lead_source: lead.source,
+          service: lead.service,
+          transaction_id: lead.eventId,
+          page_location: lead.sourceUrl,
+          currency: "RON",
+          value: 0,
+        },
+      },
+    ],
+    // User-provided data is shared with Google Ads, so it needs marketing consent
+    ...(marketing && {
+      user_data: {
+        sha256_email_address: user.email && [hashData(user.email)],
+        sha256_phone_number: user.phone_number && [hashData(user.phone_number)],
+        address: [
+          {
+            sha256_first_name: user.first_name && hashData(user.first_name),
+            sha256_last_name: user.last_name && hashData(user.last_name),
+            city: user.city,
+            country: user.country,
+          },
+        ],
+      },
+    }),
+  };
+
+  const url = `${GA_COLLECT_URL}?measurement_id=${encodeURIComponent(GA_MEASUREMENT_ID)}&api_secret=${encodeURIComponent(GA_API_SECRET)}`;
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(lead.userAgent && { "User-Agent": lead.userAgent }),
+      },
+      body: JSON.stringify(body),
+    });
+
+    // The Measurement Protocol answers 2xx even for invalid events; use the
+    // /debug/mp/collect endpoint to validate payloads
+    if (!response.ok) {
+      return { success: false, error: `HTTP ${response.status}` };
+    }
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+// =============================================================================
+// Google Ads Enhanced Conversions
+// =============================================================================
+
+let accessToken: { value: string; expiresAt: number } | null = null;
+
+/** An OAuth access token for the Google Ads API, cached until shortly before it expires. */
+async function adsAccessToken(): Promise<string> {
+  if (accessToken && accessToken.expiresAt > Date.now()) {
+    return accessToken.value;
+  }
+
+  const response = await fetch(ADS_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "refresh_token",
+      client_id: ADS_CLIENT_ID ?? "",
+      client_secret: ADS_CLIENT_SECRET ?? "",
+      refresh_token: ADS_REFRESH_TOKEN ?? "",
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.access_token) {
+    throw new Error(`OAuth token request failed: ${result.error_description || response.status}`);
+  }
+
+  accessToken = {
+    value: result.access_token,
+    expiresAt: Date.now() + (Number(result.expires_in) || 3600) * 1000 - 60 * 1000,
+  };
+  return accessToken.value;
+}
+
+/** "yyyy-mm-dd hh:mm:ss+00:00", the date format the Google Ads API expects */
+function adsDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace("T", " ")}+00:00`;
+}
+
+async function uploadClickConversion(lead: GoogleLead): Promise<Result> {
+  const actionId = lead.source === "booking" ? ADS_BOOKING_ACTION_ID : ADS_LEAD_ACTION_ID;
+
+  if (!ADS_DEVELOPER_TOKEN || !ADS_REFRESH_TOKEN || !ADS_CUSTOMER_ID || !actionId) {
+    return { success: false, skipped: "Google Ads API not configured" };
+  }
+  if (!hasConsent(lead.consent, "marketing")) {
+    return { success: false, skipped: "No marketing consent" };
+  }
+  if (!lead.gclid) {
+    return { success: false, skipped: "No gclid, not a visit from an ad" };
+  }
+
+  const user = normalizedLead(lead);
+  const conversion = {
+    gclid: lead.gclid,
+    conversionAction: `customers/${ADS_CUSTOMER_ID}/conversionActions/${actionId}`,
+    conversionDateTime: adsDateTime(new Date()),
+    // Matches the browser conversion's transaction_id, so Google counts one
+    orderId: lead.eventId,
+    userIdentifiers: [
+      user.email && { hashedEmail: hashData(user.email) },
+      user.phone_number && { hashedPhoneNumber: hashData(user.phone_number) },
+      {
+        addressInfo: {
+          hashedFirstName: user.first_name && hashData(user.first_name),
+          hashedLastName: user.last_name && hashData(user.last_name),
+          city: user.city,
+          countryCode: user.country,
+        },
+      },
+    ].filter(Boolean),
+    consent: { adUserData: "GRANTED", adPersonalization: "GRANTED" },
+  };
+
+  try {
+    const response = await fetch(
+      `${ADS_API_URL}/${ADS_API_VERSION}/customers/${ADS_CUSTOMER_ID}:uploadClickConversions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${await adsAccessToken()}`,
+          "developer-token": ADS_DEVELOPER_TOKEN,
+          ...(ADS_LOGIN_CUSTOMER_ID && { "login-customer-id": ADS_LOGIN_CUSTOMER_ID }),
+        },
+        body: JSON.stringify({ conversions: [conversion], partialFailure: true }),
+      }
+    );
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { success: false, error: result.error?.message || `HTTP ${response.status}` };
+    }
+    // With partial failure on, a rejected conversion still answers 200
+    if (result.partialFailureError) {
+      return { success: false, error: result.partialFailureError.message };
+    }
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+// =============================================================================
+// Convenience Functions
+// =============================================================================
+
+/**
+ * Report a lead to GA4 and Google Ads, each as far as the visitor's consent
+ * and the configuration allow. Never throws.
+ */
+export async function trackGoogleLead(lead: GoogleLead) {
+  const [analytics, ads] = await Promise.all([
+    sendGenerateLead(lead),
+    uploadClickConversion(lead),
+  ]);
+
+  for (const [destination, result] of [
+    ["GA4", analytics],
+    ["Google Ads", ads],
+  ] as const) {
+    if (result.error) {
+      console.error(`[Google] ${destination} ${lead.source} lead failed:`, result.error);
+    } else if (result.success) {
+      console.log(`[Google] ${destination} ${lead.source} lead sent:`, lead.eventId);
+    }
+  }
+
+  return { analytics, ads };
+}
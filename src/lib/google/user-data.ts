@@ -0,0 +1,92 @@
+// =============================================================================
+// Enhanced Conversion Data
+// Contact details normalised the way Google expects, shared by gtag in the
+// browser and the server-side Measurement Protocol and Google Ads uploads so
+// both sides hash exactly the same values.
+// =============================================================================
+
+export interface EnhancedConversionData {
+  email?: string;
+  phone?: string;
+  firstName?: string;
+  lastName?: string;
+  street?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+/** Normalised user data, keyed like gtag's `user_data` */
+export interface NormalizedUserData {
+  email?: string;
+  phone_number?: string;
+  first_name?: string;
+  last_name?: string;
+  street?: string;
+  city?: string;
+  region?: string;
+  postal_code?: string;
+  country?: string;
+}
+
+/**
+ * A phone number in E.164, e.g. "0722 123 456" → "+40722123456". Numbers
+ * with a country code ("+44 20 …", "0044 20 …") keep it; national ones are
+ * taken as Romanian.
+ */
+export function normalizePhone(phone: string): string {
+  let digits = phone.replace(/\D/g, "");
+  if (phone.trim().startsWith("+")) {
+    return "+" + digits;
+  }
+  if (digits.startsWith("00")) {
+    return "+" + digits.slice(2);
+  }
+  if (digits.startsWith("0")) {
+    digits = "40" + digits.slice(1);
+  } else if (!digits.startsWith("40")) {
+    digits = "40" + digits;
+  }
+  return "+" + digits;
+}
+
+export function normalizeUserData(data: EnhancedConversionData): NormalizedUserData {
+  const userData: NormalizedUserData = {};
+
+  if (data.email) {
+    userData.email = data.email.toLowerCase().trim();
+  }
+  if (data.phone) {
+    userData.phone_number = normalizePhone(data.phone);
+  }
+  if (data.firstName) {
+    userData.first_name = data.firstName.toLowerCase().trim();
+  }
+  if (data.lastName) {
+    userData.last_name = data.lastName.toLowerCase().trim();
+  }
+  if (data.street) {
+    userData.street = data.street.toLowerCase().trim();
+  }
+  if (data.city) {
+    userData.city = data.city.toLowerCase().trim();
+  }
+  if (data.region) {
+    userData.region = data.region.toLowerCase().trim();
+  }
+  if (data.postalCode) {
+    userData.postal_code = data.postalCode.trim();
+  }
+  if (data.country) {
+    userData.country = data.country.toUpperCase().trim();
+  }
+
+  return userData;
+}
+
+/** Split a full name for enhanced conversions: first word, then the rest. */
+export function splitName(name = ""): { firstName: string; lastName: string } {
+  const [firstName = "", ...rest] = name.trim().split(/\s+/);
+  return { firstName, lastName: rest.join(" ") };
+}
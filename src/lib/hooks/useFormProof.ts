@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { solveChallenge } from "@/lib/spam/proof-of-work";
+
+export interface FormProof {
+  formToken: string;
+  proof: number;
+}
+
+/**
+ * Fetches an anti-spam token for the contact form and solves its proof of
+ * work in the background while the visitor types. `takeProof()` waits for the
+ * solution and starts on the next one, since each token is accepted once.
+ * Resolves to null if the token could not be fetched; the server then scores
+ * the submission without it.
+ */
+export function useFormProof() {
+  const pending = useRef<Promise<FormProof | null> | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  const prepare = useCallback(() => {
+    controller.current?.abort();
+    const { signal } = (controller.current = new AbortController());
+
+    pending.current = (async () => {
+      const response = await fetch("/api/contact/token", { cache: "no-store", signal });
+      if (!response.ok) return null;
+
+      const { token, difficulty } = (await response.json()) as { token: string; difficulty: number };
+      const proof = await solveChallenge(token, difficulty, signal);
+      return { formToken: token, proof };
+    })().catch(() => null);
+  }, []);
+
+  useEffect(() => {
+    prepare();
+    return () => controller.current?.abort();
+  }, [prepare]);
+
+  return useCallback(async (): Promise<FormProof | null> => {
+    const proof = await pending.current;
+    prepare();
+    return proof;
+  }, [prepare]);
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { createContext, useContext, ReactNode } from "react";
+import { defaultLocale, type Locale } from "./config";
+import { ro, type Dictionary } from "./dictionaries/ro";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface LocaleContextType {
+  locale: Locale;
+  dictionary: Dictionary;
+}
+
+interface LocaleProviderProps {
+  children: ReactNode;
+  locale: Locale;
+  dictionary: Dictionary;
+}
+
+// =============================================================================
+// Context
+// =============================================================================
+
+const LocaleContext = createContext<LocaleContextType>({
+  locale: defaultLocale,
+  dictionary: ro,
+});
+
+export function useLocale() {
+  return useContext(LocaleContext);
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+/**
+ * Makes the current locale and its UI strings available to client components.
+ * The layout passes the resolved dictionary in.
+ */
+export function LocaleProvider({ children, locale, dictionary }: LocaleProviderProps) {
+  return (
+    <LocaleContext.Provider value={{ locale, dictionary }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
@@ -0,0 +1,55 @@
+// =============================================================================
+// Locales
+// =============================================================================
+
+export const locales = ["ro", "en"] as const;
+
+export type Locale = (typeof locales)[number];
+
+/** Served without a path prefix; every other locale lives under /{locale}. */
+export const defaultLocale: Locale = "ro";
+
+export interface LocaleInfo {
+  /** Name shown in the language switcher, in its own language. */
+  label: string;
+  /** BCP 47 tag for `Intl` date and number formatting. */
+  intl: string;
+  /** Open Graph locale. */
+  ogLocale: string;
+}
+
+export const localeInfo: Record<Locale, LocaleInfo> = {
+  ro: { label: "Română", intl: "ro-RO", ogLocale: "ro_RO" },
+  en: { label: "English", intl: "en-GB", ogLocale: "en_GB" },
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return locales.includes(value as Locale);
+}
+
+/**
+ * Narrow a route param to a supported locale, falling back to Romanian.
+ */
+export function resolveLocale(value: string | undefined): Locale {
+  return isLocale(value) ? value : defaultLocale;
+}
+
+// =============================================================================
+// Contentful Locales
+// =============================================================================
+
+// The space's default locale holds the Romanian content, so Romanian queries
+// omit `locale`. The English locale must fall back to the default locale in
+// Contentful, so untranslated fields come back in Romanian.
+const contentfulLocales: Record<Locale, string | undefined> = {
+  ro: undefined,
+  en: process.env.CONTENTFUL_LOCALE_EN || "en",
+};
+
+/**
+ * The Contentful locale code to query for a site locale, or undefined for the
+ * space's default locale.
+ */
+export function contentfulLocale(locale: Locale): string | undefined {
+  return contentfulLocales[locale];
+}
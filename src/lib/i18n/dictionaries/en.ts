@@ -0,0 +1,600 @@
+import type { DictionaryOverrides } from "../dictionary";
+
+// =============================================================================
+// English UI Strings
+// Keys missing here fall back to the Romanian dictionary.
+// =============================================================================
+
+export const en: DictionaryOverrides = {
+  meta: {
+    title: "Micii Campioni - The first aquatic education club in Romania",
+    description:
+      "Micii Campioni Club - aquatic education for babies and children, the Sultana Method and Lamaze prenatal classes since 2001. Founded by Georgeta Sultana.",
+    ogDescription:
+      "Aquatic education for babies and children, the Sultana Method and Lamaze prenatal classes since 2001.",
+    keywords: [
+      "aquatic education",
+      "baby swimming",
+      "Sultana Method",
+      "Micii Campioni",
+      "swimming lessons for children",
+      "Bucharest",
+      "Lamaze",
+      "prenatal classes",
+      "paediatric physiotherapy",
+    ],
+    organizationDescription:
+      "The first aquatic education club in Romania, dedicated to the harmonious development of children through water.",
+    localBusinessDescription:
+      "The first aquatic education club in Romania - swimming lessons for babies and children.",
+    pageNotFound: "Page not found",
+  },
+
+  common: {
+    home: "Home",
+    courses: "Courses",
+    gallery: "Gallery",
+    contact: "Contact",
+    contactUs: "Contact us",
+    readMore: "Read more",
+    viewCourses: "View Courses",
+    bookLesson: "Book a Lesson",
+    skipToContent: "Skip to main content",
+    loading: "Loading...",
+    photos: "{count} photos",
+  },
+
+  header: {
+    tagline: "The First Aquatic Education Club in Romania",
+    openMenu: "Open menu",
+    closeMenu: "Close menu",
+    language: "Language",
+  },
+
+  footer: {
+    tagline:
+      "The first aquatic education club in Romania, offering swimming lessons for children of all ages.",
+    navigation: "Navigation",
+    about: "About",
+    aboutUs: "About Us",
+    concept: "Our Concept",
+    gallery: "Photo Gallery",
+    association: "The Association",
+    terms: "Terms and Conditions",
+    privacy: "Privacy Policy",
+    cookieSettings: "Cookie settings",
+    rights: "© {year} Micii Campioni. All rights reserved.",
+  },
+
+  preview: {
+    label: "Preview",
+    exit: "Exit preview",
+  },
+
+  whatsApp: {
+    greeting: "Hello! I would like more information.",
+    label: "Send a WhatsApp message",
+  },
+
+  consent: {
+    bannerLabel: "Cookie consent",
+    bannerTitle: "We use cookies",
+    bannerMessage:
+      "We use cookies the site needs to work and, only with your consent, analytics and marketing cookies (Google Analytics, Google Ads, Facebook) to understand how the site is used and to measure our campaigns.",
+    privacyLink: "Learn more",
+    acceptAll: "Accept all",
+    rejectAll: "Necessary only",
+    customize: "Customise",
+    preferencesTitle: "Cookie settings",
+    preferencesDescription:
+      "Choose which cookies you accept. You can change your choice at any time from the \"Cookie settings\" link at the bottom of the page.",
+    categories: {
+      necessary: {
+        title: "Necessary",
+        description:
+          "Remember your theme and cookie choice and protect our forms against spam. They cannot be turned off.",
+      },
+      analytics: {
+        title: "Analytics",
+        description:
+          "Google Analytics shows us, anonymously and in aggregate, which pages are visited so we can improve the site.",
+      },
+      marketing: {
+        title: "Marketing",
+        description:
+          "Facebook Pixel, the Facebook Conversions API and Google Ads measure how our ads perform and let us show you relevant ads. We also remember the campaign or site that brought you here, to know which ads lead to sign-ups.",
+      },
+    },
+    alwaysOn: "Always on",
+    save: "Save preferences",
+  },
+
+  notFound: {
+    title: "Page not found",
+    description: "Sorry, the page you are looking for does not exist or has been moved.",
+    home: "Back to Home",
+    suggestions: "You might be interested in:",
+    about: "About Us",
+  },
+
+  error: {
+    title: "Oops! Something went wrong",
+    description:
+      "Sorry, an unexpected error occurred. Please try again or go back to the home page.",
+    retry: "Try again",
+    home: "Home page",
+  },
+
+  // ===========================================================================
+  // Sections and Content Components
+  // ===========================================================================
+
+  hero: {
+    badge: "The First Aquatic Education Club in Romania",
+    title: "We teach children to swim with joy and confidence",
+    subtitle:
+      "For more than 15 years we have been training little water champions with certified methods and dedicated instructors.",
+    discover: "Discover the Courses",
+  },
+
+  about: {
+    title: "Why Choose Micii Campioni?",
+    subtitle: "About Us",
+    description:
+      "We are the first aquatic education club in Romania, dedicated to teaching children in a safe and friendly environment. For more than 15 years we have been turning fear of water into a passion for swimming.",
+    features: [
+      "Internationally certified methods",
+      "Highly experienced instructors",
+      "Small groups for maximum attention",
+      "Flexible schedule adapted to your needs",
+      "Modern and safe equipment",
+      "Friendly and fun environment",
+    ],
+    cta: "Learn More",
+    aquaticEducation: "Aquatic Education",
+    yearsBadge: "Years of Experience",
+  },
+
+  stats: {
+    years: {
+      label: "Years of Experience",
+      description: "For more than 25 years we have been training little aquatic education champions",
+    },
+    champions: {
+      label: "Little Champions",
+      description: "Thousands of children have graduated from our aquatic education courses",
+    },
+    instructors: {
+      label: "Certified Instructors",
+      description:
+        "Instructors certified in aquatic education for children. Our team follows the only accredited courses in the field (COR code: 342215)",
+    },
+    satisfaction: {
+      label: "Happy Children & Parents",
+      description: "We constantly refine our aquatic education methods and exercises",
+    },
+  },
+
+  servicesSection: {
+    title: "Our Courses",
+    subtitle: "What We Offer",
+    description:
+      "Discover our aquatic education programmes, created for every stage of your child's development.",
+    learnMore: "Learn more",
+    other: "Other Courses",
+  },
+
+  testimonials: {
+    title: "What Parents Say",
+    subtitle: "Testimonials",
+    description:
+      "Discover the experiences of families who chose Micii Campioni for their children's aquatic education.",
+  },
+
+  cta: {
+    title: "Ready to start the aquatic adventure?",
+    description: "Enrol your child today and give them the chance to become a little water champion.",
+    button: "Book a lesson",
+  },
+
+  partners: {
+    title: "Our Partners",
+    partners: "Partners",
+    sponsors: "Sponsors",
+    endorsements: "Recommendations and Endorsements",
+  },
+
+  team: {
+    certifications: "Certifications and Qualifications",
+  },
+
+  timeline: {
+    readMore: "Read more",
+    showLess: "Show less",
+  },
+
+  imageGallery: {
+    label: "Image gallery",
+    close: "Close",
+    previous: "Previous image",
+    next: "Next image",
+    enlarged: "Enlarged photo",
+  },
+
+  contactWidget: {
+    title: "Contact us",
+    button: "Send a message",
+  },
+
+  // ===========================================================================
+  // Pages
+  // ===========================================================================
+
+  home: {
+    ctaTitle: "Ready to start the aquatic adventure?",
+    ctaDescription: "Enrol your child today and give them the chance to become a little water champion.",
+    ctaPrimary: "Book a visit",
+    ctaSecondary: "View the Schedule",
+  },
+
+  services: {
+    metaTitle: "Swimming Lessons for Children",
+    metaDescription:
+      "Discover our aquatic education programmes for all ages: prenatal classes, baby swimming, children's swimming and physiotherapy.",
+    title: "Our Courses",
+    subtitle:
+      "Aquatic education programmes adapted to every stage of development, from babies to children of all ages.",
+    ctaTitle: "Not sure which course to choose?",
+    ctaDescription:
+      "Our team can help you find the right programme for your child. Contact us for a free consultation.",
+    ctaButton: "Book a Consultation",
+  },
+
+  service: {
+    notFound: "Service not found",
+    category: "Services",
+    age: "Age: {range}",
+    viewDetails: "View Details",
+    description: "Description",
+    ageGroups: "Age Groups",
+    enrolTitle: "Enrol Now",
+    enrolDescription: "Book a meeting to talk about your child's needs.",
+    ctaTitle: "Questions about this course?",
+    ctaDescription: "Our team is ready to help. Contact us for more information.",
+    allCourses: "View All Courses",
+  },
+
+  galleries: {
+    metaTitle: "Photo Gallery - Moments from Our Classes",
+    metaDescription:
+      "Photo gallery of the Micii Campioni Club - special moments from our aquatic education classes for babies and children. See the joy of our little champions!",
+    title: "Photo Gallery",
+    subtitle: "Special moments from our club's activities - children enjoying the water.",
+    featured: "Featured Galleries",
+    all: "All Galleries",
+    ours: "Our Galleries",
+    empty: "The photo gallery will be available soon.",
+    ctaTitle: "Would you like to see your child here?",
+    ctaDescription:
+      "Enrol them in our classes and capture the special moments of their aquatic journey.",
+    ctaButton: "Enrol Now",
+  },
+
+  gallery: {
+    notFound: "Gallery not found",
+    metaTitle: "{title} - Photo Gallery",
+    metaDescription: "Photo gallery: {title}",
+    back: "Back to Gallery",
+    other: "Other Galleries",
+    ctaTitle: "Want to capture special moments?",
+    ctaDescription: "Enrol your child in our classes and create unforgettable memories.",
+  },
+
+  contact: {
+    metaDescription:
+      "Contact us for information about swimming lessons, bookings or any other questions. We are here to help.",
+    ogTitle: "Contact Micii Campioni",
+    title: "Contact us",
+    subtitle:
+      "We are here to answer all your questions. Fill in the form or use one of the contact methods below.",
+    info: "Contact Information",
+    phone: "Phone",
+    email: "Email",
+    address: "Address",
+    schedule: "Opening Hours",
+    weekdays: "Monday - Friday: 9:00 - 20:00",
+    saturday: "Saturday: 9:00 - 14:00",
+    sunday: "Sunday: Closed",
+    formTitle: "Send us a message",
+    mapTitle: "Micii Campioni location",
+  },
+
+  contactForm: {
+    name: "Full name *",
+    namePlaceholder: "Your name",
+    email: "Email *",
+    emailPlaceholder: "email@example.com",
+    phone: "Phone",
+    service: "Service of interest",
+    servicePlaceholder: "Select a service",
+    generalOptions: {
+      consultatie: "General Consultation",
+      altele: "Other",
+    },
+    message: "Message *",
+    messagePlaceholder: "Write your message here...",
+    submit: "Send Message",
+    submitting: "Sending...",
+    required: "* Required fields. Your data is protected under our",
+    privacy: "Privacy Policy",
+    successTitle: "Message sent successfully!",
+    successMessage: "Thank you for your message. We will get back to you as soon as possible.",
+    sendAnother: "Send another message",
+    error: "Something went wrong. Please try again.",
+  },
+
+  contactApi: {
+    rateLimited: "Too many requests. Please wait a few minutes.",
+    success: "Your message was sent successfully!",
+    invalid: "Please correct the highlighted fields.",
+    nameRequired: "Please tell us your name.",
+    nameTooLong: "The name cannot be longer than {max} characters.",
+    emailTooLong: "The email cannot be longer than {max} characters.",
+    emailRequired: "Please enter your email address.",
+    emailInvalid: "The email address is not valid.",
+    phoneTooLong: "The phone number cannot be longer than {max} characters.",
+    phoneInvalid: "The phone number is not valid, e.g. 0722 123 456 or +40 722 123 456.",
+    messageRequired: "Please write a message.",
+    messageTooLong: "The message cannot be longer than {max} characters.",
+    serviceInvalid: "The selected service is no longer available. Please choose another.",
+    sendFailed: "Something went wrong while sending your message. Please try again.",
+    error: "Something went wrong. Please try again.",
+  },
+
+  booking: {
+    metaTitle: "Book a trial lesson",
+    metaDescription:
+      "Book a trial lesson at Micii Campioni online: choose the service, the age group and the times that suit you.",
+    title: "Book a trial lesson",
+    subtitle: "Four simple steps. We will call you to confirm the day and time of the lesson.",
+    steps: {
+      service: "Service",
+      child: "Child",
+      schedule: "Schedule",
+      contact: "Contact details",
+    },
+    stepOf: "Step {current} of {total}",
+    service: "Service *",
+    servicePlaceholder: "Select a service",
+    ageGroup: "Age group *",
+    ageGroupPlaceholder: "Select the group",
+    childName: "Child's first name *",
+    childNamePlaceholder: "Your child's first name",
+    childBirthDate: "Date of birth *",
+    childBirthDateHint: "We check that your child's age matches the chosen group.",
+    noChild: "We don't need details about a child for this service. You can go on to the next step.",
+    days: "Preferred days *",
+    dayOptions: {
+      mon: "Monday",
+      tue: "Tuesday",
+      wed: "Wednesday",
+      thu: "Thursday",
+      fri: "Friday",
+      sat: "Saturday",
+    },
+    times: "Preferred times *",
+    timeOptions: {
+      morning: "Morning (9:00 - 12:00)",
+      afternoon: "Afternoon (12:00 - 16:00)",
+      evening: "Evening (16:00 - 20:00)",
+    },
+    phone: "Phone *",
+    notes: "Notes",
+    notesPlaceholder: "Anything that helps us prepare the lesson: experience in water, special needs...",
+    back: "Back",
+    next: "Continue",
+    submit: "Send request",
+    submitting: "Sending...",
+    successTitle: "Your booking request was sent!",
+    successMessage:
+      "Thank you! We will call you within one working day to confirm the day and time of the lesson. We have also emailed you the details.",
+    bookAnother: "Book another lesson",
+    error: "Something went wrong. Please try again.",
+  },
+
+  bookingApi: {
+    success: "Your booking request was sent!",
+    invalid: "Please correct the highlighted fields.",
+    serviceRequired: "Please choose a service.",
+    serviceInvalid: "The selected service is no longer available. Please choose another.",
+    ageGroupRequired: "Please choose an age group.",
+    childNameRequired: "Please tell us your child's first name.",
+    childNameTooLong: "The first name cannot be longer than {max} characters.",
+    childBirthDateRequired: "Please enter your child's date of birth.",
+    childBirthDateInvalid: "The date of birth is not valid.",
+    ineligible:
+      "Your child's age does not match the {group} group ({range}). Please choose another group.",
+    daysRequired: "Please choose at least one day.",
+    timesRequired: "Please choose at least one time.",
+    phoneRequired: "Please enter a phone number, so we can agree on the lesson time.",
+    notesTooLong: "Notes cannot be longer than {max} characters.",
+  },
+
+  bookingEmail: {
+    subject: "We received your booking request - Micii Campioni",
+    preheader: "Thank you, {name}! We will call you to confirm the trial lesson.",
+    intro:
+      "We received your request for a trial lesson. We will call you within one working day to confirm the day and time.",
+    service: "Service",
+    ageGroup: "Group",
+    child: "Child",
+    days: "Preferred days",
+    times: "Preferred times",
+    notes: "Notes",
+    calendar:
+      "We have attached a provisional event for the first time you chose. We will update it once the time is confirmed.",
+    eventTitle: "Trial lesson (to be confirmed): {service}",
+    eventDescription: "Preferred time, to be confirmed by phone by Micii Campioni.",
+    footer:
+      "You are receiving this email because you requested a trial lesson on miciicampioni.ro. If you did not send the request, you can ignore this email.",
+  },
+
+  confirmationEmail: {
+    subject: "We received your message - Micii Campioni",
+    preheader: "Thank you, {name}! We will be in touch shortly.",
+    greeting: "Hello {name},",
+    intro:
+      "Thank you for writing to us. We have received your message and a member of our team will contact you shortly.",
+    summary: "Your message",
+    service: "Service",
+    nextSteps: "Next steps",
+    defaultNextSteps: [
+      "A member of our team will call or email you within one working day.",
+      "Together we will find the right schedule for your child.",
+    ],
+    schedule: "Opening hours",
+    whatsApp: "Have a quick question? Message us on WhatsApp.",
+    whatsAppButton: "Message us on WhatsApp",
+    signOff: "Warm regards,",
+    team: "The Micii Campioni team",
+    footer:
+      "You are receiving this email because you filled in the contact form on miciicampioni.ro. If you did not send the message, you can ignore this email.",
+  },
+
+  aboutPage: {
+    metaTitle: "About Us - Our Story and Team",
+    metaDescription:
+      "Discover the story of the Micii Campioni Club, the first aquatic education club in Romania, founded in 2001 by Georgeta Sultana. A dedicated team and a unique method.",
+    title: "About Us",
+    subtitle:
+      "The first aquatic education club in Romania, dedicated to the harmonious development of children through water since 2001.",
+    sectionsTitle: "Explore the Sections",
+    sectionsSubtitle: "Learn more about us",
+    sections: {
+      istoric: {
+        title: "History",
+        description: "The story of Micii Campioni from 1981 to the present day",
+      },
+      "siguranta-si-securitate-pentru-copilul-tau": {
+        title: "Safety and Security",
+        description: "Our safety standards for your child",
+      },
+      "echipa-micii-campioni": {
+        title: "The Team",
+        description: "Meet our instructors and specialists",
+      },
+      "press-info": {
+        title: "Press Info",
+        description: "Articles and media appearances about us",
+      },
+      "distinctii-si-certificari": {
+        title: "Awards and Certifications",
+        description: "Recognition of our work",
+      },
+    },
+    milestones: "Milestones",
+    fullHistory: "See the full history",
+    team: "Our Team",
+    fullTeam: "Meet the whole team",
+    ctaTitle: "Want to know more?",
+    ctaDescription: "Contact us to book a visit or with any questions.",
+    certificates: "Certifications and Awards",
+    press: "In the Press",
+  },
+
+  conceptPage: {
+    metaTitle: "Our Concept and Methodology",
+    metaDescription:
+      "Discover the concept and methodology of the Micii Campioni Club - aquatic education built on trust, safety and joy. International FAAEL partner.",
+    title: "Our Concept",
+    subtitle:
+      "Aquatic education built on trust, safety and joy - the foundations of our internationally recognised method.",
+    sectionsTitle: "Explore More",
+    sections: {
+      "micii-campioni-si-faael": {
+        title: "Micii Campioni and FAAEL",
+        description: "Our partnership with the International Federation of Aquatic Activities",
+      },
+      "viziune-si-obiective": {
+        title: "Vision and Objectives",
+        description: "The mission and values that guide our work",
+      },
+    },
+    recognition: "International Recognition",
+    ctaTitle: "Discover Our Courses",
+    ctaDescription: "Put our concept into practice - explore our aquatic education programmes.",
+    childCtaTitle: "Interested in our programmes?",
+    childCtaDescription: "Discover how we can help your child become a little champion.",
+  },
+
+  associationPage: {
+    metaTitle: "The Association - Mission and Social Projects",
+    metaDescription:
+      "The Micii Campioni Club Association - a non-profit organisation promoting aquatic education in Romania. Discover our mission and social projects.",
+    title: "The Association",
+    subtitle:
+      "We promote aquatic education in Romania and support every child's access to the benefits of aquatic activities.",
+    sectionsTitle: "The Association's Work",
+    sections: {
+      misiune: {
+        title: "Mission",
+        description: "The purpose and values that guide the association",
+      },
+      "proiecte-si-programe": {
+        title: "Projects and Programmes",
+        description: "Our initiatives for the community",
+      },
+      "conferinte-si-congrese": {
+        title: "Conferences and Congresses",
+        description: "Our participation in national and international events",
+      },
+      sponsorizari: {
+        title: "Sponsorships",
+        description: "The partners who support our mission",
+      },
+    },
+    activeProjects: "Active Projects",
+    activeProjectsSubtitle: "Ongoing initiatives",
+    allProjects: "See all projects",
+    projects: "Our Projects",
+    objectives: "Objectives:",
+    results: "Results:",
+    status: {
+      active: "Active",
+      completed: "Completed",
+      upcoming: "Planned",
+    },
+    conferences: "Conferences and Congresses",
+    international: "International Conferences",
+    national: "National Conferences",
+    ctaTitle: "Want to support our mission?",
+    ctaDescription: "Find out how you can help promote aquatic education in Romania.",
+    sponsorships: "Sponsorships",
+    childCtaTitle: "Want to support us?",
+    childCtaDescription: "Contact us to find out how you can contribute to our mission.",
+  },
+
+  page: {
+    ctaTitle: "Any questions?",
+    ctaDescription: "We are here to help. Contact us for more information.",
+  },
+
+  siteMap: {
+    metaTitle: "Sitemap",
+    metaDescription:
+      "Complete navigation of the Micii Campioni Club website - explore every page, our swimming courses and information about aquatic education for children.",
+    title: "Sitemap",
+    subtitle: "Complete navigation through every page of our website",
+    sections: {
+      home: { title: "Home", description: "Home page" },
+      about: { title: "About Us", description: "Information about our club" },
+      concept: { title: "Concept", description: "Our philosophy and methodology" },
+      association: { title: "The Association", description: "Our association's work" },
+      courses: { title: "Courses", description: "Our aquatic education programmes" },
+      gallery: { title: "Gallery", description: "Photo gallery" },
+      contact: { title: "Contact", description: "Contact information and form" },
+    },
+    quickLinks: "Quick Links",
+    photoGallery: "Photo Gallery",
+  },
+};
@@ -0,0 +1,604 @@
+// =============================================================================
+// Romanian UI Strings
+// The reference dictionary: every other locale is typed against it and falls
+// back to it for missing keys. Placeholders like {name} are filled by `format`.
+// =============================================================================
+
+export const ro = {
+  meta: {
+    title: "Micii Campioni - Primul club de educatie acvatica din Romania",
+    description:
+      "Clubul Micii Campioni - educatie acvatica pentru bebelusi si copii, Metoda Sultana, cursuri prenatale Lamaze din 2001. Fondatoare Georgeta Sultana.",
+    ogDescription:
+      "Educatie acvatica pentru bebelusi si copii, Metoda Sultana, cursuri prenatale Lamaze din 2001.",
+    keywords: [
+      "educatie acvatica",
+      "inot bebelusi",
+      "Metoda Sultana",
+      "Micii Campioni",
+      "cursuri inot copii",
+      "Bucuresti",
+      "Lamaze",
+      "cursuri prenatale",
+      "kinetoterapie copii",
+    ],
+    organizationDescription:
+      "Primul club de educatie acvatica din Romania, dedicat dezvoltarii armonioase a copiilor prin intermediul apei.",
+    localBusinessDescription:
+      "Primul club de educatie acvatica din Romania - cursuri de inot pentru bebelusi si copii.",
+    pageNotFound: "Pagină negăsită",
+  },
+
+  common: {
+    home: "Acasă",
+    courses: "Cursuri",
+    gallery: "Galerie",
+    contact: "Contact",
+    contactUs: "Contactează-ne",
+    readMore: "Citește mai mult",
+    viewCourses: "Vezi Cursurile",
+    bookLesson: "Programează o Lecție",
+    skipToContent: "Salt la conținut principal",
+    loading: "Se încarcă...",
+    photos: "{count} fotografii",
+  },
+
+  header: {
+    tagline: "Primul Club de Educație Acvatică din România",
+    openMenu: "Deschide meniul",
+    closeMenu: "Închide meniul",
+    language: "Limba",
+  },
+
+  footer: {
+    tagline:
+      "Primul club de educație acvatică din România, oferind cursuri de înot pentru copii de toate vârstele.",
+    navigation: "Navigare",
+    about: "Despre",
+    aboutUs: "Despre Noi",
+    concept: "Conceptul Nostru",
+    gallery: "Galerie Foto",
+    association: "Asociația",
+    terms: "Termeni și Condiții",
+    privacy: "Politica de Confidențialitate",
+    cookieSettings: "Setări cookie-uri",
+    rights: "© {year} Micii Campioni. Toate drepturile rezervate.",
+    credit: "Designed with ❤️ for little swimmers",
+  },
+
+  preview: {
+    label: "Previzualizare",
+    exit: "Ieși din previzualizare",
+  },
+
+  whatsApp: {
+    greeting: "Bună ziua! Aș dori mai multe informații.",
+    label: "Trimite mesaj pe WhatsApp",
+  },
+
+  consent: {
+    bannerLabel: "Consimțământ cookie-uri",
+    bannerTitle: "Folosim cookie-uri",
+    bannerMessage:
+      "Folosim cookie-uri necesare pentru funcționarea site-ului și, doar cu acordul tău, cookie-uri de analiză și de marketing (Google Analytics, Google Ads, Facebook) pentru a înțelege cum este folosit site-ul și pentru a măsura campaniile noastre.",
+    privacyLink: "Află mai multe",
+    acceptAll: "Accept toate",
+    rejectAll: "Doar necesare",
+    customize: "Personalizează",
+    preferencesTitle: "Setări cookie-uri",
+    preferencesDescription:
+      "Alege ce cookie-uri accepți. Poți schimba oricând alegerea din linkul „Setări cookie-uri” din subsolul paginii.",
+    categories: {
+      necessary: {
+        title: "Necesare",
+        description:
+          "Țin minte tema aleasă și alegerea ta despre cookie-uri și protejează formularele împotriva spamului. Nu pot fi dezactivate.",
+      },
+      analytics: {
+        title: "Analiză",
+        description:
+          "Google Analytics ne arată, anonim și agregat, ce pagini sunt vizitate, ca să putem îmbunătăți site-ul.",
+      },
+      marketing: {
+        title: "Marketing",
+        description:
+          "Facebook Pixel, Facebook Conversions API și Google Ads măsoară rezultatul reclamelor noastre și ne permit să îți arătăm anunțuri relevante. Reținem și campania sau site-ul de pe care ai ajuns la noi, ca să știm ce reclame aduc înscrieri.",
+      },
+    },
+    alwaysOn: "Mereu active",
+    save: "Salvează preferințele",
+  },
+
+  notFound: {
+    title: "Pagină negăsită",
+    description: "Ne pare rău, dar pagina pe care o cauți nu există sau a fost mutată.",
+    home: "Înapoi Acasă",
+    suggestions: "Poate te interesează:",
+    about: "Despre Noi",
+  },
+
+  error: {
+    title: "Oops! Ceva nu a mers bine",
+    description:
+      "Ne pare rău, a apărut o eroare neașteptată. Te rugăm să încerci din nou sau să revii la pagina principală.",
+    retry: "Încearcă din nou",
+    home: "Pagina principală",
+  },
+
+  // ===========================================================================
+  // Sections and Content Components
+  // ===========================================================================
+
+  hero: {
+    badge: "Primul Club de Educație Acvatică din România",
+    title: "Învățăm copiii să înoate cu bucurie și încredere",
+    subtitle:
+      "De peste 15 ani formăm micii campioni ai apei, cu metode certificate și instructori dedicați.",
+    discover: "Descoperă Cursurile",
+  },
+
+  about: {
+    title: "De Ce Să Alegi Micii Campioni?",
+    subtitle: "Despre Noi",
+    description:
+      "Suntem primul club de educație acvatică din România, dedicat formării copiilor într-un mediu sigur și prietenos. De peste 15 ani, transformăm frica de apă în pasiune pentru înot.",
+    features: [
+      "Metode certificate internațional",
+      "Instructori cu experiență vastă",
+      "Grupe mici pentru atenție maximă",
+      "Program flexibil adaptat nevoilor tale",
+      "Echipament modern și sigur",
+      "Mediu prietenos și distractiv",
+    ],
+    cta: "Află Mai Multe",
+    aquaticEducation: "Educație Acvatică",
+    yearsBadge: "Ani Experiență",
+  },
+
+  stats: {
+    years: {
+      label: "Ani de Experiență",
+      description: "De peste 25 ani formăm mici campioni ai educației acvatice",
+    },
+    champions: {
+      label: "Mici Campioni",
+      description: "Mii de copii au absolvit cursurile noastre de educație acvatică",
+    },
+    instructors: {
+      label: "Instructori Certificați",
+      description:
+        "Instructori certificați în educație acvatică pentru copii. Echipa noastră urmează singurele cursuri de profil acreditate (cod COR: 342215)",
+    },
+    satisfaction: {
+      label: "Copii & Părinți mulțumiți",
+      description: "Perfecționăm permanent metodele și exercițiile de educație acvatică",
+    },
+  },
+
+  servicesSection: {
+    title: "Cursurile Noastre",
+    subtitle: "Ce Oferim",
+    description:
+      "Descoperă programele noastre de educație acvatică, create special pentru fiecare etapă de dezvoltare a copilului tău.",
+    learnMore: "Află mai multe",
+    other: "Alte Cursuri",
+  },
+
+  testimonials: {
+    title: "Ce Spun Părinții",
+    subtitle: "Testimoniale",
+    description:
+      "Descoperă experiențele familiilor care au ales Micii Campioni pentru educația acvatică a copiilor lor.",
+  },
+
+  cta: {
+    title: "Pregătit să începi aventura acvatică?",
+    description: "Înscrie-ți copilul astăzi și oferă-i șansa de a deveni un mic campion al apei.",
+    button: "Programează o lecție",
+  },
+
+  partners: {
+    title: "Partenerii Noștri",
+    partners: "Parteneri",
+    sponsors: "Sponsori",
+    endorsements: "Recomandări și Avizuri",
+  },
+
+  team: {
+    certifications: "Certificări și Calificări",
+  },
+
+  timeline: {
+    readMore: "Citește mai mult",
+    showLess: "Arată mai puțin",
+  },
+
+  imageGallery: {
+    label: "Galerie imagini",
+    close: "Închide",
+    previous: "Imaginea anterioară",
+    next: "Imaginea următoare",
+    enlarged: "Fotografie mărită",
+  },
+
+  contactWidget: {
+    title: "Contactează-ne",
+    button: "Trimite un mesaj",
+  },
+
+  // ===========================================================================
+  // Pages
+  // ===========================================================================
+
+  home: {
+    ctaTitle: "Pregătit să începi aventura acvatică?",
+    ctaDescription: "Înscrie-ți copilul astăzi și oferă-i șansa de a deveni un mic campion al apei.",
+    ctaPrimary: "Programeaza o vizită",
+    ctaSecondary: "Vezi Programul",
+  },
+
+  services: {
+    metaTitle: "Cursuri de Înot pentru Copii",
+    metaDescription:
+      "Descoperă programele noastre de educație acvatică pentru toate vârstele: cursuri prenatale, înot bebeluși, înot copii și kinetoterapie.",
+    title: "Cursurile Noastre",
+    subtitle:
+      "Programe de educație acvatică adaptate fiecărei etape de dezvoltare, de la bebeluși la copii de toate vârstele.",
+    ctaTitle: "Nu știi ce curs să alegi?",
+    ctaDescription:
+      "Echipa noastră te poate ajuta să găsești programul potrivit pentru copilul tău. Contactează-ne pentru o consultație gratuită.",
+    ctaButton: "Programează o Consultație",
+  },
+
+  service: {
+    notFound: "Serviciu negăsit",
+    category: "Servicii",
+    age: "Vârstă: {range}",
+    viewDetails: "Vezi Detalii",
+    description: "Descriere",
+    ageGroups: "Grupele de Vârstă",
+    enrolTitle: "Înscrie-te Acum",
+    enrolDescription: "Programează o întâlnire pentru a discuta despre nevoile copilului tău.",
+    ctaTitle: "Ai întrebări despre acest curs?",
+    ctaDescription:
+      "Echipa noastră este gata să te ajute. Contactează-ne pentru mai multe informații.",
+    allCourses: "Vezi Toate Cursurile",
+  },
+
+  galleries: {
+    metaTitle: "Galerie Foto - Momente din Cursuri",
+    metaDescription:
+      "Galerie foto cu activitățile Clubului Micii Campioni - momente speciale din cursurile de educație acvatică pentru bebeluși și copii. Vezi bucuria micilor campioni!",
+    title: "Galerie Foto",
+    subtitle: "Momente speciale din activitățile clubului nostru - bucuria copiilor în apă.",
+    featured: "Galerii Recomandate",
+    all: "Toate Galeriile",
+    ours: "Galeriile Noastre",
+    empty: "Galeria foto va fi disponibilă în curând.",
+    ctaTitle: "Vrei să vezi copilul tău aici?",
+    ctaDescription:
+      "Înscrie-l la cursurile noastre și surprinde momentele speciale din călătoria lui acvatică.",
+    ctaButton: "Înscrie-te Acum",
+  },
+
+  gallery: {
+    notFound: "Galerie negăsită",
+    metaTitle: "{title} - Galerie Foto",
+    metaDescription: "Galerie foto: {title}",
+    back: "Înapoi la Galerie",
+    other: "Alte Galerii",
+    ctaTitle: "Vrei să capturezi momente speciale?",
+    ctaDescription: "Înscrie copilul tău la cursurile noastre și creează amintiri de neuitat.",
+  },
+
+  contact: {
+    metaDescription:
+      "Contactează-ne pentru informații despre cursurile de înot, programări sau orice alte întrebări. Suntem aici să te ajutăm.",
+    ogTitle: "Contactează Micii Campioni",
+    title: "Contactează-ne",
+    subtitle:
+      "Suntem aici să răspundem la toate întrebările tale. Completează formularul sau folosește una din metodele de contact de mai jos.",
+    info: "Informații Contact",
+    phone: "Telefon",
+    email: "Email",
+    address: "Adresă",
+    schedule: "Program",
+    weekdays: "Luni - Vineri: 9:00 - 20:00",
+    saturday: "Sâmbătă: 9:00 - 14:00",
+    sunday: "Duminică: Închis",
+    formTitle: "Trimite-ne un mesaj",
+    mapTitle: "Locația Micii Campioni",
+  },
+
+  contactForm: {
+    name: "Nume complet *",
+    namePlaceholder: "Numele tău",
+    email: "Email *",
+    emailPlaceholder: "email@exemplu.ro",
+    phone: "Telefon",
+    service: "Serviciu de interes",
+    servicePlaceholder: "Selectează un serviciu",
+    // Enquiries not about a specific service; services come from Contentful
+    generalOptions: {
+      consultatie: "Consultație Generală",
+      altele: "Altele",
+    },
+    message: "Mesaj *",
+    messagePlaceholder: "Scrie-ne mesajul tău aici...",
+    submit: "Trimite Mesajul",
+    submitting: "Se trimite...",
+    required: "* Câmpuri obligatorii. Datele tale sunt protejate conform",
+    privacy: "Politicii de Confidențialitate",
+    successTitle: "Mesaj trimis cu succes!",
+    successMessage: "Îți mulțumim pentru mesaj. Te vom contacta în cel mai scurt timp posibil.",
+    sendAnother: "Trimite alt mesaj",
+    error: "A apărut o eroare. Te rugăm să încerci din nou.",
+  },
+
+  contactApi: {
+    rateLimited: "Prea multe cereri. Te rugăm să aștepți câteva minute.",
+    success: "Mesajul a fost trimis cu succes!",
+    invalid: "Te rugăm să corectezi câmpurile marcate.",
+    nameRequired: "Te rugăm să ne spui numele tău.",
+    nameTooLong: "Numele nu poate depăși {max} de caractere.",
+    emailTooLong: "Emailul nu poate depăși {max} de caractere.",
+    emailRequired: "Te rugăm să introduci adresa de email.",
+    emailInvalid: "Adresa de email nu este validă.",
+    phoneTooLong: "Numărul de telefon nu poate depăși {max} de caractere.",
+    phoneInvalid: "Numărul de telefon nu este valid, de exemplu 0722 123 456 sau +40 722 123 456.",
+    messageRequired: "Te rugăm să scrii un mesaj.",
+    messageTooLong: "Mesajul nu poate depăși {max} de caractere.",
+    serviceInvalid: "Serviciul selectat nu mai este disponibil. Te rugăm să alegi altul.",
+    sendFailed: "A apărut o eroare la trimiterea mesajului. Te rugăm să încerci din nou.",
+    error: "A apărut o eroare. Te rugăm să încerci din nou.",
+  },
+
+  booking: {
+    metaTitle: "Programează o lecție de probă",
+    metaDescription:
+      "Programează online o lecție de probă la Micii Campioni: alege serviciul, grupa de vârstă și intervalele care ți se potrivesc.",
+    title: "Programează o lecție de probă",
+    subtitle: "Patru pași simpli. Îți confirmăm telefonic ziua și ora lecției.",
+    steps: {
+      service: "Serviciu",
+      child: "Copil",
+      schedule: "Program",
+      contact: "Date de contact",
+    },
+    stepOf: "Pasul {current} din {total}",
+    service: "Serviciu *",
+    servicePlaceholder: "Selectează un serviciu",
+    ageGroup: "Grupa de vârstă *",
+    ageGroupPlaceholder: "Selectează grupa",
+    childName: "Prenumele copilului *",
+    childNamePlaceholder: "Prenumele copilului",
+    childBirthDate: "Data nașterii *",
+    childBirthDateHint: "Verificăm dacă vârsta copilului se potrivește grupei alese.",
+    noChild: "Pentru acest serviciu nu avem nevoie de date despre copil. Poți trece la pasul următor.",
+    days: "Zile preferate *",
+    dayOptions: {
+      mon: "Luni",
+      tue: "Marți",
+      wed: "Miercuri",
+      thu: "Joi",
+      fri: "Vineri",
+      sat: "Sâmbătă",
+    },
+    times: "Intervale preferate *",
+    timeOptions: {
+      morning: "Dimineața (9:00 - 12:00)",
+      afternoon: "După-amiaza (12:00 - 16:00)",
+      evening: "Seara (16:00 - 20:00)",
+    },
+    phone: "Telefon *",
+    notes: "Observații",
+    notesPlaceholder: "Orice ne-ar ajuta să pregătim lecția: experiența în apă, nevoi speciale...",
+    back: "Înapoi",
+    next: "Continuă",
+    submit: "Trimite cererea",
+    submitting: "Se trimite...",
+    successTitle: "Cererea de programare a fost trimisă!",
+    successMessage:
+      "Îți mulțumim! Te sunăm în cel mult o zi lucrătoare pentru a confirma ziua și ora lecției. Ți-am trimis și un email cu detaliile.",
+    bookAnother: "Programează altă lecție",
+    error: "A apărut o eroare. Te rugăm să încerci din nou.",
+  },
+
+  bookingApi: {
+    success: "Cererea de programare a fost trimisă!",
+    invalid: "Te rugăm să corectezi câmpurile marcate.",
+    serviceRequired: "Te rugăm să alegi un serviciu.",
+    serviceInvalid: "Serviciul selectat nu mai este disponibil. Te rugăm să alegi altul.",
+    ageGroupRequired: "Te rugăm să alegi grupa de vârstă.",
+    childNameRequired: "Te rugăm să ne spui prenumele copilului.",
+    childNameTooLong: "Prenumele nu poate depăși {max} de caractere.",
+    childBirthDateRequired: "Te rugăm să introduci data nașterii copilului.",
+    childBirthDateInvalid: "Data nașterii nu este validă.",
+    ineligible:
+      "Vârsta copilului nu se potrivește grupei {group} ({range}). Te rugăm să alegi altă grupă.",
+    daysRequired: "Te rugăm să alegi cel puțin o zi.",
+    timesRequired: "Te rugăm să alegi cel puțin un interval.",
+    phoneRequired: "Te rugăm să introduci un număr de telefon, ca să putem stabili ora lecției.",
+    notesTooLong: "Observațiile nu pot depăși {max} de caractere.",
+  },
+
+  bookingEmail: {
+    subject: "Am primit cererea ta de programare - Micii Campioni",
+    preheader: "Îți mulțumim, {name}! Te sunăm pentru a confirma lecția de probă.",
+    intro:
+      "Am primit cererea ta pentru o lecție de probă. Te sunăm în cel mult o zi lucrătoare pentru a confirma ziua și ora.",
+    service: "Serviciu",
+    ageGroup: "Grupa",
+    child: "Copil",
+    days: "Zile preferate",
+    times: "Intervale preferate",
+    notes: "Observații",
+    calendar:
+      "Am atașat un eveniment provizoriu pentru primul interval ales. Îl actualizăm după ce confirmăm ora.",
+    eventTitle: "Lecție de probă (de confirmat): {service}",
+    eventDescription: "Interval preferat, de confirmat telefonic de Micii Campioni.",
+    footer:
+      "Primești acest email pentru că ai cerut o lecție de probă pe miciicampioni.ro. Dacă nu tu ai trimis cererea, poți ignora acest email.",
+  },
+
+  confirmationEmail: {
+    subject: "Am primit mesajul tău - Micii Campioni",
+    preheader: "Îți mulțumim, {name}! Te contactăm în cel mai scurt timp.",
+    greeting: "Bună, {name}!",
+    intro:
+      "Îți mulțumim că ne-ai scris. Am primit mesajul tău și un membru al echipei noastre te va contacta în cel mai scurt timp.",
+    summary: "Mesajul tău",
+    service: "Serviciu",
+    nextSteps: "Pașii următori",
+    defaultNextSteps: [
+      "Un membru al echipei te contactează telefonic sau pe email în cel mult o zi lucrătoare.",
+      "Stabilim împreună programul potrivit pentru copilul tău.",
+    ],
+    schedule: "Program",
+    whatsApp: "Ai o întrebare rapidă? Scrie-ne pe WhatsApp.",
+    whatsAppButton: "Scrie-ne pe WhatsApp",
+    signOff: "Cu drag,",
+    team: "Echipa Micii Campioni",
+    footer:
+      "Primești acest email pentru că ai completat formularul de contact de pe miciicampioni.ro. Dacă nu tu ai trimis mesajul, poți ignora acest email.",
+  },
+
+  aboutPage: {
+    metaTitle: "Despre Noi - Povestea și Echipa Noastră",
+    metaDescription:
+      "Descoperiți povestea Clubului Micii Campioni, primul club de educație acvatică din România, fondat în 2001 de Georgeta Sultana. Echipă dedicată, metodă unică.",
+    title: "Despre Noi",
+    subtitle:
+      "Primul club de educație acvatică din România, dedicat dezvoltării armonioase a copiilor prin intermediul apei încă din 2001.",
+    sectionsTitle: "Explorează Secțiunile",
+    sectionsSubtitle: "Află mai multe despre noi",
+    sections: {
+      istoric: {
+        title: "Istoric",
+        description: "Povestea Micii Campioni din 1981 până în prezent",
+      },
+      "siguranta-si-securitate-pentru-copilul-tau": {
+        title: "Siguranță și Securitate",
+        description: "Standardele noastre de siguranță pentru copilul tău",
+      },
+      "echipa-micii-campioni": {
+        title: "Echipa",
+        description: "Cunoaște instructorii și specialiștii noștri",
+      },
+      "press-info": {
+        title: "Press Info",
+        description: "Articole și aparții media despre noi",
+      },
+      "distinctii-si-certificari": {
+        title: "Distincții și Certificări",
+        description: "Recunoașterea muncii noastre",
+      },
+    },
+    milestones: "Repere Istorice",
+    fullHistory: "Vezi istoricul complet",
+    team: "Echipa Noastră",
+    fullTeam: "Cunoaște întreaga echipă",
+    ctaTitle: "Vrei să afli mai multe?",
+    ctaDescription: "Contactează-ne pentru a programa o vizită sau pentru orice întrebări.",
+    certificates: "Certificări și Distincții",
+    press: "Apariții în Presă",
+  },
+
+  conceptPage: {
+    metaTitle: "Conceptul și Metodologia Noastră",
+    metaDescription:
+      "Descoperă conceptul și metodologia Clubului Micii Campioni - educație acvatică bazată pe încredere, siguranță și bucurie. Partener FAAEL internațional.",
+    title: "Conceptul Nostru",
+    subtitle:
+      "Educație acvatică bazată pe încredere, siguranță și bucurie - fundamentele metodei noastre recunoscute internațional.",
+    sectionsTitle: "Explorează Mai Mult",
+    sections: {
+      "micii-campioni-si-faael": {
+        title: "Micii Campioni și FAAEL",
+        description: "Parteneriatul nostru cu Federația Internațională de Activități Acvatice",
+      },
+      "viziune-si-obiective": {
+        title: "Viziune și Obiective",
+        description: "Misiunea și valorile care ne ghidează activitatea",
+      },
+    },
+    recognition: "Recunoaștere Internațională",
+    ctaTitle: "Descoperă Cursurile Noastre",
+    ctaDescription: "Aplică conceptul nostru în practică - explorează programele de educație acvatică.",
+    childCtaTitle: "Interesat de programele noastre?",
+    childCtaDescription: "Descoperă cum putem ajuta copilul tău să devină un mic campion.",
+  },
+
+  associationPage: {
+    metaTitle: "Asociația - Misiune și Proiecte Sociale",
+    metaDescription:
+      "Asociația Clubul Micii Campioni - organizație non-profit dedicată promovării educației acvatice în România. Descoperă misiunea și proiectele noastre sociale.",
+    title: "Asociația",
+    subtitle:
+      "Promovăm educația acvatică în România și susținem accesul tuturor copiilor la beneficiile activităților acvatice.",
+    sectionsTitle: "Activitatea Asociației",
+    sections: {
+      misiune: {
+        title: "Misiune",
+        description: "Scopul și valorile care ne ghidează activitatea asociației",
+      },
+      "proiecte-si-programe": {
+        title: "Proiecte și Programe",
+        description: "Inițiativele noastre pentru comunitate",
+      },
+      "conferinte-si-congrese": {
+        title: "Conferințe și Congrese",
+        description: "Participările noastre la evenimente naționale și internaționale",
+      },
+      sponsorizari: {
+        title: "Sponsorizări",
+        description: "Partenerii care ne susțin misiunea",
+      },
+    },
+    activeProjects: "Proiecte Active",
+    activeProjectsSubtitle: "Inițiativele în desfășurare",
+    allProjects: "Vezi toate proiectele",
+    projects: "Proiectele Noastre",
+    objectives: "Obiective:",
+    results: "Rezultate:",
+    status: {
+      active: "Activ",
+      completed: "Finalizat",
+      upcoming: "Planificat",
+    },
+    conferences: "Conferințe și Congrese",
+    international: "Conferințe Internaționale",
+    national: "Conferințe Naționale",
+    ctaTitle: "Vrei să susții misiunea noastră?",
+    ctaDescription: "Află cum poți contribui la promovarea educației acvatice în România.",
+    sponsorships: "Sponsorizări",
+    childCtaTitle: "Vrei să ne susții?",
+    childCtaDescription: "Contactează-ne pentru a afla cum poți contribui la misiunea noastră.",
+  },
+
+  page: {
+    ctaTitle: "Ai întrebări?",
+    ctaDescription: "Suntem aici să te ajutăm. Contactează-ne pentru mai multe informații.",
+  },
+
+  siteMap: {
+    metaTitle: "Harta Site-ului",
+    metaDescription:
+      "Navigare completă prin site-ul Clubului Micii Campioni - explorează toate paginile, cursurile de înot și informațiile despre educația acvatică pentru copii.",
+    title: "Harta Site-ului",
+    subtitle: "Navigare completă prin toate paginile site-ului nostru",
+    sections: {
+      home: { title: "Acasă", description: "Pagina principală" },
+      about: { title: "Despre Noi", description: "Informații despre clubul nostru" },
+      concept: { title: "Concept", description: "Filosofia și metodologia noastră" },
+      association: { title: "Asociația", description: "Activitatea asociației noastre" },
+      courses: { title: "Cursuri", description: "Programele noastre de educație acvatică" },
+      gallery: { title: "Galerie", description: "Galerie foto" },
+      contact: { title: "Contact", description: "Informații de contact și formular" },
+    },
+    quickLinks: "Link-uri Rapide",
+    photoGallery: "Galerie Foto",
+  },
+};
+
+export type Dictionary = typeof ro;
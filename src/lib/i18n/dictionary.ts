@@ -0,0 +1,50 @@
+import { defaultLocale, type Locale } from "./config";
+import { ro, type Dictionary } from "./dictionaries/ro";
+import { en } from "./dictionaries/en";
+
+export type { Dictionary };
+
+type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/** Translations for a non-default locale; missing keys fall back to Romanian. */
+export type DictionaryOverrides = DeepPartial<Dictionary>;
+
+const overrides: Partial<Record<Locale, DictionaryOverrides>> = { en };
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function merge<T>(base: T, override: DeepPartial<T> | undefined): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override ?? base) as T;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value !== undefined) merged[key] = merge(base[key], value);
+  }
+  return merged as T;
+}
+
+const dictionaries = new Map<Locale, Dictionary>([[defaultLocale, ro]]);
+
+/**
+ * UI strings for a locale, with untranslated keys filled in from Romanian.
+ */
+export function getDictionary(locale: Locale): Dictionary {
+  let dictionary = dictionaries.get(locale);
+  if (!dictionary) {
+    dictionary = merge<Dictionary>(ro, overrides[locale]);
+    dictionaries.set(locale, dictionary);
+  }
+  return dictionary;
+}
@@ -0,0 +1,14 @@
+// =============================================================================
+// Placeholders
+// Kept apart from the dictionaries so client components can import it
+// without bundling every locale.
+// =============================================================================
+
+/**
+ * Fill `{name}` placeholders in a dictionary string.
+ */
+export function format(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  );
+}
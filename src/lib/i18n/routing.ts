@@ -0,0 +1,95 @@
+import { defaultLocale, isLocale, locales, type Locale } from "./config";
+
+// =============================================================================
+// Localized Paths
+// Routes live under src/app/[locale] with Romanian segment names. Romanian is
+// served at those paths without a prefix; other locales get a /{locale} prefix
+// and translated top-level segments (/en/services/...). src/proxy.ts maps
+// public paths back to the internal route with `delocalizePath`.
+// =============================================================================
+
+// Public names of top-level route segments that differ from the internal ones
+const SEGMENT_TRANSLATIONS: Record<string, Partial<Record<Locale, string>>> = {
+  servicii: { en: "services" },
+  "despre-noi": { en: "about-us" },
+  asociatia: { en: "association" },
+  galerie: { en: "gallery" },
+  "harta-site": { en: "sitemap" },
+  programare: { en: "booking" },
+};
+
+function splitPath(path: string): { pathname: string; suffix: string } {
+  const index = path.search(/[?#]/);
+  return index === -1
+    ? { pathname: path, suffix: "" }
+    : { pathname: path.slice(0, index), suffix: path.slice(index) };
+}
+
+/**
+ * Public path of an internal (Romanian) site path in a locale,
+ * e.g. `/servicii/inot-copii` → `/en/services/inot-copii`.
+ * External URLs and anchors are returned unchanged.
+ */
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === defaultLocale || !path.startsWith("/") || path.startsWith("//")) {
+    return path;
+  }
+
+  const { pathname, suffix } = splitPath(path);
+  const [, first = "", ...rest] = pathname.split("/");
+  const segment = SEGMENT_TRANSLATIONS[first]?.[locale] ?? first;
+  const localized = [segment, ...rest].filter((part, i) => part || i > 0).join("/");
+
+  return `/${locale}${localized ? `/${localized}` : ""}${suffix}`;
+}
+
+/**
+ * Split a public pathname into its locale and internal (Romanian) path.
+ * Accepts internal segment names too, so callers can redirect them to the
+ * canonical public path.
+ */
+export function delocalizePath(pathname: string): { locale: Locale; path: string } {
+  const [, first = "", second = "", ...rest] = pathname.split("/");
+  if (!isLocale(first)) return { locale: defaultLocale, path: pathname || "/" };
+
+  const locale = first;
+  const segment =
+    Object.entries(SEGMENT_TRANSLATIONS).find(
+      ([, translations]) => translations[locale] === second
+    )?.[0] ?? second;
+  const path = ["", segment, ...rest].join("/");
+
+  return { locale, path: path === "/" || path === "" ? "/" : path };
+}
+
+/**
+ * The same page in another locale, for the language switcher.
+ */
+export function switchLocalePath(pathname: string, locale: Locale): string {
+  return localizePath(delocalizePath(pathname).path, locale);
+}
+
+// =============================================================================
+// Alternates
+// =============================================================================
+
+/**
+ * `hreflang` alternates of an internal path, keyed by language, with
+ * Romanian as the x-default. Paths are relative to `metadataBase`.
+ */
+export function languageAlternates(path: string): Record<string, string> {
+  return {
+    ...Object.fromEntries(locales.map((locale) => [locale, localizePath(path, locale)])),
+    "x-default": localizePath(path, defaultLocale),
+  };
+}
+
+/**
+ * Canonical URL and `hreflang` alternates for a page's `metadata.alternates`.
+ */
+export function localeAlternates(
+  path: string,
+  locale: Locale
+): { canonical: string; languages: Record<string, string> } {
+  return { canonical: localizePath(path, locale), languages: languageAlternates(path) };
+}
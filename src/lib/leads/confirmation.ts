@@ -0,0 +1,87 @@
+import { bookingCalendar } from "@/lib/booking/calendar";
+import { getServiceBySlug, getSiteSettings } from "@/lib/contentful/queries";
+import { getResend } from "@/lib/email/client";
+import { renderEmail, type RenderedEmail } from "@/lib/email/render";
+import { bookingConfirmation, leadConfirmation } from "@/lib/email/templates";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import { format } from "@/lib/i18n/format";
+import { isSuspicious } from "@/lib/spam";
+import type { ConfirmationStatus, LeadInput } from "./store";
+
+// =============================================================================
+// Family Confirmation
+// Acknowledgement sent to whoever submitted the contact form, in the language
+// of the page they used, with next steps for the service they asked about.
+// Trial lesson requests get their own email with a provisional calendar event.
+// =============================================================================
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Acknowledge a lead to the family. Obvious spam is suppressed, and failures
+ * are logged rather than retried: the club follows up with every lead anyway.
+ */
+export async function sendLeadConfirmation(
+  lead: LeadInput & { id: string }
+): Promise<ConfirmationStatus> {
+  if (isSuspicious(lead.spam)) {
+    console.warn(`[Leads] Confirmation for ${lead.id} suppressed: ${lead.spam?.reasons.join(", ")}`);
+    return "suppressed";
+  }
+
+  try {
+    const [service, settings] = await Promise.all([
+      lead.serviceSlug ? getServiceBySlug(lead.serviceSlug, false, lead.locale) : null,
+      getSiteSettings(false, lead.locale),
+    ]);
+    const { booking } = lead;
+    let email: RenderedEmail;
+    let attachments: { filename: string; content: string; contentType: string }[] | undefined;
+
+    if (booking) {
+      const t = getDictionary(lead.locale).bookingEmail;
+      const calendar = bookingCalendar({
+        uid: `${lead.id}@miciicampioni.ro`,
+        title: format(t.eventTitle, { service: service?.title ?? lead.service ?? "" }),
+        description: t.eventDescription,
+        location: settings?.address,
+        booking,
+      });
+
+      email = renderEmail(bookingConfirmation, { lead: { ...lead, booking }, service, settings });
+      attachments = [
+        {
+          filename: "programare.ics",
+          contentType: "text/calendar; charset=utf-8; method=PUBLISH",
+          // Resend expects string content base64-encoded
+          content: Buffer.from(calendar).toString("base64"),
+        },
+      ];
+    } else {
+      email = renderEmail(leadConfirmation, { lead, service, settings });
+    }
+
+    const { subject, html, text } = email;
+    const from = process.env.CONTACT_EMAIL_FROM || "noreply@launchinto.space";
+
+    const { error } = await getResend().emails.send({
+      from: `Micii Campioni <${from}>`,
+      to: lead.email,
+      replyTo: settings?.email || process.env.CONTACT_EMAIL_TO || "info@miciicampioni.ro",
+      subject,
+      html,
+      text,
+      attachments,
+    }, {
+      idempotencyKey: `lead-confirmation/${lead.id}`,
+    });
+
+    if (error) throw new Error(`${error.name}: ${error.message}`);
+    return "sent";
+  } catch (error) {
+    console.error(`[Leads] Confirmation for ${lead.id} failed:`, error);
+    return "failed";
+  }
+}
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import type { Dictionary } from "@/lib/i18n/dictionary";
+import { format } from "@/lib/i18n/format";
+
+// =============================================================================
+// Contact Form Schema
+// Shared by ContactForm and /api/contact, so the browser and the server agree
+// on what a valid submission is. Messages come from the `contactApi`
+// dictionary section of the visitor's language.
+// =============================================================================
+
+export const CONTACT_LIMITS = {
+  name: 200,
+  email: 254,
+  phone: 30,
+  message: 5000,
+} as const;
+
+// Digits with optional spaces, dots, dashes and brackets, and an optional
+// leading +: Romanian numbers (0722 123 456) and international ones alike
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const PHONE_DIGITS = { min: 9, max: 15 };
+
+type Messages = Dictionary["contactApi"];
+
+function isPhone(value: string): boolean {
+  const digits = value.replace(/\D/g, "").length;
+  return PHONE_PATTERN.test(value) && digits >= PHONE_DIGITS.min && digits <= PHONE_DIGITS.max;
+}
+
+export function contactSchema(t: Messages) {
+  return z.object({
+    name: z
+      .string({ error: t.nameRequired })
+      .trim()
+      .min(1, t.nameRequired)
+      .max(CONTACT_LIMITS.name, format(t.nameTooLong, { max: CONTACT_LIMITS.name })),
+    email: z
+      .string({ error: t.emailRequired })
+      .trim()
+      .min(1, t.emailRequired)
+      .max(CONTACT_LIMITS.email, format(t.emailTooLong, { max: CONTACT_LIMITS.email }))
+      .regex(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, t.emailInvalid),
+    phone: z
+      .string({ error: t.phoneInvalid })
+      .trim()
+      .max(CONTACT_LIMITS.phone, format(t.phoneTooLong, { max: CONTACT_LIMITS.phone }))
+      .refine((value) => !value || isPhone(value), t.phoneInvalid)
+      .optional(),
+    service: z.string({ error: t.serviceInvalid }).optional(),
+    message: z
+      .string({ error: t.messageRequired })
+      .trim()
+      .min(1, t.messageRequired)
+      .max(CONTACT_LIMITS.message, format(t.messageTooLong, { max: CONTACT_LIMITS.message })),
+  });
+}
+
+export type ContactFields = z.infer<ReturnType<typeof contactSchema>>;
+
+/** Field errors as returned by the API: the first message per field. */
+export type ContactFieldErrors = Partial<Record<keyof ContactFields, string>>;
+
+export function contactFieldErrors(error: z.ZodError<ContactFields>): ContactFieldErrors {
+  const errors: ContactFieldErrors = {};
+  for (const issue of error.issues) {
+    const field = issue.path[0] as keyof ContactFields;
+    errors[field] ??= issue.message;
+  }
+  return errors;
+}
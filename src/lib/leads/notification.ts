@@ -0,0 +1,37 @@
+import { getResend } from "@/lib/email/client";
+import { renderEmail } from "@/lib/email/render";
+import { leadNotification } from "@/lib/email/templates";
+import type { LeadInput } from "./store";
+
+// =============================================================================
+// Staff Notification
+// The email sent to the club for every lead.
+// =============================================================================
+
+/**
+ * Email a lead to the club and return the Resend ID. Throws when Resend
+ * rejects the message, so the caller can schedule a retry.
+ */
+export async function sendLeadNotification(lead: LeadInput & { id: string }): Promise<string> {
+  const to = process.env.CONTACT_EMAIL_TO || "info@miciicampioni.ro";
+  const from = process.env.CONTACT_EMAIL_FROM || "noreply@launchinto.space";
+  const { subject, html, text } = renderEmail(leadNotification, lead);
+
+  const { data, error } = await getResend().emails.send({
+    from: `Micii Campioni Website <${from}>`,
+    to,
+    replyTo: lead.email,
+    subject,
+    html,
+    text,
+  }, {
+    // Resend drops repeats of a delivered lead, e.g. if recording it failed
+    idempotencyKey: `lead-notification/${lead.id}`,
+  });
+
+  if (error || !data?.id) {
+    throw new Error(error ? `${error.name}: ${error.message}` : "No email ID returned");
+  }
+
+  return data.id;
+}
@@ -0,0 +1,120 @@
+import { listLeads, updateLead, type Lead } from "./store";
+import { sendLeadNotification } from "./notification";
+
+// =============================================================================
+// Notification Queue
+// Stored leads whose staff email failed are retried with exponential backoff
+// by a background worker, started from src/instrumentation.ts.
+// =============================================================================
+
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 60 * 1000; // 1 minute, then 4, 16, 64 minutes...
+const MAX_DELAY_MS = 12 * 60 * 60 * 1000; // 12 hours
+const WORKER_INTERVAL_MS = 60 * 1000;
+
+// A lead still `new` after this long was orphaned by a crash mid-delivery
+const STALE_NEW_MS = 10 * 60 * 1000;
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 4 ** (attempts - 1), MAX_DELAY_MS);
+}
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Send the staff notification for a lead and record the outcome.
+ * Never throws; returns whether the email went out.
+ */
+export async function deliverLead(lead: Lead): Promise<boolean> {
+  const attempts = lead.attempts + 1;
+
+  try {
+    const emailId = await sendLeadNotification(lead);
+    await updateLead(lead.id, {
+      status: "emailed",
+      attempts,
+      emailId,
+      lastError: undefined,
+      nextAttemptAt: undefined,
+    });
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = attempts >= MAX_ATTEMPTS;
+    console.error(
+      `[Leads] Notification for ${lead.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`,
+      message
+    );
+
+    try {
+      await updateLead(lead.id, {
+        status: "failed",
+        attempts,
+        lastError: message,
+        nextAttemptAt: exhausted
+          ? undefined
+          : new Date(Date.now() + retryDelay(attempts)).toISOString(),
+      });
+    } catch (storeError) {
+      console.error(`[Leads] Could not record failure for ${lead.id}:`, storeError);
+    }
+    return false;
+  }
+}
+
+function isDue(lead: Lead, now: number): boolean {
+  if (lead.status === "failed") {
+    return !!lead.nextAttemptAt && Date.parse(lead.nextAttemptAt) <= now;
+  }
+  return lead.status === "new" && now - Date.parse(lead.updatedAt) >= STALE_NEW_MS;
+}
+
+/**
+ * Retry every lead whose notification is due. Leads are sent one at a time
+ * so an outage is not hammered with a burst of requests.
+ */
+export async function retryPendingLeads(): Promise<{ retried: number; delivered: number }> {
+  const now = Date.now();
+  const due = (await listLeads()).filter((lead) => isDue(lead, now));
+
+  let delivered = 0;
+  for (const lead of due) {
+    if (await deliverLead(lead)) delivered++;
+  }
+
+  if (due.length > 0) {
+    console.log(`[Leads] Retried ${due.length} notification(s), ${delivered} delivered`);
+  }
+  return { retried: due.length, delivered };
+}
+
+// =============================================================================
+// Background Worker
+// =============================================================================
+
+let worker: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Poll for due retries in this process. Idempotent; the timer does not keep
+ * the process alive on shutdown.
+ */
+export function startLeadRetryWorker(): void {
+  if (worker) return;
+
+  worker = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      await retryPendingLeads();
+    } catch (error) {
+      console.error("[Leads] Retry run failed:", error);
+    } finally {
+      running = false;
+    }
+  }, WORKER_INTERVAL_MS);
+  worker.unref();
+}
@@ -0,0 +1,16 @@
+// =============================================================================
+// Sanitizing
+// Helpers shared by the routes that accept leads (contact form, booking).
+// =============================================================================
+
+/** Strip HTML tags from a string. */
+export function stripHtml(str: string): string {
+  return str.replace(/<[^>]*>/g, "");
+}
+
+/** Mask PII for logging — keep first 3 chars, replace the rest. */
+export function redact(value: string | undefined): string {
+  if (!value) return "(empty)";
+  if (value.length <= 3) return "***";
+  return value.slice(0, 3) + "***";
+}
@@ -0,0 +1,104 @@
+import { getServices } from "@/lib/contentful/queries";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionary";
+import type { AgeGroup } from "@/types/contentful";
+
+// =============================================================================
+// Service Options
+// What a contact form enquiry can be about: every service in Contentful, plus
+// general enquiries. Option values are service slugs, followed by the entry ID
+// of an age group for services with several (`inot-copii:4kQx...`), so a new
+// course in the CMS is selectable without a code change, and reordering age
+// groups never changes what an open form submits.
+// =============================================================================
+
+export interface ServiceOption {
+  value: string;
+  label: string;
+}
+
+export interface ServiceOptionGroup {
+  label: string;
+  options: ServiceOption[];
+}
+
+export interface ResolvedService {
+  /** Label for the staff notification, in Romanian */
+  label: string;
+  /** Set for Contentful services, not for general enquiries */
+  slug?: string;
+}
+
+// Enquiries not about a specific service; labelled by the dictionary
+const GENERAL_ENQUIRIES = ["consultatie", "altele"] as const;
+
+type GeneralEnquiry = (typeof GENERAL_ENQUIRIES)[number];
+
+function isGeneralEnquiry(value: string): value is GeneralEnquiry {
+  return (GENERAL_ENQUIRIES as readonly string[]).includes(value);
+}
+
+function ageGroupLabel(group: AgeGroup): string {
+  return `${group.name} (${group.ageRange})`;
+}
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * Options for the service select, in the order of the services page. Services
+ * with several age groups become a group with one option per age group.
+ */
+export async function getServiceOptions(
+  preview = false,
+  locale: Locale = defaultLocale
+): Promise<(ServiceOption | ServiceOptionGroup)[]> {
+  const services = await getServices(false, preview, locale);
+  const t = getDictionary(locale).contactForm;
+
+  const options = services.map((service): ServiceOption | ServiceOptionGroup =>
+    service.ageGroups && service.ageGroups.length > 1
+      ? {
+          label: service.title,
+          options: service.ageGroups.map((group) => ({
+            value: `${service.slug}:${group.id}`,
+            label: ageGroupLabel(group),
+          })),
+        }
+      : { value: service.slug, label: service.title }
+  );
+
+  return [
+    ...options,
+    ...GENERAL_ENQUIRIES.map((value) => ({ value, label: t.generalOptions[value] })),
+  ];
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * The service behind a submitted option value, or null if it does not match
+ * a known service or age group.
+ */
+export async function resolveServiceOption(value: string): Promise<ResolvedService | null> {
+  if (isGeneralEnquiry(value)) {
+    return { label: getDictionary(defaultLocale).contactForm.generalOptions[value] };
+  }
+
+  const [slug, groupId] = value.split(":");
+  const services = await getServices(false, false, defaultLocale);
+  const service = services.find((candidate) => candidate.slug === slug);
+  if (!service) return null;
+
+  if (groupId === undefined) {
+    return { label: service.title, slug };
+  }
+
+  const group = service.ageGroups?.find((candidate) => candidate.id === groupId);
+  if (!group) return null;
+
+  return { label: `${service.title} — ${ageGroupLabel(group)}`, slug };
+}
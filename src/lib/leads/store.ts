@@ -0,0 +1,161 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Attribution } from "@/lib/attribution";
+import type { BookingDetails } from "@/lib/booking/schema";
+import type { Locale } from "@/lib/i18n/config";
+import type { SpamAssessment } from "@/lib/spam";
+
+// =============================================================================
+// Lead Store
+// Every valid contact form submission, persisted to disk as one JSON file per
+// lead before any email is attempted, so a Resend outage never loses a family.
+// =============================================================================
+
+const leadsDir = process.env.LEADS_DIR || join(process.cwd(), ".data", "leads");
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * - `new`: stored, notification not sent yet
+ * - `emailed`: staff notification delivered
+ * - `failed`: notification failed; retried while `nextAttemptAt` is set
+ * - `handled`: followed up by staff
+ * - `quarantined`: scored as spam; kept for review, never emailed
+ */
+export type LeadStatus = "new" | "emailed" | "failed" | "handled" | "quarantined";
+
+export type ConfirmationStatus = "sent" | "suppressed" | "failed";
+
+export interface LeadInput {
+  name: string;
+  email: string;
+  phone?: string;
+  /** Service label, and the slug of the Contentful service it was picked from */
+  service?: string;
+  serviceSlug?: string;
+  message: string;
+  locale: Locale;
+  /** Page the form was submitted from, and UTM parameters of the visit */
+  pageUrl?: string;
+  utm?: Partial<Record<"source" | "medium" | "campaign" | "term" | "content", string>>;
+  /** Facebook click ID (`_fbc` cookie) of the visit */
+  fbc?: string;
+  /** Google Ads click ID of the visit */
+  gclid?: string;
+  /** First and last campaign touch before the lead, from the attribution cookie */
+  attribution?: Attribution;
+  /** Spam score of the submission and what contributed to it */
+  spam?: SpamAssessment;
+  /** Set for trial lesson requests from the booking wizard */
+  booking?: BookingDetails;
+}
+
+/** An internal note added by staff in the lead inbox */
+export interface LeadNote {
+  text: string;
+  author: string;
+  createdAt: string;
+}
+
+export interface Lead extends LeadInput {
+  id: string;
+  status: LeadStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Notification attempts so far */
+  attempts: number;
+  lastError?: string;
+  /** When the next retry is due; unset once retries are exhausted */
+  nextAttemptAt?: string;
+  /** Resend ID of the delivered notification */
+  emailId?: string;
+  /** Outcome of the acknowledgement email to the family */
+  confirmation?: ConfirmationStatus;
+  notes?: LeadNote[];
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+function leadFile(id: string): string {
+  return join(leadsDir, `${id}.json`);
+}
+
+async function writeLead(lead: Lead): Promise<void> {
+  const file = leadFile(lead.id);
+  // Write then rename, so a crash never leaves a truncated record behind
+  await mkdir(leadsDir, { recursive: true });
+  await writeFile(`${file}.tmp`, JSON.stringify(lead, null, 2));
+  await rename(`${file}.tmp`, file);
+}
+
+/**
+ * Store a new lead. Unlike snapshots, errors propagate: the caller has to
+ * know the lead exists only in the request.
+ */
+export async function createLead(
+  input: LeadInput,
+  status: "new" | "quarantined" = "new"
+): Promise<Lead> {
+  const now = new Date().toISOString();
+  const lead: Lead = {
+    ...input,
+    id: randomUUID(),
+    status,
+    createdAt: now,
+    updatedAt: now,
+    attempts: 0,
+  };
+
+  await writeLead(lead);
+  return lead;
+}
+
+export async function getLead(id: string): Promise<Lead | null> {
+  try {
+    return JSON.parse(await readFile(leadFile(id), "utf8")) as Lead;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply changes to a stored lead. `undefined` values clear a field.
+ */
+export async function updateLead(
+  id: string,
+  changes: Partial<Omit<Lead, "id" | "createdAt">>
+): Promise<Lead | null> {
+  const lead = await getLead(id);
+  if (!lead) return null;
+
+  const updated: Lead = { ...lead, ...changes, updatedAt: new Date().toISOString() };
+  await writeLead(updated);
+  return updated;
+}
+
+/**
+ * Stored leads, newest first, optionally filtered by status.
+ */
+export async function listLeads(status?: LeadStatus): Promise<Lead[]> {
+  let files: string[];
+  try {
+    files = await readdir(leadsDir);
+  } catch {
+    return [];
+  }
+
+  const leads = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => getLead(file.slice(0, -".json".length)))
+  );
+
+  return leads
+    .filter((lead): lead is Lead => lead !== null && (!status || lead.status === status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
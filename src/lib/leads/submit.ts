@@ -0,0 +1,300 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse, after } from "next/server";
+import { z } from "zod";
+import { leadCampaign, requestAttribution } from "@/lib/attribution";
+import { hasConsent, requestConsent } from "@/lib/consent";
+import { trackLead, trackSchedule } from "@/lib/facebook/conversions-api";
+import { gaClientId, trackGoogleLead, type GoogleLeadSource } from "@/lib/google/conversions";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+import { assessSubmission, isQuarantined } from "@/lib/spam";
+import { sendLeadConfirmation } from "./confirmation";
+import { sendLeadNotification } from "./notification";
+import { deliverLead } from "./queue";
+import { redact, stripHtml } from "./sanitize";
+import { createLead, updateLead, type Lead, type LeadInput } from "./store";
+
+// =============================================================================
+// Lead Form Submission
+// What the contact form and the booking wizard have in common once their own
+// fields are validated: rate limiting, spam scoring, storing the lead before
+// any email, staff notification, the family's confirmation and the
+// server-side conversions.
+// =============================================================================
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Everything a lead form sends alongside its own fields */
+export interface LeadFormData {
+  website?: string; // honeypot
+  formToken?: string; // anti-spam token from /api/contact/token
+  proof?: number; // proof of work for formToken
+  // UTM, Google Ads and Facebook tracking params
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+  fbc?: string;
+  fbp?: string;
+  gclid?: string;
+  pageUrl?: string;
+  eventId?: string; // For Facebook event deduplication
+}
+
+/** The lead's own fields, as the form validated them; text is sanitized here */
+export type FormLead = Pick<
+  LeadInput,
+  "name" | "email" | "phone" | "service" | "serviceSlug" | "message" | "locale" | "booking"
+>;
+
+export type PreparedLead =
+  | { lead: FormLead; log?: Record<string, unknown> }
+  /** Field errors are keyed by field name, for the form to show inline */
+  | { invalid: { error: string; fields: Record<string, string | undefined> } };
+
+export interface LeadForm<Body extends LeadFormData> {
+  source: GoogleLeadSource;
+  /** Name used in the logs, e.g. "Contact form submission" */
+  label: string;
+  messages: { rateLimited: string; success: string; sendFailed: string; error: string };
+  /** Validate the body and build the lead, or say why it is invalid */
+  prepare: (body: Body) => Promise<PreparedLead>;
+}
+
+// =============================================================================
+// Tracking Fields
+// Stored with the lead and passed on to Facebook and Google, but not checked
+// by the form schemas. Anything that is not a short string (or, for the page,
+// a web URL) is dropped: it must neither fail the submission nor reach the
+// inbox, which renders these values as text.
+// =============================================================================
+
+const TRACKING_LIMITS = { value: 500, url: 2000 } as const;
+
+const trackingValue = z
+  .string()
+  .trim()
+  .max(TRACKING_LIMITS.value)
+  .transform((value) => value || undefined)
+  .optional()
+  .catch(undefined);
+
+const trackingSchema = z
+  .object({
+    utm_source: trackingValue,
+    utm_medium: trackingValue,
+    utm_campaign: trackingValue,
+    utm_term: trackingValue,
+    utm_content: trackingValue,
+    fbc: trackingValue,
+    fbp: trackingValue,
+    gclid: trackingValue,
+    pageUrl: z
+      .url({ protocol: /^https?$/ })
+      .max(TRACKING_LIMITS.url)
+      .optional()
+      .catch(undefined),
+    eventId: trackingValue,
+  })
+  .catch({});
+
+// =============================================================================
+// Submission
+// =============================================================================
+
+/**
+ * Handle a lead form's POST request. The family only sees an error when the
+ * lead could be neither stored nor sent; a stored lead whose email fails is
+ * retried by the queue.
+ */
+export async function submitLeadForm<Body extends LeadFormData>(
+  request: Request,
+  form: LeadForm<Body>
+): Promise<NextResponse> {
+  const { source, label, messages } = form;
+
+  try {
+    // --- Rate limiting ---
+    const ip = clientIp(request);
+    const limit = await rateLimit(request, source);
+
+    if (limit.limited) {
+      return NextResponse.json(
+        { error: messages.rateLimited },
+        { status: 429, headers: limit.headers }
+      );
+    }
+
+    const body: Body = await request.json();
+
+    // --- Validation ---
+    const prepared = await form.prepare(body);
+    if ("invalid" in prepared) {
+      return NextResponse.json(prepared.invalid, { status: 400, headers: limit.headers });
+    }
+
+    // Tracking fields are not part of the form; invalid ones are dropped
+    const tracking = trackingSchema.parse(body);
+
+    // --- Attribution ---
+    // Stored by the browser with marketing consent, from the page the visit began on
+    const attribution = requestAttribution(request);
+
+    // --- Sanitize ---
+    const { lead: fields } = prepared;
+    const sanitized: LeadInput = {
+      ...fields,
+      name: stripHtml(fields.name).trim(),
+      email: stripHtml(fields.email).trim(),
+      phone: fields.phone ? stripHtml(fields.phone).trim() : undefined,
+      message: stripHtml(fields.message).trim(),
+      pageUrl: tracking.pageUrl,
+      // Campaign details of the form's page, or else of where the visit began
+      ...leadCampaign(
+        {
+          utm: {
+            source: tracking.utm_source,
+            medium: tracking.utm_medium,
+            campaign: tracking.utm_campaign,
+            term: tracking.utm_term,
+            content: tracking.utm_content,
+          },
+          fbc: tracking.fbc,
+          gclid: tracking.gclid,
+        },
+        attribution
+      ),
+      attribution: attribution ?? undefined,
+    };
+
+    // --- Spam scoring ---
+    sanitized.spam = await assessSubmission({
+      name: sanitized.name,
+      message: sanitized.message,
+      website: body.website,
+      formToken: body.formToken,
+      proof: body.proof,
+    });
+    const quarantined = isQuarantined(sanitized.spam);
+
+    // --- Persist the lead before any email is attempted ---
+    let lead: Lead | null = null;
+    try {
+      lead = await createLead(sanitized, quarantined ? "quarantined" : "new");
+    } catch (error) {
+      console.error("Lead store error:", error);
+    }
+
+    // Quarantined leads wait for review; the sender sees the usual success
+    // so a bot learns nothing from the response
+    if (quarantined) {
+      console.warn(`${label} quarantined:`, {
+        id: lead?.id,
+        score: sanitized.spam.score,
+        reasons: sanitized.spam.reasons,
+      });
+      return NextResponse.json(
+        { success: true, message: messages.success },
+        { status: 200, headers: limit.headers }
+      );
+    }
+
+    // --- Notify staff via Resend ---
+    if (lead) {
+      await deliverLead(lead);
+    } else {
+      try {
+        await sendLeadNotification({ ...sanitized, id: randomUUID() });
+      } catch (error) {
+        console.error("Resend error:", error);
+        return NextResponse.json(
+          { error: messages.sendFailed },
+          { status: 500, headers: limit.headers }
+        );
+      }
+    }
+
+    // Redacted log — no full PII
+    console.log(`${label}:`, {
+      id: lead?.id,
+      name: redact(sanitized.name),
+      email: redact(sanitized.email),
+      phone: redact(sanitized.phone),
+      service: sanitized.service,
+      ...prepared.log,
+      spamScore: sanitized.spam.score,
+      utm_source: sanitized.utm?.source,
+      utm_campaign: sanitized.utm?.campaign,
+    });
+
+    // Acknowledge the family once the response is sent (non-blocking)
+    after(async () => {
+      const confirmation = await sendLeadConfirmation(lead ?? { ...sanitized, id: randomUUID() });
+      if (lead) {
+        await updateLead(lead.id, { confirmation }).catch((err) => {
+          console.error("Lead store error:", err);
+        });
+      }
+    });
+
+    // Server-side Facebook event, deduplicated with the pixel's through the
+    // shared event ID. It shares hashed contact details with Facebook, so it
+    // needs marketing consent
+    const userAgent = request.headers.get("user-agent") || undefined;
+    const sourceUrl = tracking.pageUrl || process.env.NEXT_PUBLIC_SITE_URL || "https://miciicampioni.ro";
+
+    const consent = requestConsent(request);
+
+    if (hasConsent(consent, "marketing")) {
+      const trackFacebook = source === "booking" ? trackSchedule : trackLead;
+      after(
+        trackFacebook({
+          email: sanitized.email,
+          phone: sanitized.phone,
+          name: sanitized.name,
+          service: sanitized.service,
+          sourceUrl,
+          clientIp: ip !== "unknown" ? ip : undefined,
+          userAgent,
+          fbc: sanitized.fbc,
+          fbp: tracking.fbp,
+          eventId: tracking.eventId,
+        }).catch((err) => {
+          // Log but don't fail the request
+          console.error("Facebook CAPI error:", err);
+        })
+      );
+    }
+
+    // GA4 and Google Ads get the same lead server-side, each within the consent
+    // the visitor gave; trackGoogleLead checks it
+    after(
+      trackGoogleLead({
+        source,
+        consent,
+        email: sanitized.email,
+        phone: sanitized.phone,
+        name: sanitized.name,
+        service: sanitized.service,
+        sourceUrl,
+        clientId: gaClientId(request),
+        gclid: sanitized.gclid,
+        userAgent,
+        eventId: tracking.eventId,
+      })
+    );
+
+    return NextResponse.json(
+      { success: true, message: messages.success },
+      { status: 200, headers: limit.headers }
+    );
+  } catch (error) {
+    console.error(`${label} error:`, error);
+    return NextResponse.json(
+      { error: messages.error },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+export interface TrackingParams {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+  fbc?: string; // Facebook click ID
+  fbp?: string; // Facebook browser ID
+  gclid?: string; // Google Ads click ID
+}
+
+/**
+ * UTM parameters of the current URL, the Google Ads click ID and the Facebook
+ * cookies, for forms to send with a lead. Browser only; call it when submitting.
+ */
+export function readTrackingParams(): TrackingParams {
+  const searchParams = new URLSearchParams(window.location.search);
+  const params: TrackingParams = {};
+
+  // Capture UTM parameters
+  (["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content"] as const).forEach(
+    (key) => {
+      const value = searchParams.get(key);
+      if (value) {
+        params[key] = value;
+      }
+    }
+  );
+
+  // Capture Facebook cookies for Conversions API
+  const cookies = document.cookie.split(";").reduce((acc, cookie) => {
+    const [key, value] = cookie.trim().split("=");
+    acc[key] = value;
+    return acc;
+  }, {} as Record<string, string>);
+
+  if (cookies._fbc) params.fbc = cookies._fbc;
+  if (cookies._fbp) params.fbp = cookies._fbp;
+
+  // The click ID is in the landing page URL, and kept by gtag in _gcl_aw
+  // ("GCL.<timestamp>.<gclid>") once the visitor browses on
+  const gclid = searchParams.get("gclid") || cookies._gcl_aw?.split(".").slice(2).join(".");
+  if (gclid) params.gclid = gclid;
+
+  return params;
+}
@@ -0,0 +1,152 @@
+import { getStore, type WindowCount } from "./stores";
+
+// =============================================================================
+// Rate Limiting
+// Named per-route policies counted per client IP in a shared store, with the
+// standard `RateLimit-*` and `Retry-After` response headers.
+//
+//   const limit = await rateLimit(request, "contact");
+//   if (limit.limited) {
+//     return NextResponse.json({ error }, { status: 429, headers: limit.headers });
+//   }
+//
+// Routes guarded by a secret count only failed attempts instead: they check
+// `rateLimitStatus` first and call `rateLimit` when the secret is wrong.
+// =============================================================================
+
+export interface RateLimitPolicy {
+  /** Requests allowed per window */
+  limit: number;
+  windowMs: number;
+}
+
+export const policies = {
+  // Contact form submissions
+  contact: { limit: 5, windowMs: 15 * 60 * 1000 },
+  // Trial lesson requests from the booking wizard
+  booking: { limit: 5, windowMs: 15 * 60 * 1000 },
+  // Anti-spam tokens, fetched each time the form is shown or sent
+  formToken: { limit: 30, windowMs: 15 * 60 * 1000 },
+  // Wrong secrets sent to the Contentful webhook
+  revalidate: { limit: 10, windowMs: 15 * 60 * 1000 },
+  // Wrong secrets sent to enable draft mode
+  preview: { limit: 10, windowMs: 15 * 60 * 1000 },
+  // Conversion events from the browser; a page view or link click each
+  track: { limit: 60, windowMs: 60 * 1000 },
+  // Staff sign-in attempts, by password or magic link
+  adminLogin: { limit: 10, windowMs: 15 * 60 * 1000 },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type PolicyName = keyof typeof policies;
+
+export interface RateLimitResult {
+  limited: boolean;
+  limit: number;
+  remaining: number;
+  /** When the current window ends (epoch ms) */
+  resetAt: number;
+  /** Headers to send with the response, limited or not */
+  headers: Record<string, string>;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Proxies in front of the app that append to X-Forwarded-For, e.g. 2 for a
+// CDN in front of the host's load balancer
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+
+/**
+ * Client IP from the proxy headers, or "unknown". Clients can send their own
+ * X-Forwarded-For, so only the entry added by the outermost trusted proxy is
+ * used, counting from the right.
+ */
+export function clientIp(request: Pick<Request, "headers">): string {
+  const forwarded = request.headers
+    .get("x-forwarded-for")
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const trusted = forwarded?.[Math.max(0, forwarded.length - TRUSTED_PROXY_HOPS)];
+  return trusted || request.headers.get("x-real-ip") || "unknown";
+}
+
+function key(request: Pick<Request, "headers">, name: PolicyName): string {
+  return `ratelimit:${name}:${clientIp(request)}`;
+}
+
+function rateLimitHeaders(
+  policy: RateLimitPolicy,
+  remaining: number,
+  resetAt: number,
+  limited: boolean
+): Record<string, string> {
+  const reset = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+  return {
+    "RateLimit-Policy": `${policy.limit};w=${policy.windowMs / 1000}`,
+    "RateLimit-Limit": String(policy.limit),
+    "RateLimit-Remaining": String(remaining),
+    "RateLimit-Reset": String(reset),
+    ...(limited && { "Retry-After": String(reset) }),
+  };
+}
+
+function rateLimitResult(policy: RateLimitPolicy, window: WindowCount | null): RateLimitResult {
+  const count = window?.count ?? 0;
+  const resetAt = window?.resetAt ?? Date.now() + policy.windowMs;
+  const limited = count > policy.limit;
+  const remaining = Math.max(0, policy.limit - count);
+
+  return {
+    limited,
+    limit: policy.limit,
+    remaining,
+    resetAt,
+    headers: rateLimitHeaders(policy, remaining, resetAt, limited),
+  };
+}
+
+function failOpen(name: PolicyName, policy: RateLimitPolicy, error: unknown): RateLimitResult {
+  console.error(`[RateLimit] Store error for ${name}, allowing request:`, error);
+  return { limited: false, limit: policy.limit, remaining: policy.limit, resetAt: 0, headers: {} };
+}
+
+// =============================================================================
+// Rate Limit
+// =============================================================================
+
+/**
+ * Count a request against a policy. If the store is unreachable the request
+ * is let through: an outage must not take the routes down with it. Server
+ * actions pass `{ headers: await headers() }`.
+ */
+export async function rateLimit(
+  request: Pick<Request, "headers">,
+  name: PolicyName
+): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = policies[name];
+
+  try {
+    return rateLimitResult(policy, await getStore().hit(key(request, name), policy.windowMs));
+  } catch (error) {
+    return failOpen(name, policy, error);
+  }
+}
+
+/**
+ * Whether the client is already over a policy's limit, without counting this
+ * request. Fails open like `rateLimit`.
+ */
+export async function rateLimitStatus(
+  request: Pick<Request, "headers">,
+  name: PolicyName
+): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = policies[name];
+
+  try {
+    return rateLimitResult(policy, await getStore().peek(key(request, name)));
+  } catch (error) {
+    return failOpen(name, policy, error);
+  }
+}
@@ -0,0 +1,183 @@
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+import type { RateLimitStore, WindowCount } from "./stores";
+
+// =============================================================================
+// Redis Store
+// Speaks the Redis protocol (RESP) directly over a short-lived connection, so
+// any compatible server works (Redis, Valkey, KeyDB, Dragonfly...) without a
+// client dependency. URL format: redis[s]://[[user]:password@]host[:port][/db]
+// =============================================================================
+
+const TIMEOUT_MS = 2000;
+
+// Increment the window counter, starting its expiry on the first hit
+const HIT_SCRIPT = `
+local count = redis.call("INCR", KEYS[1])
+if count == 1 then redis.call("PEXPIRE", KEYS[1], ARGV[1]) end
+return { count, redis.call("PTTL", KEYS[1]) }
+`;
+
+// Read the window counter, or nil if the key has no open window
+const PEEK_SCRIPT = `
+local count = redis.call("GET", KEYS[1])
+if not count then return nil end
+return { tonumber(count), redis.call("PTTL", KEYS[1]) }
+`;
+
+type Reply = string | number | null | Reply[];
+
+class RedisError extends Error {
+  name = "RedisError";
+}
+
+// =============================================================================
+// Protocol
+// =============================================================================
+
+function encode(args: (string | number)[]): string {
+  return `*${args.length}\r\n${args
+    .map((arg) => `$${Buffer.byteLength(String(arg))}\r\n${arg}\r\n`)
+    .join("")}`;
+}
+
+/**
+ * Parse one reply from `buffer` at `offset`. Returns null until the buffer
+ * holds the complete reply.
+ */
+function parse(buffer: Buffer, offset = 0): { reply: Reply; next: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { reply: line, next };
+    case "-":
+      throw new RedisError(line);
+    case ":":
+      return { reply: Number(line), next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) return { reply: null, next };
+      if (buffer.length < next + length + 2) return null;
+      return { reply: buffer.toString("utf8", next, next + length), next: next + length + 2 };
+    }
+    case "*": {
+      const length = Number(line);
+      if (length === -1) return { reply: null, next };
+      const items: Reply[] = [];
+      let cursor = next;
+      for (let i = 0; i < length; i++) {
+        const item = parse(buffer, cursor);
+        if (!item) return null;
+        items.push(item.reply);
+        cursor = item.next;
+      }
+      return { reply: items, next: cursor };
+    }
+    default:
+      throw new RedisError(`Unexpected reply type "${type}"`);
+  }
+}
+
+/**
+ * Open a connection, run `commands` in order and resolve with the reply of
+ * the last one.
+ */
+function send(url: URL, commands: (string | number)[][]): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const port = Number(url.port) || 6379;
+    const socket: Socket =
+      url.protocol === "rediss:"
+        ? connectTls({ host: url.hostname, port, servername: url.hostname })
+        : connectTcp({ host: url.hostname, port });
+
+    let buffer = Buffer.alloc(0);
+    let replies = 0;
+
+    const fail = (error: Error) => {
+      socket.destroy();
+      reject(error);
+    };
+
+    socket.setTimeout(TIMEOUT_MS, () => fail(new RedisError("Connection timed out")));
+    socket.on("error", fail);
+    // A server that hangs up without replying; ignored once resolved
+    socket.on("end", () => fail(new RedisError("Connection closed before the reply")));
+    socket.on("close", () => fail(new RedisError("Connection closed before the reply")));
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        let parsed;
+        while ((parsed = parse(buffer))) {
+          buffer = buffer.subarray(parsed.next);
+          if (++replies === commands.length) {
+            socket.end();
+            resolve(parsed.reply);
+            return;
+          }
+        }
+      } catch (error) {
+        fail(error as Error);
+      }
+    });
+
+    socket.write(commands.map(encode).join(""));
+  });
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+export class RedisStore implements RateLimitStore {
+  private url: URL;
+
+  constructor(url: string) {
+    this.url = new URL(url);
+  }
+
+  async hit(key: string, windowMs: number): Promise<WindowCount> {
+    const reply = await this.eval(HIT_SCRIPT, key, windowMs);
+    if (!Array.isArray(reply)) {
+      throw new RedisError(`Unexpected reply ${JSON.stringify(reply)}`);
+    }
+
+    const [count, ttl] = reply as number[];
+    return { count, resetAt: Date.now() + (ttl > 0 ? ttl : windowMs) };
+  }
+
+  async peek(key: string): Promise<WindowCount | null> {
+    const reply = await this.eval(PEEK_SCRIPT, key);
+    if (reply === null) return null;
+    if (!Array.isArray(reply)) {
+      throw new RedisError(`Unexpected reply ${JSON.stringify(reply)}`);
+    }
+
+    const [count, ttl] = reply as number[];
+    return ttl > 0 ? { count, resetAt: Date.now() + ttl } : null;
+  }
+
+  /** Run a script on one key, after signing in and selecting the database. */
+  private eval(script: string, key: string, ...args: (string | number)[]): Promise<Reply> {
+    const { username, password, pathname } = this.url;
+    const db = pathname.slice(1);
+
+    const commands: (string | number)[][] = [];
+    if (password) {
+      commands.push(
+        username
+          ? ["AUTH", decodeURIComponent(username), decodeURIComponent(password)]
+          : ["AUTH", decodeURIComponent(password)]
+      );
+    }
+    if (db) commands.push(["SELECT", db]);
+    commands.push(["EVAL", script, 1, key, ...args]);
+
+    return send(this.url, commands);
+  }
+}
@@ -0,0 +1,155 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { RedisStore } from "./redis";
+
+// =============================================================================
+// Rate Limit Stores
+// Fixed-window hit counters. The store is picked with RATE_LIMIT_STORE:
+// - memory (default): per process, reset on every deploy
+// - file: shared by the processes of one host, survives restarts
+// - redis: shared by every instance; any server speaking the Redis protocol
+// =============================================================================
+
+export interface WindowCount {
+  /** Hits in the current window, including this one */
+  count: number;
+  /** When the current window ends (epoch ms) */
+  resetAt: number;
+}
+
+export interface RateLimitStore {
+  /** Count a hit for `key` and return the state of its current window. */
+  hit(key: string, windowMs: number): Promise<WindowCount>;
+  /** The state of the current window for `key` without counting, or null if none is open. */
+  peek(key: string): Promise<WindowCount | null>;
+}
+
+// =============================================================================
+// Memory
+// =============================================================================
+
+export class MemoryStore implements RateLimitStore {
+  private windows = new Map<string, WindowCount>();
+
+  async hit(key: string, windowMs: number): Promise<WindowCount> {
+    const now = Date.now();
+    let window = this.windows.get(key);
+
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+
+    // Evict expired windows to prevent unbounded growth
+    if (this.windows.size > 1000) {
+      for (const [k, w] of this.windows) {
+        if (w.resetAt <= now) this.windows.delete(k);
+      }
+    }
+
+    return { ...window };
+  }
+
+  async peek(key: string): Promise<WindowCount | null> {
+    const window = this.windows.get(key);
+    return window && window.resetAt > Date.now() ? { ...window } : null;
+  }
+}
+
+// =============================================================================
+// File
+// =============================================================================
+
+/**
+ * One small JSON file per key. Hits within a process are applied one at a
+ * time per key; concurrent hits from several processes can occasionally
+ * undercount, which is acceptable for abuse protection.
+ */
+export class FileStore implements RateLimitStore {
+  /** The last pending update of each file */
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(private dir: string) {}
+
+  hit(key: string, windowMs: number): Promise<WindowCount> {
+    const file = this.file(key);
+
+    // Chain onto the previous update, so parallel requests don't read the
+    // same count and write it back once
+    const update = (this.queues.get(file) ?? Promise.resolve()).then(() =>
+      this.update(file, windowMs)
+    );
+    const settled = update.catch(() => {});
+    this.queues.set(file, settled);
+    settled.then(() => {
+      if (this.queues.get(file) === settled) this.queues.delete(file);
+    });
+
+    return update;
+  }
+
+  async peek(key: string): Promise<WindowCount | null> {
+    const window = await this.read(this.file(key));
+    return window && window.resetAt > Date.now() ? window : null;
+  }
+
+  private file(key: string): string {
+    return join(this.dir, `${createHash("sha1").update(key).digest("hex")}.json`);
+  }
+
+  private async read(file: string): Promise<WindowCount | null> {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as WindowCount;
+    } catch {
+      // No hit yet, or an unreadable file
+      return null;
+    }
+  }
+
+  private async update(file: string, windowMs: number): Promise<WindowCount> {
+    const now = Date.now();
+
+    // A missing or expired window starts a new one
+    let window = await this.read(file);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+    }
+    window.count++;
+
+    // Write then rename, so a crash never leaves a truncated file behind
+    await mkdir(this.dir, { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(window));
+    await rename(tmp, file);
+
+    return window;
+  }
+}
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+function createStore(): RateLimitStore {
+  switch (process.env.RATE_LIMIT_STORE) {
+    case "file":
+      return new FileStore(
+        process.env.RATE_LIMIT_DIR || join(process.cwd(), ".data", "rate-limit")
+      );
+    case "redis":
+      if (process.env.REDIS_URL) return new RedisStore(process.env.REDIS_URL);
+      console.warn("[RateLimit] RATE_LIMIT_STORE=redis but REDIS_URL is not set, using memory");
+      return new MemoryStore();
+    default:
+      return new MemoryStore();
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export function getStore(): RateLimitStore {
+  store ??= createStore();
+  return store;
+}
@@ -0,0 +1,64 @@
+import type { SpamSignal } from "./index";
+
+// =============================================================================
+// Content Heuristics
+// What the submission says. None of these is proof on its own: a family may
+// paste a few links, or write in Ukrainian, so each only adds to the score.
+// =============================================================================
+
+const LINK_PATTERN = /https?:\/\/|www\./gi;
+const MAX_MESSAGE_LINKS = 2;
+
+// Letters outside the Latin script the club's families write in
+const FOREIGN_SCRIPT_PATTERN =
+  /[\p{Script=Cyrillic}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const MIN_LETTERS = 10;
+
+// Matched as whole words, case-insensitively
+const SPAM_PHRASES = [
+  "seo",
+  "backlinks?",
+  "guest posts?",
+  "first page of google",
+  "rank(ing)? your website",
+  "increase your (traffic|sales)",
+  "web design services",
+  "lead generation",
+  "crypto(currency)?",
+  "bitcoin",
+  "forex",
+  "casino",
+  "viagra",
+  "cialis",
+  "investment opportunity",
+  "loan offer",
+];
+const SPAM_PHRASE_PATTERN = new RegExp(`\\b(${SPAM_PHRASES.join("|")})\\b`, "gi");
+
+export function contentSignals(input: { name: string; message: string }): SpamSignal[] {
+  const signals: SpamSignal[] = [];
+
+  if (input.name.match(LINK_PATTERN)) {
+    signals.push({ reason: "link in name", score: 3 });
+  }
+
+  const links = input.message.match(LINK_PATTERN)?.length ?? 0;
+  if (links > MAX_MESSAGE_LINKS) {
+    signals.push({ reason: `${links} links in message`, score: 3 });
+  }
+
+  const letters = input.message.match(/\p{L}/gu)?.length ?? 0;
+  const foreign = input.message.match(FOREIGN_SCRIPT_PATTERN)?.length ?? 0;
+  if (letters >= MIN_LETTERS && foreign / letters > 0.9) {
+    signals.push({ reason: "message in Cyrillic or CJK script only", score: 3 });
+  }
+
+  const phrases = new Set(
+    `${input.name} ${input.message}`.match(SPAM_PHRASE_PATTERN)?.map((p) => p.toLowerCase())
+  );
+  for (const phrase of phrases) {
+    signals.push({ reason: `spam phrase "${phrase}"`, score: 2 });
+  }
+
+  return signals;
+}
@@ -0,0 +1,49 @@
+// =============================================================================
+// Proof of Work
+// The form has to find a counter whose SHA-256 hash, together with its form
+// token, starts with `difficulty` zero bits: around a second of background
+// work for a visitor, but a real cost for a bot posting in bulk. Uses Web
+// Crypto, so the same code solves in the browser and verifies on the server.
+// =============================================================================
+
+async function digest(challenge: string, counter: number): Promise<Uint8Array> {
+  const data = new TextEncoder().encode(`${challenge}:${counter}`);
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte !== 0) return bits + Math.clz32(byte) - 24;
+    bits += 8;
+  }
+  return bits;
+}
+
+/**
+ * Find the first counter that solves `challenge`. Stops with the signal's
+ * reason once `signal` is aborted.
+ */
+export async function solveChallenge(
+  challenge: string,
+  difficulty: number,
+  signal?: AbortSignal
+): Promise<number> {
+  for (let counter = 0; ; counter++) {
+    signal?.throwIfAborted();
+    if (leadingZeroBits(await digest(challenge, counter)) >= difficulty) {
+      return counter;
+    }
+  }
+}
+
+export async function verifySolution(
+  challenge: string,
+  difficulty: number,
+  counter: unknown
+): Promise<boolean> {
+  if (typeof counter !== "number" || !Number.isSafeInteger(counter) || counter < 0) {
+    return false;
+  }
+  return leadingZeroBits(await digest(challenge, counter)) >= difficulty;
+}
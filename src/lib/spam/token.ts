@@ -0,0 +1,67 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// =============================================================================
+// Form Tokens
+// Signed and time-stamped tokens handed to the contact form before it is
+// filled in. A token proves the submission came through the form, tells how
+// long the visitor took, and doubles as the proof-of-work challenge.
+// Format: <issuedAt>.<nonce>.<difficulty>.<signature>
+// =============================================================================
+
+// Leading zero bits the proof of work needs; each extra bit doubles the work
+export const POW_DIFFICULTY = 14;
+
+export interface IssuedToken {
+  token: string;
+  difficulty: number;
+}
+
+export interface FormToken {
+  /** Epoch ms */
+  issuedAt: number;
+  /** Unique per token, to detect replays */
+  nonce: string;
+  difficulty: number;
+}
+
+let fallbackSecret: string | null = null;
+
+/**
+ * FORM_TOKEN_SECRET, which every instance must share. Without it tokens are
+ * signed with a per-process secret, fine for a single server in development.
+ */
+function secret(): string {
+  if (process.env.FORM_TOKEN_SECRET) return process.env.FORM_TOKEN_SECRET;
+  if (!fallbackSecret) {
+    console.warn("[Spam] FORM_TOKEN_SECRET is not set, using a per-process secret");
+    fallbackSecret = randomBytes(32).toString("hex");
+  }
+  return fallbackSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", secret()).update(payload).digest("base64url");
+}
+
+export function issueFormToken(): IssuedToken {
+  const payload = `${Date.now()}.${randomBytes(12).toString("base64url")}.${POW_DIFFICULTY}`;
+  return { token: `${payload}.${sign(payload)}`, difficulty: POW_DIFFICULTY };
+}
+
+/**
+ * The contents of a token, or null if it is malformed or was not signed by
+ * this site.
+ */
+export function readFormToken(token: string): FormToken | null {
+  const parts = token.split(".");
+  if (parts.length !== 4) return null;
+
+  const [issuedAt, nonce, difficulty, signature] = parts;
+  const expected = Buffer.from(sign(`${issuedAt}.${nonce}.${difficulty}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  return { issuedAt: Number(issuedAt), nonce, difficulty: Number(difficulty) };
+}
@@ -0,0 +1,9 @@
+/**
+ * wa.me link for a Romanian phone number as stored in Site Settings,
+ * optionally prefilling the first message.
+ */
+export function whatsAppUrl(phone: string, text?: string): string {
+  const cleanPhone = phone.replace(/[\s\-()]/g, "");
+  const fullPhone = cleanPhone.startsWith("+") ? cleanPhone : `+40${cleanPhone.replace(/^0+/, "")}`;
+  return `https://wa.me/${fullPhone}${text ? `?text=${encodeURIComponent(text)}` : ""}`;
+}
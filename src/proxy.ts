@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { delocalizePath, localizePath } from "@/lib/i18n/routing";
+
+/**
+ * Locale routing
+ *
+ * Public URLs carry the locale only when it is not Romanian (/en/services/...).
+ * Requests are rewritten to the internal route under src/app/[locale]
+ * (/en/servicii/...), and non-canonical spellings such as /ro/contact or
+ * /en/servicii are redirected to the canonical public path.
+ */
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const { locale, path } = delocalizePath(pathname);
+
+  // The staff area is not localized
+  if (pathname === "/admin" || pathname.startsWith("/admin/")) {
+    return NextResponse.next();
+  }
+
+  // Generated metadata images already point at the internal route
+  if (pathname.split("/").pop()?.startsWith("opengraph-image")) {
+    return NextResponse.next();
+  }
+
+  const canonical = localizePath(path, locale);
+  if (canonical !== pathname) {
+    return NextResponse.redirect(new URL(`${canonical}${search}`, request.url), 308);
+  }
+
+  const internal = new URL(`/${locale}${path === "/" ? "" : path}${search}`, request.url);
+  return NextResponse.rewrite(internal);
+}
+
+export const config = {
+  // Everything except API routes, dev tools, Next.js internals and files with an extension
+  matcher: ["/((?!api|dev/|_next|.*\\..*).*)"],
+};
@@ -0,0 +1,372 @@
+// This file is generated by scripts/generate-contentful-types.ts from
+// contentful/content-model.json. Do not edit it by hand: update the model
+// and run `npm run generate:types`.
+
+import type { Document } from "@contentful/rich-text-types";
+import type { Asset, Entry, EntrySkeletonType } from "contentful";
+import type { NavigationItem } from "./contentful";
+
+// =============================================================================
+// Site Settings
+// =============================================================================
+
+export interface SiteSettingsSkeleton extends EntrySkeletonType {
+  contentTypeId: "siteSettings";
+  fields: {
+    internalName: string;
+    siteName: string;
+    tagLine?: string;
+    logo: Asset;
+    logoWhite?: Asset;
+    favicon?: Asset;
+    anniversaryText?: string;
+    showAnniversaryBanner: boolean;
+    phoneNumber: string;
+    emailAddress: string;
+    address: string;
+    location?: { lat: number; lon: number };
+    facebookUrl?: string;
+    twitterUrl?: string;
+    instagramUrl?: string;
+    scheduleWeekdays?: string;
+    scheduleSaturday?: string;
+    scheduleSunday?: string;
+    footerCopyright?: string;
+    defaultMetaDescription?: string;
+  };
+}
+
+// =============================================================================
+// Navigation
+// =============================================================================
+
+export type NavigationLocation = "header" | "footer";
+
+export interface NavigationSkeleton extends EntrySkeletonType {
+  contentTypeId: "navigation";
+  fields: {
+    internalName: string;
+    location: NavigationLocation;
+    items: NavigationItem[];
+  };
+}
+
+// =============================================================================
+// Carousel Slide
+// =============================================================================
+
+export interface CarouselSlideSkeleton extends EntrySkeletonType {
+  contentTypeId: "carouselSlide";
+  fields: {
+    internalName: string;
+    badge?: string;
+    title: string;
+    subtitle?: string;
+    backgroundImage: Asset;
+    ctaText?: string;
+    ctaLink?: string;
+    order: number;
+    active: boolean;
+  };
+}
+
+// =============================================================================
+// Testimonial
+// =============================================================================
+
+export interface TestimonialSkeleton extends EntrySkeletonType {
+  contentTypeId: "testimonial";
+  fields: {
+    authorName: string;
+    authorTitle?: string;
+    quote: string;
+    photo?: Asset;
+    featured: boolean;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Team Member
+// =============================================================================
+
+export interface TeamMemberSkeleton extends EntrySkeletonType {
+  contentTypeId: "teamMember";
+  fields: {
+    name: string;
+    role: string;
+    bio?: string;
+    shortBio?: string;
+    photo?: Asset;
+    certifications?: string[];
+    isFounder: boolean;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Widget
+// =============================================================================
+
+export type WidgetType = "info" | "highlight" | "cta" | "contact";
+
+export interface WidgetSkeleton extends EntrySkeletonType {
+  contentTypeId: "widget";
+  fields: {
+    internalName: string;
+    title: string;
+    icon?: Asset;
+    content?: string;
+    widgetType: WidgetType;
+    ctaText?: string;
+    ctaLink?: string;
+  };
+}
+
+// =============================================================================
+// Page
+// =============================================================================
+
+export interface PageSkeleton extends EntrySkeletonType {
+  contentTypeId: "page";
+  fields: {
+    title: string;
+    slug: string;
+    metaTitle?: string;
+    metaDescription?: string;
+    heroImage?: Asset;
+    heroImageAlt?: string;
+    content: Document;
+    sidebarWidgets?: Entry<WidgetSkeleton>[];
+    parentPage?: Entry<PageSkeleton>;
+    showInSitemap: boolean;
+    publishedAt?: string;
+  };
+}
+
+// =============================================================================
+// Service Tab
+// =============================================================================
+
+export interface ServiceTabSkeleton extends EntrySkeletonType {
+  contentTypeId: "serviceTab";
+  fields: {
+    title: string;
+    content: string;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Age Group
+// =============================================================================
+
+export interface AgeGroupSkeleton extends EntrySkeletonType {
+  contentTypeId: "ageGroup";
+  fields: {
+    name: string;
+    ageRange: string;
+    duration?: string;
+    description?: string;
+    psychologicalDevelopment?: string;
+    objectives?: string;
+    icon?: Asset;
+    color?: string;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+export interface ServiceSkeleton extends EntrySkeletonType {
+  contentTypeId: "service";
+  fields: {
+    title: string;
+    slug: string;
+    shortDescription: string;
+    icon?: Asset;
+    heroImage?: Asset;
+    content: Document;
+    nextSteps?: string;
+    metaTitle?: string;
+    metaDescription?: string;
+    tabs?: Entry<ServiceTabSkeleton>[];
+    ageGroups?: Entry<AgeGroupSkeleton>[];
+    sidebarWidgets?: Entry<WidgetSkeleton>[];
+    relatedServices?: Entry<ServiceSkeleton>[];
+    order: number;
+    featured: boolean;
+  };
+}
+
+// =============================================================================
+// Course Module
+// =============================================================================
+
+export interface CourseModuleSkeleton extends EntrySkeletonType {
+  contentTypeId: "courseModule";
+  fields: {
+    title: string;
+    subtitle?: string;
+    sessions?: string;
+    instructor?: Entry<TeamMemberSkeleton>;
+    content: string;
+    objectives?: string;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Timeline Event
+// =============================================================================
+
+export interface TimelineEventSkeleton extends EntrySkeletonType {
+  contentTypeId: "timelineEvent";
+  fields: {
+    year: string;
+    title?: string;
+    description: string;
+    image?: Asset;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Conference
+// =============================================================================
+
+export interface ConferenceSkeleton extends EntrySkeletonType {
+  contentTypeId: "conference";
+  fields: {
+    title: string;
+    year: string;
+    location?: string;
+    description?: string;
+    isInternational: boolean;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Project
+// =============================================================================
+
+export type ProjectStatus = "active" | "completed" | "upcoming";
+
+export interface ProjectSkeleton extends EntrySkeletonType {
+  contentTypeId: "project";
+  fields: {
+    title: string;
+    slug?: string;
+    description: string;
+    objectives?: string;
+    results?: string;
+    image?: Asset;
+    status: ProjectStatus;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Certificate
+// =============================================================================
+
+export interface CertificateSkeleton extends EntrySkeletonType {
+  contentTypeId: "certificate";
+  fields: {
+    title: string;
+    issuingBody?: string;
+    date?: string;
+    image: Asset;
+    description?: string;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Press Clipping
+// =============================================================================
+
+export interface PressClippingSkeleton extends EntrySkeletonType {
+  contentTypeId: "pressClipping";
+  fields: {
+    title?: string;
+    publication?: string;
+    date?: string;
+    image: Asset;
+    link?: string;
+    excerpt?: string;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Gallery
+// =============================================================================
+
+export interface GallerySkeleton extends EntrySkeletonType {
+  contentTypeId: "gallery";
+  fields: {
+    title: string;
+    slug: string;
+    description?: string;
+    date?: string;
+    coverImage: Asset;
+    images: Asset[];
+    featured: boolean;
+    order: number;
+  };
+}
+
+// =============================================================================
+// FAQ
+// =============================================================================
+
+export type FAQCategory = "general" | "programs" | "safety" | "pricing" | "other";
+
+export interface FAQSkeleton extends EntrySkeletonType {
+  contentTypeId: "faq";
+  fields: {
+    question: string;
+    answer: string;
+    category?: FAQCategory;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Partner
+// =============================================================================
+
+export type PartnerType = "partner" | "sponsor" | "endorsement";
+
+export interface PartnerSkeleton extends EntrySkeletonType {
+  contentTypeId: "partner";
+  fields: {
+    name: string;
+    logo: Asset;
+    website?: string;
+    partnerType: PartnerType;
+    description?: string;
+    active: boolean;
+    order: number;
+  };
+}
+
+// =============================================================================
+// Homepage Content
+// =============================================================================
+
+export interface HomepageContentSkeleton extends EntrySkeletonType {
+  contentTypeId: "homepageContent";
+  fields: {
+    internalName: string;
+    aboutMedia?: Asset;
+    aboutTitle?: string;
+    aboutSubtitle?: string;
+    aboutDescription?: string;
+    aboutFeatures?: string[];
+  };
+}
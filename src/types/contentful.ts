@@ -1,5 +1,15 @@
 import type { Document } from "@contentful/rich-text-types";
-import type { Asset, Entry, EntrySkeletonType } from "contentful";
+import type {
+  FAQCategory,
+  NavigationLocation,
+  PartnerType,
+  ProjectStatus,
+  WidgetType,
+} from "./contentful.generated";
+
+// Entry skeletons and field unions are generated from the content model,
+// see scripts/generate-contentful-types.ts
+export * from "./contentful.generated";
 
 // =============================================================================
 // Base Types
@@ -31,32 +41,6 @@ export type ContentfulLink = {
 // Site Settings
 // =============================================================================
 
-export interface SiteSettingsSkeleton extends EntrySkeletonType {
-  contentTypeId: "siteSettings";
-  fields: {
-    internalName: string;
-    siteName: string;
-    tagLine?: string;
-    logo: Asset;
-    logoWhite?: Asset;
-    favicon?: Asset;
-    anniversaryText?: string;
-    showAnniversaryBanner: boolean;
-    phoneNumber: string;
-    emailAddress: string;
-    address: string;
-    location?: { lat: number; lon: number };
-    facebookUrl?: string;
-    twitterUrl?: string;
-    instagramUrl?: string;
-    scheduleWeekdays?: string;
-    scheduleSaturday?: string;
-    scheduleSunday?: string;
-    footerCopyright?: string;
-    defaultMetaDescription?: string;
-  };
-}
-
 export type SiteSettings = {
   siteName: string;
   tagline?: string;
@@ -89,17 +73,8 @@ export type NavigationItem = {
   children?: NavigationItem[];
 };
 
-export interface NavigationSkeleton extends EntrySkeletonType {
-  contentTypeId: "navigation";
-  fields: {
-    internalName: string;
-    location: "header" | "footer";
-    items: NavigationItem[];
-  };
-}
-
 export type Navigation = {
-  location: "header" | "footer";
+  location: NavigationLocation;
   items: NavigationItem[];
 };
 
@@ -107,21 +82,6 @@ export type Navigation = {
 // Carousel Slide
 // =============================================================================
 
-export interface CarouselSlideSkeleton extends EntrySkeletonType {
-  contentTypeId: "carouselSlide";
-  fields: {
-    internalName: string;
-    badge?: string;
-    title: string;
-    subtitle?: string;
-    backgroundImage: Asset;
-    ctaText?: string;
-    ctaLink?: string;
-    order: number;
-    active: boolean;
-  };
-}
-
 export type CarouselSlide = {
   badge?: string;
   title: string;
@@ -136,18 +96,6 @@ export type CarouselSlide = {
 // Testimonial
 // =============================================================================
 
-export interface TestimonialSkeleton extends EntrySkeletonType {
-  contentTypeId: "testimonial";
-  fields: {
-    authorName: string;
-    authorTitle?: string;
-    quote: string;
-    photo?: Asset;
-    featured: boolean;
-    order: number;
-  };
-}
-
 export type Testimonial = {
   authorName: string;
   authorTitle?: string;
@@ -161,26 +109,12 @@ export type Testimonial = {
 // Team Member
 // =============================================================================
 
-export interface TeamMemberSkeleton extends EntrySkeletonType {
-  contentTypeId: "teamMember";
-  fields: {
-    name: string;
-    role: string;
-    bio?: string; // Markdown
-    shortBio?: string;
-    photo: Asset;
-    certifications?: string[];
-    isFounder: boolean;
-    order: number;
-  };
-}
-
 export type TeamMember = {
   name: string;
   role: string;
   bio?: string; // Markdown
   shortBio?: string;
-  photo: ContentfulImage;
+  photo?: ContentfulImage;
   certifications?: string[];
   isFounder: boolean;
   order: number;
@@ -190,24 +124,11 @@ export type TeamMember = {
 // Widget (Sidebar)
 // =============================================================================
 
-export interface WidgetSkeleton extends EntrySkeletonType {
-  contentTypeId: "widget";
-  fields: {
-    internalName: string;
-    title: string;
-    icon?: Asset;
-    content?: string; // Markdown
-    widgetType: "info" | "highlight" | "cta" | "contact";
-    ctaText?: string;
-    ctaLink?: string;
-  };
-}
-
 export type Widget = {
   title: string;
   icon?: ContentfulImage;
   content?: string; // Markdown
-  widgetType: "info" | "highlight" | "cta" | "contact";
+  widgetType: WidgetType;
   ctaText?: string;
   ctaLink?: string;
 };
@@ -216,23 +137,6 @@ export type Widget = {
 // Page
 // =============================================================================
 
-export interface PageSkeleton extends EntrySkeletonType {
-  contentTypeId: "page";
-  fields: {
-    title: string;
-    slug: string;
-    metaTitle?: string;
-    metaDescription?: string;
-    heroImage?: Asset;
-    heroImageAlt?: string;
-    content: Document;
-    sidebarWidgets?: Entry<WidgetSkeleton>[];
-    parentPage?: Entry<PageSkeleton>;
-    showInSitemap: boolean;
-    publishedAt?: string;
-  };
-}
-
 export type Page = {
   title: string;
   slug: string;
@@ -247,19 +151,13 @@ export type Page = {
   showInSitemap: boolean;
 };
 
+/** Where a page lives in the site tree, without its content. */
+export type PageRef = Pick<Page, "slug" | "parentSlug" | "showInSitemap">;
+
 // =============================================================================
 // Service Tab
 // =============================================================================
 
-export interface ServiceTabSkeleton extends EntrySkeletonType {
-  contentTypeId: "serviceTab";
-  fields: {
-    title: string;
-    content: string; // Markdown
-    order: number;
-  };
-}
-
 export type ServiceTab = {
   title: string;
   content: string; // Markdown
@@ -270,22 +168,8 @@ export type ServiceTab = {
 // Age Group
 // =============================================================================
 
-export interface AgeGroupSkeleton extends EntrySkeletonType {
-  contentTypeId: "ageGroup";
-  fields: {
-    name: string;
-    ageRange: string;
-    duration?: string;
-    description?: string; // Markdown
-    psychologicalDevelopment?: string; // Markdown
-    objectives?: string; // Markdown
-    icon?: Asset;
-    color?: string;
-    order: number;
-  };
-}
-
 export type AgeGroup = {
+  id: string; // Contentful entry ID, the same in every locale
   name: string;
   ageRange: string;
   duration?: string;
@@ -301,26 +185,6 @@ export type AgeGroup = {
 // Service
 // =============================================================================
 
-export interface ServiceSkeleton extends EntrySkeletonType {
-  contentTypeId: "service";
-  fields: {
-    title: string;
-    slug: string;
-    shortDescription: string;
-    icon?: Asset;
-    heroImage?: Asset;
-    content: Document;
-    metaTitle?: string;
-    metaDescription?: string;
-    tabs?: Entry<ServiceTabSkeleton>[];
-    ageGroups?: Entry<AgeGroupSkeleton>[];
-    sidebarWidgets?: Entry<WidgetSkeleton>[];
-    relatedServices?: Entry<ServiceSkeleton>[];
-    order: number;
-    featured: boolean;
-  };
-}
-
 export type Service = {
   title: string;
   slug: string;
@@ -328,6 +192,7 @@ export type Service = {
   icon?: ContentfulImage;
   heroImage?: ContentfulImage;
   content: Document;
+  nextSteps?: string; // One step per line, for the enquiry confirmation email
   metaTitle?: string;
   metaDescription?: string;
   tabs?: ServiceTab[];
@@ -342,19 +207,6 @@ export type Service = {
 // Course Module
 // =============================================================================
 
-export interface CourseModuleSkeleton extends EntrySkeletonType {
-  contentTypeId: "courseModule";
-  fields: {
-    title: string;
-    subtitle?: string;
-    sessions?: string;
-    instructor?: Entry<TeamMemberSkeleton>;
-    content: string; // Markdown
-    objectives?: string; // Markdown
-    order: number;
-  };
-}
-
 export type CourseModule = {
   title: string;
   subtitle?: string;
@@ -369,17 +221,6 @@ export type CourseModule = {
 // Timeline Event
 // =============================================================================
 
-export interface TimelineEventSkeleton extends EntrySkeletonType {
-  contentTypeId: "timelineEvent";
-  fields: {
-    year: string;
-    title?: string;
-    description: string;
-    image?: Asset;
-    order: number;
-  };
-}
-
 export type TimelineEvent = {
   year: string;
   title?: string;
@@ -392,18 +233,6 @@ export type TimelineEvent = {
 // Conference
 // =============================================================================
 
-export interface ConferenceSkeleton extends EntrySkeletonType {
-  contentTypeId: "conference";
-  fields: {
-    title: string;
-    year: string;
-    location?: string;
-    description?: string;
-    isInternational: boolean;
-    order: number;
-  };
-}
-
 export type Conference = {
   title: string;
   year: string;
@@ -417,20 +246,6 @@ export type Conference = {
 // Project
 // =============================================================================
 
-export interface ProjectSkeleton extends EntrySkeletonType {
-  contentTypeId: "project";
-  fields: {
-    title: string;
-    slug?: string;
-    description: string; // Markdown
-    objectives?: string; // Markdown
-    results?: string; // Markdown
-    image?: Asset;
-    status: "active" | "completed" | "upcoming";
-    order: number;
-  };
-}
-
 export type Project = {
   title: string;
   slug?: string;
@@ -438,7 +253,7 @@ export type Project = {
   objectives?: string; // Markdown
   results?: string; // Markdown
   image?: ContentfulImage;
-  status: "active" | "completed" | "upcoming";
+  status: ProjectStatus;
   order: number;
 };
 
@@ -446,18 +261,6 @@ export type Project = {
 // Certificate
 // =============================================================================
 
-export interface CertificateSkeleton extends EntrySkeletonType {
-  contentTypeId: "certificate";
-  fields: {
-    title: string;
-    issuingBody?: string;
-    date?: string;
-    image: Asset;
-    description?: string;
-    order: number;
-  };
-}
-
 export type Certificate = {
   title: string;
   issuingBody?: string;
@@ -471,19 +274,6 @@ export type Certificate = {
 // Press Clipping
 // =============================================================================
 
-export interface PressClippingSkeleton extends EntrySkeletonType {
-  contentTypeId: "pressClipping";
-  fields: {
-    title?: string;
-    publication?: string;
-    date?: string;
-    image: Asset;
-    link?: string;
-    excerpt?: string;
-    order: number;
-  };
-}
-
 export type PressClipping = {
   title?: string;
   publication?: string;
@@ -498,20 +288,6 @@ export type PressClipping = {
 // Gallery
 // =============================================================================
 
-export interface GallerySkeleton extends EntrySkeletonType {
-  contentTypeId: "gallery";
-  fields: {
-    title: string;
-    slug: string;
-    description?: string;
-    date?: string;
-    coverImage: Asset;
-    images: Asset[];
-    featured: boolean;
-    order: number;
-  };
-}
-
 export type Gallery = {
   title: string;
   slug: string;
@@ -527,20 +303,10 @@ export type Gallery = {
 // FAQ
 // =============================================================================
 
-export interface FAQSkeleton extends EntrySkeletonType {
-  contentTypeId: "faq";
-  fields: {
-    question: string;
-    answer: string; // Markdown
-    category?: "general" | "programs" | "safety" | "pricing" | "other";
-    order: number;
-  };
-}
-
 export type FAQ = {
   question: string;
   answer: string; // Markdown
-  category?: "general" | "programs" | "safety" | "pricing" | "other";
+  category?: FAQCategory;
   order: number;
 };
 
@@ -548,24 +314,11 @@ export type FAQ = {
 // Partner
 // =============================================================================
 
-export interface PartnerSkeleton extends EntrySkeletonType {
-  contentTypeId: "partner";
-  fields: {
-    name: string;
-    logo: Asset;
-    website?: string;
-    partnerType: "partner" | "sponsor" | "endorsement";
-    description?: string;
-    active: boolean;
-    order: number;
-  };
-}
-
 export type Partner = {
   name: string;
   logo: ContentfulImage;
   website?: string;
-  partnerType: "partner" | "sponsor" | "endorsement";
+  partnerType: PartnerType;
   description?: string;
   active: boolean;
   order: number;
@@ -575,18 +328,6 @@ export type Partner = {
 // Homepage Content
 // =============================================================================
 
-export interface HomepageContentSkeleton extends EntrySkeletonType {
-  contentTypeId: "homepageContent";
-  fields: {
-    internalName: string;
-    aboutMedia?: Asset;
-    aboutTitle?: string;
-    aboutSubtitle?: string;
-    aboutDescription?: string;
-    aboutFeatures?: string[];
-  };
-}
-
 export type HomepageContent = {
   aboutMedia?: ContentfulMedia;
   aboutTitle?: string;